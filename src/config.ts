@@ -5,33 +5,285 @@
 
 import * as dotenv from 'dotenv';
 import * as fs from 'fs/promises';
-import { Config, Color, AirportMapping, AirportsConfigFile, AirportConfig } from './types';
+import {
+  AdvisoryHazard,
+  Config,
+  Color,
+  AirportMapping,
+  AirportsConfigFile,
+  AirportConfig,
+  ChannelFactors,
+  ChannelOrder,
+  ColorCalibration,
+  ForecastDisplayMode,
+  IssuanceWindow,
+  LedBackend,
+  LedOrder,
+  LedStrip,
+  LayerName,
+  MetarProviderType,
+  PirepIntensity,
+  StaleDisplayMode,
+  TrendAnimation,
+  DisplayModeName,
+  GradientModeName,
+  GradientStop,
+  WeatherAnimation,
+  WeatherPhenomenon
+} from './types';
+import { defaultCachePath } from './services/metarCacheService';
+import { getMetarFetchBudgetMs } from './services/metarService';
+import { defaultLayerControlPath } from './services/compositor';
+import { WEATHER_PHENOMENA } from './utils/weatherPhenomena';
+import { DISPLAY_MODE_NAMES } from './utils/displayModes';
+import { ADVISORY_HAZARDS } from './utils/advisories';
+import { PIREP_INTENSITIES } from './utils/pirepDecoder';
+import { LAYER_NAMES } from './utils/layers';
+import { CHANNEL_ORDERS, LED_ORDERS, fromChannelOrder, hasWhiteChannel } from './utils/channelOrder';
+import { describeStrip, getStripSegments, getTotalLedCount } from './utils/ledStrips';
+import {
+  DEFAULT_LED_PORTS,
+  E131_UNIVERSE_SIZE,
+  LED_BACKENDS,
+  WLED_MAX_RGBW_LEDS,
+  isNetworkBackend
+} from './utils/ledProtocols';
 
 // Load environment variables from .env file
 dotenv.config();
 
 /**
- * Parse a color string in format "r,g,b" to Color object
+ * Parse a color string in format "r,g,b" or "r,g,b,w" to Color object
  * @param colorStr - Color string like "255,0,0"
- * @returns Color object with r, g, b properties
+ * @param order - Channel order of the first three values (COLOR_ORDER)
+ * @returns Color object with r, g, b (and w) properties
  */
-function parseColor(colorStr: string): Color {
+function parseColor(colorStr: string, order: ChannelOrder): Color {
   const parts = colorStr.split(',').map(s => s.trim());
-  if (parts.length !== 3) {
-    throw new Error(`Invalid color format: ${colorStr}. Expected format: "r,g,b"`);
+  if (parts.length !== 3 && parts.length !== 4) {
+    throw new Error(`Invalid color format: ${colorStr}. Expected format: "r,g,b" or "r,g,b,w"`);
   }
   
-  const [r, g, b] = parts.map(Number);
+  const values = parts.map(Number);
   
-  if (isNaN(r) || isNaN(g) || isNaN(b)) {
+  if (values.some(v => isNaN(v))) {
     throw new Error(`Invalid color values: ${colorStr}. All values must be numbers.`);
   }
   
-  if (r < 0 || r > 255 || g < 0 || g > 255 || b < 0 || b > 255) {
+  if (values.some(v => v < 0 || v > 255)) {
     throw new Error(`Color values out of range: ${colorStr}. Values must be 0-255.`);
   }
   
-  return { r, g, b };
+  const [r, g, b, w] = values;
+  return fromChannelOrder(w === undefined ? { r, g, b } : { r, g, b, w }, order);
+}
+
+/**
+ * Get a color from an environment variable
+ * @param key - Variable name
+ * @param defaultValue - Default color, written in RGB order
+ * @param order - Channel order of the variable's value (COLOR_ORDER)
+ * @returns Red, green and blue color
+ */
+function getEnvColor(key: string, defaultValue: string, order: ChannelOrder): Color {
+  const value = process.env[key];
+  return value ? parseColor(value, order) : parseColor(defaultValue, 'RGB');
+}
+
+/**
+ * Parse a gradient string in format "value:r,g,b;value:r,g,b;..."
+ * @param gradientStr - Gradient string like "0:0,0,255;30:0,255,0"
+ * @param name - Setting name for error messages
+ * @param order - Channel order of the colors
+ * @returns Gradient stops sorted by value
+ */
+function parseGradient(gradientStr: string, name: string, order: ChannelOrder): GradientStop[] {
+  const stops = gradientStr
+    .split(';')
+    .map(s => s.trim())
+    .filter(s => s.length > 0)
+    .map(stop => {
+      const [valueStr, colorStr] = stop.split(':');
+      const value = Number(valueStr);
+      if (colorStr === undefined || valueStr.trim() === '' || isNaN(value)) {
+        throw new Error(`Invalid ${name} stop: ${stop}. Expected format: "value:r,g,b"`);
+      }
+      return { value, color: parseColor(colorStr, order) };
+    });
+  
+  if (stops.length < 2) {
+    throw new Error(`${name} needs at least two stops: ${gradientStr}`);
+  }
+  
+  return stops.sort((a, b) => a.value - b.value);
+}
+
+/**
+ * Get a gradient from an environment variable
+ * @param key - Variable name
+ * @param defaultValue - Default gradient, colors written in RGB order
+ * @param order - Channel order of the variable's colors (COLOR_ORDER)
+ * @returns Gradient stops sorted by value
+ */
+function getEnvGradient(key: string, defaultValue: string, order: ChannelOrder): GradientStop[] {
+  const value = process.env[key];
+  return value ? parseGradient(value, key, order) : parseGradient(defaultValue, key, 'RGB');
+}
+
+/**
+ * Parse channel factors in format "r,g,b"
+ * @param factorsStr - Factors string like "1,0.9,0.85"
+ * @param name - Setting name for error messages
+ * @param order - Channel order of the factors (COLOR_ORDER)
+ * @returns Channel factors, each 0-1
+ */
+function parseChannelFactors(factorsStr: string, name: string, order: ChannelOrder): ChannelFactors {
+  const parts = factorsStr.split(',').map(s => s.trim());
+  const [r, g, b] = parts.map(Number);
+  
+  if (parts.length !== 3 || [r, g, b].some(f => isNaN(f) || f < 0 || f > 1)) {
+    throw new Error(`Invalid ${name}: ${factorsStr}. Expected three factors 0-1 like "1,0.9,0.85"`);
+  }
+  
+  return fromChannelOrder({ r, g, b }, order);
+}
+
+/**
+ * Parse per-LED color corrections
+ * Keys are LED indices or ranges ("12" or "12-20"), values channel factors.
+ * @param entries - [LEDs, factors] pairs
+ * @param ledCount - Number of LEDs on the strip
+ * @param name - Setting name for error messages
+ * @param order - Channel order of the factors (COLOR_ORDER)
+ * @returns Factors by LED index
+ */
+function parseLedCorrections(
+  entries: [string, string][],
+  ledCount: number,
+  name: string,
+  order: ChannelOrder
+): Record<number, ChannelFactors> {
+  const corrections: Record<number, ChannelFactors> = {};
+  
+  for (const [leds, factorsStr] of entries) {
+    const match = /^\s*(\d+)\s*(?:-\s*(\d+)\s*)?$/.exec(leds);
+    const first = match ? parseInt(match[1], 10) : NaN;
+    const last = match && match[2] !== undefined ? parseInt(match[2], 10) : first;
+    
+    if (!match || last < first || last >= ledCount) {
+      throw new Error(`Invalid LEDs in ${name}: ${leds}. Expected an index or range within LED_COUNT`);
+    }
+    
+    const factors = parseChannelFactors(factorsStr, name, order);
+    for (let led = first; led <= last; led++) {
+      corrections[led] = factors;
+    }
+  }
+  
+  return corrections;
+}
+
+/**
+ * Load color calibration from environment variables
+ * Per-LED corrections come from LED_CORRECTIONS ("leds:r,g,b;...") and/or a
+ * JSON file named by LED_CORRECTIONS_FILE ({ "leds": "r,g,b" }); the
+ * environment variable wins where both set an LED.
+ * @param ledCount - Number of LEDs on the strip
+ * @param order - Channel order of the settings (COLOR_ORDER)
+ * @returns Color calibration
+ */
+async function loadColorCalibration(ledCount: number, order: ChannelOrder): Promise<ColorCalibration> {
+  const gamma = getEnvNumber('LED_GAMMA', 2.8);
+  if (gamma <= 0) {
+    throw new Error(`LED_GAMMA must be positive: ${gamma}`);
+  }
+  
+  const whiteBalanceColor = getEnvColor('COLOR_WHITE_BALANCE', '255,255,255', order);
+  const whiteBalance = {
+    r: whiteBalanceColor.r / 255,
+    g: whiteBalanceColor.g / 255,
+    b: whiteBalanceColor.b / 255
+  };
+  const channelScale = parseChannelFactors(getEnvString('COLOR_SCALE', '1,1,1'), 'COLOR_SCALE', order);
+  
+  let ledCorrections: Record<number, ChannelFactors> = {};
+  
+  const correctionsPath = process.env.LED_CORRECTIONS_FILE;
+  if (correctionsPath) {
+    const content = await fs.readFile(correctionsPath, 'utf-8');
+    const entries = Object.entries(JSON.parse(content)).map(([leds, factors]) => [
+      leds,
+      Array.isArray(factors) ? factors.join(',') : String(factors)
+    ] as [string, string]);
+    ledCorrections = parseLedCorrections(entries, ledCount, correctionsPath, order);
+  }
+  
+  const correctionsStr = getEnvString('LED_CORRECTIONS', '');
+  const envEntries = correctionsStr
+    .split(';')
+    .map(s => s.trim())
+    .filter(s => s.length > 0)
+    .map(entry => {
+      const separator = entry.indexOf(':');
+      if (separator === -1) {
+        throw new Error(`Invalid LED_CORRECTIONS entry: ${entry}. Expected format: "leds:r,g,b"`);
+      }
+      return [entry.slice(0, separator), entry.slice(separator + 1)] as [string, string];
+    });
+  ledCorrections = {
+    ...ledCorrections,
+    ...parseLedCorrections(envEntries, ledCount, 'LED_CORRECTIONS', order)
+  };
+  
+  return { gamma, whiteBalance, channelScale, ledCorrections };
+}
+
+/**
+ * Parse LED strips from LED_STRIPS format: "pin:count[:order[:brightness]];..."
+ * Strips are chained into one logical index space in the order listed.
+ * @param stripsStr - Strip list
+ * @param defaultOrder - Order for strips that don't give one (LED_ORDER)
+ * @returns LED strips
+ */
+function parseLedStrips(stripsStr: string, defaultOrder: LedOrder): LedStrip[] {
+  const strips = stripsStr
+    .split(';')
+    .map(s => s.trim())
+    .filter(s => s.length > 0)
+    .map(entry => {
+      const [pinStr, countStr, orderStr, brightnessStr] = entry.split(':').map(s => s.trim());
+      const pin = Number(pinStr);
+      const count = Number(countStr);
+      const order = (orderStr || defaultOrder).toUpperCase() as LedOrder;
+      const brightness = brightnessStr ? Number(brightnessStr) : 1;
+  
+      if (!Number.isInteger(pin) || pin < 0 || !Number.isInteger(count) || count <= 0) {
+        throw new Error(`Invalid LED_STRIPS entry: ${entry}. Expected format: "pin:count[:order[:brightness]]"`);
+      }
+      if (!LED_ORDERS.includes(order)) {
+        throw new Error(`Invalid order in LED_STRIPS entry ${entry}. Must be one of ${LED_ORDERS.join(', ')}`);
+      }
+      if (isNaN(brightness) || brightness < 0 || brightness > 1) {
+        throw new Error(`Invalid brightness in LED_STRIPS entry ${entry}. Must be 0-1`);
+      }
+  
+      return { pin, count, order, brightness };
+    });
+  
+  if (strips.length === 0) {
+    throw new Error('LED_STRIPS must list at least one strip');
+  }
+  // The driver has two PWM channels, one strip each
+  if (strips.length > 2) {
+    throw new Error(`LED_STRIPS supports at most 2 strips: ${strips.length}`);
+  }
+  const pins = strips.map(strip => strip.pin);
+  const duplicate = pins.find((pin, i) => pins.indexOf(pin) !== i);
+  if (duplicate !== undefined) {
+    throw new Error(`Duplicate GPIO pin in LED_STRIPS: ${duplicate}`);
+  }
+  
+  return strips;
 }
 
 /**
@@ -64,11 +316,21 @@ async function loadAirportsFromJson(path: string): Promise<AirportMapping[]> {
     .map((a: AirportConfig) => ({
       code: a.code.toUpperCase(),
       led: a.led,
-      name: a.name
+      name: a.name,
+      runways: a.runways,
+      lat: a.lat,
+      lon: a.lon,
+      x: a.x,
+      y: a.y
     }));
   
-  // Validate LED indices
+  // Validate LED indices, runways, positions and the terminal layout
   validateLedMapping(airports);
+  for (const airport of airports) {
+    validateRunways(airport);
+    validatePosition(airport);
+  }
+  validateLayout(airports);
   
   console.log(`Loaded ${airports.length} airports from ${path} (JSON format)`);
   return airports;
@@ -137,6 +399,65 @@ function validateLedMapping(airports: AirportMapping[]): void {
   }
 }
 
+/**
+ * Validate the optional runway list of an airport
+ */
+function validateRunways(airport: AirportMapping): void {
+  if (airport.runways === undefined) {
+    return;
+  }
+  if (!Array.isArray(airport.runways)) {
+    throw new Error(`Runways for ${airport.code} must be a list`);
+  }
+  
+  for (const runway of airport.runways) {
+    if (typeof runway.heading !== 'number' || runway.heading < 0 || runway.heading > 360) {
+      throw new Error(`Invalid runway heading for ${airport.code}: ${runway.heading} (must be 0 to 360)`);
+    }
+    if (runway.length !== undefined && (typeof runway.length !== 'number' || runway.length <= 0)) {
+      throw new Error(`Invalid runway length for ${airport.code}: ${runway.length}`);
+    }
+  }
+}
+
+/**
+ * Validate the optional map position of an airport
+ */
+function validatePosition(airport: AirportMapping): void {
+  if (airport.lat === undefined && airport.lon === undefined) {
+    return;
+  }
+  if (typeof airport.lat !== 'number' || typeof airport.lon !== 'number') {
+    throw new Error(`Position for ${airport.code} needs both lat and lon`);
+  }
+  if (airport.lat < -90 || airport.lat > 90 || airport.lon < -180 || airport.lon > 180) {
+    throw new Error(`Invalid position for ${airport.code}: ${airport.lat}, ${airport.lon}`);
+  }
+}
+
+/**
+ * Validate the optional terminal grid positions
+ */
+function validateLayout(airports: AirportMapping[]): void {
+  const cells = new Map<string, string>();
+  
+  for (const airport of airports) {
+    if (airport.x === undefined && airport.y === undefined) {
+      continue;
+    }
+    const { x, y } = airport;
+    if (!Number.isInteger(x) || !Number.isInteger(y) || (x as number) < 0 || (y as number) < 0) {
+      throw new Error(`Layout for ${airport.code} needs whole, non-negative x and y: ${x}, ${y}`);
+    }
+    
+    const cell = `${x},${y}`;
+    if (cells.has(cell)) {
+      throw new Error(`Layout cell ${cell} assigned to multiple airports: ${cells.get(cell)} and ${airport.code}`);
+    }
+    cells.set(cell, airport.code);
+  }
+}
+
 /**
  * Load airports from various sources with priority
  * Priority: 1. JSON file, 2. Env var, 3. Text file
@@ -206,6 +527,23 @@ function validateTimeFormat(timeStr: string): void {
   }
 }
 
+/**
+ * Parse the METAR issuance window in format "start-end"
+ * @param windowStr - Minutes past the hour, e.g. "51-56"
+ * @returns Issuance window
+ */
+function parseIssuanceWindow(windowStr: string): IssuanceWindow {
+  const match = /^\s*(\d{1,2})\s*-\s*(\d{1,2})\s*$/.exec(windowStr);
+  const start = match ? parseInt(match[1], 10) : NaN;
+  const end = match ? parseInt(match[2], 10) : NaN;
+  
+  if (!match || start > 59 || end > 59 || start > end) {
+    throw new Error(`Invalid METAR_ISSUANCE_WINDOW: ${windowStr}. Expected minutes like "51-56"`);
+  }
+  
+  return { start, end };
+}
+
 /**
  * Load and validate complete configuration
  * @returns Validated Config object
@@ -220,24 +558,123 @@ export async function loadConfig(): Promise<Config> {
   const useMockGpio = getEnvBoolean('USE_MOCK_GPIO', false);
   
   // LED Configuration
-  const ledCount = getEnvNumber('LED_COUNT', 50);
+  const ledBackend = getEnvString('LED_BACKEND', 'gpio').toLowerCase() as LedBackend;
+  if (!LED_BACKENDS.includes(ledBackend)) {
+    throw new Error(`LED_BACKEND must be one of ${LED_BACKENDS.join(', ')}: ${ledBackend}`);
+  }
+  const ledStripsStr = getEnvString('LED_STRIPS', '');
   const ledPin = getEnvNumber('LED_PIN', 18);
   const ledBrightness = getEnvNumber('LED_BRIGHTNESS', 0.5);
   const ledBrightnessDim = getEnvNumber('LED_BRIGHTNESS_DIM', 0.1);
-  const ledOrder = getEnvString('LED_ORDER', 'GRB') as 'RGB' | 'GRB';
+  // APA102 strips take blue, green, red
+  const ledOrder = getEnvString('LED_ORDER', ledBackend === 'apa102' ? 'BGR' : 'GRB').toUpperCase() as LedOrder;
+  const colorOrder = getEnvString('COLOR_ORDER', 'GRB').toUpperCase() as ChannelOrder;
   
   // Validate LED configuration
-  if (ledCount <= 0) {
-    throw new Error(`LED_COUNT must be positive: ${ledCount}`);
-  }
   if (ledBrightness < 0 || ledBrightness > 1) {
     throw new Error(`LED_BRIGHTNESS must be 0-1: ${ledBrightness}`);
   }
   if (ledBrightnessDim < 0 || ledBrightnessDim > 1) {
     throw new Error(`LED_BRIGHTNESS_DIM must be 0-1: ${ledBrightnessDim}`);
   }
-  if (ledOrder !== 'RGB' && ledOrder !== 'GRB') {
-    throw new Error(`LED_ORDER must be RGB or GRB: ${ledOrder}`);
+  if (!LED_ORDERS.includes(ledOrder)) {
+    throw new Error(`LED_ORDER must be one of ${LED_ORDERS.join(', ')}: ${ledOrder}`);
+  }
+  if (!CHANNEL_ORDERS.includes(colorOrder)) {
+    throw new Error(`COLOR_ORDER must be one of ${CHANNEL_ORDERS.join(', ')}: ${colorOrder}`);
+  }
+  
+  // Strips: LED_STRIPS chains several strips, otherwise one strip on LED_PIN
+  let ledCount: number;
+  let ledStrips: LedStrip[];
+  if (ledStripsStr) {
+    ledStrips = parseLedStrips(ledStripsStr, ledOrder);
+    ledCount = getTotalLedCount(ledStrips);
+    if (process.env.LED_COUNT && getEnvNumber('LED_COUNT', ledCount) !== ledCount) {
+      throw new Error(`LED_COUNT (${process.env.LED_COUNT}) does not match the ${ledCount} LEDs in LED_STRIPS`);
+    }
+  } else {
+    ledCount = getEnvNumber('LED_COUNT', 50);
+    if (ledCount <= 0) {
+      throw new Error(`LED_COUNT must be positive: ${ledCount}`);
+    }
+    ledStrips = [{ pin: ledPin, count: ledCount, order: ledOrder, brightness: 1 }];
+  }
+  
+  const colorCalibration = await loadColorCalibration(ledCount, colorOrder);
+  
+  // Power budget
+  const ledMaPerChannel = getEnvNumber('LED_MA_PER_CHANNEL', 20);
+  const ledIdleMa = getEnvNumber('LED_IDLE_MA', 1);
+  const powerLimitMa = getEnvNumber('POWER_LIMIT_MA', 0);
+  if (ledMaPerChannel <= 0) {
+    throw new Error(`LED_MA_PER_CHANNEL must be positive: ${ledMaPerChannel}`);
+  }
+  if (ledIdleMa < 0) {
+    throw new Error(`LED_IDLE_MA must be non-negative: ${ledIdleMa}`);
+  }
+  if (powerLimitMa < 0) {
+    throw new Error(`POWER_LIMIT_MA must be non-negative (0 = no limit): ${powerLimitMa}`);
+  }
+  if (powerLimitMa > 0 && powerLimitMa <= ledIdleMa * ledCount) {
+    throw new Error(
+      `POWER_LIMIT_MA (${powerLimitMa}) must be more than the idle draw of ${ledCount} LEDs ` +
+      `(${ledIdleMa * ledCount}mA)`
+    );
+  }
+  
+  // Network and SPI LED output
+  const networkBackend = isNetworkBackend(ledBackend);
+  const ledHost = getEnvString('LED_HOST', '');
+  const ledPort = getEnvNumber('LED_PORT', networkBackend ? DEFAULT_LED_PORTS[ledBackend] : 0);
+  const ledNetworkFps = getEnvNumber('LED_NETWORK_FPS', 30);
+  const opcChannel = getEnvNumber('OPC_CHANNEL', 0);
+  const e131Universe = getEnvNumber('E131_UNIVERSE', 1);
+  const maxLedsPerUniverse = Math.floor(E131_UNIVERSE_SIZE / (hasWhiteChannel(ledOrder) ? 4 : 3));
+  const e131LedsPerUniverse = getEnvNumber('E131_LEDS_PER_UNIVERSE', maxLedsPerUniverse);
+  const e131Priority = getEnvNumber('E131_PRIORITY', 100);
+  const spiDevice = getEnvString('SPI_DEVICE', '/dev/spidev0.0');
+  
+  if (ledBackend !== 'gpio' && ledStripsStr) {
+    throw new Error(`LED_STRIPS only applies to GPIO strips, not LED_BACKEND=${ledBackend}`);
+  }
+  if (networkBackend) {
+    if (!ledHost && ledBackend !== 'e131') {
+      throw new Error(`LED_HOST is required for LED_BACKEND=${ledBackend}`);
+    }
+    if (!Number.isInteger(ledPort) || ledPort < 1 || ledPort > 65535) {
+      throw new Error(`LED_PORT must be 1-65535: ${ledPort}`);
+    }
+    if (ledNetworkFps <= 0) {
+      throw new Error(`LED_NETWORK_FPS must be positive: ${ledNetworkFps}`);
+    }
+  }
+  if (ledBackend === 'opc' && (!Number.isInteger(opcChannel) || opcChannel < 0 || opcChannel > 255)) {
+    throw new Error(`OPC_CHANNEL must be 0-255: ${opcChannel}`);
+  }
+  if (ledBackend === 'e131') {
+    if (
+      !Number.isInteger(e131LedsPerUniverse) ||
+      e131LedsPerUniverse < 1 ||
+      e131LedsPerUniverse > maxLedsPerUniverse
+    ) {
+      throw new Error(
+        `E131_LEDS_PER_UNIVERSE must be 1-${maxLedsPerUniverse} for ${ledOrder}: ${e131LedsPerUniverse}`
+      );
+    }
+    const lastUniverse = e131Universe + Math.ceil(ledCount / e131LedsPerUniverse) - 1;
+    if (!Number.isInteger(e131Universe) || e131Universe < 1 || lastUniverse > 63999) {
+      throw new Error(`E131_UNIVERSE must leave room for ${ledCount} LEDs within universes 1-63999: ${e131Universe}`);
+    }
+    if (e131Priority < 0 || e131Priority > 200) {
+      throw new Error(`E131_PRIORITY must be 0-200: ${e131Priority}`);
+    }
+  }
+  if (ledBackend === 'apa102' && hasWhiteChannel(ledOrder)) {
+    throw new Error(`APA102 strips have no white channel: LED_ORDER=${ledOrder}`);
+  }
+  if (ledBackend === 'wled' && hasWhiteChannel(ledOrder) && ledCount > WLED_MAX_RGBW_LEDS) {
+    throw new Error(`WLED RGBW output is limited to ${WLED_MAX_RGBW_LEDS} LEDs: ${ledCount}`);
   }
   
   // Check if any airport LED exceeds LED count
@@ -255,17 +692,26 @@ export async function loadConfig(): Promise<Config> {
   
   // Colors
   const colors = {
-    vfr: parseColor(getEnvString('COLOR_VFR', '255,0,0')),
-    vfrFade: parseColor(getEnvString('COLOR_VFR_FADE', '128,0,0')),
-    mvfr: parseColor(getEnvString('COLOR_MVFR', '0,0,255')),
-    mvfrFade: parseColor(getEnvString('COLOR_MVFR_FADE', '0,0,128')),
-    ifr: parseColor(getEnvString('COLOR_IFR', '0,255,0')),
-    ifrFade: parseColor(getEnvString('COLOR_IFR_FADE', '0,128,0')),
-    lifr: parseColor(getEnvString('COLOR_LIFR', '255,0,255')),
-    lifrFade: parseColor(getEnvString('COLOR_LIFR_FADE', '128,0,128')),
-    clear: parseColor(getEnvString('COLOR_CLEAR', '0,0,0')),
-    lightning: parseColor(getEnvString('COLOR_LIGHTNING', '255,255,255')),
-    highWinds: parseColor(getEnvString('COLOR_HIGH_WINDS', '255,255,0'))
+    vfr: getEnvColor('COLOR_VFR', '0,255,0', colorOrder),
+    vfrFade: getEnvColor('COLOR_VFR_FADE', '0,128,0', colorOrder),
+    mvfr: getEnvColor('COLOR_MVFR', '0,0,255', colorOrder),
+    mvfrFade: getEnvColor('COLOR_MVFR_FADE', '0,0,128', colorOrder),
+    ifr: getEnvColor('COLOR_IFR', '255,0,0', colorOrder),
+    ifrFade: getEnvColor('COLOR_IFR_FADE', '128,0,0', colorOrder),
+    lifr: getEnvColor('COLOR_LIFR', '0,255,255', colorOrder),
+    lifrFade: getEnvColor('COLOR_LIFR_FADE', '0,128,128', colorOrder),
+    clear: getEnvColor('COLOR_CLEAR', '0,0,0', colorOrder),
+    lightning: getEnvColor('COLOR_LIGHTNING', '255,255,255', colorOrder),
+    highWinds: getEnvColor('COLOR_HIGH_WINDS', '255,255,0', colorOrder),
+    snow: getEnvColor('COLOR_SNOW', '200,200,255', colorOrder),
+    freezing: getEnvColor('COLOR_FREEZING', '255,20,147', colorOrder),
+    fog: getEnvColor('COLOR_FOG', '80,80,80', colorOrder),
+    haze: getEnvColor('COLOR_HAZE', '255,140,0', colorOrder),
+    hail: getEnvColor('COLOR_HAIL', '128,0,255', colorOrder),
+    advisory: getEnvColor('COLOR_ADVISORY', '255,191,0', colorOrder),
+    advisoryConvective: getEnvColor('COLOR_ADVISORY_CONVECTIVE', '255,69,0', colorOrder),
+    pirep: getEnvColor('COLOR_PIREP', '165,0,255', colorOrder),
+    alert: getEnvColor('COLOR_ALERT', '255,165,0', colorOrder)
   };
   
   // Animation Settings
@@ -277,6 +723,9 @@ export async function loadConfig(): Promise<Config> {
   const alwaysBlinkForGusts = getEnvBoolean('ALWAYS_BLINK_FOR_GUSTS', false);
   const blinkSpeed = getEnvNumber('BLINK_SPEED', 1.0);
   const blinkTotalTimeSeconds = getEnvNumber('BLINK_TOTAL_TIME_SECONDS', 300);
+  const animationFps = getEnvNumber('ANIMATION_FPS', 20);
+  const crossfadeMs = getEnvNumber('CROSSFADE_MS', 500);
+  const animationPhaseSpread = getEnvNumber('ANIMATION_PHASE_SPREAD', 0.5);
   
   // Validate animation settings
   if (windBlinkThreshold < 0) {
@@ -288,6 +737,53 @@ export async function loadConfig(): Promise<Config> {
   if (blinkTotalTimeSeconds <= 0) {
     throw new Error(`BLINK_TOTAL_TIME_SECONDS must be positive: ${blinkTotalTimeSeconds}`);
   }
+  if (animationFps <= 0 || animationFps > 60) {
+    throw new Error(`ANIMATION_FPS must be between 1 and 60: ${animationFps}`);
+  }
+  if (crossfadeMs < 0) {
+    throw new Error(`CROSSFADE_MS must be non-negative: ${crossfadeMs}`);
+  }
+  if (animationPhaseSpread < 0 || animationPhaseSpread > 1) {
+    throw new Error(`ANIMATION_PHASE_SPREAD must be between 0 and 1: ${animationPhaseSpread}`);
+  }
+  
+  // Compositor layers turned off at startup
+  const disabledLayers = getEnvString('DISABLED_LAYERS', '')
+    .split(',')
+    .map(l => l.trim().toLowerCase())
+    .filter(l => l.length > 0) as LayerName[];
+  
+  for (const layer of disabledLayers) {
+    if (!LAYER_NAMES.includes(layer)) {
+      throw new Error(`Unknown layer in DISABLED_LAYERS: ${layer}. Expected ${LAYER_NAMES.join(', ')}`);
+    }
+  }
+  
+  // Weather phenomena (snow, freezing precipitation, fog, haze, hail)
+  const activateWeatherAnimation = getEnvBoolean('ACTIVATE_WEATHER_ANIMATION', false);
+  const weatherPriority = getEnvString('WEATHER_PRIORITY', WEATHER_PHENOMENA.join(','))
+    .split(',')
+    .map(p => p.trim().toLowerCase())
+    .filter(p => p.length > 0) as WeatherPhenomenon[];
+  
+  for (const phenomenon of weatherPriority) {
+    if (!WEATHER_PHENOMENA.includes(phenomenon)) {
+      throw new Error(
+        `Unknown weather phenomenon in WEATHER_PRIORITY: ${phenomenon}. ` +
+        `Expected ${WEATHER_PHENOMENA.join(', ')}`
+      );
+    }
+  }
+  
+  const weatherAnimation = {} as Record<WeatherPhenomenon, WeatherAnimation>;
+  for (const phenomenon of WEATHER_PHENOMENA) {
+    const envName = `WEATHER_ANIMATION_${phenomenon.toUpperCase()}`;
+    const animation = getEnvString(envName, 'flash') as WeatherAnimation;
+    if (!['flash', 'steady'].includes(animation)) {
+      throw new Error(`${envName} must be flash or steady: ${animation}`);
+    }
+    weatherAnimation[phenomenon] = animation;
+  }
   
   // Daytime Dimming
   const activateDaytimeDimming = getEnvBoolean('ACTIVATE_DAYTIME_DIMMING', false);
@@ -327,6 +823,92 @@ export async function loadConfig(): Promise<Config> {
     }
   }
   
+  // Display Modes
+  const displayModes = getEnvString('DISPLAY_MODES', 'category')
+    .split(',')
+    .map(m => m.trim().toLowerCase())
+    .filter(m => m.length > 0) as DisplayModeName[];
+  const displayModeRotateSeconds = getEnvNumber('DISPLAY_MODE_ROTATE_SECONDS', 30);
+  
+  if (displayModes.length === 0) {
+    throw new Error('DISPLAY_MODES must list at least one mode');
+  }
+  for (const mode of displayModes) {
+    if (!DISPLAY_MODE_NAMES.includes(mode)) {
+      throw new Error(`Unknown display mode: ${mode}. Expected ${DISPLAY_MODE_NAMES.join(', ')}`);
+    }
+  }
+  if (displayModeRotateSeconds <= 0) {
+    throw new Error(`DISPLAY_MODE_ROTATE_SECONDS must be positive: ${displayModeRotateSeconds}`);
+  }
+  
+  // Crosswind
+  const crosswindLimit = getEnvNumber('CROSSWIND_LIMIT', 15);
+  const tailwindLimit = getEnvNumber('TAILWIND_LIMIT', 10);
+  const runwayMinLength = getEnvNumber('RUNWAY_MIN_LENGTH', 0);
+  
+  if (crosswindLimit <= 0) {
+    throw new Error(`CROSSWIND_LIMIT must be positive: ${crosswindLimit}`);
+  }
+  if (tailwindLimit < 0) {
+    throw new Error(`TAILWIND_LIMIT must be non-negative: ${tailwindLimit}`);
+  }
+  if (runwayMinLength < 0) {
+    throw new Error(`RUNWAY_MIN_LENGTH must be non-negative: ${runwayMinLength}`);
+  }
+  
+  // Density altitude bands: green, yellow, orange, red
+  const densityAltitudeBands = getEnvGradient(
+    'DENSITY_ALTITUDE_BANDS',
+    '0:0,255,0;3000:255,255,0;6000:255,128,0;9000:255,0,0',
+    colorOrder
+  );
+  
+  // Gradients (colors in COLOR_ORDER like the other colors)
+  const gradients: Record<GradientModeName, GradientStop[]> = {
+    temperature: getEnvGradient(
+      'GRADIENT_TEMPERATURE',
+      '-20:128,0,255;0:0,0,255;10:0,255,0;20:255,255,0;30:255,128,0;40:255,0,0',
+      colorOrder
+    ),
+    visibility: getEnvGradient(
+      'GRADIENT_VISIBILITY',
+      '0:255,0,255;1:255,0,0;3:0,0,255;5:0,255,0',
+      colorOrder
+    ),
+    ceiling: getEnvGradient(
+      'GRADIENT_CEILING',
+      '0:255,0,255;500:255,0,0;1000:0,0,255;3000:0,255,0',
+      colorOrder
+    ),
+    wind: getEnvGradient(
+      'GRADIENT_WIND',
+      '0:0,255,0;10:255,255,0;20:255,128,0;30:255,0,0;40:255,0,255',
+      colorOrder
+    ),
+    altimeter: getEnvGradient(
+      'GRADIENT_ALTIMETER',
+      '29.5:255,0,0;29.92:255,255,255;30.4:0,0,255',
+      colorOrder
+    ),
+    tendency: getEnvGradient(
+      'GRADIENT_TENDENCY',
+      '-3:255,0,0;0:255,255,255;3:0,0,255',
+      colorOrder
+    ),
+    spread: getEnvGradient(
+      'GRADIENT_SPREAD',
+      '0:255,0,255;2:255,0,0;4:255,255,0;8:0,255,0',
+      colorOrder
+    ),
+    // Green to yellow at half the limit to red at the limit
+    crosswind: getEnvGradient(
+      'GRADIENT_CROSSWIND',
+      `0:0,255,0;${crosswindLimit / 2}:255,255,0;${crosswindLimit}:255,0,0`,
+      colorOrder
+    )
+  };
+  
   // Legend LEDs
   const offsetLegendBy = getEnvNumber('OFFSET_LEGEND_BY', 0);
   
@@ -346,58 +928,372 @@ export async function loadConfig(): Promise<Config> {
     throw new Error(`METAR_UPDATE_INTERVAL must be positive: ${metarUpdateInterval}`);
   }
   
-  // Mock GPIO Display Options
-  const mockGpioColors = getEnvBoolean('MOCK_GPIO_COLORS', true);
-  const mockGpioFormatStr = getEnvString('MOCK_GPIO_FORMAT', 'strip');
-  const mockGpioFormat = (mockGpioFormatStr === 'detailed' ? 'detailed' : 'strip') as 'strip' | 'detailed';
+  // Adaptive polling
+  const adaptivePolling = getEnvBoolean('ADAPTIVE_POLLING', true);
+  const pollIntervalActive = getEnvNumber('POLL_INTERVAL_ACTIVE', 2);
+  const pollIntervalMax = getEnvNumber('POLL_INTERVAL_MAX', 15);
+  const issuanceWindow = parseIssuanceWindow(getEnvString('METAR_ISSUANCE_WINDOW', '51-56'));
+  
+  if (pollIntervalActive <= 0) {
+    throw new Error(`POLL_INTERVAL_ACTIVE must be positive: ${pollIntervalActive}`);
+  }
+  if (pollIntervalMax < metarUpdateInterval) {
+    throw new Error(
+      `POLL_INTERVAL_MAX must be at least METAR_UPDATE_INTERVAL (${metarUpdateInterval}): ${pollIntervalMax}`
+    );
+  }
+  
+  // METAR providers (in failover order)
+  const metarProviders = getEnvString('METAR_PROVIDERS', 'json')
+    .split(',')
+    .map(p => p.trim().toLowerCase())
+    .filter(p => p.length > 0) as MetarProviderType[];
+  const metarCsvUrl = getEnvString(
+    'METAR_CSV_URL',
+    'https://aviationweather.gov/data/cache/metars.cache.csv.gz'
+  );
+  const metarXmlUrl = getEnvString(
+    'METAR_XML_URL',
+    'https://aviationweather.gov/data/cache/metars.cache.xml.gz'
+  );
+  const metarLocalPath = process.env.METAR_LOCAL_PATH || undefined;
+  
+  if (metarProviders.length === 0) {
+    throw new Error('METAR_PROVIDERS must list at least one provider');
+  }
+  for (const provider of metarProviders) {
+    if (!['json', 'csv', 'xml', 'local'].includes(provider)) {
+      throw new Error(`Unknown METAR provider: ${provider}. Expected json, csv, xml or local`);
+    }
+  }
+  if (metarProviders.includes('local') && !metarLocalPath) {
+    throw new Error('METAR_PROVIDERS includes local but METAR_LOCAL_PATH is not set');
+  }
+  // JSON API batching and retry
+  const metarBatchSize = getEnvNumber('METAR_BATCH_SIZE', 50);
+  const metarFetchConcurrency = getEnvNumber('METAR_FETCH_CONCURRENCY', 3);
+  const metarFetchRetries = getEnvNumber('METAR_FETCH_RETRIES', 3);
+  const metarRetryBaseDelay = getEnvNumber('METAR_RETRY_BASE_DELAY', 1);
+  const metarRetryMaxDelay = getEnvNumber('METAR_RETRY_MAX_DELAY', 30);
+  
+  if (!Number.isInteger(metarBatchSize) || metarBatchSize < 1) {
+    throw new Error(`METAR_BATCH_SIZE must be a positive integer: ${metarBatchSize}`);
+  }
+  if (!Number.isInteger(metarFetchConcurrency) || metarFetchConcurrency < 1) {
+    throw new Error(`METAR_FETCH_CONCURRENCY must be a positive integer: ${metarFetchConcurrency}`);
+  }
+  if (!Number.isInteger(metarFetchRetries) || metarFetchRetries < 0) {
+    throw new Error(`METAR_FETCH_RETRIES must be a non-negative integer: ${metarFetchRetries}`);
+  }
+  if (metarRetryBaseDelay <= 0 || metarRetryMaxDelay < metarRetryBaseDelay) {
+    throw new Error(
+      `METAR_RETRY_BASE_DELAY must be positive and not exceed METAR_RETRY_MAX_DELAY: ` +
+      `${metarRetryBaseDelay}/${metarRetryMaxDelay}`
+    );
+  }
+  
+  // Failover waits out the JSON API's retries by default: failing over sooner
+  // would give up on a provider that is still allowed to recover
+  const metarFetchBudget = metarProviders.includes('json')
+    ? Math.ceil(getMetarFetchBudgetMs(airports.length, {
+      batchSize: metarBatchSize,
+      concurrency: metarFetchConcurrency,
+      retries: metarFetchRetries,
+      retryBaseDelayMs: metarRetryBaseDelay * 1000,
+      retryMaxDelayMs: metarRetryMaxDelay * 1000
+    }) / 1000)
+    : 0;
+  const metarProviderTimeout = getEnvNumber('METAR_PROVIDER_TIMEOUT', Math.max(60, metarFetchBudget));
+  
+  if (metarProviderTimeout <= 0) {
+    throw new Error(`METAR_PROVIDER_TIMEOUT must be positive: ${metarProviderTimeout}`);
+  }
+  if (metarProviderTimeout < metarFetchBudget) {
+    throw new Error(
+      `METAR_PROVIDER_TIMEOUT (${metarProviderTimeout}s) is shorter than the JSON API retry budget ` +
+      `(${metarFetchBudget}s): raise it, or lower METAR_FETCH_RETRIES or METAR_RETRY_MAX_DELAY`
+    );
+  }
   
   // State and Logging
   const statePath = getEnvString('STATE_FILE_PATH', '/home/pi/metar-state.json');
   const enableLogging = getEnvBoolean('ENABLE_LOGGING', false);
   const logPath = enableLogging ? getEnvString('LOG_FILE_PATH', '/home/pi/metar-history.log') : undefined;
   
+  // Layers switched on and off while running
+  const layerControlPath = getEnvString('LAYER_CONTROL_PATH', defaultLayerControlPath(statePath));
+  
+  // Map snapshots
+  const mapSnapshotPaths = getEnvString('MAP_SNAPSHOT_PATHS', '')
+    .split(',')
+    .map(s => s.trim())
+    .filter(s => s.length > 0);
+  const mapSnapshotSeconds = getEnvNumber('MAP_SNAPSHOT_SECONDS', 10);
+  const mapWidth = getEnvNumber('MAP_WIDTH', 800);
+  const mapHeight = getEnvNumber('MAP_HEIGHT', 600);
+  const mapTitle = getEnvString('MAP_TITLE', 'METAR Map');
+  
+  const badSnapshotPath = mapSnapshotPaths.find(path => !/\.(svg|png)$/i.test(path));
+  if (badSnapshotPath) {
+    throw new Error(`MAP_SNAPSHOT_PATHS entries must end in .svg or .png: ${badSnapshotPath}`);
+  }
+  if (mapSnapshotSeconds <= 0) {
+    throw new Error(`MAP_SNAPSHOT_SECONDS must be positive: ${mapSnapshotSeconds}`);
+  }
+  if (!Number.isInteger(mapWidth) || !Number.isInteger(mapHeight) || mapWidth < 320 || mapHeight < 240) {
+    throw new Error(`MAP_WIDTH and MAP_HEIGHT must be whole pixels, at least 320x240: ${mapWidth}x${mapHeight}`);
+  }
+  
+  // Last-known-good cache and staleness
+  const metarCachePath = getEnvString('METAR_CACHE_PATH', defaultCachePath(statePath));
+  const staleObservationMinutes = getEnvNumber('STALE_OBSERVATION_MINUTES', 90);
+  const staleDisplay = getEnvString('STALE_DISPLAY', 'dim') as StaleDisplayMode;
+  
+  if (staleObservationMinutes <= 0) {
+    throw new Error(`STALE_OBSERVATION_MINUTES must be positive: ${staleObservationMinutes}`);
+  }
+  if (!['dim', 'pulse', 'off'].includes(staleDisplay)) {
+    throw new Error(`STALE_DISPLAY must be dim, pulse or off: ${staleDisplay}`);
+  }
+  
+  // TAF Forecast
+  const tafApiUrl = getEnvString(
+    'TAF_API_URL',
+    'https://aviationweather.gov/api/data/taf'
+  );
+  const forecastDisplayMode = getEnvString('FORECAST_DISPLAY_MODE', 'current') as ForecastDisplayMode;
+  const forecastLookaheadHours = getEnvNumber('FORECAST_LOOKAHEAD_HOURS', 3);
+  const forecastAlternateSeconds = getEnvNumber('FORECAST_ALTERNATE_SECONDS', 10);
+  const forecastIncludeTemporary = getEnvBoolean('FORECAST_INCLUDE_TEMPORARY', true);
+  
+  if (!['current', 'forecast', 'alternate'].includes(forecastDisplayMode)) {
+    throw new Error(
+      `FORECAST_DISPLAY_MODE must be current, forecast or alternate: ${forecastDisplayMode}`
+    );
+  }
+  if (forecastLookaheadHours < 0 || forecastLookaheadHours > 30) {
+    throw new Error(`FORECAST_LOOKAHEAD_HOURS must be 0-30: ${forecastLookaheadHours}`);
+  }
+  if (forecastAlternateSeconds <= 0) {
+    throw new Error(`FORECAST_ALTERNATE_SECONDS must be positive: ${forecastAlternateSeconds}`);
+  }
+  
+  // SIGMET/AIRMET Overlay
+  const activateAdvisoryOverlay = getEnvBoolean('ACTIVATE_ADVISORY_OVERLAY', false);
+  const advisoryHazards = getEnvString('ADVISORY_HAZARDS', 'convective,turbulence,icing')
+    .split(',')
+    .map(h => h.trim().toLowerCase())
+    .filter(h => h.length > 0) as AdvisoryHazard[];
+  const advisoryMaxAltitude = getEnvNumber('ADVISORY_MAX_ALTITUDE', 18000);
+  const airSigmetApiUrl = getEnvString(
+    'AIRSIGMET_API_URL',
+    'https://aviationweather.gov/api/data/airsigmet'
+  );
+  const gAirmetApiUrl = getEnvString(
+    'GAIRMET_API_URL',
+    'https://aviationweather.gov/api/data/gairmet'
+  );
+  
+  for (const hazard of advisoryHazards) {
+    if (!ADVISORY_HAZARDS.includes(hazard)) {
+      throw new Error(
+        `Unknown hazard in ADVISORY_HAZARDS: ${hazard}. Expected ${ADVISORY_HAZARDS.join(', ')}`
+      );
+    }
+  }
+  if (advisoryMaxAltitude < 0) {
+    throw new Error(`ADVISORY_MAX_ALTITUDE must be non-negative: ${advisoryMaxAltitude}`);
+  }
+  
+  // PIREP Overlay
+  const activatePirepOverlay = getEnvBoolean('ACTIVATE_PIREP_OVERLAY', false);
+  const pirepApiUrl = getEnvString(
+    'PIREP_API_URL',
+    'https://aviationweather.gov/api/data/pirep'
+  );
+  const pirepRadiusNm = getEnvNumber('PIREP_RADIUS_NM', 25);
+  const pirepMaxAgeMinutes = getEnvNumber('PIREP_MAX_AGE_MINUTES', 90);
+  const pirepMinIntensity = getEnvString('PIREP_MIN_INTENSITY', 'moderate').toLowerCase() as PirepIntensity;
+  
+  if (pirepRadiusNm <= 0) {
+    throw new Error(`PIREP_RADIUS_NM must be positive: ${pirepRadiusNm}`);
+  }
+  if (pirepMaxAgeMinutes <= 0) {
+    throw new Error(`PIREP_MAX_AGE_MINUTES must be positive: ${pirepMaxAgeMinutes}`);
+  }
+  if (!PIREP_INTENSITIES.includes(pirepMinIntensity) || pirepMinIntensity === 'none') {
+    throw new Error(
+      `PIREP_MIN_INTENSITY must be one of ${PIREP_INTENSITIES.slice(1).join(', ')}: ${pirepMinIntensity}`
+    );
+  }
+  
+  // Category Trend
+  const trendAnimation = getEnvString('TREND_ANIMATION', 'off').toLowerCase() as TrendAnimation;
+  const trendWindowMinutes = getEnvNumber('TREND_WINDOW_MINUTES', 60);
+  const trendFlashEvery = getEnvNumber('TREND_FLASH_EVERY', 4);
+  
+  if (!['off', 'flash', 'deteriorating'].includes(trendAnimation)) {
+    throw new Error(`TREND_ANIMATION must be off, flash or deteriorating: ${trendAnimation}`);
+  }
+  if (trendWindowMinutes <= 0) {
+    throw new Error(`TREND_WINDOW_MINUTES must be positive: ${trendWindowMinutes}`);
+  }
+  if (!Number.isInteger(trendFlashEvery) || trendFlashEvery < 2) {
+    throw new Error(`TREND_FLASH_EVERY must be a whole number of at least 2: ${trendFlashEvery}`);
+  }
+  
+  // Mock GPIO Display Options
+  const mockGpioColors = getEnvBoolean('MOCK_GPIO_COLORS', true);
+  const mockGpioFormatStr = getEnvString('MOCK_GPIO_FORMAT', 'strip');
+  const mockGpioFormat = (
+    mockGpioFormatStr === 'detailed' || mockGpioFormatStr === 'terminal' ? mockGpioFormatStr : 'strip'
+  ) as Config['mockGpioFormat'];
+  
   const config: Config = {
     useMockGpio,
+    ledBackend,
     ledCount,
     ledPin,
     ledBrightness,
     ledBrightnessDim,
     ledOrder,
+    ledStrips,
+    colorOrder,
+    colorCalibration,
+    ledMaPerChannel,
+    ledIdleMa,
+    powerLimitMa,
+    ledHost,
+    ledPort,
+    ledNetworkFps,
+    opcChannel,
+    e131Universe,
+    e131LedsPerUniverse,
+    e131Priority,
+    spiDevice,
     airports,
     colors,
     activateWindAnimation,
     activateLightningAnimation,
+    activateWeatherAnimation,
+    weatherPriority,
+    weatherAnimation,
     fadeInsteadOfBlink,
     windBlinkThreshold,
     highWindsThreshold,
     alwaysBlinkForGusts,
     blinkSpeed,
     blinkTotalTimeSeconds,
+    animationFps,
+    crossfadeMs,
+    animationPhaseSpread,
+    disabledLayers,
+    layerControlPath,
     activateDaytimeDimming,
     brightTimeStart,
     dimTimeStart,
     useSunriseSunset,
     locationLat,
     locationLon,
+    displayModes,
+    displayModeRotateSeconds,
+    gradients,
+    crosswindLimit,
+    tailwindLimit,
+    runwayMinLength,
+    densityAltitudeBands,
     showLegend,
     offsetLegendBy,
     metarApiUrl,
     metarUpdateInterval,
+    adaptivePolling,
+    pollIntervalActive,
+    pollIntervalMax,
+    issuanceWindow,
+    metarProviders,
+    metarCsvUrl,
+    metarXmlUrl,
+    metarLocalPath,
+    metarProviderTimeout,
+    metarBatchSize,
+    metarFetchConcurrency,
+    metarFetchRetries,
+    metarRetryBaseDelay,
+    metarRetryMaxDelay,
+    metarCachePath,
+    staleObservationMinutes,
+    staleDisplay,
+    tafApiUrl,
+    forecastDisplayMode,
+    forecastLookaheadHours,
+    forecastAlternateSeconds,
+    forecastIncludeTemporary,
+    activateAdvisoryOverlay,
+    advisoryHazards,
+    advisoryMaxAltitude,
+    airSigmetApiUrl,
+    gAirmetApiUrl,
+    activatePirepOverlay,
+    pirepApiUrl,
+    pirepRadiusNm,
+    pirepMaxAgeMinutes,
+    pirepMinIntensity,
+    trendAnimation,
+    trendWindowMinutes,
+    trendFlashEvery,
     mockGpioColors,
     mockGpioFormat,
     statePath,
     enableLogging,
-    logPath
+    logPath,
+    mapSnapshotPaths,
+    mapSnapshotSeconds,
+    mapWidth,
+    mapHeight,
+    mapTitle
   };
   
   console.log('Configuration loaded successfully');
   console.log(`  Airports: ${config.airports.length}`);
   console.log(`  LED Count: ${config.ledCount}`);
-  console.log(`  Mock GPIO: ${config.useMockGpio}`);
+  if (config.ledBackend === 'gpio') {
+    console.log(`  Mock GPIO: ${config.useMockGpio}`);
+  } else if (config.ledBackend === 'apa102') {
+    console.log(`  LED Output: APA102 on ${config.spiDevice}`);
+  } else {
+    console.log(`  LED Output: ${config.ledBackend} to ${config.ledHost || 'multicast'}:${config.ledPort}`);
+  }
+  console.log(`  LED Order: ${config.ledOrder} (colors in ${config.colorOrder})`);
+  if (config.ledStrips.length > 1) {
+    const segments = getStripSegments(config.ledStrips);
+    config.ledStrips.forEach((strip, i) => console.log(`    ${describeStrip(strip, segments[i])}`));
+  }
+  console.log(
+    `  Color Calibration: gamma ${config.colorCalibration.gamma}, ` +
+    `${Object.keys(config.colorCalibration.ledCorrections).length} corrected LEDs`
+  );
+  if (config.powerLimitMa > 0) {
+    console.log(`  Power Limit: ${config.powerLimitMa}mA (${config.ledMaPerChannel}mA per channel)`);
+  }
   console.log(`  Wind Animation: ${config.activateWindAnimation}`);
   console.log(`  Lightning Animation: ${config.activateLightningAnimation}`);
+  console.log(`  Weather Animation: ${config.activateWeatherAnimation}`);
+  console.log(`  Animation: ${config.animationFps} fps, ${config.crossfadeMs}ms crossfade`);
+  if (config.disabledLayers.length > 0) {
+    console.log(`  Disabled Layers: ${config.disabledLayers.join(', ')}`);
+  }
+  console.log(`  Layer Control File: ${config.layerControlPath}`);
   console.log(`  Daytime Dimming: ${config.activateDaytimeDimming}`);
   console.log(`  Show Legend: ${config.showLegend}`);
+  console.log(`  Display Modes: ${config.displayModes.join(', ')}`);
+  console.log(`  Adaptive Polling: ${config.adaptivePolling}`);
+  console.log(`  Forecast Display: ${config.forecastDisplayMode}`);
+  console.log(`  Advisory Overlay: ${config.activateAdvisoryOverlay}`);
+  console.log(`  PIREP Overlay: ${config.activatePirepOverlay}`);
+  console.log(`  Trend Animation: ${config.trendAnimation}`);
+  if (config.mapSnapshotPaths.length > 0) {
+    console.log(`  Map Snapshots: ${config.mapSnapshotPaths.join(', ')} every ${config.mapSnapshotSeconds}s`);
+  }
   
   return config;
 }
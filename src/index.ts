@@ -6,13 +6,63 @@
 
 import { loadConfig } from './config';
 import { createLedService, ILedService } from './services/ledService';
-import { fetchAndParseAllConditions } from './services/metarService';
+import { fetchAndParseAllConditions, parseCachedConditions } from './services/metarService';
+import { MetarCacheService } from './services/metarCacheService';
+import { CategoryHistoryService } from './services/categoryHistoryService';
+import { UpdateScheduler } from './services/updateScheduler';
+import { AnimationEngine } from './services/animationEngine';
+import { Compositor } from './services/compositor';
+import { createMetarProvider } from './services/metarProviders';
+import { fetchAndParseAllForecasts } from './services/tafService';
+import { applyAdvisories, fetchActiveAdvisories } from './services/advisoryService';
+import { applyPireps, fetchRecentPireps } from './services/pirepService';
 import { calculateBrightness } from './services/timeService';
-import { getColorForConditions, getLegendColors } from './utils/colorMapper';
+import { DisplayMode, getActiveDisplayMode, getDisplayModeLegend } from './utils/displayModes';
+import { getAltitudes } from './utils/densityAltitude';
+import { getPhaseOffset } from './utils/effects';
+import { getAirportPosition, getAirportPositions } from './utils/geo';
+import { isSignificantPirep } from './utils/pirepDecoder';
 import { setupShutdownHandler, sleep } from './utils/shutdown';
 import { MetarStateManager, MetarState, MetarStateAirport } from './shared/metarState';
 import { parseVisibility } from './utils/flightCategory';
-import { Config, AirportConditions, MetarData } from './types';
+import { Config, AirportConditions, MetarData, TafForecast } from './types';
+
+/**
+ * System alert shown while METAR updates are failing
+ */
+const UPDATE_FAILED_ALERT = 'update-failed';
+
+/**
+ * Forecast data for the current update cycle
+ */
+interface ForecastCycleData {
+  forecastTime: Date;
+  forecastConditionsMap: Map<string, AirportConditions>;
+  forecastMap: Map<string, TafForecast>;
+}
+
+/**
+ * Data shown by the LED animation
+ */
+interface AnimationData {
+  conditionsMap: Map<string, AirportConditions>;
+  metarDataMap: Map<string, MetarData>;
+  forecastConditionsMap?: Map<string, AirportConditions>;
+}
+
+/**
+ * Describe a display mode for the state file
+ */
+function describeDisplayMode(mode: DisplayMode, config: Config): MetarState['displayMode'] {
+  return {
+    active: mode.name,
+    label: mode.label,
+    unit: mode.unit,
+    modes: config.displayModes,
+    rotateSeconds: config.displayModes.length > 1 ? config.displayModeRotateSeconds : undefined,
+    legend: mode.getScale(config)
+  };
+}
 
 /**
  * Build state object from METAR data
@@ -20,40 +70,180 @@ import { Config, AirportConditions, MetarData } from './types';
 async function buildState(
   config: Config,
   conditionsMap: Map<string, AirportConditions>,
-  metarDataMap: Map<string, MetarData>
+  metarDataMap: Map<string, MetarData>,
+  forecastData?: ForecastCycleData,
+  dataSource?: string | null
 ): Promise<MetarState> {
+  const displayMode = getActiveDisplayMode(config);
   const stateAirports: MetarStateAirport[] = config.airports.map(airport => {
     const conditions = conditionsMap.get(airport.code);
     const metarData = metarDataMap.get(airport.code);
-    const color = getColorForConditions(conditions, false, config);
+    const color = displayMode.getColor(conditions, metarData, false, config, 0);
+    const altitudes = getAltitudes(metarData);
+    const position = getAirportPosition(airport, metarData);
     
     return {
       code: airport.code,
       name: metarData?.name || airport.name || airport.code,
       led: airport.led,
+      lat: position?.lat,
+      lon: position?.lon,
       flightCategory: conditions?.flightCategory || null,
       color,
       windSpeed: conditions?.windSpeed || 0,
       windGustSpeed: conditions?.windGustSpeed || 0,
       windGust: conditions?.windGust || false,
       lightning: conditions?.lightning || false,
+      thunderstorm: conditions?.thunderstorm || false,
+      vicinityThunderstorm: conditions?.vicinityThunderstorm || false,
+      distantLightning: conditions?.distantLightning || false,
+      weather: conditions?.weather?.map(w => w.phenomenon),
+      runway: conditions?.runwayWind?.runway,
+      crosswind: conditions?.runwayWind?.crosswind,
+      tailwind: conditions?.runwayWind?.tailwind,
       visibility: metarData?.visib ? parseVisibility(metarData.visib) || undefined : undefined,
       temperature: metarData?.temp,
       dewpoint: metarData?.dewp,
       altimeter: metarData?.altim,
+      pressureAltitude: altitudes.pressureAltitude,
+      densityAltitude: altitudes.densityAltitude,
       rawMetar: metarData?.rawOb,
-      obsTime: metarData?.reportTime
+      obsTime: metarData?.reportTime,
+      ageMinutes: conditions?.ageMinutes,
+      stale: conditions?.stale || false,
+      previousCategory: conditions?.previousCategory,
+      trend: conditions?.trend,
+      forecastCategory: forecastData?.forecastMap.get(airport.code)?.flightCategory,
+      advisories: conditions?.advisories?.map(advisory => ({
+        id: advisory.id,
+        type: advisory.type,
+        hazard: advisory.hazard,
+        severity: advisory.severity,
+        altitudeLow: advisory.altitudeLow,
+        altitudeHigh: advisory.altitudeHigh,
+        validTo: advisory.validTo.toISOString()
+      })),
+      pireps: conditions?.pireps?.map(({ pirep, distanceNm }) => ({
+        time: pirep.time.toISOString(),
+        distanceNm,
+        urgent: pirep.urgent,
+        significant: isSignificantPirep(pirep, config.pirepMinIntensity),
+        aircraft: pirep.aircraft,
+        altitude: pirep.altitude,
+        turbulence: pirep.turbulence,
+        icing: pirep.icing,
+        raw: pirep.raw
+      }))
     };
   });
   
-  return {
+  const state: MetarState = {
     timestamp: new Date().toISOString(),
     airports: stateAirports,
     config: {
       ledCount: config.ledCount,
       activeCount: config.airports.length
-    }
+    },
+    displayMode: describeDisplayMode(displayMode, config)
   };
+  
+  if (dataSource) {
+    state.dataSource = dataSource;
+  }
+  
+  if (forecastData) {
+    state.forecast = {
+      displayMode: config.forecastDisplayMode,
+      lookaheadHours: config.forecastLookaheadHours,
+      forecastTime: forecastData.forecastTime.toISOString()
+    };
+  }
+  
+  return state;
+}
+
+/**
+ * Fetch TAF forecasts when a forecast display mode is enabled
+ * Forecast failures are logged but never stop the current METAR display
+ */
+async function fetchForecasts(config: Config): Promise<ForecastCycleData | undefined> {
+  if (config.forecastDisplayMode === 'current') {
+    return undefined;
+  }
+  
+  try {
+    console.log('Fetching TAF data...');
+    return await fetchAndParseAllForecasts(config);
+  } catch (error) {
+    console.error('Error fetching TAF forecasts, showing current conditions only:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Fetch SIGMETs/AIRMETs and flag the airports they cover when the overlay is enabled
+ * Advisory failures are logged but never stop the METAR display
+ */
+async function fetchAdvisories(
+  config: Config,
+  conditionsMap: Map<string, AirportConditions>,
+  metarDataMap: Map<string, MetarData>
+): Promise<void> {
+  if (!config.activateAdvisoryOverlay) {
+    return;
+  }
+  
+  try {
+    console.log('Fetching SIGMET/AIRMET data...');
+    const advisories = await fetchActiveAdvisories(config);
+    const covered = applyAdvisories(conditionsMap, getAirportPositions(config.airports, metarDataMap), advisories);
+    console.log(`${covered} airports inside active advisories`);
+  } catch (error) {
+    console.error('Error fetching SIGMET/AIRMET data, showing no advisories:', error);
+  }
+}
+
+/**
+ * Fetch PIREPs and attach nearby reports to each airport when the overlay is enabled
+ * PIREP failures are logged but never stop the METAR display
+ */
+async function fetchPireps(
+  config: Config,
+  conditionsMap: Map<string, AirportConditions>,
+  metarDataMap: Map<string, MetarData>
+): Promise<void> {
+  if (!config.activatePirepOverlay) {
+    return;
+  }
+  
+  try {
+    const positions = getAirportPositions(config.airports, metarDataMap);
+    const pireps = await fetchRecentPireps(config, [...positions.values()]);
+    const flagged = applyPireps(conditionsMap, positions, pireps, config);
+    console.log(`${flagged} airports with ${config.pirepMinIntensity} or worse PIREPs nearby`);
+  } catch (error) {
+    console.error('Error fetching PIREPs, showing no PIREPs:', error);
+  }
+}
+
+/**
+ * Determine whether forecast colors should be shown at this point in the animation
+ * 
+ * @param config - Application configuration
+ * @param elapsedMs - Time since the animation started
+ * @returns true to show forecast colors, false for current conditions
+ */
+function isShowingForecast(config: Config, elapsedMs: number): boolean {
+  if (config.forecastDisplayMode === 'forecast') {
+    return true;
+  }
+  
+  if (config.forecastDisplayMode === 'alternate') {
+    const period = Math.floor(elapsedMs / (config.forecastAlternateSeconds * 1000));
+    return period % 2 === 1;
+  }
+  
+  return false;
 }
 
 /**
@@ -77,47 +267,213 @@ async function writeStateAndLog(
 }
 
 /**
- * Animate LEDs until next update time
+ * What the LED animation shows; each update swaps in new data
+ */
+interface AnimationState {
+  data?: AnimationData;
+  onDisplayModeChange?: (mode: DisplayMode) => Promise<void>;
+  onDataShown?: () => Promise<void>;  // Called once, when the LEDs have faded to the new data
+  wake?: () => void;  // Ends the wait for the next frame early
+}
+
+/**
+ * Swap new data into the running animation
+ * The LEDs start moving to it on the next frame.
+ * 
+ * @param animation - Running animation
+ * @param data - Conditions and METAR data to show
+ * @param onDisplayModeChange - Called when the display mode rotates
+ * @param onDataShown - Called once the LEDs show the new data
+ */
+function showAnimationData(
+  animation: AnimationState,
+  data: AnimationData,
+  onDisplayModeChange?: (mode: DisplayMode) => Promise<void>,
+  onDataShown?: () => Promise<void>
+): void {
+  animation.data = data;
+  animation.onDisplayModeChange = onDisplayModeChange;
+  animation.onDataShown = onDataShown;
+  animation.wake?.();
+}
+
+/**
+ * Animate LEDs continuously
+ * Runs alongside the update loop so fetching never freezes the display.
+ * Frames render at ANIMATION_FPS. Each airport LED steps through its own
+ * animation cycles (BLINK_SPEED long, offset by ANIMATION_PHASE_SPREAD) and
+ * the engine moves it to each cycle's color with the matching effect.
+ * The compositor blends the display mode's layers with the legend and
+ * system alerts.
+ * 
+ * @param ledService - LED service
+ * @param config - Application configuration
+ * @param animation - Data to show, swapped in by the update loop
+ * @param compositor - Layer compositor
  */
 async function animateLEDs(
   ledService: ILedService,
   config: Config,
-  conditionsMap: Map<string, AirportConditions>,
-  durationMs: number
+  animation: AnimationState,
+  compositor: Compositor
 ): Promise<void> {
+  const engine = new AnimationEngine(ledService, config);
+  const cycleMs = config.blinkSpeed * 1000;
+  const frameMs = 1000 / config.animationFps;
   const startTime = Date.now();
-  let windCycle = false;
-  let cycleCount = 0;
+  const ledCycles = new Map<number, number>();  // Cycle each LED last targeted
+  let legendCycle = -1;
+  let shownData: AnimationData | undefined;
+  let dataShownAt = startTime;
+  let shownVersion = compositor.version;
+  let showingForecast = false;
+  let displayMode = getActiveDisplayMode(config);
   
-  while (Date.now() - startTime < durationMs) {
-    // Update each airport LED
-    for (const airport of config.airports) {
-      const conditions = conditionsMap.get(airport.code);
-      const color = getColorForConditions(conditions, windCycle, config);
-      ledService.setPixel(airport.led, color);
-    }
+  for (;;) {
+    const now = Date.now();
+    const data = animation.data;
     
-    // Show legend LEDs if enabled
-    if (config.showLegend) {
-      const legendColors = getLegendColors(windCycle, config);
-      const maxAirportLed = Math.max(...config.airports.map(a => a.led));
-      const legendStartIndex = maxAirportLed + 1 + config.offsetLegendBy;
+    if (data) {
+      // Rotate display modes if more than one is configured
+      const activeMode = getActiveDisplayMode(config);
+      if (activeMode !== displayMode) {
+        displayMode = activeMode;
+        ledCycles.clear();
+        legendCycle = -1;
+        console.log(`Display mode: ${displayMode.label}`);
+        
+        if (animation.onDisplayModeChange) {
+          try {
+            await animation.onDisplayModeChange(displayMode);
+          } catch (error) {
+            console.error('Error recording display mode change:', error);
+          }
+        }
+      }
+      
+      // Switch between current and forecast conditions if enabled
+      const showForecast =
+        data.forecastConditionsMap !== undefined &&
+        isShowingForecast(config, now - startTime);
+      
+      if (showForecast !== showingForecast) {
+        showingForecast = showForecast;
+        ledCycles.clear();
+        console.log(
+          showingForecast
+            ? `Showing forecast (+${config.forecastLookaheadHours}h)`
+            : 'Showing current conditions'
+        );
+      }
+      
+      // New data, layer changes and alerts take effect right away
+      if (data !== shownData || compositor.version !== shownVersion) {
+        if (data !== shownData) {
+          dataShownAt = now;
+        }
+        shownData = data;
+        shownVersion = compositor.version;
+        ledCycles.clear();
+        legendCycle = -1;
+      }
+      
+      const activeMap = showingForecast && data.forecastConditionsMap
+        ? data.forecastConditionsMap
+        : data.conditionsMap;
+      
+      // Start each airport LED's effect when its cycle changes
+      for (const airport of config.airports) {
+        const offset = getPhaseOffset(airport.led, cycleMs, config.animationPhaseSpread);
+        const cycle = Math.floor((now - startTime + offset) / cycleMs);
+        if (ledCycles.get(airport.led) === cycle) {
+          continue;
+        }
+        ledCycles.set(airport.led, cycle);
+        
+        const conditions = activeMap.get(airport.code);
+        const metar = data.metarDataMap.get(airport.code);
+        engine.setTarget(airport.led, compositor.render(displayMode, { conditions, metar }, cycle), now);
+      }
+      
+      // Show legend LEDs if enabled (all in step, switching instantly)
+      const cycle = Math.floor((now - startTime) / cycleMs);
+      if (config.showLegend && cycle !== legendCycle) {
+        legendCycle = cycle;
+        const legendColors = getDisplayModeLegend(displayMode, cycle % 2 === 1, config);
+        const maxAirportLed = Math.max(...config.airports.map(a => a.led));
+        const legendStartIndex = maxAirportLed + 1 + config.offsetLegendBy;
+        
+        for (let i = 0; i < legendColors.length; i++) {
+          const source = { conditions: undefined, metar: undefined, legend: legendColors[i] };
+          engine.setTarget(legendStartIndex + i, compositor.render(displayMode, source, cycle), now);
+        }
+      }
+      
+      // Push changed pixels
+      engine.renderFrame(now);
       
-      for (let i = 0; i < legendColors.length; i++) {
-        ledService.setPixel(legendStartIndex + i, legendColors[i]);
+      // Report the new data once its crossfade has finished
+      if (animation.onDataShown && now - dataShownAt >= config.crossfadeMs) {
+        const onDataShown = animation.onDataShown;
+        animation.onDataShown = undefined;
+        try {
+          await onDataShown();
+        } catch (error) {
+          console.error('Error recording the shown frame:', error);
+        }
       }
     }
     
-    // Update all LEDs at once
-    ledService.show();
-    
-    // Sleep for animation cycle
-    await sleep(config.blinkSpeed * 1000);
-    windCycle = !windCycle;
-    cycleCount++;
+    // Sleep until the next frame (or until new data arrives)
+    const delay = Math.max(0, frameMs - (Date.now() - now));
+    await new Promise<void>(resolve => {
+      const timer = setTimeout(resolve, delay);
+      animation.wake = (): void => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+    animation.wake = undefined;
   }
-  
-  console.log(`Animation cycles completed: ${cycleCount}`);
+}
+
+/**
+ * Record the active display mode (and the colors it shows) in the state file
+ */
+function recordDisplayMode(
+  stateManager: MetarStateManager,
+  state: MetarState,
+  config: Config,
+  data: AnimationData
+): (mode: DisplayMode) => Promise<void> {
+  return async mode => {
+    state.displayMode = describeDisplayMode(mode, config);
+    for (const airport of state.airports) {
+      airport.color = mode.getColor(
+        data.conditionsMap.get(airport.code),
+        data.metarDataMap.get(airport.code),
+        false,
+        config,
+        0
+      );
+    }
+    await stateManager.writeState(state);
+  };
+}
+
+/**
+ * Record the estimated LED current in the state file, once the LEDs show the
+ * state's data (so it is this frame's draw, not the one before the update)
+ */
+function recordPowerDraw(
+  stateManager: MetarStateManager,
+  state: MetarState,
+  ledService: ILedService
+): () => Promise<void> {
+  return async () => {
+    state.power = ledService.getPowerDraw();
+    await stateManager.writeState(state);
+  };
 }
 
 /**
@@ -142,22 +498,45 @@ async function main(): Promise<void> {
     // Setup graceful shutdown handlers
     setupShutdownHandler(ledService);
     
+    // Initialize METAR data providers
+    const metarProvider = createMetarProvider(config);
+    
+    // Load last-known-good METAR cache
+    const metarCache = new MetarCacheService(config.metarCachePath);
+    await metarCache.load();
+    
+    // Remember recent flight categories for trends
+    const categoryHistory = new CategoryHistoryService(config.trendWindowMinutes);
+    
     // Initialize state manager
     const stateManager = new MetarStateManager(config.statePath, config.logPath);
     
-    // Calculate update interval in milliseconds
-    const updateIntervalMs = config.metarUpdateInterval * 60 * 1000;
+    // Plan updates around METAR issuance and the weather
+    const scheduler = new UpdateScheduler(config);
     
-    console.log(`METAR update interval: ${config.metarUpdateInterval} minutes`);
+    if (config.adaptivePolling) {
+      console.log(
+        `METAR update interval: ${config.pollIntervalActive}-${config.pollIntervalMax} minutes ` +
+        `(normally ${config.metarUpdateInterval}), ` +
+        `issuance window :${config.issuanceWindow.start}-:${config.issuanceWindow.end}`
+      );
+    } else {
+      console.log(`METAR update interval: ${config.metarUpdateInterval} minutes`);
+    }
     console.log(`Animation speed: ${config.blinkSpeed}s per cycle`);
     console.log('Running continuously until stopped...');
     console.log('');
     
-    // Continuous update loop
-    let updateCount = 0;
+    // Animate continuously; each update swaps in new data
+    const animation: AnimationState = {};
+    const compositor = new Compositor(config);
+    compositor.watchLayerControl();  // LAYER_CONTROL_PATH switches layers while running
+    animateLEDs(ledService, config, animation, compositor).catch(error => {
+      console.error('LED animation stopped:', error);
+    });
     
-    while (true) {
-      updateCount++;
+    // Continuous update loop
+    for (let updateCount = 1; ; updateCount++) {
       console.log('========================================');
       console.log(`Update Cycle #${updateCount}`);
       console.log(`Time: ${new Date().toISOString()}`);
@@ -172,27 +551,111 @@ async function main(): Promise<void> {
         
         // Fetch METAR data for all airports
         console.log('Fetching METAR data...');
-        const { conditionsMap, metarDataMap } = await fetchAndParseAllConditions(config);
+        const { conditionsMap, metarDataMap } = await fetchAndParseAllConditions(
+          config,
+          metarProvider,
+          metarCache
+        );
+        
+        // Compare with earlier observations
+        const changed = categoryHistory.applyTrends(conditionsMap, metarDataMap);
+        console.log(`${changed} airports changed category in the last ${config.trendWindowMinutes} minutes`);
+        console.log('');
+        
+        // Fetch TAF forecasts if a forecast display mode is enabled
+        const forecastData = await fetchForecasts(config);
+        
+        // Flag airports inside SIGMETs/AIRMETs if the overlay is enabled
+        await fetchAdvisories(config, conditionsMap, metarDataMap);
+        
+        // Attach nearby turbulence/icing PIREPs if the overlay is enabled
+        await fetchPireps(config, conditionsMap, metarDataMap);
         console.log('');
         
         // Build and write state
-        const state = await buildState(config, conditionsMap, metarDataMap);
+        const state = await buildState(
+          config,
+          conditionsMap,
+          metarDataMap,
+          forecastData,
+          metarProvider.activeSource
+        );
         await writeStateAndLog(stateManager, state, config);
         console.log('');
         
-        // Animate LEDs until next update
-        console.log(`Animating for ${config.metarUpdateInterval} minutes...`);
-        console.log('');
-        await animateLEDs(ledService, config, conditionsMap, updateIntervalMs);
+        // Show the new data right away
+        const animationData: AnimationData = {
+          conditionsMap,
+          metarDataMap,
+          forecastConditionsMap: forecastData?.forecastConditionsMap
+        };
+        showAnimationData(
+          animation,
+          animationData,
+          recordDisplayMode(stateManager, state, config, animationData),
+          recordPowerDraw(stateManager, state, ledService)
+        );
+        
+        if (compositor.clearAlert(UPDATE_FAILED_ALERT)) {
+          console.log('Update alert cleared');
+        }
+        
+        // Wait for the next update
+        const plan = scheduler.planNext(conditionsMap, metarDataMap);
+        if (plan.speci.length > 0) {
+          console.log(`New SPECI for ${plan.speci.join(', ')}`);
+        }
+        console.log(
+          `Next update at ${plan.nextUpdate.toISOString()} ` +
+          `(${plan.reason}${plan.aligned ? ', after issuance window' : ''})`
+        );
         console.log('');
+        await sleep(plan.delayMs);
         
       } catch (error) {
         console.error('Error in update cycle:', error);
-        console.error('Waiting 60 seconds before retry...');
         console.error('');
+        compositor.raiseAlert(UPDATE_FAILED_ALERT);
+        
+        if (metarCache.size === 0) {
+          console.error('Waiting 60 seconds before retry...');
+          console.error('');
+          
+          // Wait before retrying on error
+          await sleep(60 * 1000);
+          continue;
+        }
         
-        // Wait before retrying on error
-        await sleep(60 * 1000);
+        // Keep showing last known good data until the retry
+        try {
+          console.log('Showing cached METAR data for 60 seconds before retry...');
+          const { conditionsMap, metarDataMap } = parseCachedConditions(config, metarCache);
+          categoryHistory.applyTrends(conditionsMap, metarDataMap);
+          const state = await buildState(
+            config,
+            conditionsMap,
+            metarDataMap,
+            undefined,
+            'cache'
+          );
+          
+          // Cached observations are already in the history log
+          await stateManager.writeState(state);
+          console.log(`State file written to ${config.statePath}`);
+          console.log('');
+          
+          const animationData: AnimationData = { conditionsMap, metarDataMap };
+          showAnimationData(
+            animation,
+            animationData,
+            recordDisplayMode(stateManager, state, config, animationData),
+            recordPowerDraw(stateManager, state, ledService)
+          );
+          await sleep(60 * 1000);
+        } catch (cacheError) {
+          console.error('Error showing cached data:', cacheError);
+          await sleep(60 * 1000);
+        }
       }
     }
     
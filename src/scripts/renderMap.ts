@@ -0,0 +1,56 @@
+/**
+ * Render Map Script
+ * Draws the map from the state file as SVG or PNG, without touching the LEDs
+ *
+ * Usage: npm run render-map -- [output.svg|output.png ...]
+ * Without paths, writes to MAP_SNAPSHOT_PATHS.
+ */
+
+import { loadConfig } from '../config';
+import { MetarStateManager } from '../shared/metarState';
+import { createMapSnapshot } from '../utils/mapRenderer';
+import { writeMapImage } from '../services/mapLedService';
+
+/**
+ * Render the state file to each output path and exit
+ */
+async function main(): Promise<void> {
+  try {
+    // Load configuration
+    const config = await loadConfig();
+
+    const paths = process.argv.slice(2);
+    const outputs = paths.length > 0 ? paths : config.mapSnapshotPaths;
+    if (outputs.length === 0) {
+      throw new Error('No output given: pass .svg/.png paths or set MAP_SNAPSHOT_PATHS');
+    }
+    const badPath = outputs.find(path => !/\.(svg|png)$/i.test(path));
+    if (badPath) {
+      throw new Error(`Output must end in .svg or .png: ${badPath}`);
+    }
+
+    // Read the last state written by the map
+    const state = await new MetarStateManager(config.statePath).readState();
+    if (!state) {
+      throw new Error(`No state file at ${config.statePath}; start the map first`);
+    }
+
+    const snapshot = createMapSnapshot(state, config);
+    if (snapshot.unplaced > 0) {
+      console.warn(`${snapshot.unplaced} airports have no position and are left off the map`);
+    }
+    for (const path of outputs) {
+      await writeMapImage(path, snapshot, config.mapWidth, config.mapHeight);
+      console.log(`Map written to ${path}`);
+    }
+
+    process.exit(0);
+
+  } catch (error) {
+    console.error('Error rendering map:', error);
+    process.exit(1);
+  }
+}
+
+// Run
+main();
@@ -0,0 +1,143 @@
+/**
+ * Time-lapse Script
+ * Replays the history log over a time range as an animated GIF or a
+ * sequence of PNG frames
+ *
+ * Usage: npm run timelapse -- <output.gif|directory> [--from <time>] [--to <time>]
+ *          [--step <minutes>] [--delay <ms>] [--log <path>]
+ * Times are ISO dates ("2024-05-01T12:00Z"); the default range is the last
+ * 24 hours.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { loadConfig } from '../config';
+import { MetarStateManager } from '../shared/metarState';
+import { renderMapRaster } from '../utils/mapRenderer';
+import { encodePng } from '../utils/png';
+import { encodeGif, encodeGifFrame } from '../utils/gif';
+import { TIMELAPSE_LOOKBACK_MS, createTimelapseFrames, createTimelapseSnapshot } from '../utils/timelapse';
+
+const DEFAULT_RANGE_HOURS = 24;
+const MAX_FRAMES = 2000;
+const HOLD_LAST_FRAME_MS = 2000;
+
+/**
+ * Parse a time option
+ */
+function parseTime(value: string | undefined, name: string, fallback: Date): Date {
+  if (value === undefined) {
+    return fallback;
+  }
+  const time = new Date(value);
+  if (isNaN(time.getTime())) {
+    throw new Error(`Invalid --${name} time: ${value}`);
+  }
+  return time;
+}
+
+/**
+ * Replay the log and write the animation or frames
+ */
+async function main(): Promise<void> {
+  try {
+    const { values, positionals } = parseArgs({
+      options: {
+        from: { type: 'string' },
+        to: { type: 'string' },
+        step: { type: 'string', default: '10' },
+        delay: { type: 'string', default: '200' },
+        log: { type: 'string' }
+      },
+      allowPositionals: true
+    });
+
+    const output = positionals[0];
+    if (!output) {
+      throw new Error('No output given: pass a .gif file or a directory for PNG frames');
+    }
+    const to = parseTime(values.to, 'to', new Date());
+    const from = parseTime(values.from, 'from', new Date(to.getTime() - DEFAULT_RANGE_HOURS * 60 * 60 * 1000));
+    const stepMinutes = Number(values.step);
+    const delayMs = Number(values.delay);
+    if (from >= to) {
+      throw new Error('--from must be before --to');
+    }
+    if (!(stepMinutes > 0) || !(delayMs >= 0)) {
+      throw new Error(`--step must be positive and --delay non-negative: ${values.step}/${values.delay}`);
+    }
+
+    // Load configuration
+    const config = await loadConfig();
+    const logPath = values.log ?? config.logPath;
+    if (!logPath) {
+      throw new Error('No history log: pass --log or set ENABLE_LOGGING and LOG_FILE_PATH');
+    }
+
+    const stateManager = new MetarStateManager(config.statePath, logPath);
+    const entries = await stateManager.readLog(new Date(from.getTime() - TIMELAPSE_LOOKBACK_MS), to);
+    if (entries.length === 0) {
+      throw new Error(`No log entries in ${logPath} between ${from.toISOString()} and ${to.toISOString()}`);
+    }
+
+    // Positions from airports.json, then from the METAR stations in the state file
+    const positions = new Map<string, { lat: number; lon: number }>();
+    for (const airport of config.airports) {
+      if (airport.lat !== undefined && airport.lon !== undefined) {
+        positions.set(airport.code, { lat: airport.lat, lon: airport.lon });
+      }
+    }
+    const state = await stateManager.readState();
+    for (const airport of state?.airports ?? []) {
+      if (!positions.has(airport.code) && airport.lat !== undefined && airport.lon !== undefined) {
+        positions.set(airport.code, { lat: airport.lat, lon: airport.lon });
+      }
+    }
+    if (positions.size === 0) {
+      throw new Error(
+        'No airport positions: start the map once to write the state file, or add lat/lon to airports.json'
+      );
+    }
+
+    const frames = createTimelapseFrames(entries, from, to, stepMinutes);
+    if (frames.length > MAX_FRAMES) {
+      throw new Error(`${frames.length} frames is more than ${MAX_FRAMES}; use a larger --step or a shorter range`);
+    }
+    console.log(`Rendering ${frames.length} frames from ${entries.length} log entries...`);
+
+    const gif = /\.gif$/i.test(output);
+    const gifFrames: Buffer[] = [];
+    if (!gif) {
+      await fs.mkdir(output, { recursive: true });
+    }
+
+    for (let i = 0; i < frames.length; i++) {
+      const snapshot = createTimelapseSnapshot(frames[i], i, positions, config);
+      const raster = renderMapRaster(snapshot, config.mapWidth, config.mapHeight);
+      if (gif) {
+        const last = i === frames.length - 1;
+        gifFrames.push(encodeGifFrame(raster, last ? Math.max(delayMs, HOLD_LAST_FRAME_MS) : delayMs));
+      } else {
+        const name = `frame-${String(i + 1).padStart(4, '0')}.png`;
+        await fs.writeFile(path.join(output, name), encodePng(raster.width, raster.height, raster.data));
+      }
+    }
+
+    if (gif) {
+      await fs.writeFile(output, encodeGif(config.mapWidth, config.mapHeight, gifFrames));
+      console.log(`Time-lapse written to ${output}`);
+    } else {
+      console.log(`${frames.length} frames written to ${output}`);
+    }
+
+    process.exit(0);
+
+  } catch (error) {
+    console.error('Error creating time-lapse:', error);
+    process.exit(1);
+  }
+}
+
+// Run
+main();
@@ -0,0 +1,170 @@
+/**
+ * SIGMET/AIRMET advisory service
+ * Retrieves SIGMETs, convective SIGMETs, AIRMETs and G-AIRMETs from
+ * aviationweather.gov and flags the airports inside their areas
+ */
+
+import axios from 'axios';
+import {
+  Advisory,
+  AirportConditions,
+  AirSigmetApiData,
+  Config,
+  GAirmetApiData,
+  GeoPoint
+} from '../types';
+import { describeFetchError } from '../utils/httpError';
+import {
+  findCoveringAdvisories,
+  isAdvisoryActive,
+  parseAirSigmet,
+  parseGAirmet
+} from '../utils/advisories';
+
+/**
+ * Fetch a JSON array from an advisory API
+ */
+async function fetchAdvisoryJson<T>(apiUrl: string, dataType: string): Promise<T[]> {
+  const url = `${apiUrl}?format=json`;
+
+  try {
+    const response = await axios.get<T[]>(url, {
+      headers: {
+        'User-Agent': 'NodeMetarMap/1.0'
+      },
+      timeout: 15000  // 15 second timeout
+    });
+
+    if (!Array.isArray(response.data)) {
+      throw new Error('API response is not an array');
+    }
+
+    console.log(`Received ${response.data.length} ${dataType} entries`);
+    return response.data;
+
+  } catch (error) {
+    throw describeFetchError(error, dataType);
+  }
+}
+
+/**
+ * Fetch SIGMETs, convective SIGMETs and AIRMETs
+ *
+ * @param apiUrl - airsigmet API URL
+ * @returns Raw airsigmet API entries
+ */
+export async function fetchAirSigmets(apiUrl: string): Promise<AirSigmetApiData[]> {
+  return fetchAdvisoryJson<AirSigmetApiData>(apiUrl, 'SIGMET/AIRMET');
+}
+
+/**
+ * Fetch G-AIRMET snapshots
+ *
+ * @param apiUrl - gairmet API URL
+ * @returns Raw gairmet API entries
+ */
+export async function fetchGAirmets(apiUrl: string): Promise<GAirmetApiData[]> {
+  return fetchAdvisoryJson<GAirmetApiData>(apiUrl, 'G-AIRMET');
+}
+
+/**
+ * Parse advisory feeds and keep the ones to show
+ * Keeps advisories that are in effect, whose hazard is listed in
+ * ADVISORY_HAZARDS and that start at or below ADVISORY_MAX_ALTITUDE.
+ *
+ * @param config - Application configuration
+ * @param airSigmets - Raw airsigmet API entries
+ * @param gAirmets - Raw gairmet API entries
+ * @param now - Current time
+ * @returns Active advisories
+ */
+export function parseActiveAdvisories(
+  config: Config,
+  airSigmets: AirSigmetApiData[],
+  gAirmets: GAirmetApiData[],
+  now: Date = new Date()
+): Advisory[] {
+  const parsed = [
+    ...airSigmets.map(parseAirSigmet),
+    ...gAirmets.map(parseGAirmet)
+  ];
+
+  return parsed.filter((advisory): advisory is Advisory =>
+    advisory !== null &&
+    isAdvisoryActive(advisory, now) &&
+    config.advisoryHazards.includes(advisory.hazard) &&
+    (advisory.altitudeLow === undefined || advisory.altitudeLow <= config.advisoryMaxAltitude)
+  );
+}
+
+/**
+ * Fetch and parse all active advisories
+ * One feed failing is logged; both failing throws.
+ *
+ * @param config - Application configuration
+ * @param now - Current time
+ * @returns Active advisories
+ */
+export async function fetchActiveAdvisories(
+  config: Config,
+  now: Date = new Date()
+): Promise<Advisory[]> {
+  const [airSigmets, gAirmets] = await Promise.allSettled([
+    fetchAirSigmets(config.airSigmetApiUrl),
+    fetchGAirmets(config.gAirmetApiUrl)
+  ]);
+
+  if (airSigmets.status === 'rejected' && gAirmets.status === 'rejected') {
+    throw airSigmets.reason;
+  }
+  if (airSigmets.status === 'rejected') {
+    console.error('Error fetching SIGMETs/AIRMETs:', airSigmets.reason);
+  }
+  if (gAirmets.status === 'rejected') {
+    console.error('Error fetching G-AIRMETs:', gAirmets.reason);
+  }
+
+  const advisories = parseActiveAdvisories(
+    config,
+    airSigmets.status === 'fulfilled' ? airSigmets.value : [],
+    gAirmets.status === 'fulfilled' ? gAirmets.value : [],
+    now
+  );
+
+  console.log(`${advisories.length} active advisories`);
+  return advisories;
+}
+
+/**
+ * Flag the airports each advisory covers
+ * Sets conditions.advisories for airports with a known position.
+ *
+ * @param conditionsMap - Airport conditions (updated in place)
+ * @param positions - Airport positions (from getAirportPositions)
+ * @param advisories - Active advisories
+ * @returns Number of airports covered by at least one advisory
+ */
+export function applyAdvisories(
+  conditionsMap: Map<string, AirportConditions>,
+  positions: Map<string, GeoPoint>,
+  advisories: Advisory[]
+): number {
+  let covered = 0;
+
+  for (const [code, conditions] of conditionsMap) {
+    const position = positions.get(code);
+    if (!position) {
+      continue;
+    }
+
+    const covering = findCoveringAdvisories(advisories, position);
+    conditions.advisories = covering;
+
+    if (covering.length > 0) {
+      covered++;
+      console.log(`${code}: Inside ${covering.map(a => a.id).join(', ')}`);
+    }
+  }
+
+  return covered;
+}
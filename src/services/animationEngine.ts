@@ -0,0 +1,120 @@
+/**
+ * Frame-based LED animation engine
+ * Each LED runs its own effect segment; frames are rendered at a fixed rate
+ * and only pixels whose color changed are pushed to the strip
+ */
+
+import { AnimatedColor, Color, Config, LedEffectName } from '../types';
+import { ILedService } from './ledService';
+import { EffectSegment, createSegment, renderSegment, sameColor } from '../utils/effects';
+
+const OFF: Color = { r: 0, g: 0, b: 0 };
+
+/**
+ * Renders per-LED effects and pushes changed pixels
+ */
+export class AnimationEngine {
+  private ledService: ILedService;
+  private config: Config;
+  private random: () => number;
+  private segments = new Map<number, EffectSegment>();
+  private shown = new Map<number, Color>();
+
+  constructor(ledService: ILedService, config: Config, random: () => number = Math.random) {
+    this.ledService = ledService;
+    this.config = config;
+    this.random = random;
+  }
+
+  /**
+   * Length of an effect segment
+   * Pulses take half an animation cycle, breathing and strobe bursts a whole one.
+   *
+   * @param effect - Effect name
+   * @returns Duration in milliseconds
+   */
+  getEffectDuration(effect: LedEffectName): number {
+    const cycleMs = this.config.blinkSpeed * 1000;
+    switch (effect) {
+      case 'crossfade':
+        return this.config.crossfadeMs;
+      case 'pulse':
+        return cycleMs / 2;
+      case 'breathe':
+      case 'strobe':
+        return cycleMs;
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * Color an LED shows at a point in time
+   *
+   * @param index - LED index
+   * @param now - Current time in milliseconds
+   * @returns Current color (off before the first target)
+   */
+  getColor(index: number, now: number): Color {
+    const segment = this.segments.get(index);
+    return segment ? renderSegment(segment, now) : OFF;
+  }
+
+  /**
+   * Move an LED to a new color using the given effect
+   * The new effect starts from whatever the LED shows right now, so an
+   * interrupted fade carries on smoothly. Targets equal to the current
+   * target are ignored unless they strobe.
+   *
+   * @param index - LED index
+   * @param target - Target color and effect
+   * @param now - Current time in milliseconds
+   */
+  setTarget(index: number, target: AnimatedColor, now: number): void {
+    const segment = this.segments.get(index);
+    if (segment && target.effect !== 'strobe' && sameColor(segment.to, target.color)) {
+      return;
+    }
+
+    this.segments.set(
+      index,
+      createSegment(
+        target.effect,
+        this.getColor(index, now),
+        target.color,
+        now,
+        this.getEffectDuration(target.effect),
+        this.random,
+        1000 / this.config.animationFps
+      )
+    );
+  }
+
+  /**
+   * Render a frame, pushing only the pixels that changed
+   * show() is skipped when nothing changed.
+   *
+   * @param now - Current time in milliseconds
+   * @returns Number of pixels pushed
+   */
+  renderFrame(now: number): number {
+    let changed = 0;
+
+    for (const index of this.segments.keys()) {
+      const color = this.getColor(index, now);
+      const shown = this.shown.get(index);
+      if (shown && sameColor(shown, color)) {
+        continue;
+      }
+
+      this.ledService.setPixel(index, color);
+      this.shown.set(index, color);
+      changed++;
+    }
+
+    if (changed > 0) {
+      this.ledService.show();
+    }
+    return changed;
+  }
+}
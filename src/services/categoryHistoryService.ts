@@ -0,0 +1,111 @@
+/**
+ * Flight category history
+ * Remembers each airport's recent observations across update cycles so the
+ * map can show whether conditions are improving or deteriorating
+ */
+
+import { AirportConditions, FlightCategory, MetarData } from '../types';
+import { getCategoryTrend } from '../utils/flightCategory';
+
+/**
+ * A flight category at an observation time
+ */
+interface CategoryObservation {
+  obsTime: number;  // Epoch seconds
+  category: FlightCategory;
+}
+
+/**
+ * In-memory per-airport history of recent flight categories
+ */
+export class CategoryHistoryService {
+  private windowMinutes: number;
+  private history = new Map<string, CategoryObservation[]>();
+
+  constructor(windowMinutes: number) {
+    this.windowMinutes = windowMinutes;
+  }
+
+  /**
+   * Record an observation
+   * The same observation seen again (e.g. from the cache) is recorded once.
+   * Observations more than the trend window older than the newest one are
+   * dropped, but the one before the newest is always kept so a late report
+   * still has something to compare against.
+   *
+   * @param code - Airport code
+   * @param obsTime - Observation time in epoch seconds
+   * @param category - Flight category of the observation
+   */
+  record(code: string, obsTime: number, category: FlightCategory): void {
+    const observations = this.history.get(code) || [];
+
+    if (!observations.some(o => o.obsTime === obsTime)) {
+      observations.push({ obsTime, category });
+      observations.sort((a, b) => a.obsTime - b.obsTime);
+    }
+
+    const newest = observations[observations.length - 1].obsTime;
+    const oldest = newest - this.windowMinutes * 60;
+    const kept = observations.filter(
+      (o, i) => o.obsTime >= oldest || i >= observations.length - 2
+    );
+    this.history.set(code, kept);
+  }
+
+  /**
+   * Recorded observations for an airport, oldest first
+   *
+   * @param code - Airport code
+   * @returns Recorded categories and times
+   */
+  getHistory(code: string): { obsTime: number; category: FlightCategory }[] {
+    return [...(this.history.get(code) || [])];
+  }
+
+  /**
+   * Record the current observations and set each airport's trend
+   * The trend compares the newest observation with the oldest one still
+   * in the window; previousCategory is that oldest category.
+   *
+   * @param conditionsMap - Airport conditions (updated in place)
+   * @param metarDataMap - METAR data, for observation times
+   * @returns Number of airports whose category changed within the window
+   */
+  applyTrends(
+    conditionsMap: Map<string, AirportConditions>,
+    metarDataMap: Map<string, MetarData>
+  ): number {
+    let changed = 0;
+
+    for (const [code, conditions] of conditionsMap) {
+      const metar = metarDataMap.get(code);
+      if (!metar || conditions.flightCategory === null) {
+        continue;
+      }
+
+      this.record(code, metar.obsTime, conditions.flightCategory);
+
+      const observations = this.history.get(code) || [];
+      if (observations.length < 2) {
+        continue;
+      }
+
+      const previous = observations[0].category;
+      const trend = getCategoryTrend(previous, conditions.flightCategory);
+      if (!trend) {
+        continue;
+      }
+
+      conditions.previousCategory = previous;
+      conditions.trend = trend;
+
+      if (trend !== 'steady') {
+        changed++;
+        console.log(`${code}: ${trend} (${previous} -> ${conditions.flightCategory})`);
+      }
+    }
+
+    return changed;
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * LED compositor
+ * Blends the active display mode's layers with the legend and system alert
+ * layers. Layers can be switched on and off while running (through the layer
+ * control file), and system alerts raised and cleared.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { AnimatedColor, Color, Config, LayerName } from '../types';
+import { DisplayMode } from '../utils/displayModes';
+import { LAYER_NAMES, Layer, LayerContext, alertLayer, compositeLayers, legendLayer } from '../utils/layers';
+
+/**
+ * What is shown on an LED: an airport's observation or a legend color
+ */
+export type LedSource = Pick<LayerContext, 'conditions' | 'metar' | 'legend'>;
+
+/**
+ * Layer control file format, e.g. {"disabledLayers": ["wind", "pirep"]}
+ */
+interface LayerControlFile {
+  disabledLayers: LayerName[];
+}
+
+/**
+ * How often the layer control file is checked for changes
+ */
+const LAYER_CONTROL_POLL_MS = 2000;
+
+/**
+ * Default layer control file location: next to the state file
+ *
+ * @param statePath - Path of the state file
+ * @returns Path of the layer control file
+ */
+export function defaultLayerControlPath(statePath: string): string {
+  return path.join(path.dirname(statePath), 'metar-layers.json');
+}
+
+/**
+ * Blends layers into LED colors
+ */
+export class Compositor {
+  private config: Config;
+  private disabled: Set<LayerName>;
+  private alerts = new Map<string, Color>();
+  private changes = 0;
+
+  constructor(config: Config) {
+    this.config = config;
+    this.disabled = new Set(config.disabledLayers);
+  }
+
+  /**
+   * Counter bumped whenever layers or alerts change, so callers know to
+   * redraw LEDs they have already drawn
+   */
+  get version(): number {
+    return this.changes;
+  }
+
+  /**
+   * Turn a layer on or off
+   *
+   * @param name - Layer name
+   * @param enabled - Whether the layer draws
+   */
+  setLayerEnabled(name: LayerName, enabled: boolean): void {
+    if (enabled === this.isLayerEnabled(name)) {
+      return;
+    }
+    if (enabled) {
+      this.disabled.delete(name);
+    } else {
+      this.disabled.add(name);
+    }
+    this.changes++;
+  }
+
+  /**
+   * Check whether a layer draws
+   */
+  isLayerEnabled(name: LayerName): boolean {
+    return !this.disabled.has(name);
+  }
+
+  /**
+   * Apply the layer control file: the layers it lists are turned off and the
+   * rest on. Without the file the layers from DISABLED_LAYERS are off; an
+   * unreadable file leaves the layers as they are.
+   *
+   * @param controlPath - Path of the layer control file
+   * @returns True if any layer was switched
+   */
+  async loadLayerControl(controlPath: string = this.config.layerControlPath): Promise<boolean> {
+    let disabled: LayerName[];
+    try {
+      const file: LayerControlFile = JSON.parse(await fs.promises.readFile(controlPath, 'utf-8'));
+      if (!Array.isArray(file.disabledLayers)) {
+        throw new Error('disabledLayers must be a list of layer names');
+      }
+      const unknown = file.disabledLayers.find(name => !LAYER_NAMES.includes(name));
+      if (unknown !== undefined) {
+        throw new Error(`Unknown layer: ${unknown}. Expected ${LAYER_NAMES.join(', ')}`);
+      }
+      disabled = file.disabledLayers;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn(`Ignoring layer control file ${controlPath}: ${(error as Error).message}`);
+        return false;
+      }
+      disabled = this.config.disabledLayers;
+    }
+
+    const version = this.changes;
+    for (const name of LAYER_NAMES) {
+      this.setLayerEnabled(name, !disabled.includes(name));
+    }
+    if (this.changes === version) {
+      return false;
+    }
+    console.log(`Layers turned off: ${this.disabled.size > 0 ? [...this.disabled].join(', ') : 'none'}`);
+    return true;
+  }
+
+  /**
+   * Apply the layer control file now and whenever it changes
+   *
+   * @param controlPath - Path of the layer control file
+   * @param intervalMs - How often to check the file
+   * @returns Function that stops watching
+   */
+  watchLayerControl(
+    controlPath: string = this.config.layerControlPath,
+    intervalMs: number = LAYER_CONTROL_POLL_MS
+  ): () => void {
+    const reload = (): void => {
+      this.loadLayerControl(controlPath).catch(error => {
+        console.warn('Unable to apply layer control file:', error);
+      });
+    };
+
+    // Polling also sees the file being replaced by an atomic rename
+    fs.watchFile(controlPath, { interval: intervalMs, persistent: false }, reload);
+    reload();
+    return () => fs.unwatchFile(controlPath, reload);
+  }
+
+  /**
+   * Raise a system alert, shown until cleared
+   *
+   * @param id - Alert identifier
+   * @param color - Alert color (COLOR_ALERT by default)
+   * @returns True if the alert was not already raised
+   */
+  raiseAlert(id: string, color: Color = this.config.colors.alert): boolean {
+    const raised = !this.alerts.has(id);
+    this.alerts.set(id, color);
+    if (raised) {
+      this.changes++;
+    }
+    return raised;
+  }
+
+  /**
+   * Clear a system alert
+   *
+   * @param id - Alert identifier
+   * @returns True if the alert was raised
+   */
+  clearAlert(id: string): boolean {
+    const cleared = this.alerts.delete(id);
+    if (cleared) {
+      this.changes++;
+    }
+    return cleared;
+  }
+
+  /**
+   * Enabled layers for a display mode, with the legend and alert layers on top
+   *
+   * @param mode - Display mode
+   * @returns Layers that draw
+   */
+  getLayers(mode: DisplayMode): Layer[] {
+    return [...mode.getLayers(), legendLayer, alertLayer].filter(layer => this.isLayerEnabled(layer.name));
+  }
+
+  /**
+   * Blend the layers for an LED
+   *
+   * @param mode - Active display mode
+   * @param source - Airport observation or legend color shown on the LED
+   * @param cycle - Animation cycle counter (odd cycles are wind cycles)
+   * @returns Color and effect for the LED
+   */
+  render(mode: DisplayMode, source: LedSource, cycle: number): AnimatedColor {
+    return compositeLayers(this.getLayers(mode), {
+      ...source,
+      windCycle: cycle % 2 === 1,
+      cycle,
+      config: this.config,
+      alerts: [...this.alerts.values()]
+    });
+  }
+}
@@ -3,7 +3,16 @@
  * Provides both real (GPIO) and mock (console) implementations
  */
 
-import { Color, Config } from '../types';
+import { Color, Config, LedStrip, PowerDraw } from '../types';
+import { createColorCorrection } from '../utils/colorCalibration';
+import { hasWhiteChannel, packChannels, toStripChannels } from '../utils/channelOrder';
+import { sameColor } from '../utils/effects';
+import { StripAddress, createLedAddressMap, describeStrip, getStripSegments } from '../utils/ledStrips';
+import { PowerMeter } from './powerMeter';
+import { E131LedService, OpcLedService, WledLedService } from './networkLedService';
+import { Apa102LedService } from './spiLedService';
+import { MapLedService } from './mapLedService';
+import { TerminalLedService } from './terminalLedService';
 
 /**
  * Interface for LED control operations
@@ -15,17 +24,28 @@ export interface ILedService {
   clear(): void;
   setBrightness(brightness: number): void;
   cleanup(): void;
+  
+  /**
+   * Estimated current of the last frame shown
+   */
+  getPowerDraw(): PowerDraw;
 }
 
 /**
  * Real LED service implementation using rpi-ws281x-native
  * Requires actual Raspberry Pi hardware with GPIO access
+ * Each strip is a driver channel; logical LED indices are mapped to a
+ * channel and position on every write. Every frame's draw is estimated
+ * before it is shown and the brightness scaled down to fit POWER_LIMIT_MA.
  */
 export class RealLedService implements ILedService {
   private ws281x: any;
-  private pixels: Uint32Array;
-  private channel: any;
-  private ledCount: number;
+  private channels: any[];
+  private strips: LedStrip[];
+  private locate: (index: number) => StripAddress | null;
+  private correct: (index: number, color: Color) => Color;
+  private power: PowerMeter;
+  private brightness: number;
   
   constructor(config: Config) {
     try {
@@ -39,45 +59,44 @@ export class RealLedService implements ILedService {
       );
     }
     
-    this.ledCount = config.ledCount;
-    
-    // Determine strip type based on LED order
-    // v1.0.4 uses string values or constants
-    let stripType: any;
-    if (this.ws281x.stripType) {
-      // Use constants if available
-      stripType = config.ledOrder === 'GRB'
-        ? (this.ws281x.stripType.WS2812 || this.ws281x.stripType.WS2811_STRIP_GRB)
-        : (this.ws281x.stripType.WS2811_STRIP_RGB);
-    } else {
-      // Fallback to string values
-      stripType = config.ledOrder === 'GRB' ? 'ws2812' : 'rgb';
-    }
+    this.strips = config.ledStrips;
+    this.locate = createLedAddressMap(config.ledStrips);
+    this.correct = createColorCorrection(config.colorCalibration);
+    this.power = new PowerMeter(config);
+    this.brightness = config.ledBrightness;
     
-    // Initialize the LED strip
-    console.log(`Initializing ${config.ledCount} LEDs on GPIO pin ${config.ledPin}`);
-    console.log(`LED order: ${config.ledOrder}, Brightness: ${config.ledBrightness}`);
+    // Initialize the LED strips
+    console.log(`Initializing ${config.ledCount} LEDs on ${this.strips.length} strip(s)`);
+    const segments = getStripSegments(this.strips);
+    this.strips.forEach((strip, i) => console.log(describeStrip(strip, segments[i])));
+    console.log(`Brightness: ${config.ledBrightness}`);
     
     try {
-      // v1.0.4 API: Call ws281x as a function, not init()
-      this.channel = this.ws281x(config.ledCount, {
-        dma: 10,
-        freq: 800000,
-        gpio: config.ledPin,  // 'gpio' not 'gpioPin'
+      const options = this.strips.map(strip => ({
+        count: strip.count,
+        gpio: strip.pin,  // 'gpio' not 'gpioPin'
         invert: false,
-        brightness: Math.floor(config.ledBrightness * 255),
-        stripType: stripType
-      });
+        brightness: Math.floor(config.ledBrightness * strip.brightness * 255),
+        stripType: this.getStripType(strip)
+      }));
       
-      // Get pixel array from channel
-      this.pixels = this.channel.array;
+      if (options.length === 1) {
+        // v1.0.4 API: Call ws281x as a function for a single channel
+        const { count, ...channelOptions } = options[0];
+        this.channels = [this.ws281x(count, { dma: 10, freq: 800000, ...channelOptions })];
+      } else {
+        // Both PWM channels are set up together
+        this.channels = this.ws281x.init({ dma: 10, freq: 800000, channels: options }).slice(0, options.length);
+      }
       
       // Verify initialization succeeded
-      if (!this.pixels || !this.pixels.length) {
-        throw new Error('Failed to get pixel array from channel');
-      }
+      this.channels.forEach((channel, i) => {
+        if (!channel.array || channel.array.length !== this.strips[i].count) {
+          throw new Error(`Failed to get pixel array for strip ${i}`);
+        }
+      });
       
-      console.log(`Pixel array initialized: ${this.pixels.length} LEDs`);
+      console.log(`Pixel arrays initialized: ${this.channels.map(c => c.array.length).join(' + ')} LEDs`);
       
       // Clear LEDs on initialization
       this.clear();
@@ -89,29 +108,70 @@ export class RealLedService implements ILedService {
     }
   }
   
+  /**
+   * Driver strip type for a strip
+   * Pixels are packed in wire order (see setPixel), so the driver is told
+   * the strip is plain RGB or RGBW and passes the bytes through as they are
+   */
+  private getStripType(strip: LedStrip): any {
+    const white = hasWhiteChannel(strip.order);
+    if (this.ws281x.stripType) {
+      // Use constants if available
+      return white
+        ? this.ws281x.stripType.SK6812_STRIP_RGBW
+        : this.ws281x.stripType.WS2811_STRIP_RGB;
+    }
+    // v1.0.4 also accepts string values
+    return white ? 'sk6812-rgbw' : 'rgb';
+  }
+  
   setPixel(index: number, color: Color): void {
-    if (index < 0 || index >= this.ledCount) {
+    const address = this.locate(index);
+    if (!address) {
       console.warn(`LED index out of range: ${index}`);
       return;
     }
     
-    // Pack RGB into 32-bit integer
-    // Format: 0x00RRGGBB
-    this.pixels[index] = (color.r << 16) | (color.g << 8) | color.b;
+    // Gamma and calibration, then the strip's channel order
+    // Format: 0x00AABBCC (0xDDAABBCC for RGBW) with channel A sent first
+    const output = this.correct(index, color);
+    const channels = toStripChannels(output, this.strips[address.strip].order);
+    this.channels[address.strip].array[address.offset] = packChannels(channels);
+    this.power.setPixel(index, channels);
   }
   
   show(): void {
+    const draw = this.power.measure(this.brightness);
+    this.applyBrightness(draw.scale);
     this.ws281x.render();
   }
   
   clear(): void {
-    this.pixels.fill(0);
+    for (const channel of this.channels) {
+      channel.array.fill(0);
+    }
+    this.power.clear();
   }
   
   setBrightness(brightness: number): void {
-    const brightnessValue = Math.floor(Math.max(0, Math.min(1, brightness)) * 255);
-    // v1.0.4: Set brightness on channel object
-    this.channel.brightness = brightnessValue;
+    this.brightness = Math.max(0, Math.min(1, brightness));
+    this.applyBrightness(this.power.lastDraw.scale);
+  }
+  
+  getPowerDraw(): PowerDraw {
+    return this.power.lastDraw;
+  }
+  
+  /**
+   * Set the driver brightness of each strip
+   * v1.0.4: Set brightness on channel objects, scaled per strip
+   *
+   * @param scale - Power limit factor for the current frame
+   */
+  private applyBrightness(scale: number): void {
+    this.channels.forEach((channel, i) => {
+      channel.brightness = Math.floor(this.brightness * scale * this.strips[i].brightness * 255);
+    });
   }
   
   cleanup(): void {
@@ -129,22 +189,42 @@ export class RealLedService implements ILedService {
   }
 }
 
+/**
+ * Shortest time between two mock GPIO printouts
+ */
+const MOCK_PRINT_INTERVAL_MS = 1000;
+
 /**
  * Mock LED service implementation for development/testing
  * Logs LED operations to console instead of controlling actual hardware
- * Shows colored emojis with airport codes when enabled
+ * Shows colored emojis with airport codes when enabled; the detailed format
+ * also shows the strip each LED lives on and the calibrated values it would
+ * receive. The summary shows the estimated draw and any power limiting.
+ * Frames are printed at most once a second; the last frame of a burst (such
+ * as a crossfade) is printed at the end of the second, so the console always
+ * ends on what the LEDs settled on.
  */
 export class MockLedService implements ILedService {
   private pixels: (Color | null)[];
+  private output: (Color | null)[];
+  private correct: (index: number, color: Color) => Color;
+  private locate: (index: number) => StripAddress | null;
+  private power: PowerMeter;
   private brightness: number;
   private ledCount: number;
   private config: Config;
   private airportMap: Map<number, { code: string; name?: string }>;
+  private lastPrintAt = 0;
+  private pendingPrint: NodeJS.Timeout | null = null;
   
   constructor(config: Config) {
     this.ledCount = config.ledCount;
     this.brightness = config.ledBrightness;
     this.pixels = new Array(config.ledCount).fill(null);
+    this.output = new Array(config.ledCount).fill(null);
+    this.correct = createColorCorrection(config.colorCalibration);
+    this.locate = createLedAddressMap(config.ledStrips);
+    this.power = new PowerMeter(config);
     this.config = config;
     
     // Build reverse mapping: LED index -> Airport info
@@ -158,6 +238,8 @@ export class MockLedService implements ILedService {
     
     console.log('[MOCK GPIO] LED Service initialized');
     console.log(`[MOCK GPIO] ${config.airports.length} airports mapped to ${config.ledCount} LEDs`);
+    const segments = getStripSegments(config.ledStrips);
+    config.ledStrips.forEach((strip, i) => console.log(`[MOCK GPIO] ${describeStrip(strip, segments[i])}`));
   }
   
   setPixel(index: number, color: Color): void {
@@ -166,10 +248,36 @@ export class MockLedService implements ILedService {
       return;
     }
     
+    const output = this.correct(index, color);
     this.pixels[index] = color;
+    this.output[index] = output;
+    
+    const address = this.locate(index);
+    if (address) {
+      this.power.setPixel(index, toStripChannels(output, this.config.ledStrips[address.strip].order));
+    }
   }
   
   show(): void {
+    this.power.measure(this.brightness);
+    
+    const wait = this.lastPrintAt + MOCK_PRINT_INTERVAL_MS - Date.now();
+    if (wait <= 0) {
+      this.print();
+    } else if (!this.pendingPrint) {
+      this.pendingPrint = setTimeout(() => {
+        this.pendingPrint = null;
+        this.print();
+      }, wait);
+      this.pendingPrint.unref();
+    }
+  }
+  
+  /**
+   * Print the frame last shown
+   */
+  private print(): void {
+    this.lastPrintAt = Date.now();
     if (this.config.mockGpioFormat === 'strip') {
       this.showStrip();
     } else if (this.config.mockGpioFormat === 'detailed') {
@@ -180,7 +288,13 @@ export class MockLedService implements ILedService {
     const activeCount = this.pixels.filter(
       p => p && (p.r > 0 || p.g > 0 || p.b > 0)
     ).length;
-    console.log(`[MOCK GPIO] ${activeCount}/${this.ledCount} LEDs active\n`);
+    const draw = this.power.lastDraw;
+    const limited = draw.scale < 1
+      ? ` (limited to ${Math.round(draw.scale * 100)}% of ~${Math.round(draw.requestedMa)}mA)`
+      : '';
+    console.log(
+      `[MOCK GPIO] ${activeCount}/${this.ledCount} LEDs active, ~${Math.round(draw.estimatedMa)}mA${limited}\n`
+    );
   }
   
   private showStrip(): void {
@@ -201,80 +315,103 @@ export class MockLedService implements ILedService {
     
     for (const airport of this.config.airports) {
       const color = this.pixels[airport.led] || { r: 0, g: 0, b: 0 };
+      const address = this.locate(airport.led);
+      if (!address) {
+        continue;
+      }
+      const strip = this.config.ledStrips[address.strip];
+      const output = toStripChannels(this.output[airport.led] || { r: 0, g: 0, b: 0 }, strip.order);
       const block = this.colorize(color);
       const name = airport.name || '';
       const colorName = this.getColorName(color);
       
       console.log(
-        `  LED ${airport.led.toString().padStart(2)}: ` +
-        `${airport.code} ${block} ${colorName}` +
+        `  LED ${airport.led.toString().padStart(2)} ` +
+        `(strip ${address.strip} #${address.offset}): ` +
+        `${airport.code} ${block} ${colorName} ` +
+        `${strip.order} [${output.join(',')}]` +
         `${name ? ` (${name})` : ''}`
       );
     }
   }
   
+  /**
+   * Name of the configured color a pixel shows, if any
+   */
+  private getConfiguredName(color: Color): string | null {
+    const { colors } = this.config;
+    const names: [Color, string][] = [
+      [colors.vfr, 'VFR'],
+      [colors.vfrFade, 'VFR'],
+      [colors.mvfr, 'MVFR'],
+      [colors.mvfrFade, 'MVFR'],
+      [colors.ifr, 'IFR'],
+      [colors.ifrFade, 'IFR'],
+      [colors.lifr, 'LIFR'],
+      [colors.lifrFade, 'LIFR'],
+      [colors.highWinds, 'HI-WIND'],
+      [colors.lightning, 'LIGHTNING']
+    ];
+    return names.find(([named]) => sameColor(named, color))?.[1] || null;
+  }
+  
+  /**
+   * Name for a pixel: a configured color, or the nearest match by channel
+   * (colors are plain RGB; the strip's channel order only matters on the way out)
+   */
+  private getName(color: Color): string {
+    const configured = this.getConfiguredName(color);
+    if (configured) return configured;
+    
+    if (color.r === 0 && color.g === 0 && color.b === 0) return 'OFF';
+    if (color.r > 200 && color.g > 200 && color.b > 200) return 'LIGHTNING';
+    if (color.r > 200 && color.g > 200 && color.b < 50) return 'HI-WIND';
+    if (color.r > 100 && color.b > 100 && color.g < 50) return 'LIFR';
+    if (color.g > 100 && color.r < 50 && color.b < 50) return 'VFR';
+    if (color.b > 100 && color.r < 50 && color.g < 50) return 'MVFR';
+    if (color.r > 100 && color.g < 50 && color.b < 50) return 'IFR';
+    return 'UNKNOWN';
+  }
+  
   private colorize(color: Color): string {
     if (!this.config.mockGpioColors) {
       return this.getColorLetter(color);
     }
     
     // Use emojis for visual representation
-    if (color.r === 0 && color.g === 0 && color.b === 0) return '⬛';
-    
-    // Note: GRB format means:
-    // - r channel contains Green
-    // - g channel contains Red
-    // - b channel contains Blue
-    
-    // Green (VFR) - high in r channel (which is G in GRB)
-    if (color.r > 200 && color.g < 50 && color.b < 50) return '🟢';
-    if (color.r > 100 && color.r <= 200 && color.g < 50 && color.b < 50) return '🟢'; // Faded
-    
-    // Blue (MVFR) - high in b channel
-    if (color.b > 200 && color.r < 50 && color.g < 50) return '🟦';
-    if (color.b > 100 && color.b <= 200 && color.r < 50 && color.g < 50) return '🟦'; // Faded
-    
-    // Red (IFR) - high in g channel (which is R in GRB)
-    if (color.g > 200 && color.r < 50 && color.b < 50) return '🟥';
-    if (color.g > 100 && color.g <= 200 && color.r < 50 && color.b < 50) return '🟥'; // Faded
-    
-    // Magenta (LIFR) - high in both r and b channels
-    if (color.r > 200 && color.b > 200) return '🟪';
-    if (color.r > 100 && color.b > 100 && color.r <= 200) return '🟪'; // Faded
-    
-    // Yellow (high winds) - high in r and g channels
-    if (color.r > 200 && color.g > 200 && color.b < 50) return '🟨';
-    
-    // White (lightning) - all channels high
-    if (color.r > 200 && color.g > 200 && color.b > 200) return '⚪';
-    
-    return '◼️'; // Unknown
+    const emojis: Record<string, string> = {
+      OFF: '⬛',
+      VFR: '🟢',
+      MVFR: '🟦',
+      IFR: '🟥',
+      LIFR: '🟪',
+      'HI-WIND': '🟨',
+      LIGHTNING: '⚪'
+    };
+    return emojis[this.getName(color)] || '◼️'; // Unknown
   }
   
   private getColorLetter(color: Color): string {
-    if (color.r === 0 && color.g === 0 && color.b === 0) return '_';
-    if (color.r > 200 && color.g < 50) return 'G'; // Green (VFR)
-    if (color.b > 200) return 'B'; // Blue (MVFR)
-    if (color.g > 200 && color.r < 50) return 'R'; // Red (IFR)
-    if (color.r > 200 && color.b > 200) return 'M'; // Magenta (LIFR)
-    if (color.r > 200 && color.g > 200) return 'Y'; // Yellow (high winds)
-    if (color.r > 200 && color.g > 200 && color.b > 200) return 'W'; // White (lightning)
-    return 'X';
+    const letters: Record<string, string> = {
+      OFF: '_',
+      VFR: 'G',
+      MVFR: 'B',
+      IFR: 'R',
+      LIFR: 'M',
+      'HI-WIND': 'Y',
+      LIGHTNING: 'W'
+    };
+    return letters[this.getName(color)] || 'X';
   }
   
   private getColorName(color: Color): string {
-    if (color.r === 0 && color.g === 0 && color.b === 0) return 'OFF    ';
-    if (color.r > 200 && color.g < 50 && color.b < 50) return 'VFR    ';
-    if (color.b > 200 && color.r < 50 && color.g < 50) return 'MVFR   ';
-    if (color.g > 200 && color.r < 50 && color.b < 50) return 'IFR    ';
-    if (color.r > 200 && color.b > 200) return 'LIFR   ';
-    if (color.r > 200 && color.g > 200 && color.b < 50) return 'HI-WIND';
-    if (color.r > 200 && color.g > 200 && color.b > 200) return 'LIGHTNING';
-    return 'UNKNOWN';
+    return this.getName(color).padEnd(7);
   }
   
   clear(): void {
     this.pixels.fill(null);
+    this.output.fill(null);
+    this.power.clear();
   }
   
   setBrightness(brightness: number): void {
@@ -282,20 +419,94 @@ export class MockLedService implements ILedService {
     console.log(`[MOCK GPIO] Brightness set to ${(this.brightness * 100).toFixed(0)}%`);
   }
   
+  getPowerDraw(): PowerDraw {
+    return this.power.lastDraw;
+  }
+  
   cleanup(): void {
     console.log('[MOCK GPIO] Cleaning up LED service');
+    if (this.pendingPrint) {
+      clearTimeout(this.pendingPrint);
+      this.pendingPrint = null;
+    }
     this.clear();
   }
 }
 
+/**
+ * LED service that passes every call on to several outputs
+ * The first output is the strip; the power draw is taken from it.
+ */
+export class MultiLedService implements ILedService {
+  private outputs: ILedService[];
+  
+  constructor(outputs: ILedService[]) {
+    this.outputs = outputs;
+  }
+  
+  setPixel(index: number, color: Color): void {
+    this.outputs.forEach(output => output.setPixel(index, color));
+  }
+  
+  show(): void {
+    this.outputs.forEach(output => output.show());
+  }
+  
+  clear(): void {
+    this.outputs.forEach(output => output.clear());
+  }
+  
+  setBrightness(brightness: number): void {
+    this.outputs.forEach(output => output.setBrightness(brightness));
+  }
+  
+  getPowerDraw(): PowerDraw {
+    return this.outputs[0].getPowerDraw();
+  }
+  
+  cleanup(): void {
+    this.outputs.forEach(output => output.cleanup());
+  }
+}
+
 /**
  * Factory function to create appropriate LED service based on configuration
+ * Map snapshots, when configured, are written alongside the strip output.
  * 
  * @param config - Application configuration
- * @returns LED service instance (real or mock)
+ * @returns LED service instance (real, mock, SPI or network)
  */
 export function createLedService(config: Config): ILedService {
-  if (config.useMockGpio) {
+  const output = createStripService(config);
+  if (config.mapSnapshotPaths.length === 0) {
+    return output;
+  }
+  return new MultiLedService([output, new MapLedService(config)]);
+}
+
+/**
+ * Create the service for the configured LED backend
+ */
+function createStripService(config: Config): ILedService {
+  switch (config.ledBackend) {
+    case 'apa102':
+      console.log('Using APA102 SPI LED service');
+      return new Apa102LedService(config);
+    case 'opc':
+      console.log('Using Open Pixel Control LED output');
+      return new OpcLedService(config);
+    case 'e131':
+      console.log('Using E1.31 (sACN) LED output');
+      return new E131LedService(config);
+    case 'wled':
+      console.log('Using WLED realtime LED output');
+      return new WledLedService(config);
+  }
+  
+  if (config.useMockGpio && config.mockGpioFormat === 'terminal') {
+    console.log('Using terminal LED simulator (for development)');
+    return new TerminalLedService(config);
+  } else if (config.useMockGpio) {
     console.log('Using mock GPIO LED service (for development)');
     return new MockLedService(config);
   } else {
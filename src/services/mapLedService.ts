@@ -0,0 +1,144 @@
+/**
+ * Map snapshot output
+ * Renders the map as an image for a web page or a screen next to the map.
+ * Airport positions, colors and the legend come from the state file, so
+ * snapshots start once the first state has been written.
+ */
+
+import * as fs from 'fs/promises';
+import { Color, Config, PowerDraw } from '../types';
+import { ILedService } from './ledService';
+import { MetarStateManager } from '../shared/metarState';
+import { MapSnapshot, createMapSnapshot, renderMapPng, renderMapSvg } from '../utils/mapRenderer';
+
+/**
+ * Write a snapshot to a file, as PNG or SVG by its extension
+ * Written through a temp file, so readers never see a partial image. PNG
+ * compression runs off the event loop.
+ *
+ * @param path - Output path ending in .png or .svg
+ * @param snapshot - Snapshot to render
+ * @param width - Image width (pixels)
+ * @param height - Image height (pixels)
+ */
+export async function writeMapImage(
+  path: string,
+  snapshot: MapSnapshot,
+  width: number,
+  height: number
+): Promise<void> {
+  const content = /\.png$/i.test(path)
+    ? await renderMapPng(snapshot, width, height)
+    : renderMapSvg(snapshot, width, height);
+
+  const tempPath = `${path}.tmp`;
+  await fs.writeFile(tempPath, content);
+  await fs.rename(tempPath, path);
+}
+
+/**
+ * LED service that draws the map as images
+ * Airports are drawn in their settled colors from the state file rather than
+ * the pixels, which are often mid-effect (a windy airport blinking off would
+ * be drawn as off). Shown frames trigger a render at most every
+ * MAP_SNAPSHOT_SECONDS; frames shown during a render trigger one more at the
+ * end of the interval. Rendering yields between images so the animation
+ * keeps its frame rate.
+ */
+export class MapLedService implements ILedService {
+  private config: Config;
+  private stateManager: MetarStateManager;
+  private intervalMs: number;
+  private lastRenderAt = 0;
+  private pending: NodeJS.Timeout | null = null;
+  private rendering = false;
+  private dirty = false;    // A frame was shown during a render
+
+  constructor(config: Config) {
+    this.config = config;
+    this.stateManager = new MetarStateManager(config.statePath);
+    this.intervalMs = config.mapSnapshotSeconds * 1000;
+    console.log(`Writing map snapshots to ${config.mapSnapshotPaths.join(', ')}`);
+  }
+
+  /**
+   * Snapshots draw the state colors, not the pixels
+   */
+  setPixel(_index: number, _color: Color): void {
+    // Nothing to do
+  }
+
+  show(): void {
+    if (this.rendering) {
+      this.dirty = true;
+      return;
+    }
+    if (this.pending) {
+      return;
+    }
+
+    const wait = this.lastRenderAt + this.intervalMs - Date.now();
+    if (wait <= 0) {
+      this.render();
+      return;
+    }
+    this.pending = setTimeout(() => {
+      this.pending = null;
+      this.render();
+    }, wait);
+    this.pending.unref();
+  }
+
+  clear(): void {
+    // Nothing to do
+  }
+
+  /**
+   * Snapshots show full colors; brightness only applies to the LEDs
+   */
+  setBrightness(_brightness: number): void {
+    // Nothing to do
+  }
+
+  getPowerDraw(): PowerDraw {
+    return { requestedMa: 0, estimatedMa: 0, scale: 1 };
+  }
+
+  cleanup(): void {
+    this.dirty = false;
+    if (this.pending) {
+      clearTimeout(this.pending);
+      this.pending = null;
+    }
+  }
+
+  /**
+   * Render the last state to every snapshot path
+   * @returns Resolves when the images are written (failures are logged)
+   */
+  async render(): Promise<void> {
+    this.lastRenderAt = Date.now();
+    this.rendering = true;
+
+    try {
+      const state = await this.stateManager.readState();
+      if (!state) {
+        return;
+      }
+      const snapshot = createMapSnapshot(state, this.config);
+      for (const path of this.config.mapSnapshotPaths) {
+        // Let the animation loop draw its next frame before each image
+        await new Promise(resolve => setImmediate(resolve));
+        await writeMapImage(path, snapshot, this.config.mapWidth, this.config.mapHeight);
+      }
+    } catch (error) {
+      console.error('Failed to write map snapshot:', error);
+    } finally {
+      this.rendering = false;
+      if (this.dirty) {
+        this.dirty = false;
+        this.show();
+      }
+    }
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * Last-known-good METAR cache
+ * Keeps the newest observation per airport so the map can keep showing
+ * (clearly marked) older data when a fetch fails or an airport drops out
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { MetarData } from '../types';
+
+/**
+ * Cache file format
+ */
+interface MetarCacheFile {
+  version: number;
+  updated: string;
+  airports: Record<string, MetarData>;
+}
+
+const CACHE_VERSION = 1;
+
+/**
+ * Default cache location: next to the state file
+ *
+ * @param statePath - Path of the state file
+ * @returns Path of the cache file
+ */
+export function defaultCachePath(statePath: string): string {
+  return path.join(path.dirname(statePath), 'metar-cache.json');
+}
+
+/**
+ * Observation age in whole minutes
+ *
+ * @param metar - METAR data (obsTime is in epoch seconds)
+ * @param now - Current time
+ * @returns Age in minutes (never negative)
+ */
+export function getObservationAgeMinutes(metar: MetarData, now: Date = new Date()): number {
+  return Math.max(0, Math.floor((now.getTime() - metar.obsTime * 1000) / 60000));
+}
+
+/**
+ * Persistent per-airport cache of the newest METAR observation
+ */
+export class MetarCacheService {
+  private cachePath: string;
+  private entries = new Map<string, MetarData>();
+
+  constructor(cachePath: string) {
+    this.cachePath = cachePath;
+  }
+
+  /**
+   * Load the cache from disk
+   * A missing or unreadable file starts an empty cache
+   */
+  async load(): Promise<void> {
+    try {
+      const content = await fs.readFile(this.cachePath, 'utf-8');
+      const file: MetarCacheFile = JSON.parse(content);
+
+      if (file.version !== CACHE_VERSION) {
+        console.warn(`Ignoring METAR cache with unknown version: ${file.version}`);
+        return;
+      }
+
+      this.entries = new Map(Object.entries(file.airports));
+      console.log(`Loaded ${this.entries.size} cached METAR reports from ${this.cachePath}`);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn(`Unable to read METAR cache ${this.cachePath}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Write the cache to disk (atomic write)
+   */
+  async save(): Promise<void> {
+    const file: MetarCacheFile = {
+      version: CACHE_VERSION,
+      updated: new Date().toISOString(),
+      airports: Object.fromEntries(this.entries)
+    };
+
+    const tempPath = `${this.cachePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(file, null, 2), 'utf-8');
+    await fs.rename(tempPath, this.cachePath);
+  }
+
+  /**
+   * Store observations that are newer than the cached ones (by obsTime)
+   *
+   * @param metars - Freshly fetched METAR data
+   * @returns Number of airports whose cached observation changed
+   */
+  update(metars: MetarData[]): number {
+    let updated = 0;
+
+    for (const metar of metars) {
+      const existing = this.entries.get(metar.icaoId);
+      if (!existing || metar.obsTime > existing.obsTime) {
+        this.entries.set(metar.icaoId, metar);
+        updated++;
+      }
+    }
+
+    return updated;
+  }
+
+  /**
+   * Get the newest known observation for an airport
+   */
+  get(code: string): MetarData | undefined {
+    return this.entries.get(code);
+  }
+
+  /**
+   * Number of cached airports
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+}
@@ -0,0 +1,285 @@
+/**
+ * METAR data providers
+ * Each provider fetches METAR data from one source; providers are tried in
+ * order and fail over to the next one when a source errors or times out
+ */
+
+import axios from 'axios';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Config, MetarData, MetarFetchOptions, MetarProviderType } from '../types';
+import { fetchMetarData } from './metarService';
+import { describeFetchError } from '../utils/httpError';
+import { decodeFeedBuffer, parseMetarCsv, parseMetarFeed, parseMetarXml } from '../utils/metarFeedParser';
+
+/**
+ * Interface for METAR data sources
+ * Implemented by the JSON API, bulk cache feeds and local files
+ */
+export interface MetarProvider {
+  readonly name: string;
+
+  /**
+   * @param airports - ICAO codes to fetch
+   * @param signal - Aborted when the caller gives up (such as on failover), so
+   *                 no requests keep running in the background
+   */
+  fetch(airports: string[], signal?: AbortSignal): Promise<MetarData[]>;
+}
+
+/**
+ * Download a feed file and return its (decompressed) text
+ */
+async function downloadFeed(url: string, dataType: string, signal?: AbortSignal): Promise<string> {
+  console.log(`Downloading ${dataType} feed: ${url}`);
+
+  try {
+    const response = await axios.get<ArrayBuffer>(url, {
+      headers: {
+        'User-Agent': 'NodeMetarMap/1.0'
+      },
+      responseType: 'arraybuffer',
+      timeout: 30000,  // Bulk files are larger than API responses
+      signal
+    });
+
+    return decodeFeedBuffer(Buffer.from(response.data));
+  } catch (error) {
+    throw describeFetchError(error, dataType);
+  }
+}
+
+/**
+ * aviationweather.gov JSON API (the default source)
+ */
+export class JsonApiMetarProvider implements MetarProvider {
+  readonly name = 'json';
+
+  constructor(
+    private apiUrl: string,
+    private options?: MetarFetchOptions
+  ) {}
+
+  fetch(airports: string[], signal?: AbortSignal): Promise<MetarData[]> {
+    return fetchMetarData(airports, this.apiUrl, this.options, signal);
+  }
+}
+
+/**
+ * aviationweather.gov bulk CSV cache (metars.cache.csv.gz)
+ * Contains every reporting station; filtered to the configured airports
+ */
+export class BulkCsvMetarProvider implements MetarProvider {
+  readonly name = 'csv';
+
+  constructor(private url: string) {}
+
+  async fetch(airports: string[], signal?: AbortSignal): Promise<MetarData[]> {
+    const csv = await downloadFeed(this.url, 'METAR CSV', signal);
+    return parseMetarCsv(csv, new Set(airports));
+  }
+}
+
+/**
+ * aviationweather.gov XML feed (metars.cache.xml.gz or the API with format=xml)
+ */
+export class XmlMetarProvider implements MetarProvider {
+  readonly name = 'xml';
+
+  constructor(private url: string) {}
+
+  async fetch(airports: string[], signal?: AbortSignal): Promise<MetarData[]> {
+    const xml = await downloadFeed(this.url, 'METAR XML', signal);
+    return parseMetarXml(xml, new Set(airports));
+  }
+}
+
+/**
+ * Local file or directory provider
+ * A file may be a JSON array, CSV, XML (optionally gzipped) or raw METAR lines.
+ * A directory is read file by file; the newest report per airport wins.
+ */
+export class LocalMetarProvider implements MetarProvider {
+  readonly name = 'local';
+
+  constructor(private sourcePath: string) {}
+
+  async fetch(airports: string[]): Promise<MetarData[]> {
+    const wanted = new Set(airports);
+    const stat = await fs.stat(this.sourcePath);
+
+    const files = stat.isDirectory()
+      ? (await fs.readdir(this.sourcePath))
+        .filter(name => !name.startsWith('.'))
+        .sort()
+        .map(name => path.join(this.sourcePath, name))
+      : [this.sourcePath];
+
+    const newest = new Map<string, MetarData>();
+
+    for (const file of files) {
+      if (!(await fs.stat(file)).isFile()) {
+        continue;
+      }
+
+      let metars: MetarData[];
+      try {
+        metars = parseMetarFeed(decodeFeedBuffer(await fs.readFile(file)), wanted);
+      } catch (error) {
+        console.warn(`Skipping unreadable METAR file ${file}: ${error}`);
+        continue;
+      }
+
+      for (const metar of metars) {
+        const existing = newest.get(metar.icaoId);
+        if (!existing || metar.obsTime > existing.obsTime) {
+          newest.set(metar.icaoId, metar);
+        }
+      }
+    }
+
+    console.log(`Read ${newest.size} METAR reports from ${this.sourcePath}`);
+    return [...newest.values()];
+  }
+}
+
+/**
+ * Check that a record has the fields the rest of the app relies on
+ * Guards against a source silently changing its response format
+ */
+function isUsableMetar(metar: unknown): metar is MetarData {
+  const candidate = metar as Partial<MetarData> | null;
+  return (
+    typeof candidate === 'object' &&
+    candidate !== null &&
+    typeof candidate.icaoId === 'string' &&
+    typeof candidate.rawOb === 'string'
+  );
+}
+
+/**
+ * Reject a promise if it does not settle in time, aborting the work behind it
+ */
+function withTimeout<T>(
+  promise: Promise<T>,
+  timeoutMs: number,
+  message: string,
+  controller: AbortController
+): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new Error(message);
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Tries providers in order until one returns usable data
+ * A provider fails over when it throws, times out, or returns no usable reports
+ */
+export class FailoverMetarProvider implements MetarProvider {
+  readonly name = 'failover';
+  private lastSource: string | null = null;
+
+  constructor(
+    private providers: MetarProvider[],
+    private timeoutMs: number
+  ) {
+    if (providers.length === 0) {
+      throw new Error('At least one METAR provider is required');
+    }
+  }
+
+  /**
+   * Name of the provider that served the most recent successful fetch
+   */
+  get activeSource(): string | null {
+    return this.lastSource;
+  }
+
+  async fetch(airports: string[]): Promise<MetarData[]> {
+    const failures: string[] = [];
+
+    for (const provider of this.providers) {
+      try {
+        const controller = new AbortController();
+        const data = await withTimeout(
+          provider.fetch(airports, controller.signal),
+          this.timeoutMs,
+          `timed out after ${this.timeoutMs / 1000}s`,
+          controller
+        );
+
+        if (!Array.isArray(data)) {
+          throw new Error('response is not an array');
+        }
+
+        const usable = data.filter(isUsableMetar);
+        if (usable.length === 0) {
+          throw new Error(`no usable METAR reports (${data.length} records received)`);
+        }
+
+        if (provider !== this.providers[0]) {
+          console.warn(`Using fallback METAR provider: ${provider.name}`);
+        }
+
+        this.lastSource = provider.name;
+        return usable;
+
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`METAR provider "${provider.name}" failed: ${message}`);
+        failures.push(`${provider.name}: ${message}`);
+      }
+    }
+
+    throw new Error(`All METAR providers failed (${failures.join('; ')})`);
+  }
+}
+
+/**
+ * Create a single provider of the given type
+ *
+ * @param type - Provider type
+ * @param config - Application configuration
+ * @returns Provider instance
+ */
+export function createProvider(type: MetarProviderType, config: Config): MetarProvider {
+  switch (type) {
+    case 'json':
+      return new JsonApiMetarProvider(config.metarApiUrl, {
+        batchSize: config.metarBatchSize,
+        concurrency: config.metarFetchConcurrency,
+        retries: config.metarFetchRetries,
+        retryBaseDelayMs: config.metarRetryBaseDelay * 1000,
+        retryMaxDelayMs: config.metarRetryMaxDelay * 1000
+      });
+    case 'csv':
+      return new BulkCsvMetarProvider(config.metarCsvUrl);
+    case 'xml':
+      return new XmlMetarProvider(config.metarXmlUrl);
+    case 'local':
+      if (!config.metarLocalPath) {
+        throw new Error('METAR_LOCAL_PATH must be set to use the local METAR provider');
+      }
+      return new LocalMetarProvider(config.metarLocalPath);
+  }
+}
+
+/**
+ * Factory function to create the configured provider chain
+ *
+ * @param config - Application configuration
+ * @returns Failover provider wrapping the providers in configured order
+ */
+export function createMetarProvider(config: Config): FailoverMetarProvider {
+  const providers = config.metarProviders.map(type => createProvider(type, config));
+  console.log(`METAR providers: ${providers.map(p => p.name).join(' -> ')}`);
+  return new FailoverMetarProvider(providers, config.metarProviderTimeout * 1000);
+}
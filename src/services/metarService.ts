@@ -3,89 +3,206 @@
  * Retrieves aviation weather data from aviationweather.gov JSON API
  */
 
-import axios, { AxiosError } from 'axios';
-import { MetarData, AirportConditions, Config, FlightCategory } from '../types';
+import axios from 'axios';
+import {
+  MetarData,
+  AirportConditions,
+  Config,
+  FlightCategory,
+  MetarFetchOptions,
+  WeatherCondition
+} from '../types';
 import { calculateFlightCategory, parseVisibility } from '../utils/flightCategory';
+import { decodeMetar, applyDecodedMetar } from '../utils/metarDecoder';
+import { describeFetchError, getRetryAfterMs, isRetryableFetchError } from '../utils/httpError';
+import { chunk, mapWithConcurrency, retryWithBackoff } from '../utils/retry';
+import { parseWeatherPhenomena } from '../utils/weatherPhenomena';
+import { classifyThunderstorm, hasThunderstormActivity } from '../utils/thunderstormClassifier';
+import { getRunwayWind } from '../utils/crosswind';
+import { isGustBlinking } from '../utils/colorMapper';
+import type { MetarProvider } from './metarProviders';
+import { MetarCacheService, getObservationAgeMinutes } from './metarCacheService';
 
 /**
- * Fetch METAR data for specified airports from JSON API
+ * Default batching and retry settings for the JSON API
+ */
+export const DEFAULT_METAR_FETCH_OPTIONS: MetarFetchOptions = {
+  batchSize: 50,
+  concurrency: 3,
+  retries: 3,
+  retryBaseDelayMs: 1000,
+  retryMaxDelayMs: 30000
+};
+
+/**
+ * Timeout for a single JSON API request
+ */
+export const METAR_REQUEST_TIMEOUT_MS = 15000;
+
+/**
+ * Longest a JSON API fetch can take while still inside its retries: every
+ * request timing out, with the longest delay before each retry, for each
+ * round of concurrent batches
  * 
- * @param airports - Array of ICAO airport codes
+ * @param airportCount - Number of airports fetched
+ * @param options - Batching and retry settings
+ * @returns Time in milliseconds
+ */
+export function getMetarFetchBudgetMs(airportCount: number, options: MetarFetchOptions): number {
+  const batches = Math.max(1, Math.ceil(airportCount / options.batchSize));
+  const rounds = Math.ceil(batches / options.concurrency);
+  const perBatch = (options.retries + 1) * METAR_REQUEST_TIMEOUT_MS + options.retries * options.retryMaxDelayMs;
+  return rounds * perBatch;
+}
+
+/**
+ * Fetch one batch of airports from the JSON API, retrying transient failures
+ * 
+ * @param airports - ICAO codes in this batch
  * @param apiUrl - Base API URL
+ * @param options - Retry settings
+ * @param signal - Aborts the request and any retries still to come
  * @returns Array of METAR data objects
  */
-export async function fetchMetarData(
+async function fetchMetarBatch(
   airports: string[],
-  apiUrl: string
+  apiUrl: string,
+  options: MetarFetchOptions,
+  signal?: AbortSignal
 ): Promise<MetarData[]> {
-  if (airports.length === 0) {
-    throw new Error('No airports specified');
-  }
-  
   const url = `${apiUrl}?ids=${airports.join(',')}&format=json`;
-  
-  console.log(`Fetching METAR data for ${airports.length} airports...`);
   console.log(`URL: ${url}`);
   
   try {
-    const response = await axios.get<MetarData[]>(url, {
-      headers: {
-        'User-Agent': 'NodeMetarMap/1.0'
-      },
-      timeout: 15000  // 15 second timeout
-    });
+    const response = await retryWithBackoff(
+      () => axios.get<MetarData[]>(url, {
+        headers: {
+          'User-Agent': 'NodeMetarMap/1.0'
+        },
+        timeout: METAR_REQUEST_TIMEOUT_MS,
+        signal
+      }),
+      {
+        retries: options.retries,
+        signal,
+        baseDelayMs: options.retryBaseDelayMs,
+        maxDelayMs: options.retryMaxDelayMs,
+        isRetryable: isRetryableFetchError,
+        getRetryAfterMs,
+        onRetry: (error, attempt, delayMs) => {
+          console.warn(
+            `${describeFetchError(error, 'METAR').message} - ` +
+            `retry ${attempt}/${options.retries} in ${(delayMs / 1000).toFixed(1)}s`
+          );
+        }
+      }
+    );
     
     if (!Array.isArray(response.data)) {
       throw new Error('API response is not an array');
     }
     
-    console.log(`Received ${response.data.length} METAR reports`);
     return response.data;
     
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      
-      if (axiosError.code === 'ECONNABORTED') {
-        throw new Error('Request timeout while fetching METAR data');
-      }
-      
-      if (axiosError.response) {
-        throw new Error(
-          `API error: ${axiosError.response.status} ${axiosError.response.statusText}`
-        );
-      }
-      
-      if (axiosError.request) {
-        throw new Error('No response received from METAR API');
-      }
-    }
-    
-    throw new Error(`Failed to fetch METAR data: ${error}`);
+    throw describeFetchError(error, 'METAR');
   }
 }
 
 /**
- * Detect lightning from raw METAR observation text
- * Searches for 'LTG' or 'TS' (thunderstorm) but excludes 'TSNO' (thunderstorm information not available)
+ * Fetch METAR data for specified airports from JSON API
+ * Large airport lists are split into batches fetched in parallel. Batches
+ * that still fail after retrying are skipped so the rest of the map updates;
+ * an error is thrown only when every batch fails.
  * 
- * @param rawOb - Raw METAR observation string
- * @returns true if lightning/thunderstorm detected
+ * @param airports - Array of ICAO airport codes
+ * @param apiUrl - Base API URL
+ * @param options - Batching and retry settings
+ * @param signal - Aborts every batch, including retries still to come
+ * @returns Array of METAR data objects
  */
-function detectLightning(rawOb: string): boolean {
-  if (!rawOb) {
-    return false;
+export async function fetchMetarData(
+  airports: string[],
+  apiUrl: string,
+  options: MetarFetchOptions = DEFAULT_METAR_FETCH_OPTIONS,
+  signal?: AbortSignal
+): Promise<MetarData[]> {
+  if (airports.length === 0) {
+    throw new Error('No airports specified');
   }
   
-  // Check for TSNO (thunderstorm information not available) - should NOT count as lightning
-  if (rawOb.includes('TSNO')) {
-    return false;
+  const batches = chunk(airports, options.batchSize);
+  
+  console.log(
+    `Fetching METAR data for ${airports.length} airports` +
+    (batches.length > 1 ? ` in ${batches.length} batches...` : '...')
+  );
+  
+  const results = await mapWithConcurrency(
+    batches,
+    options.concurrency,
+    batch => fetchMetarBatch(batch, apiUrl, options, signal)
+  );
+  
+  const metarData: MetarData[] = [];
+  const failures: Error[] = [];
+  
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      metarData.push(...result.value);
+    } else {
+      const error = result.reason as Error;
+      failures.push(error);
+      console.error(
+        `METAR batch ${index + 1}/${batches.length} failed ` +
+        `(${batches[index].join(', ')}): ${error.message}`
+      );
+    }
+  });
+  
+  if (failures.length === batches.length) {
+    throw failures[0];
   }
   
-  // Check for lightning (LTG) or thunderstorm (TS) after station ID (position 4+)
-  const relevant = rawOb.substring(4);  // Skip station ID
+  console.log(`Received ${metarData.length} METAR reports`);
+  return metarData;
+}
+
+/**
+ * Decode present-weather phenomena (snow, freezing precipitation, fog, ...)
+ * Uses wxString when available, otherwise the weather groups of the raw observation
+ * 
+ * @param metar - METAR data
+ * @returns Decoded weather phenomena
+ */
+export function detectWeather(metar: MetarData): WeatherCondition[] {
+  const tokens = metar.wxString
+    ? metar.wxString.split(/\s+/)
+    : decodeMetar(metar.rawOb)?.weather || [];
   
-  return relevant.includes('LTG') || relevant.includes('TS');
+  return parseWeatherPhenomena(tokens);
+}
+
+/**
+ * Fill fields missing from the JSON response by decoding the raw observation
+ * 
+ * @param metar - Raw METAR data from API
+ * @returns METAR data with missing fields filled from rawOb where possible
+ */
+export function fillFromRawObservation(metar: MetarData): MetarData {
+  const decoded = decodeMetar(metar.rawOb);
+  
+  if (!decoded) {
+    return metar;
+  }
+  
+  const { metar: filled, filledFields } = applyDecodedMetar(metar, decoded);
+  
+  if (filledFields.length > 0) {
+    console.log(`${metar.icaoId}: Filled from raw METAR: ${filledFields.join(', ')}`);
+  }
+  
+  return filled;
 }
 
 /**
@@ -105,12 +222,17 @@ export function parseConditions(
   const windGustSpeed = metar.wgst || 0;
   
   // Determine if windy enough to trigger animation
-  const windGust = 
-    (config.alwaysBlinkForGusts && windGustSpeed > 0) ||
-    windGustSpeed > config.windBlinkThreshold;
+  const windGust = isGustBlinking(windGustSpeed, config);
   
-  // Lightning detection from raw observation
-  const lightning = detectLightning(metar.rawOb);
+  // Thunderstorm/lightning classification from raw observation
+  const activity = classifyThunderstorm(metar.rawOb);
+  
+  // Present-weather phenomena
+  const weather = detectWeather(metar);
+  
+  // Wind components on the best runway (airports with runways only)
+  const runways = config.airports.find(a => a.code === metar.icaoId)?.runways;
+  const runwayWind = getRunwayWind(runways, metar.wdir, windSpeed, windGustSpeed, config);
   
   // Determine flight category
   let flightCategory: FlightCategory;
@@ -136,32 +258,40 @@ export function parseConditions(
     windSpeed,
     windGustSpeed,
     windGust,
-    lightning
+    lightning: hasThunderstormActivity(activity),
+    thunderstorm: activity.onStation,
+    vicinityThunderstorm: activity.vicinity,
+    distantLightning: activity.distantLightning,
+    weather,
+    runwayWind
   };
 }
 
 /**
- * Fetch and parse METAR data for all configured airports
- * Returns both conditions map and raw METAR data
+ * Build conditions for METAR data, flagging observations older than
+ * STALE_OBSERVATION_MINUTES as stale
  * 
  * @param config - Application configuration
+ * @param metarData - METAR data (fresh or cached)
+ * @param now - Current time, used for observation age
  * @returns Object with conditionsMap and metarDataMap
  */
-export async function fetchAndParseAllConditions(
-  config: Config
-): Promise<{
+export function parseAllConditions(
+  config: Config,
+  metarData: MetarData[],
+  now: Date = new Date()
+): {
   conditionsMap: Map<string, AirportConditions>;
   metarDataMap: Map<string, MetarData>;
-}> {
-  // Extract airport codes from mappings
-  const airportCodes = config.airports.map(a => a.code);
-  const metarData = await fetchMetarData(airportCodes, config.metarApiUrl);
-  
+} {
   const conditionsMap = new Map<string, AirportConditions>();
   const metarDataMap = new Map<string, MetarData>();
   
   for (const metar of metarData) {
     const conditions = parseConditions(metar, config);
+    conditions.ageMinutes = getObservationAgeMinutes(metar, now);
+    conditions.stale = conditions.ageMinutes > config.staleObservationMinutes;
+    
     conditionsMap.set(metar.icaoId, conditions);
     metarDataMap.set(metar.icaoId, metar);
     
@@ -170,16 +300,73 @@ export async function fetchAndParseAllConditions(
       ? `G${conditions.windGustSpeed}`
       : '';
     const windStr = `${conditions.windSpeed}${windInfo}kt`;
-    const ltgStr = conditions.lightning ? ' LTG' : '';
+    const ltgStr = conditions.thunderstorm
+      ? ' TS'
+      : conditions.vicinityThunderstorm
+        ? ' VCTS'
+        : conditions.distantLightning ? ' LTG DSNT' : '';
+    const wxStr = conditions.weather?.length
+      ? ` ${conditions.weather.map(w => w.token).join(' ')}`
+      : '';
     const catStr = conditions.flightCategory || 'UNKNOWN';
+    const rwyStr = conditions.runwayWind
+      ? ` RWY ${conditions.runwayWind.runway} XW ${conditions.runwayWind.crosswind}kt` +
+        (conditions.runwayWind.tailwind > 0 ? ` TW ${conditions.runwayWind.tailwind}kt` : '')
+      : '';
+    const staleStr = conditions.stale ? ` STALE (${conditions.ageMinutes} min)` : '';
     
     console.log(
-      `${metar.icaoId}: ${catStr} ${windStr}${ltgStr}`
+      `${metar.icaoId}: ${catStr} ${windStr}${ltgStr}${wxStr}${rwyStr}${staleStr}`
     );
   }
   
+  return { conditionsMap, metarDataMap };
+}
+
+/**
+ * Fetch and parse METAR data for all configured airports
+ * Returns both conditions map and raw METAR data
+ * 
+ * When a cache is given, fresh observations are stored in it and airports
+ * missing from the response fall back to their last known good observation.
+ * 
+ * @param config - Application configuration
+ * @param provider - METAR data provider (see createMetarProvider)
+ * @param cache - Optional last-known-good cache
+ * @returns Object with conditionsMap and metarDataMap
+ */
+export async function fetchAndParseAllConditions(
+  config: Config,
+  provider: MetarProvider,
+  cache?: MetarCacheService
+): Promise<{
+  conditionsMap: Map<string, AirportConditions>;
+  metarDataMap: Map<string, MetarData>;
+}> {
+  // Extract airport codes from mappings
+  const airportCodes = config.airports.map(a => a.code);
+  const fetchedData = (await provider.fetch(airportCodes))
+    .map(fillFromRawObservation);
+  
+  let metarData = fetchedData;
+  
+  if (cache) {
+    cache.update(fetchedData);
+    
+    try {
+      await cache.save();
+    } catch (error) {
+      console.warn('Failed to write METAR cache:', error);
+    }
+    
+    // Newest known observation for each configured airport
+    metarData = airportCodes
+      .map(code => cache.get(code))
+      .filter((metar): metar is MetarData => metar !== undefined);
+  }
+  
   // Check for missing airports
-  const receivedAirports = new Set(metarData.map(m => m.icaoId));
+  const receivedAirports = new Set(fetchedData.map(m => m.icaoId));
   const missingAirports = config.airports.filter(
     airport => !receivedAirports.has(airport.code)
   );
@@ -187,7 +374,36 @@ export async function fetchAndParseAllConditions(
   if (missingAirports.length > 0) {
     const codes = missingAirports.map(a => a.code).join(', ');
     console.log(`Warning: No METAR data for: ${codes}`);
+    
+    const cachedCodes = missingAirports
+      .filter(airport => cache?.get(airport.code))
+      .map(airport => airport.code);
+    if (cachedCodes.length > 0) {
+      console.log(`Using last known good METAR for: ${cachedCodes.join(', ')}`);
+    }
   }
   
-  return { conditionsMap, metarDataMap };
+  return parseAllConditions(config, metarData);
+}
+
+/**
+ * Build conditions for all configured airports from the cache only
+ * Used when fetching fails entirely
+ * 
+ * @param config - Application configuration
+ * @param cache - Last-known-good cache
+ * @returns Object with conditionsMap and metarDataMap
+ */
+export function parseCachedConditions(
+  config: Config,
+  cache: MetarCacheService
+): {
+  conditionsMap: Map<string, AirportConditions>;
+  metarDataMap: Map<string, MetarData>;
+} {
+  const metarData = config.airports
+    .map(airport => cache.get(airport.code))
+    .filter((metar): metar is MetarData => metar !== undefined);
+  
+  return parseAllConditions(config, metarData);
 }
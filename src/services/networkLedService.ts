@@ -0,0 +1,386 @@
+/**
+ * Network LED services
+ * Stream frames to an LED controller instead of driving GPIO strips: Open
+ * Pixel Control over TCP, E1.31 (sACN) and WLED realtime over UDP. Frames are
+ * rate limited to LED_NETWORK_FPS and resent every second while nothing
+ * changes, so controllers that time out keep showing the map.
+ */
+
+import * as dgram from 'dgram';
+import * as net from 'net';
+import { randomBytes } from 'crypto';
+import { Color, Config, LedOrder, PowerDraw } from '../types';
+import { ILedService } from './ledService';
+import { PowerMeter } from './powerMeter';
+import { createColorCorrection } from '../utils/colorCalibration';
+import { hasWhiteChannel, toStripChannels } from '../utils/channelOrder';
+import {
+  encodeE131Packet,
+  encodeOpcMessage,
+  encodeWledPackets,
+  getE131MulticastAddress,
+  splitUniverses
+} from '../utils/ledProtocols';
+import { backoffDelay } from '../utils/retry';
+
+const KEEPALIVE_MS = 1000;
+const WLED_TIMEOUT_SECONDS = 2;
+const E131_SOURCE_NAME = 'Node METAR Map';
+
+/**
+ * Base class for network LED services
+ * Keeps the frame, applies calibration, brightness and the power limit, and
+ * decides when frames go out; subclasses only encode and send them.
+ */
+export abstract class NetworkLedService implements ILedService {
+  protected config: Config;
+  protected channelsPerLed: number;
+  private order: LedOrder;
+  private frame: Uint8Array;
+  private correct: (index: number, color: Color) => Color;
+  private power: PowerMeter;
+  private brightness: number;
+  private frameIntervalMs: number;
+  private lastSentAt = 0;
+  private pending: NodeJS.Timeout | null = null;
+  private keepalive: NodeJS.Timeout | null = null;
+
+  /**
+   * @param config - Application configuration
+   * @param order - Channel order the protocol carries (RGB or RGBW)
+   */
+  constructor(config: Config, order: LedOrder) {
+    this.config = config;
+    this.order = order;
+    this.channelsPerLed = order.length;
+    this.frame = new Uint8Array(config.ledCount * this.channelsPerLed);
+    this.correct = createColorCorrection(config.colorCalibration);
+    this.power = new PowerMeter(config);
+    this.brightness = config.ledBrightness;
+    this.frameIntervalMs = 1000 / config.ledNetworkFps;
+  }
+
+  /**
+   * Send a frame of channel values, brightness already applied
+   */
+  protected abstract send(data: Uint8Array): void;
+
+  /**
+   * Close the connection or socket
+   */
+  protected abstract close(): void;
+
+  setPixel(index: number, color: Color): void {
+    if (index < 0 || index >= this.config.ledCount) {
+      console.warn(`LED index out of range: ${index}`);
+      return;
+    }
+
+    const channels = toStripChannels(this.correct(index, color), this.order);
+    this.frame.set(channels, index * this.channelsPerLed);
+    this.power.setPixel(index, channels);
+  }
+
+  /**
+   * Send the frame now, or at the next frame slot when one was just sent
+   * Frames shown in between are merged into that one.
+   */
+  show(): void {
+    if (this.pending) {
+      return;
+    }
+
+    const wait = this.lastSentAt + this.frameIntervalMs - Date.now();
+    if (wait <= 0) {
+      this.flush();
+      return;
+    }
+    this.pending = setTimeout(() => {
+      this.pending = null;
+      this.flush();
+    }, wait);
+    this.pending.unref();
+  }
+
+  clear(): void {
+    this.frame.fill(0);
+    this.power.clear();
+  }
+
+  setBrightness(brightness: number): void {
+    this.brightness = Math.max(0, Math.min(1, brightness));
+  }
+
+  getPowerDraw(): PowerDraw {
+    return this.power.lastDraw;
+  }
+
+  /**
+   * Send a dark frame and close the connection
+   * Sockets write asynchronously, so the dark frame is best effort when the
+   * process exits right away.
+   */
+  cleanup(): void {
+    console.log('Cleaning up network LED output...');
+    this.clear();
+    this.flush();
+    this.stopTimers();
+    this.close();
+  }
+
+  /**
+   * Send the current frame again (after a reconnect)
+   */
+  protected resend(): void {
+    this.flush();
+  }
+
+  /**
+   * Stop the frame and keepalive timers
+   */
+  protected stopTimers(): void {
+    if (this.pending) {
+      clearTimeout(this.pending);
+      this.pending = null;
+    }
+    if (this.keepalive) {
+      clearTimeout(this.keepalive);
+      this.keepalive = null;
+    }
+  }
+
+  /**
+   * Scale the frame by brightness and power limit and send it
+   */
+  private flush(): void {
+    const draw = this.power.measure(this.brightness);
+    const level = this.brightness * draw.scale;
+    const data = this.frame.map(value => Math.round(value * level));
+
+    this.lastSentAt = Date.now();
+    this.send(data);
+
+    if (this.keepalive) {
+      clearTimeout(this.keepalive);
+    }
+    this.keepalive = setTimeout(() => this.flush(), KEEPALIVE_MS);
+    this.keepalive.unref();
+  }
+}
+
+/**
+ * Open Pixel Control client
+ * Connects over TCP and reconnects with backoff when the server goes away;
+ * frames shown while disconnected are dropped and the latest one is sent on
+ * reconnect. OPC carries RGB only, so white is folded into the colors.
+ */
+export class OpcLedService extends NetworkLedService {
+  private socket: net.Socket | null = null;
+  private connected = false;
+  private closed = false;
+  private attempt = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private reconnectDelayMs: number;
+
+  /**
+   * @param config - Application configuration
+   * @param reconnectDelayMs - Delay before the first reconnect (doubles up to 30 seconds)
+   */
+  constructor(config: Config, reconnectDelayMs: number = 1000) {
+    super(config, 'RGB');
+    this.reconnectDelayMs = reconnectDelayMs;
+    console.log(`Streaming ${config.ledCount} LEDs to OPC server ${config.ledHost}:${config.ledPort}`);
+    this.connect();
+  }
+
+  /**
+   * Whether the server connection is up
+   */
+  get isConnected(): boolean {
+    return this.connected;
+  }
+
+  protected send(data: Uint8Array): void {
+    if (!this.socket || !this.connected) {
+      return;
+    }
+    // Skip frames while the previous ones are still queued on a slow link
+    if (this.socket.writableLength > 0) {
+      return;
+    }
+    this.socket.write(encodeOpcMessage(this.config.opcChannel, data));
+  }
+
+  protected close(): void {
+    this.closed = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.socket?.end();
+    this.socket = null;
+    this.connected = false;
+  }
+
+  private connect(): void {
+    const socket = net.createConnection({ host: this.config.ledHost, port: this.config.ledPort });
+    this.socket = socket;
+    socket.setNoDelay(true);
+
+    socket.on('connect', () => {
+      console.log(`Connected to OPC server ${this.config.ledHost}:${this.config.ledPort}`);
+      this.connected = true;
+      this.attempt = 0;
+      this.resend();
+    });
+
+    socket.on('error', error => {
+      if (this.closed) {
+        return;
+      }
+      console.warn(`OPC connection to ${this.config.ledHost}:${this.config.ledPort} failed: ${error.message}`);
+    });
+
+    socket.on('close', () => {
+      if (this.socket !== socket) {
+        return;
+      }
+      this.socket = null;
+      this.connected = false;
+      if (!this.closed) {
+        this.scheduleReconnect();
+      }
+    });
+  }
+
+  private scheduleReconnect(): void {
+    const delay = backoffDelay(this.attempt++, this.reconnectDelayMs, 30000);
+    console.log(`Reconnecting to OPC server in ${(delay / 1000).toFixed(1)}s`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+    this.reconnectTimer.unref();
+  }
+}
+
+/**
+ * UDP socket that is replaced after an error
+ * Closing waits for packets still being sent, such as the final dark frame.
+ */
+class UdpSender {
+  private socket: dgram.Socket | null = null;
+  private label: string;
+  private inFlight = 0;
+  private closing = false;
+
+  constructor(label: string) {
+    this.label = label;
+  }
+
+  send(packet: Buffer, host: string, port: number): void {
+    if (this.closing) {
+      return;
+    }
+    if (!this.socket) {
+      const socket = dgram.createSocket('udp4');
+      socket.on('error', error => {
+        console.warn(`${this.label} socket error: ${error.message}`);
+        socket.close();
+        if (this.socket === socket) {
+          this.socket = null;
+        }
+      });
+      socket.unref();
+      this.socket = socket;
+    }
+
+    const socket = this.socket;
+    this.inFlight++;
+    socket.send(packet, port, host, () => {
+      this.inFlight--;
+      if (this.closing && this.inFlight === 0) {
+        this.closeSocket();
+      }
+    });
+  }
+
+  close(): void {
+    this.closing = true;
+    if (this.inFlight === 0) {
+      this.closeSocket();
+    }
+  }
+
+  private closeSocket(): void {
+    this.socket?.close();
+    this.socket = null;
+  }
+}
+
+/**
+ * E1.31 (sACN) sender
+ * LEDs fill consecutive universes from E131_UNIVERSE, E131_LEDS_PER_UNIVERSE
+ * each. Packets go to LED_HOST, or to each universe's multicast address when
+ * no host is set.
+ */
+export class E131LedService extends NetworkLedService {
+  private sender = new UdpSender('E1.31');
+  private cid = randomBytes(16);
+  private sequences = new Map<number, number>();
+
+  constructor(config: Config) {
+    super(config, hasWhiteChannel(config.ledOrder) ? 'RGBW' : 'RGB');
+    const universes = Math.ceil(config.ledCount / config.e131LedsPerUniverse);
+    console.log(
+      `Streaming ${config.ledCount} LEDs as E1.31 universes ${config.e131Universe}-` +
+      `${config.e131Universe + universes - 1} to ${config.ledHost || 'multicast'}:${config.ledPort}`
+    );
+  }
+
+  protected send(data: Uint8Array): void {
+    splitUniverses(data, this.channelsPerLed, this.config.e131LedsPerUniverse).forEach((slots, i) => {
+      const universe = this.config.e131Universe + i;
+      const sequence = ((this.sequences.get(universe) ?? -1) + 1) & 0xff;
+      this.sequences.set(universe, sequence);
+
+      const packet = encodeE131Packet({
+        universe,
+        sequence,
+        priority: this.config.e131Priority,
+        sourceName: E131_SOURCE_NAME,
+        cid: this.cid,
+        data: slots
+      });
+      this.sender.send(packet, this.config.ledHost || getE131MulticastAddress(universe), this.config.ledPort);
+    });
+  }
+
+  protected close(): void {
+    this.sender.close();
+  }
+}
+
+/**
+ * WLED realtime UDP sender
+ * WLED shows the frames while they keep coming and goes back to its own
+ * effects a couple of seconds after they stop.
+ */
+export class WledLedService extends NetworkLedService {
+  private sender = new UdpSender('WLED');
+
+  constructor(config: Config) {
+    super(config, hasWhiteChannel(config.ledOrder) ? 'RGBW' : 'RGB');
+    console.log(`Streaming ${config.ledCount} LEDs to WLED at ${config.ledHost}:${config.ledPort}`);
+  }
+
+  protected send(data: Uint8Array): void {
+    for (const packet of encodeWledPackets(data, this.channelsPerLed, WLED_TIMEOUT_SECONDS)) {
+      this.sender.send(packet, this.config.ledHost, this.config.ledPort);
+    }
+  }
+
+  protected close(): void {
+    this.sender.close();
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * PIREP service
+ * Retrieves pilot reports from aviationweather.gov and attaches recent
+ * turbulence and icing reports to the airports they were made near
+ */
+
+import axios from 'axios';
+import {
+  AirportConditions,
+  Config,
+  GeoPoint,
+  NearbyPirep,
+  Pirep,
+  PirepApiData
+} from '../types';
+import { describeFetchError } from '../utils/httpError';
+import { BoundingBox, distanceNm, getBoundingBox } from '../utils/geo';
+import { decodePirep, isSignificantPirep } from '../utils/pirepDecoder';
+
+/**
+ * Fetch PIREPs from the JSON API
+ *
+ * @param apiUrl - Base PIREP API URL
+ * @param maxAgeMinutes - Oldest report to request
+ * @param area - Only request reports inside this area
+ * @returns Array of raw PIREP API objects
+ */
+export async function fetchPirepData(
+  apiUrl: string,
+  maxAgeMinutes: number,
+  area?: BoundingBox
+): Promise<PirepApiData[]> {
+  // The API takes the age in whole hours
+  const ageHours = Math.max(1, Math.ceil(maxAgeMinutes / 60));
+  const bbox = area
+    ? `&bbox=${[area.south, area.west, area.north, area.east].map(d => d.toFixed(2)).join(',')}`
+    : '';
+  const url = `${apiUrl}?format=json&age=${ageHours}${bbox}`;
+
+  console.log(`Fetching PIREPs from the last ${ageHours} h...`);
+
+  try {
+    const response = await axios.get<PirepApiData[]>(url, {
+      headers: {
+        'User-Agent': 'NodeMetarMap/1.0'
+      },
+      timeout: 15000  // 15 second timeout
+    });
+
+    if (!Array.isArray(response.data)) {
+      throw new Error('API response is not an array');
+    }
+
+    console.log(`Received ${response.data.length} PIREPs`);
+    return response.data;
+
+  } catch (error) {
+    throw describeFetchError(error, 'PIREP');
+  }
+}
+
+/**
+ * Fetch and decode recent PIREPs around the airports
+ * Only the area within PIREP_RADIUS_NM of the airports is requested.
+ *
+ * @param config - Application configuration
+ * @param positions - Airport positions
+ * @returns Decoded PIREPs (none when no airport has a position)
+ */
+export async function fetchRecentPireps(config: Config, positions: GeoPoint[]): Promise<Pirep[]> {
+  const area = getBoundingBox(positions, config.pirepRadiusNm);
+  if (!area) {
+    return [];
+  }
+
+  const data = await fetchPirepData(config.pirepApiUrl, config.pirepMaxAgeMinutes, area);
+  return data
+    .filter(d => typeof d.lat === 'number' && typeof d.lon === 'number' && typeof d.obsTime === 'number')
+    .map(decodePirep);
+}
+
+/**
+ * Find the turbulence and icing reports near a position
+ * Reports without turbulence or icing are left out.
+ *
+ * @param pireps - Decoded PIREPs
+ * @param position - Airport position
+ * @param config - Application configuration (radius and time window)
+ * @param now - Current time
+ * @returns Nearby reports, newest first, with distances rounded to 0.1 nm
+ */
+export function findNearbyPireps(
+  pireps: Pirep[],
+  position: { lat: number; lon: number },
+  config: Config,
+  now: Date = new Date()
+): NearbyPirep[] {
+  const oldest = now.getTime() - config.pirepMaxAgeMinutes * 60 * 1000;
+  const nearby: NearbyPirep[] = [];
+
+  for (const pirep of pireps) {
+    if (pirep.time.getTime() < oldest || (!pirep.turbulence && !pirep.icing)) {
+      continue;
+    }
+
+    const distance = distanceNm(position, pirep);
+    if (distance <= config.pirepRadiusNm) {
+      nearby.push({ pirep, distanceNm: Math.round(distance * 10) / 10 });
+    }
+  }
+
+  return nearby.sort((a, b) => b.pirep.time.getTime() - a.pirep.time.getTime());
+}
+
+/**
+ * Attach nearby PIREPs to each airport
+ * Sets conditions.pireps for airports with a known position.
+ *
+ * @param conditionsMap - Airport conditions (updated in place)
+ * @param positions - Airport positions (from getAirportPositions)
+ * @param pireps - Decoded PIREPs
+ * @param config - Application configuration
+ * @param now - Current time
+ * @returns Number of airports with a report at or above PIREP_MIN_INTENSITY
+ */
+export function applyPireps(
+  conditionsMap: Map<string, AirportConditions>,
+  positions: Map<string, GeoPoint>,
+  pireps: Pirep[],
+  config: Config,
+  now: Date = new Date()
+): number {
+  let flagged = 0;
+
+  for (const [code, conditions] of conditionsMap) {
+    const position = positions.get(code);
+    if (!position) {
+      continue;
+    }
+
+    const nearby = findNearbyPireps(pireps, position, config, now);
+    conditions.pireps = nearby;
+
+    const significant = nearby.filter(n => isSignificantPirep(n.pirep, config.pirepMinIntensity));
+    if (significant.length > 0) {
+      flagged++;
+      console.log(`${code}: ${significant.length} PIREPs of ${config.pirepMinIntensity} or worse nearby`);
+    }
+  }
+
+  return flagged;
+}
@@ -0,0 +1,87 @@
+/**
+ * Power meter
+ * Tracks the current each LED would draw from the values sent to the strips,
+ * and works out each frame's draw before it is shown so the LED services can
+ * scale the brightness down to stay within POWER_LIMIT_MA.
+ */
+
+import { Config, PowerDraw } from '../types';
+import { StripAddress, createLedAddressMap } from '../utils/ledStrips';
+import { estimateLedCurrent, limitPowerDraw } from '../utils/powerBudget';
+
+/**
+ * Estimates LED current per frame
+ */
+export class PowerMeter {
+  private config: Config;
+  private locate: (index: number) => StripAddress | null;
+  private currents: Float64Array;
+  private draw: PowerDraw;
+
+  constructor(config: Config) {
+    this.config = config;
+    this.locate = createLedAddressMap(config.ledStrips);
+    this.currents = new Float64Array(config.ledCount);
+    this.draw = limitPowerDraw(this.idleMa, 0, config.ledBrightness, config.powerLimitMa);
+  }
+
+  /**
+   * Idle draw of all LEDs
+   */
+  private get idleMa(): number {
+    return this.config.ledIdleMa * this.config.ledCount;
+  }
+
+  /**
+   * Draw of the last measured frame
+   */
+  get lastDraw(): PowerDraw {
+    return this.draw;
+  }
+
+  /**
+   * Record the values sent to an LED
+   *
+   * @param index - Logical LED index
+   * @param channels - Channel values in wire order
+   */
+  setPixel(index: number, channels: number[]): void {
+    const address = this.locate(index);
+    if (!address) {
+      return;
+    }
+    const stripBrightness = this.config.ledStrips[address.strip].brightness;
+    this.currents[index] = estimateLedCurrent(channels, this.config.ledMaPerChannel) * stripBrightness;
+  }
+
+  /**
+   * Forget all LED values (every LED off)
+   */
+  clear(): void {
+    this.currents.fill(0);
+  }
+
+  /**
+   * Work out the draw of the frame about to be shown
+   * Logs when the frame starts or stops being limited.
+   *
+   * @param brightness - Requested brightness (0-1)
+   * @returns Draw with the brightness scale that keeps it within the limit
+   */
+  measure(brightness: number): PowerDraw {
+    const activeMa = this.currents.reduce((total, current) => total + current, 0);
+    const draw = limitPowerDraw(this.idleMa, activeMa, brightness, this.config.powerLimitMa);
+
+    if (draw.scale < 1 && this.draw.scale === 1) {
+      console.log(
+        `Power limit: frame needs ~${Math.round(draw.requestedMa)}mA of ${draw.limitMa}mA, ` +
+        `brightness scaled to ${Math.round(draw.scale * 100)}%`
+      );
+    } else if (draw.scale === 1 && this.draw.scale < 1) {
+      console.log(`Power limit: back within budget (~${Math.round(draw.requestedMa)}mA)`);
+    }
+
+    this.draw = draw;
+    return draw;
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * SPI LED service
+ * Drives an APA102/SK9822 (DotStar) strip by writing frames to a spidev
+ * device. These strips are clocked, so unlike WS281x they need no precise
+ * timing and cope with long, noisy runs.
+ */
+
+import * as fs from 'fs';
+import { Color, Config, PowerDraw } from '../types';
+import { ILedService } from './ledService';
+import { PowerMeter } from './powerMeter';
+import { createColorCorrection } from '../utils/colorCalibration';
+import { toStripChannels } from '../utils/channelOrder';
+import { encodeApa102Frame } from '../utils/ledProtocols';
+
+/**
+ * Largest single write; spidev rejects transfers over its buffer size
+ * (spidev.bufsiz, 4096 bytes by default)
+ */
+const SPI_CHUNK_BYTES = 4096;
+
+/**
+ * APA102 LED service
+ * Brightness and the power limit go into each LED's 5-bit brightness.
+ */
+export class Apa102LedService implements ILedService {
+  private config: Config;
+  private fd: number;
+  private frame: Uint8Array;
+  private correct: (index: number, color: Color) => Color;
+  private power: PowerMeter;
+  private brightness: number;
+
+  constructor(config: Config) {
+    this.config = config;
+    this.frame = new Uint8Array(config.ledCount * 3);
+    this.correct = createColorCorrection(config.colorCalibration);
+    this.power = new PowerMeter(config);
+    this.brightness = config.ledBrightness;
+
+    try {
+      this.fd = fs.openSync(config.spiDevice, 'w');
+    } catch (error) {
+      throw new Error(
+        `Failed to open SPI device ${config.spiDevice}: ${error}. ` +
+        'Enable SPI with raspi-config (or dtparam=spi=on) and check permissions'
+      );
+    }
+
+    console.log(`Initializing ${config.ledCount} APA102 LEDs on ${config.spiDevice} (${config.ledOrder})`);
+    this.clear();
+    this.show();
+  }
+
+  setPixel(index: number, color: Color): void {
+    if (index < 0 || index >= this.config.ledCount) {
+      console.warn(`LED index out of range: ${index}`);
+      return;
+    }
+
+    const channels = toStripChannels(this.correct(index, color), this.config.ledOrder);
+    this.frame.set(channels, index * 3);
+    this.power.setPixel(index, channels);
+  }
+
+  show(): void {
+    const draw = this.power.measure(this.brightness);
+    const data = encodeApa102Frame(this.frame, this.brightness * draw.scale);
+
+    // Plain writes: spidev can't seek, and each write is one SPI transfer
+    for (let offset = 0; offset < data.length; offset += SPI_CHUNK_BYTES) {
+      const length = Math.min(SPI_CHUNK_BYTES, data.length - offset);
+      fs.writeSync(this.fd, data, offset, length, null);
+    }
+  }
+
+  clear(): void {
+    this.frame.fill(0);
+    this.power.clear();
+  }
+
+  setBrightness(brightness: number): void {
+    this.brightness = Math.max(0, Math.min(1, brightness));
+  }
+
+  getPowerDraw(): PowerDraw {
+    return this.power.lastDraw;
+  }
+
+  cleanup(): void {
+    console.log('Cleaning up APA102 strip...');
+    this.clear();
+    this.show();
+    fs.closeSync(this.fd);
+    console.log('APA102 strip cleaned up');
+  }
+}
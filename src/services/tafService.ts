@@ -0,0 +1,144 @@
+/**
+ * TAF forecast fetching service
+ * Retrieves Terminal Aerodrome Forecasts from aviationweather.gov JSON API
+ * and derives forecast airport conditions at a look-ahead time
+ */
+
+import axios from 'axios';
+import { AirportConditions, Config, RunwayConfig, TafApiData, TafData, TafForecast } from '../types';
+import { getForecastAt, parseTaf } from '../utils/tafParser';
+import { describeFetchError } from '../utils/httpError';
+import { parseWeatherPhenomena } from '../utils/weatherPhenomena';
+import { classifyWeatherGroups, hasThunderstormActivity } from '../utils/thunderstormClassifier';
+import { getRunwayWind } from '../utils/crosswind';
+import { isGustBlinking } from '../utils/colorMapper';
+
+/**
+ * Fetch TAF data for specified airports from JSON API
+ *
+ * @param airports - Array of ICAO airport codes
+ * @param apiUrl - Base TAF API URL
+ * @returns Array of raw TAF API objects
+ */
+export async function fetchTafData(
+  airports: string[],
+  apiUrl: string
+): Promise<TafApiData[]> {
+  if (airports.length === 0) {
+    throw new Error('No airports specified');
+  }
+
+  const url = `${apiUrl}?ids=${airports.join(',')}&format=json`;
+
+  console.log(`Fetching TAF data for ${airports.length} airports...`);
+
+  try {
+    const response = await axios.get<TafApiData[]>(url, {
+      headers: {
+        'User-Agent': 'NodeMetarMap/1.0'
+      },
+      timeout: 15000  // 15 second timeout
+    });
+
+    if (!Array.isArray(response.data)) {
+      throw new Error('API response is not an array');
+    }
+
+    console.log(`Received ${response.data.length} TAF reports`);
+    return response.data;
+
+  } catch (error) {
+    throw describeFetchError(error, 'TAF');
+  }
+}
+
+/**
+ * Convert a TAF forecast into AirportConditions for the LED display
+ * Uses the same wind thresholds as current METAR conditions
+ *
+ * @param forecast - Forecast at the look-ahead time
+ * @param config - Application configuration
+ * @param runways - Airport runways, for forecast crosswind
+ * @returns AirportConditions for the forecast
+ */
+export function forecastToConditions(
+  forecast: TafForecast,
+  config: Config,
+  runways?: RunwayConfig[]
+): AirportConditions {
+  const windSpeed = forecast.wind?.speed || 0;
+  const windGustSpeed = forecast.wind?.gust || 0;
+  const windGust = isGustBlinking(windGustSpeed, config);
+
+  const activity = classifyWeatherGroups(forecast.weather);
+
+  return {
+    flightCategory: forecast.flightCategory,
+    windSpeed,
+    windGustSpeed,
+    windGust,
+    lightning: hasThunderstormActivity(activity),
+    thunderstorm: activity.onStation,
+    vicinityThunderstorm: activity.vicinity,
+    distantLightning: activity.distantLightning,
+    weather: parseWeatherPhenomena(forecast.weather),
+    runwayWind: getRunwayWind(runways, forecast.wind?.direction, windSpeed, windGustSpeed, config)
+  };
+}
+
+/**
+ * Fetch and evaluate TAFs for all configured airports
+ * Airports without a TAF (or outside its validity) are left out of the maps
+ *
+ * @param config - Application configuration
+ * @param now - Current time (look-ahead is added to this)
+ * @returns Forecast conditions map and the forecast details per airport
+ */
+export async function fetchAndParseAllForecasts(
+  config: Config,
+  now: Date = new Date()
+): Promise<{
+  forecastTime: Date;
+  forecastConditionsMap: Map<string, AirportConditions>;
+  forecastMap: Map<string, TafForecast>;
+}> {
+  const forecastTime = new Date(now.getTime() + config.forecastLookaheadHours * 60 * 60 * 1000);
+  const airportCodes = config.airports.map(a => a.code);
+  const tafData = await fetchTafData(airportCodes, config.tafApiUrl);
+
+  const forecastConditionsMap = new Map<string, AirportConditions>();
+  const forecastMap = new Map<string, TafForecast>();
+
+  for (const raw of tafData) {
+    const reference = raw.issueTime ? new Date(raw.issueTime) : now;
+    const taf: TafData | null = parseTaf(raw.rawTAF, reference);
+
+    if (!taf) {
+      console.log(`${raw.icaoId}: Unable to parse TAF`);
+      continue;
+    }
+
+    const forecast = getForecastAt(taf, forecastTime, config.forecastIncludeTemporary);
+
+    if (!forecast) {
+      console.log(`${raw.icaoId}: TAF not valid at ${forecastTime.toISOString()}`);
+      continue;
+    }
+
+    forecastMap.set(raw.icaoId, forecast);
+    const runways = config.airports.find(a => a.code === raw.icaoId)?.runways;
+    forecastConditionsMap.set(raw.icaoId, forecastToConditions(forecast, config, runways));
+
+    console.log(
+      `${raw.icaoId}: Forecast +${config.forecastLookaheadHours}h ` +
+      `${forecast.flightCategory || 'UNKNOWN'}`
+    );
+  }
+
+  const missing = config.airports.filter(a => !forecastMap.has(a.code));
+  if (missing.length > 0) {
+    console.log(`No TAF forecast for: ${missing.map(a => a.code).join(', ')}`);
+  }
+
+  return { forecastTime, forecastConditionsMap, forecastMap };
+}
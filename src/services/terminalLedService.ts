@@ -0,0 +1,163 @@
+/**
+ * Terminal LED simulator
+ * Shows the map in the terminal in 24-bit color, with each airport at its
+ * x/y grid position from airports.json. The colors are the values sent to
+ * the strip: after color calibration, strip and overall brightness and power
+ * limiting, the same path as the power estimate. On a terminal the map
+ * stays pinned to the top and is redrawn in place while log output scrolls
+ * underneath; when output is redirected each frame is printed in turn.
+ */
+
+import { Color, Config, PowerDraw } from '../types';
+import { ILedService } from './ledService';
+import { PowerMeter } from './powerMeter';
+import { createColorCorrection } from '../utils/colorCalibration';
+import { toStripChannels } from '../utils/channelOrder';
+import { StripAddress, createLedAddressMap } from '../utils/ledStrips';
+import { scaleColor } from '../utils/colorMapper';
+import { GridCell, colorSwatch, createGridLayout, getGridCellWidth, renderGrid } from '../utils/terminalGrid';
+
+/**
+ * Where frames are written (process.stdout, or a stand-in in tests)
+ */
+export type TerminalOutput = Pick<NodeJS.WriteStream, 'write' | 'isTTY' | 'rows' | 'columns'>;
+
+/**
+ * Terminal LED simulator
+ */
+export class TerminalLedService implements ILedService {
+  private config: Config;
+  private output: TerminalOutput;
+  private pixels: Color[];
+  private sent: Color[];    // Calibrated values at strip brightness, off for LEDs on no strip
+  private airportLeds: Set<number>;
+  private cells: GridCell[];
+  private cellWidth: number;
+  private power: PowerMeter;
+  private correct: (index: number, color: Color) => Color;
+  private locate: (index: number) => StripAddress | null;
+  private brightness: number;
+  private scrollTop = 0;    // First row of the log area, 0 until the screen is set up
+  private screenRows = 0;
+
+  /**
+   * @param config - Application configuration
+   * @param output - Terminal to draw on
+   */
+  constructor(config: Config, output: TerminalOutput = process.stdout) {
+    this.config = config;
+    this.output = output;
+    this.pixels = Array.from({ length: config.ledCount }, () => ({ r: 0, g: 0, b: 0 }));
+    this.sent = this.pixels.map(pixel => ({ ...pixel }));
+    this.airportLeds = new Set(config.airports.map(airport => airport.led));
+    this.cellWidth = getGridCellWidth(config.airports);
+    this.cells = createGridLayout(config.airports, Math.floor((output.columns || 80) / this.cellWidth));
+    this.power = new PowerMeter(config);
+    this.correct = createColorCorrection(config.colorCalibration);
+    this.locate = createLedAddressMap(config.ledStrips);
+    this.brightness = config.ledBrightness;
+
+    console.log(`[TERMINAL] Simulating ${config.ledCount} LEDs on a ${this.describeGrid()} grid`);
+  }
+
+  setPixel(index: number, color: Color): void {
+    if (index < 0 || index >= this.config.ledCount) {
+      console.warn(`[TERMINAL] LED index out of range: ${index}`);
+      return;
+    }
+
+    this.pixels[index] = { ...color };
+    const address = this.locate(index);
+    if (address) {
+      const strip = this.config.ledStrips[address.strip];
+      const corrected = this.correct(index, color);
+      this.sent[index] = scaleColor(corrected, strip.brightness);
+      this.power.setPixel(index, toStripChannels(corrected, strip.order));
+    }
+  }
+
+  show(): void {
+    const draw = this.power.measure(this.brightness);
+    const level = this.brightness * draw.scale;
+    const lines = this.renderFrame(draw, level);
+
+    const rows = this.output.rows || 0;
+    if (!this.output.isTTY || rows <= lines.length + 2) {
+      this.output.write(lines.join('\n') + '\n\n');
+      return;
+    }
+
+    // Pin the map to the top: logs scroll in the region below it
+    const scrollTop = lines.length + 2;
+    if (scrollTop !== this.scrollTop || rows !== this.screenRows) {
+      const clear = this.scrollTop === 0 ? '\x1b[2J' : '';
+      this.output.write(`${clear}\x1b[${scrollTop};${rows}r\x1b[${rows};1H`);
+      this.scrollTop = scrollTop;
+      this.screenRows = rows;
+    }
+
+    // Save the cursor, redraw the map lines from the top, restore the cursor
+    this.output.write('\x1b7\x1b[H' + lines.map(line => `\x1b[2K${line}`).join('\r\n') + '\r\n\x1b[2K\x1b8');
+  }
+
+  clear(): void {
+    [...this.pixels, ...this.sent].forEach(pixel => {
+      pixel.r = 0;
+      pixel.g = 0;
+      pixel.b = 0;
+    });
+    this.power.clear();
+  }
+
+  setBrightness(brightness: number): void {
+    this.brightness = Math.max(0, Math.min(1, brightness));
+  }
+
+  getPowerDraw(): PowerDraw {
+    return this.power.lastDraw;
+  }
+
+  /**
+   * Draw the dark map and give the whole screen back to the log
+   */
+  cleanup(): void {
+    this.clear();
+    this.show();
+    if (this.scrollTop > 0) {
+      this.output.write(`\x1b[r\x1b[${this.screenRows};1H\n`);
+      this.scrollTop = 0;
+    }
+    console.log('[TERMINAL] Simulator stopped');
+  }
+
+  /**
+   * Lines of one frame: status, grid, and any lit LEDs that no airport uses
+   * (such as legend LEDs)
+   */
+  private renderFrame(draw: PowerDraw, level: number): string[] {
+    const shown = (led: number): Color => scaleColor(this.sent[led], level);
+    const lit = this.pixels.filter(pixel => pixel.r > 0 || pixel.g > 0 || pixel.b > 0).length;
+    const limited = draw.scale < 1 ? `, limited to ${Math.round(draw.scale * 100)}%` : '';
+
+    const others = this.pixels
+      .map((_, led) => led)
+      .filter(led => !this.airportLeds.has(led))
+      .map(led => ({ led, color: shown(led) }))
+      .filter(({ color }) => color.r > 0 || color.g > 0 || color.b > 0);
+
+    return [
+      `${lit}/${this.config.ledCount} LEDs lit, ~${Math.round(draw.estimatedMa)}mA, ` +
+      `brightness ${Math.round(this.brightness * 100)}%${limited}`,
+      ...renderGrid(this.cells, shown, this.cellWidth),
+      others.length > 0
+        ? `Other LEDs: ${others.map(({ led, color }) => `${colorSwatch(color)} ${led}`).join('  ')}`
+        : ''
+    ];
+  }
+
+  private describeGrid(): string {
+    const columns = Math.max(0, ...this.cells.map(cell => cell.x)) + 1;
+    const rows = Math.max(0, ...this.cells.map(cell => cell.y)) + 1;
+    return `${columns}x${rows}`;
+  }
+}
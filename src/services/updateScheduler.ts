@@ -0,0 +1,188 @@
+/**
+ * METAR update scheduler
+ * Plans the next fetch around the routine issuance window, polling faster
+ * while the weather is marginal, stormy or changing and backing off while
+ * everything stays VFR
+ */
+
+import {
+  AirportConditions,
+  Config,
+  IssuanceWindow,
+  MetarData,
+  UpdatePlan,
+  UpdateReason
+} from '../types';
+
+/**
+ * Check whether a report is a SPECI (unscheduled special observation)
+ *
+ * @param metar - METAR data
+ * @returns true for SPECI reports
+ */
+export function isSpeci(metar: MetarData): boolean {
+  return metar.metarType === 'SPECI' || /^SPECI\b/.test(metar.rawOb.trim());
+}
+
+/**
+ * First moment after the issuance window closes that is later than a time
+ * The window is in minutes past the hour (UTC), e.g. 51-56 closes at :57.
+ *
+ * @param after - Reference time
+ * @param window - Issuance window
+ * @returns Time just after the next window close
+ */
+export function getIssuanceTime(after: Date, window: IssuanceWindow): Date {
+  const hourStart = Math.floor(after.getTime() / 3600000) * 3600000;
+  let time = hourStart + (window.end + 1) * 60000;
+  if (time <= after.getTime()) {
+    time += 3600000;
+  }
+  return new Date(time);
+}
+
+/**
+ * Check whether a time falls inside the issuance window
+ *
+ * @param time - Time to check
+ * @param window - Issuance window
+ * @returns true while routine METARs are still being issued
+ */
+export function isInIssuanceWindow(time: Date, window: IssuanceWindow): boolean {
+  const minute = time.getUTCMinutes();
+  return minute >= window.start && minute <= window.end;
+}
+
+/**
+ * Plans METAR updates from one update to the next
+ */
+export class UpdateScheduler {
+  private config: Config;
+  private steadyUpdates = 0;
+  private lastObsTimes = new Map<string, number>();
+
+  constructor(config: Config) {
+    this.config = config;
+  }
+
+  /**
+   * Find airports whose newest report is a SPECI not seen in an earlier update
+   * Reports seen for the first time (e.g. at startup) are not counted.
+   *
+   * @param metarDataMap - METAR data from this update
+   * @returns Airport codes with a new SPECI
+   */
+  findNewSpecis(metarDataMap: Map<string, MetarData>): string[] {
+    const codes: string[] = [];
+
+    for (const [code, metar] of metarDataMap) {
+      const lastObsTime = this.lastObsTimes.get(code);
+      if (lastObsTime === metar.obsTime) {
+        continue;
+      }
+
+      this.lastObsTimes.set(code, metar.obsTime);
+      if (lastObsTime !== undefined && isSpeci(metar)) {
+        codes.push(code);
+      }
+    }
+
+    return codes;
+  }
+
+  /**
+   * Plan the next update
+   *
+   * @param conditionsMap - Conditions from this update
+   * @param metarDataMap - METAR data from this update
+   * @param now - Current time
+   * @returns When and why the next update runs
+   */
+  planNext(
+    conditionsMap: Map<string, AirportConditions>,
+    metarDataMap: Map<string, MetarData>,
+    now: Date = new Date()
+  ): UpdatePlan {
+    const speci = this.findNewSpecis(metarDataMap);
+
+    if (!this.config.adaptivePolling) {
+      return this.plan(now, this.config.metarUpdateInterval, 'fixed', speci);
+    }
+
+    const reason = this.getReason(conditionsMap, speci);
+    let minutes = this.config.metarUpdateInterval;
+
+    if (reason === 'speci' || reason === 'thunderstorm' || reason === 'marginal') {
+      minutes = this.config.pollIntervalActive;
+      this.steadyUpdates = 0;
+    } else if (reason === 'steady' && ![...metarDataMap.values()].some(isSpeci)) {
+      // Double the interval after each steady update, up to the maximum.
+      // While an airport's newest report is a SPECI more tend to follow, so
+      // the interval holds at the normal one until a routine METAR replaces it.
+      minutes = Math.min(
+        this.config.metarUpdateInterval * 2 ** this.steadyUpdates,
+        this.config.pollIntervalMax
+      );
+      this.steadyUpdates++;
+    } else {
+      this.steadyUpdates = 0;
+    }
+
+    const plan = this.plan(now, minutes, reason, speci);
+    const window = this.config.issuanceWindow;
+    const issuance = getIssuanceTime(now, window);
+
+    // Never sleep through a window close: fetch right after it
+    if (issuance < plan.nextUpdate) {
+      return this.alignTo(now, issuance, plan);
+    }
+
+    // Wait for the window to close unless the weather needs fast polling
+    if (minutes >= this.config.metarUpdateInterval && isInIssuanceWindow(plan.nextUpdate, window)) {
+      return this.alignTo(now, getIssuanceTime(plan.nextUpdate, window), plan);
+    }
+
+    return plan;
+  }
+
+  /**
+   * Choose the reason for the next interval, most urgent first
+   */
+  private getReason(conditionsMap: Map<string, AirportConditions>, speci: string[]): UpdateReason {
+    const known = [...conditionsMap.values()].filter(c => c.flightCategory !== null);
+
+    if (speci.length > 0) {
+      return 'speci';
+    }
+    if (known.some(c => c.lightning)) {
+      return 'thunderstorm';
+    }
+    if (known.some(c => c.flightCategory !== 'VFR')) {
+      return 'marginal';
+    }
+    if (known.every(c => !c.trend || c.trend === 'steady')) {
+      return 'steady';
+    }
+    return 'normal';
+  }
+
+  private plan(now: Date, minutes: number, reason: UpdateReason, speci: string[]): UpdatePlan {
+    const delayMs = minutes * 60 * 1000;
+    return {
+      nextUpdate: new Date(now.getTime() + delayMs),
+      delayMs,
+      reason,
+      aligned: false,
+      speci
+    };
+  }
+
+  private alignTo(now: Date, time: Date, plan: UpdatePlan): UpdatePlan {
+    return {
+      ...plan,
+      nextUpdate: time,
+      delayMs: time.getTime() - now.getTime(),
+      aligned: true
+    };
+  }
+}
@@ -4,7 +4,49 @@
  */
 
 import * as fs from 'fs/promises';
-import { FlightCategory, Color } from '../types';
+import { createReadStream } from 'fs';
+import { createInterface } from 'readline';
+import {
+  AdvisoryHazard,
+  AdvisoryType,
+  CategoryTrend,
+  FlightCategory,
+  Color,
+  DisplayModeName,
+  ForecastDisplayMode,
+  GradientStop,
+  PirepHazard,
+  PowerDraw,
+  WeatherPhenomenon
+} from '../types';
+
+/**
+ * Advisory covering an airport
+ */
+export interface MetarStateAdvisory {
+  id: string;
+  type: AdvisoryType;
+  hazard: AdvisoryHazard;
+  severity?: string;
+  altitudeLow?: number;   // Feet MSL
+  altitudeHigh?: number;  // Feet MSL
+  validTo: string;
+}
+
+/**
+ * Turbulence/icing PIREP near an airport
+ */
+export interface MetarStatePirep {
+  time: string;
+  distanceNm: number;
+  urgent: boolean;
+  significant: boolean;   // At or above PIREP_MIN_INTENSITY
+  aircraft?: string;
+  altitude?: number;      // Feet MSL
+  turbulence?: PirepHazard;
+  icing?: PirepHazard;
+  raw: string;
+}
 
 /**
  * Airport state for a single airport
@@ -13,18 +55,36 @@ export interface MetarStateAirport {
   code: string;
   name: string;
   led: number;
+  lat?: number;         // Map position (airports.json override, else the METAR station)
+  lon?: number;
   flightCategory: FlightCategory;
   color: Color;
   windSpeed: number;
   windGustSpeed: number;
   windGust: boolean;
   lightning: boolean;
+  thunderstorm: boolean;          // Thunderstorm at the station
+  vicinityThunderstorm: boolean;  // Thunderstorm in the vicinity
+  distantLightning: boolean;      // Distant lightning only
+  weather?: WeatherPhenomenon[];  // Present-weather phenomena
+  runway?: string;      // Best runway for the wind (airports with runways)
+  crosswind?: number;   // Crosswind on that runway (knots, gusts included)
+  tailwind?: number;    // Tailwind on that runway (knots)
   visibility?: number;
   temperature?: number;
   dewpoint?: number;
   altimeter?: number;
+  pressureAltitude?: number;  // Feet
+  densityAltitude?: number;   // Feet
   rawMetar?: string;
   obsTime?: string;
+  ageMinutes?: number;  // Observation age when the state was written
+  stale: boolean;       // Older than STALE_OBSERVATION_MINUTES
+  previousCategory?: FlightCategory;  // Category at the start of the trend window
+  trend?: CategoryTrend;              // Improving, deteriorating or steady
+  forecastCategory?: FlightCategory;  // TAF category at the look-ahead time
+  advisories?: MetarStateAdvisory[];  // SIGMETs/AIRMETs covering the airport
+  pireps?: MetarStatePirep[];         // Recent turbulence/icing PIREPs nearby, newest first
 }
 
 /**
@@ -37,6 +97,21 @@ export interface MetarState {
     ledCount: number;
     activeCount: number;
   };
+  dataSource?: string;  // METAR provider that served this update
+  power?: PowerDraw;    // Estimated LED current once the LEDs show this state
+  displayMode?: {
+    active: DisplayModeName;
+    label: string;
+    unit: string;
+    modes: DisplayModeName[];
+    rotateSeconds?: number;   // Set when more than one mode rotates
+    legend?: GradientStop[];  // Gradient or band scale (not set for category mode)
+  };
+  forecast?: {
+    displayMode: ForecastDisplayMode;
+    lookaheadHours: number;
+    forecastTime: string;
+  };
 }
 
 /**
@@ -109,6 +184,62 @@ export class MetarStateManager {
     }
   }
 
+  /**
+   * Read historical log entries, oldest first
+   * The log is streamed line by line; lines that are not valid entries (such
+   * as a partial last line) are skipped.
+   *
+   * @param since - Only entries at or after this time
+   * @param until - Only entries at or before this time
+   * @returns Matching entries (empty when logging is disabled or the log doesn't exist yet)
+   */
+  async readLog(since?: Date, until?: Date): Promise<MetarLogEntry[]> {
+    if (!this.logPath) {
+      return [];
+    }
+
+    const entries: MetarLogEntry[] = [];
+    let skipped = 0;
+    const stream = createReadStream(this.logPath, 'utf-8');
+
+    try {
+      for await (const line of createInterface({ input: stream, crlfDelay: Infinity })) {
+        if (!line.trim()) {
+          continue;
+        }
+
+        let entry: MetarLogEntry;
+        try {
+          entry = JSON.parse(line);
+        } catch {
+          skipped++;
+          continue;
+        }
+
+        const time = Date.parse(entry.timestamp);
+        if (typeof entry.airport !== 'string' || isNaN(time)) {
+          skipped++;
+          continue;
+        }
+        if ((since && time < since.getTime()) || (until && time > until.getTime())) {
+          continue;
+        }
+        entries.push(entry);
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    if (skipped > 0) {
+      console.warn(`Skipped ${skipped} unreadable lines in ${this.logPath}`);
+    }
+    // Entries are appended in order, but sort in case logs were concatenated
+    return entries.sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+  }
+
   /**
    * Create log entries from current state
    */
@@ -9,6 +9,11 @@
  */
 export type FlightCategory = 'VFR' | 'MVFR' | 'IFR' | 'LIFR' | null;
 
+/**
+ * Direction the flight category is moving in
+ */
+export type CategoryTrend = 'improving' | 'deteriorating' | 'steady';
+
 /**
  * RGB color representation
  */
@@ -16,6 +21,75 @@ export interface Color {
   r: number;
   g: number;
   b: number;
+  w?: number;  // White channel for RGBW strips (extracted from r, g and b when missing)
+}
+
+/**
+ * Order of the three color channels, e.g. in COLOR_* settings
+ */
+export type ChannelOrder = 'RGB' | 'RBG' | 'GRB' | 'GBR' | 'BRG' | 'BGR';
+
+/**
+ * Order of the channels on the wire: any three-channel order, or an RGBW
+ * strip (SK6812) with the white channel last
+ */
+export type LedOrder = ChannelOrder | 'RGBW' | 'GRBW';
+
+/**
+ * Multipliers for each color channel (same channel order as the colors)
+ */
+export interface ChannelFactors {
+  r: number;
+  g: number;
+  b: number;
+}
+
+/**
+ * Color calibration applied to every pixel before it goes to the strip
+ * Gamma correction first, then the channel factors.
+ */
+export interface ColorCalibration {
+  gamma: number;                                // 1 = no correction
+  whiteBalance: ChannelFactors;                 // Full white on the strip, as factors
+  channelScale: ChannelFactors;                 // Extra per-channel scaling
+  ledCorrections: Record<number, ChannelFactors>;  // Per-LED factors for mixed LED batches
+}
+
+/**
+ * A physical LED strip on its own GPIO pin
+ * Strips are chained into one logical LED index space in the order listed.
+ */
+export interface LedStrip {
+  pin: number;         // GPIO pin (BCM numbering)
+  count: number;       // Number of LEDs
+  order: LedOrder;     // Channel order the strip expects
+  brightness: number;  // Factor applied to the global brightness (0-1)
+}
+
+/**
+ * Network LED backends
+ * - opc: Open Pixel Control server over TCP
+ * - e131: E1.31 (sACN) receivers over UDP
+ * - wled: WLED controller over its UDP realtime protocol
+ */
+export type NetworkLedBackend = 'opc' | 'e131' | 'wled';
+
+/**
+ * Where LED frames go
+ * - gpio: WS281x strips on the Pi's GPIO pins (the console with USE_MOCK_GPIO)
+ * - apa102: APA102/SK9822 (DotStar) strip on an SPI device
+ * - a network backend
+ */
+export type LedBackend = 'gpio' | 'apa102' | NetworkLedBackend;
+
+/**
+ * Estimated LED current for a frame
+ */
+export interface PowerDraw {
+  requestedMa: number;  // Draw at the requested brightness
+  estimatedMa: number;  // Draw after the power limit
+  limitMa?: number;     // Supply limit (not set when unlimited)
+  scale: number;        // Brightness factor applied by the limit (1 = not limited)
 }
 
 /**
@@ -52,6 +126,314 @@ export interface MetarData {
   cover?: string;
   clouds?: CloudLayer[];
   fltCat?: 'VFR' | 'MVFR' | 'IFR' | 'LIFR';  // May be missing
+  metarType?: 'METAR' | 'SPECI';
+}
+
+/**
+ * Wind group decoded from raw METAR text
+ * Speeds are normalized to knots
+ */
+export interface DecodedWind {
+  direction: number | 'VRB';  // Degrees true, or VRB for variable
+  speed: number;              // Knots
+  gust?: number;              // Knots
+  variableFrom?: number;      // e.g. 180V240 -> 180
+  variableTo?: number;        // e.g. 180V240 -> 240
+}
+
+/**
+ * Runway visual range group (e.g. R28L/2400V4000FT/U)
+ */
+export interface RunwayVisualRange {
+  runway: string;             // Runway designator (e.g. "28L")
+  visibility: number;         // Feet (minimum when variable)
+  variableMax?: number;       // Feet (maximum when variable)
+  modifier?: 'M' | 'P';       // Less than (M) or more than (P) reportable value
+  trend?: 'U' | 'D' | 'N';    // Upward, downward, no change
+}
+
+/**
+ * Peak wind remark (PK WND dddff/hhmm)
+ */
+export interface PeakWind {
+  direction: number;
+  speed: number;
+  time: string;               // "hhmm" or "mm" as reported
+}
+
+/**
+ * Main remarks decoded from the RMK section
+ */
+export interface DecodedRemarks {
+  stationType?: 'AO1' | 'AO2';
+  seaLevelPressure?: number;          // hPa (SLPppp)
+  preciseTemp?: number;               // Celsius, tenths (Tsnnnsnnn)
+  preciseDewpoint?: number;           // Celsius, tenths (Tsnnnsnnn)
+  peakWind?: PeakWind;
+  windShiftTime?: string;             // WSHFT hhmm
+  lightning: string[];                // Raw lightning phrases (e.g. "OCNL LTGICCG DSNT NE")
+  thunderstorm: string[];             // Thunderstorm location phrases (e.g. "TS OHD MOV E")
+  thunderstormInfoUnavailable: boolean;  // TSNO
+  pressureTendency?: {
+    code: number;                     // WMO tendency code 0-8
+    change: number;                   // hPa change over 3 hours (signed)
+  };
+  pressureRisingRapidly: boolean;     // PRESRR
+  pressureFallingRapidly: boolean;    // PRESFR
+  maintenanceNeeded: boolean;         // $
+}
+
+/**
+ * Weather groups shared by METAR bodies and TAF change groups
+ */
+export interface DecodedConditions {
+  wind?: DecodedWind;
+  visibility?: number;               // Statute miles
+  visibilityModifier?: 'M' | 'P';    // M1/4SM (less than), P6SM (more than)
+  cavok: boolean;
+  rvr: RunwayVisualRange[];
+  weather: string[];                 // Present weather groups (e.g. "-RA", "VCTS", "+TSRA")
+  noSignificantWeather: boolean;     // NSW (TAF: weather ends)
+  clouds: CloudLayer[];
+  skyClear: boolean;                 // SKC/CLR/NSC/NCD reported
+  temp?: number;                     // Celsius
+  dewp?: number;                     // Celsius
+  altim?: number;                    // hPa
+  unparsed: string[];                // Tokens the decoder did not recognize
+}
+
+/**
+ * Result of tokenizing and decoding a raw METAR string
+ */
+export interface DecodedMetar extends DecodedConditions {
+  station: string;
+  reportType: 'METAR' | 'SPECI';
+  observationTime?: {
+    day: number;
+    hour: number;
+    minute: number;
+  };
+  auto: boolean;
+  corrected: boolean;
+  remarks: DecodedRemarks;
+}
+
+/**
+ * TAF change group type
+ * BASE is the initial forecast period that follows the valid period
+ */
+export type TafChangeType = 'BASE' | 'FM' | 'BECMG' | 'TEMPO' | 'PROB';
+
+/**
+ * A single forecast period within a TAF
+ */
+export interface TafPeriod extends DecodedConditions {
+  change: TafChangeType;
+  probability?: number;      // PROB30/PROB40 (TEMPO groups may also carry one)
+  temporary: boolean;        // TEMPO or PROB - conditions not expected to prevail
+  from: Date;
+  to: Date;
+}
+
+/**
+ * Parsed Terminal Aerodrome Forecast
+ */
+export interface TafData {
+  icaoId: string;
+  rawTaf: string;
+  issueTime: Date;
+  validFrom: Date;
+  validTo: Date;
+  amended: boolean;
+  periods: TafPeriod[];
+}
+
+/**
+ * Raw TAF data from aviationweather.gov JSON API
+ * Only the fields used by the parser are listed
+ */
+export interface TafApiData {
+  icaoId: string;
+  rawTAF: string;
+  issueTime?: string;
+}
+
+/**
+ * Forecast conditions at a point in time derived from a TAF
+ */
+export interface TafForecast {
+  time: Date;
+  flightCategory: FlightCategory;      // Worst case including temporary groups (if enabled)
+  prevailingCategory: FlightCategory;  // Prevailing conditions only
+  wind?: DecodedWind;
+  weather: string[];
+}
+
+/**
+ * Raw AIRMET/SIGMET data from the aviationweather.gov airsigmet JSON API
+ * Convective SIGMETs are SIGMETs with the CONVECTIVE hazard
+ */
+export interface AirSigmetApiData {
+  airSigmetId?: number;
+  icaoId?: string;
+  alphaChar?: string;
+  seriesId?: string;
+  validTimeFrom: number;          // Epoch seconds
+  validTimeTo: number;            // Epoch seconds
+  airSigmetType: string;          // "SIGMET", "AIRMET" or "OUTLOOK"
+  hazard: string;                 // "CONVECTIVE", "TURB", "ICE", "IFR", "MTN OBSCN", "ASH"
+  severity?: number;
+  altitudeLow1?: number | null;   // Feet MSL
+  altitudeLow2?: number | null;
+  altitudeHi1?: number | null;
+  altitudeHi2?: number | null;
+  rawAirSigmet?: string;
+  coords: { lat: number; lon: number }[];
+}
+
+/**
+ * Raw G-AIRMET snapshot from the aviationweather.gov gairmet JSON API
+ */
+export interface GAirmetApiData {
+  tag?: string;                   // e.g. "1W"
+  forecastHour?: number;
+  validTime: string | number;     // Snapshot time (ISO string or epoch seconds)
+  hazard: string;                 // "TURB-HI", "TURB-LO", "ICE", "IFR", "MT_OBSC", "SFC_WND", "LLWS", "FZLVL"
+  geometryType?: string;          // "AREA" or "LINE"
+  severity?: string;
+  top?: string | number;          // Hundreds of feet MSL, "FZL" for the freezing level
+  base?: string | number;         // Hundreds of feet MSL, "SFC" or "FZL"
+  dueTo?: string;
+  coords: { lat: number | string; lon: number | string }[];
+}
+
+/**
+ * Advisory hazard, normalized across SIGMETs, AIRMETs and G-AIRMETs
+ */
+export type AdvisoryHazard =
+  | 'convective'
+  | 'turbulence'
+  | 'icing'
+  | 'ifr'
+  | 'mountain'
+  | 'ash'
+  | 'wind'
+  | 'llws'
+  | 'other';
+
+export type AdvisoryType = 'SIGMET' | 'CONVECTIVE SIGMET' | 'AIRMET' | 'G-AIRMET';
+
+/**
+ * Latitude/longitude point (degrees)
+ */
+export interface GeoPoint {
+  lat: number;
+  lon: number;
+}
+
+/**
+ * An active advisory area
+ */
+export interface Advisory {
+  id: string;             // e.g. "CONVECTIVE SIGMET 12E" or "G-AIRMET 1W ICE"
+  type: AdvisoryType;
+  hazard: AdvisoryHazard;
+  severity?: string;
+  altitudeLow?: number;   // Feet MSL (undefined = surface or freezing level)
+  altitudeHigh?: number;  // Feet MSL
+  validFrom: Date;
+  validTo: Date;
+  polygon: GeoPoint[];
+  raw?: string;
+}
+
+/**
+ * Raw pilot report from the aviationweather.gov pirep JSON API
+ * Only the fields used by the decoder are listed
+ */
+export interface PirepApiData {
+  obsTime: number;                // Epoch seconds
+  receiptTime?: string;
+  pirepType?: string;             // "PIREP", "Urgent PIREP" or "AIREP"
+  acType?: string;
+  lat: number;
+  lon: number;
+  fltLvl?: string | number;       // Hundreds of feet MSL
+  tbInt1?: string;                // "LGT", "MOD", "LGT-MOD", "SEV", ...
+  tbType1?: string;
+  tbBas1?: number | null;         // Hundreds of feet MSL
+  tbTop1?: number | null;
+  icgInt1?: string;
+  icgType1?: string;
+  icgBas1?: number | null;
+  icgTop1?: number | null;
+  rawOb: string;
+}
+
+/**
+ * Turbulence or icing intensity, in increasing order of severity
+ */
+export type PirepIntensity = 'none' | 'trace' | 'light' | 'moderate' | 'severe' | 'extreme';
+
+/**
+ * Turbulence or icing reported in a PIREP
+ */
+export interface PirepHazard {
+  intensity: PirepIntensity;  // Highest of a range ("LGT-MOD" is moderate)
+  type?: string;              // e.g. "CHOP", "CAT", "RIME", "MX"
+  base?: number;              // Feet MSL
+  top?: number;               // Feet MSL
+}
+
+/**
+ * Decoded pilot report
+ */
+export interface Pirep {
+  time: Date;
+  lat: number;
+  lon: number;
+  urgent: boolean;           // UUA
+  aircraft?: string;
+  altitude?: number;         // Flight level in feet MSL
+  turbulence?: PirepHazard;
+  icing?: PirepHazard;
+  raw: string;
+}
+
+/**
+ * A PIREP near an airport
+ */
+export interface NearbyPirep {
+  pirep: Pirep;
+  distanceNm: number;
+}
+
+/**
+ * Which conditions the category display shows
+ * - current: latest METAR
+ * - forecast: TAF forecast at the configured look-ahead
+ * - alternate: switch between current and forecast on a timer
+ */
+export type ForecastDisplayMode = 'current' | 'forecast' | 'alternate';
+
+/**
+ * METAR data source type
+ * - json: aviationweather.gov JSON API
+ * - csv: aviationweather.gov bulk metars.cache.csv(.gz)
+ * - xml: aviationweather.gov XML feed (metars.cache.xml.gz or format=xml)
+ * - local: local file or directory
+ */
+export type MetarProviderType = 'json' | 'csv' | 'xml' | 'local';
+
+/**
+ * Batching and retry settings for the JSON METAR API
+ */
+export interface MetarFetchOptions {
+  batchSize: number;         // Airports per request
+  concurrency: number;       // Requests in flight at once
+  retries: number;           // Retries per batch after the first attempt
+  retryBaseDelayMs: number;  // First retry delay (doubles each retry, with jitter)
+  retryMaxDelayMs: number;   // Cap for backoff and Retry-After delays
 }
 
 /**
@@ -63,6 +445,22 @@ export interface AirportConfig {
   name?: string;          // Optional display name
   enabled?: boolean;      // Optional enable/disable (default: true)
   notes?: string;         // Optional notes
+  runways?: RunwayConfig[];  // Optional runways for the crosswind display
+  lat?: number;           // Optional map position (overrides the METAR station position)
+  lon?: number;
+  x?: number;             // Optional terminal simulator grid column
+  y?: number;             // Optional terminal simulator grid row
+}
+
+/**
+ * Runway entry in the airports configuration
+ * One entry covers both ends (heading 50 is also used as 230) unless oneWay is set.
+ */
+export interface RunwayConfig {
+  heading: number;        // True heading of either end (degrees, like METAR wind)
+  length?: number;        // Optional length in feet
+  name?: string;          // Optional name (e.g., "05/23")
+  oneWay?: boolean;       // Only the heading end is used (terrain, noise)
 }
 
 /**
@@ -87,6 +485,11 @@ export interface AirportMapping {
   code: string;           // ICAO code
   led: number;            // LED index
   name?: string;          // Display name
+  runways?: RunwayConfig[];  // Runways for the crosswind display
+  lat?: number;           // Map position override
+  lon?: number;
+  x?: number;             // Terminal simulator grid position
+  y?: number;
 }
 
 /**
@@ -98,9 +501,198 @@ export interface AirportConditions {
   windSpeed: number;
   windGustSpeed: number;
   windGust: boolean;
-  lightning: boolean;
+  lightning: boolean;              // Any thunderstorm or lightning activity
+  thunderstorm?: boolean;          // Thunderstorm at the station (TS, +TSRA, TS OHD)
+  vicinityThunderstorm?: boolean;  // Thunderstorm in the vicinity (VCTS, LTG VC)
+  distantLightning?: boolean;      // Distant lightning only (LTG DSNT, TS DSNT)
+  weather?: WeatherCondition[];    // Present-weather phenomena at the station
+  runwayWind?: RunwayWind;         // Wind components on the best runway
+  advisories?: Advisory[];         // SIGMETs/AIRMETs covering the airport
+  pireps?: NearbyPirep[];          // Recent turbulence/icing PIREPs nearby, newest first
+  previousCategory?: FlightCategory;  // Category at the start of the trend window
+  trend?: CategoryTrend;              // Set once an earlier observation is known
+  ageMinutes?: number;             // Observation age when parsed
+  stale?: boolean;                 // Older than STALE_OBSERVATION_MINUTES
+}
+
+/**
+ * Wind components on a runway (knots, gusts included)
+ */
+export interface RunwayWind {
+  runway: string;      // Runway end, e.g. "23" or "05L"
+  heading: number;     // True heading of the runway end
+  headwind: number;    // Negative values are a tailwind
+  crosswind: number;   // Always positive
+  tailwind: number;    // Zero when there is a headwind
+}
+
+/**
+ * Thunderstorm and lightning activity by distance from the station
+ */
+export interface ThunderstormActivity {
+  onStation: boolean;
+  vicinity: boolean;
+  distantLightning: boolean;
+}
+
+/**
+ * Present-weather phenomena shown on the map
+ * - freezing: freezing rain/drizzle (FZRA, FZDZ, FZUP)
+ * - hail: hail and small hail/snow pellets (GR, GS)
+ * - snow: snow, snow grains, ice pellets, ice crystals (SN, SG, PL, IC)
+ * - fog: fog and mist (FG, BR)
+ * - haze: haze and smoke (HZ, FU)
+ */
+export type WeatherPhenomenon = 'freezing' | 'hail' | 'snow' | 'fog' | 'haze';
+
+/**
+ * Intensity of a weather phenomenon ("-" light, none moderate, "+" heavy)
+ */
+export type WeatherIntensity = 'light' | 'moderate' | 'heavy';
+
+/**
+ * A phenomenon decoded from a present-weather group
+ */
+export interface WeatherCondition {
+  phenomenon: WeatherPhenomenon;
+  intensity: WeatherIntensity;
+  token: string;                  // Source group (e.g. "-FZRA")
+}
+
+/**
+ * How a weather phenomenon is animated
+ * - flash: alternate the phenomenon color with the normal display
+ * - steady: show the phenomenon color instead of the flight category
+ */
+export type WeatherAnimation = 'flash' | 'steady';
+
+/**
+ * What the airport LEDs show
+ * - category: flight category with wind/lightning/weather animation
+ * - temperature: temperature gradient (Celsius)
+ * - visibility: visibility scale (statute miles)
+ * - ceiling: ceiling height scale (feet AGL)
+ * - wind: wind speed heat map, gusts included (knots)
+ * - altimeter: altimeter setting (inHg)
+ * - tendency: 3-hour pressure tendency from remarks (hPa)
+ * - spread: temperature/dewpoint spread (Celsius)
+ * - crosswind: crosswind on the best runway (knots), flashing over the limit
+ * - density: density altitude bands (feet)
+ */
+export type DisplayModeName =
+  | 'category'
+  | 'temperature'
+  | 'visibility'
+  | 'ceiling'
+  | 'wind'
+  | 'altimeter'
+  | 'tendency'
+  | 'spread'
+  | 'crosswind'
+  | 'density';
+
+/**
+ * Display modes that color airports along a gradient
+ */
+export type GradientModeName = Exclude<DisplayModeName, 'category' | 'density'>;
+
+/**
+ * A gradient stop: values between stops are interpolated
+ */
+export interface GradientStop {
+  value: number;
+  color: Color;
+}
+
+/**
+ * Minutes past the hour when routine METARs are issued
+ */
+export interface IssuanceWindow {
+  start: number;
+  end: number;
+}
+
+/**
+ * Why the next METAR update was scheduled when it was
+ * - fixed: adaptive polling is off
+ * - speci: a new SPECI was issued, conditions are changing
+ * - thunderstorm: an airport reports thunderstorms or lightning
+ * - marginal: an airport is MVFR, IFR or LIFR
+ * - steady: everything is VFR with no category changes (backs off)
+ * - normal: everything else
+ */
+export type UpdateReason = 'fixed' | 'speci' | 'thunderstorm' | 'marginal' | 'steady' | 'normal';
+
+/**
+ * When and why the next METAR update runs
+ */
+export interface UpdatePlan {
+  nextUpdate: Date;
+  delayMs: number;
+  reason: UpdateReason;
+  aligned: boolean;   // Moved to just after the issuance window
+  speci: string[];    // Airports with a new SPECI in this update
 }
 
+/**
+ * How an LED moves to a new color
+ * - steady: switch immediately
+ * - crossfade: blend from the old color (category and data changes)
+ * - pulse: eased swing to the new color (wind, weather and overlays)
+ * - breathe: slow sine swing over a whole cycle (stale data pulse)
+ * - strobe: random lightning-style burst of the new color
+ */
+export type LedEffectName = 'steady' | 'crossfade' | 'pulse' | 'breathe' | 'strobe';
+
+/**
+ * LED color with the effect used to reach it
+ */
+export interface AnimatedColor {
+  color: Color;
+  effect: LedEffectName;
+}
+
+/**
+ * Compositor layers, bottom to top
+ * - base: flight category (or the display mode's own color)
+ * - trend: flash of the previous category
+ * - weather: snow, fog, hail, ... (flashing or held)
+ * - pirep: nearby turbulence/icing reports
+ * - advisory: SIGMET/AIRMET covering the airport
+ * - wind: windy blink/fade and high winds
+ * - lightning: thunderstorm flashes
+ * - stale: dim or pulse old observations
+ * - legend: legend LEDs
+ * - alert: system alerts (failed updates, ...)
+ */
+export type LayerName =
+  | 'base'
+  | 'trend'
+  | 'weather'
+  | 'pirep'
+  | 'advisory'
+  | 'wind'
+  | 'lightning'
+  | 'stale'
+  | 'legend'
+  | 'alert';
+
+/**
+ * How stale (old) observations are shown
+ * - dim: steady faded category color
+ * - pulse: slow pulse between faded and full category color
+ * - off: shown like current data
+ */
+export type StaleDisplayMode = 'dim' | 'pulse' | 'off';
+
+/**
+ * How a category trend is animated
+ * - off: no animation
+ * - flash: briefly flash the previous category color on any change
+ * - deteriorating: flash only when conditions are getting worse
+ */
+export type TrendAnimation = 'off' | 'flash' | 'deteriorating';
+
 /**
  * Application configuration loaded from environment variables
  */
@@ -109,11 +701,37 @@ export interface Config {
   useMockGpio: boolean;
 
   // LED Configuration
+  ledBackend: LedBackend;
   ledCount: number;
   ledPin: number;
   ledBrightness: number;
   ledBrightnessDim: number;
-  ledOrder: 'RGB' | 'GRB';
+  ledOrder: LedOrder;
+  ledStrips: LedStrip[];     // Physical strips making up the LED_COUNT logical LEDs
+  colorOrder: ChannelOrder;  // Channel order the COLOR_* settings are written in
+  colorCalibration: ColorCalibration;
+  ledMaPerChannel: number;   // Current of one LED channel at full brightness
+  ledIdleMa: number;         // Current of an LED that is off
+  powerLimitMa: number;      // Supply budget for the LEDs (0 = no limit)
+
+  // Network LED output (LED_BACKEND opc, e131 or wled)
+  ledHost: string;                // Controller address (E1.31: empty for multicast)
+  ledPort: number;
+  ledNetworkFps: number;          // Maximum frames sent per second
+  opcChannel: number;             // OPC channel (0 = all)
+  e131Universe: number;           // First universe; LEDs carry on into the following ones
+  e131LedsPerUniverse: number;
+  e131Priority: number;
+
+  // SPI LED output (LED_BACKEND apa102)
+  spiDevice: string;              // spidev device path
+
+  // Map snapshots
+  mapSnapshotPaths: string[];     // .svg/.png files rewritten with the current frame (empty = off)
+  mapSnapshotSeconds: number;     // Minimum seconds between snapshots
+  mapWidth: number;               // Image size (pixels)
+  mapHeight: number;
+  mapTitle: string;
 
   // Airport Configuration
   airports: AirportMapping[];
@@ -131,17 +749,34 @@ export interface Config {
     clear: Color;
     lightning: Color;
     highWinds: Color;
+    snow: Color;
+    freezing: Color;
+    fog: Color;
+    haze: Color;
+    hail: Color;
+    advisory: Color;            // Advisory overlay (turbulence, icing, ...)
+    advisoryConvective: Color;  // Convective SIGMET overlay
+    pirep: Color;               // Nearby turbulence/icing PIREP overlay
+    alert: Color;               // System alert tint
   };
 
   // Animation Settings
   activateWindAnimation: boolean;
   activateLightningAnimation: boolean;
+  activateWeatherAnimation: boolean;
+  weatherPriority: WeatherPhenomenon[];  // Highest priority first; unlisted phenomena are not shown
+  weatherAnimation: Record<WeatherPhenomenon, WeatherAnimation>;
   fadeInsteadOfBlink: boolean;
   windBlinkThreshold: number;
   highWindsThreshold: number;
   alwaysBlinkForGusts: boolean;
   blinkSpeed: number;
   blinkTotalTimeSeconds: number;
+  animationFps: number;          // Frames rendered per second
+  crossfadeMs: number;           // Duration of color crossfades
+  animationPhaseSpread: number;  // 0-1: how far LED cycles are offset from each other
+  disabledLayers: LayerName[];   // Compositor layers turned off at startup
+  layerControlPath: string;      // JSON file listing layers to turn off while running
 
   // Daytime Dimming
   activateDaytimeDimming: boolean;
@@ -151,6 +786,19 @@ export interface Config {
   locationLat?: number;
   locationLon?: number;
 
+  // Display Modes
+  displayModes: DisplayModeName[];   // Rotated in order when more than one
+  displayModeRotateSeconds: number;
+  gradients: Record<GradientModeName, GradientStop[]>;
+
+  // Crosswind
+  crosswindLimit: number;       // Knots; airports over the limit flash
+  tailwindLimit: number;        // Knots; runway ends over this are avoided
+  runwayMinLength: number;      // Feet; shorter runways are ignored (0 = all)
+
+  // Density Altitude
+  densityAltitudeBands: GradientStop[];  // Each stop colors values from it up to the next
+
   // Legend LEDs
   showLegend: boolean;
   offsetLegendBy: number;
@@ -158,10 +806,53 @@ export interface Config {
   // API Configuration
   metarApiUrl: string;
   metarUpdateInterval: number;  // Minutes between METAR updates
+  adaptivePolling: boolean;     // Adjust the interval to the weather and issuance times
+  pollIntervalActive: number;   // Minutes between updates when any airport is marginal or stormy
+  pollIntervalMax: number;      // Longest interval when everything is VFR and steady
+  issuanceWindow: IssuanceWindow;
+  metarProviders: MetarProviderType[];  // Tried in order until one succeeds
+  metarCsvUrl: string;
+  metarXmlUrl: string;
+  metarLocalPath?: string;
+  metarProviderTimeout: number;  // Seconds before failing over to the next provider
+  metarBatchSize: number;        // Airports per JSON API request
+  metarFetchConcurrency: number; // JSON API requests in flight at once
+  metarFetchRetries: number;     // Retries per batch
+  metarRetryBaseDelay: number;   // Seconds before the first retry
+  metarRetryMaxDelay: number;    // Maximum seconds between retries
+  metarCachePath: string;        // Last-known-good cache (next to the state file by default)
+  staleObservationMinutes: number;
+  staleDisplay: StaleDisplayMode;
+
+  // TAF Forecast
+  tafApiUrl: string;
+  forecastDisplayMode: ForecastDisplayMode;
+  forecastLookaheadHours: number;
+  forecastAlternateSeconds: number;
+  forecastIncludeTemporary: boolean;  // Include TEMPO/PROB groups (worst case)
+
+  // SIGMET/AIRMET Overlay
+  activateAdvisoryOverlay: boolean;
+  advisoryHazards: AdvisoryHazard[];  // Highest priority first; unlisted hazards are not shown
+  advisoryMaxAltitude: number;        // Feet MSL; advisories starting above this are ignored
+  airSigmetApiUrl: string;
+  gAirmetApiUrl: string;
+
+  // PIREP Overlay
+  activatePirepOverlay: boolean;
+  pirepApiUrl: string;
+  pirepRadiusNm: number;               // Reports within this distance of an airport
+  pirepMaxAgeMinutes: number;          // Reports newer than this
+  pirepMinIntensity: PirepIntensity;   // Lowest intensity that lights the overlay
+
+  // Category Trend
+  trendAnimation: TrendAnimation;
+  trendWindowMinutes: number;   // Compare against the oldest observation this recent
+  trendFlashEvery: number;      // Animation cycles between previous-category flashes
 
   // Mock GPIO Display Options
   mockGpioColors: boolean;
-  mockGpioFormat: 'strip' | 'detailed';
+  mockGpioFormat: 'strip' | 'detailed' | 'terminal';
 
   // State and Logging
   statePath: string;
@@ -0,0 +1,260 @@
+/**
+ * SIGMET/AIRMET/G-AIRMET advisory parsing
+ * Normalizes the aviationweather.gov advisory feeds into polygons with a
+ * hazard and altitude range, and tests which airports they cover
+ */
+
+import {
+  Advisory,
+  AdvisoryHazard,
+  AdvisoryType,
+  AirSigmetApiData,
+  GAirmetApiData,
+  GeoPoint
+} from '../types';
+
+/**
+ * All hazards, in default priority order (most important first)
+ */
+export const ADVISORY_HAZARDS: AdvisoryHazard[] = [
+  'convective',
+  'turbulence',
+  'icing',
+  'ash',
+  'llws',
+  'wind',
+  'ifr',
+  'mountain',
+  'other'
+];
+
+/**
+ * G-AIRMETs are snapshots every 3 hours; each one stands for the
+ * conditions from 90 minutes before to 90 minutes after its time
+ */
+const G_AIRMET_HALF_WINDOW_MS = 90 * 60 * 1000;
+
+/**
+ * Hazard codes used by the feeds
+ */
+const HAZARD_CODES: Record<string, AdvisoryHazard> = {
+  'CONVECTIVE': 'convective',
+  'TURB': 'turbulence',
+  'TURB-HI': 'turbulence',
+  'TURB-LO': 'turbulence',
+  'ICE': 'icing',
+  'IFR': 'ifr',
+  'MTN OBSCN': 'mountain',
+  'MT_OBSC': 'mountain',
+  'ASH': 'ash',
+  'SFC_WND': 'wind',
+  'LLWS': 'llws'
+};
+
+/**
+ * Normalize a feed hazard code
+ *
+ * @param code - Hazard code, e.g. "TURB-HI" or "MTN OBSCN"
+ * @returns Hazard
+ */
+export function normalizeHazard(code: string): AdvisoryHazard {
+  return HAZARD_CODES[code.trim().toUpperCase()] || 'other';
+}
+
+/**
+ * Convert feed coordinates to a polygon (null if it cannot enclose an area)
+ */
+function toPolygon(coords: { lat: number | string; lon: number | string }[] | undefined): GeoPoint[] | null {
+  if (!Array.isArray(coords)) {
+    return null;
+  }
+
+  const polygon = coords
+    .map(c => ({ lat: Number(c.lat), lon: Number(c.lon) }))
+    .filter(p => !isNaN(p.lat) && !isNaN(p.lon));
+
+  return polygon.length >= 3 ? polygon : null;
+}
+
+/**
+ * Lowest and highest of two optional altitudes
+ */
+function altitudeRange(a?: number | null, b?: number | null): { low?: number; high?: number } {
+  const values = [a, b].filter((v): v is number => typeof v === 'number');
+  if (values.length === 0) {
+    return {};
+  }
+  return { low: Math.min(...values), high: Math.max(...values) };
+}
+
+/**
+ * Parse a SIGMET, convective SIGMET or AIRMET
+ * Outlooks and entries without a usable polygon are skipped.
+ *
+ * @param data - Raw airsigmet API entry
+ * @returns Advisory, or null if the entry is not an active area advisory
+ */
+export function parseAirSigmet(data: AirSigmetApiData): Advisory | null {
+  const kind = (data.airSigmetType || '').toUpperCase();
+  if (kind !== 'SIGMET' && kind !== 'AIRMET') {
+    return null;
+  }
+
+  const polygon = toPolygon(data.coords);
+  if (!polygon) {
+    return null;
+  }
+
+  const hazard = normalizeHazard(data.hazard || '');
+  const type: AdvisoryType = kind === 'SIGMET' && hazard === 'convective' ? 'CONVECTIVE SIGMET' : kind;
+  const low = altitudeRange(data.altitudeLow1, data.altitudeLow2).low;
+  const high = altitudeRange(data.altitudeHi1, data.altitudeHi2).high;
+  const series = data.seriesId || data.alphaChar || (data.airSigmetId !== undefined ? String(data.airSigmetId) : '');
+
+  return {
+    id: [type, series].filter(s => s).join(' '),
+    type,
+    hazard,
+    severity: data.severity !== undefined && data.severity !== null ? String(data.severity) : undefined,
+    altitudeLow: low,
+    altitudeHigh: high,
+    validFrom: new Date(data.validTimeFrom * 1000),
+    validTo: new Date(data.validTimeTo * 1000),
+    polygon,
+    raw: data.rawAirSigmet
+  };
+}
+
+/**
+ * Parse a G-AIRMET altitude ("180" = 18,000 ft, "SFC" = surface)
+ * The freezing level ("FZL") varies across the area and is left undefined.
+ *
+ * @param value - Altitude in hundreds of feet, "SFC" or "FZL"
+ * @returns Altitude in feet, or undefined
+ */
+export function parseGAirmetAltitude(value: string | number | undefined): number | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value === 'string' && value.trim().toUpperCase() === 'SFC') {
+    return 0;
+  }
+
+  const hundreds = Number(value);
+  return isNaN(hundreds) ? undefined : hundreds * 100;
+}
+
+/**
+ * Parse a G-AIRMET snapshot
+ * Freezing level contours and other lines are skipped.
+ *
+ * @param data - Raw gairmet API entry
+ * @returns Advisory, or null if the entry is not an area
+ */
+export function parseGAirmet(data: GAirmetApiData): Advisory | null {
+  if (data.geometryType && data.geometryType.toUpperCase() !== 'AREA') {
+    return null;
+  }
+  if (/FZLVL/i.test(data.hazard || '')) {
+    return null;
+  }
+
+  const polygon = toPolygon(data.coords);
+  if (!polygon) {
+    return null;
+  }
+
+  const time = typeof data.validTime === 'number'
+    ? new Date(data.validTime * 1000)
+    : new Date(data.validTime);
+  if (isNaN(time.getTime())) {
+    return null;
+  }
+
+  return {
+    id: ['G-AIRMET', data.tag, data.hazard].filter(s => s).join(' '),
+    type: 'G-AIRMET',
+    hazard: normalizeHazard(data.hazard || ''),
+    severity: data.severity || undefined,
+    altitudeLow: parseGAirmetAltitude(data.base),
+    altitudeHigh: parseGAirmetAltitude(data.top),
+    validFrom: new Date(time.getTime() - G_AIRMET_HALF_WINDOW_MS),
+    validTo: new Date(time.getTime() + G_AIRMET_HALF_WINDOW_MS),
+    polygon,
+    raw: data.dueTo
+  };
+}
+
+/**
+ * Check whether an advisory is in effect
+ *
+ * @param advisory - Advisory
+ * @param now - Current time
+ * @returns true from the start of the validity up to (not including) its end
+ */
+export function isAdvisoryActive(advisory: Advisory, now: Date): boolean {
+  return advisory.validFrom <= now && now < advisory.validTo;
+}
+
+/**
+ * Point-in-polygon test (ray casting on latitude/longitude)
+ * Advisory areas are small enough for straight edges in degrees.
+ *
+ * @param point - Airport position
+ * @param polygon - Polygon vertices (closed or open)
+ * @returns true if the point lies inside the polygon
+ */
+export function pointInPolygon(point: GeoPoint, polygon: GeoPoint[]): boolean {
+  let inside = false;
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+
+    const crosses =
+      (a.lat > point.lat) !== (b.lat > point.lat) &&
+      point.lon < (b.lon - a.lon) * (point.lat - a.lat) / (b.lat - a.lat) + a.lon;
+
+    if (crosses) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+/**
+ * Find the advisories covering a position
+ *
+ * @param advisories - Active advisories
+ * @param point - Airport position
+ * @returns Covering advisories, in input order
+ */
+export function findCoveringAdvisories(advisories: Advisory[], point: GeoPoint): Advisory[] {
+  return advisories.filter(advisory => pointInPolygon(point, advisory.polygon));
+}
+
+/**
+ * Pick the advisory to display according to a hazard priority list
+ *
+ * @param advisories - Covering advisories
+ * @param priority - Hazards in priority order (unlisted ones are never shown)
+ * @returns Highest priority advisory, or null if none apply
+ */
+export function getPriorityAdvisory(
+  advisories: Advisory[] | undefined,
+  priority: AdvisoryHazard[]
+): Advisory | null {
+  if (!advisories || advisories.length === 0) {
+    return null;
+  }
+
+  for (const hazard of priority) {
+    const match = advisories.find(a => a.hazard === hazard);
+    if (match) {
+      return match;
+    }
+  }
+
+  return null;
+}
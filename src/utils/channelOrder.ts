@@ -0,0 +1,99 @@
+/**
+ * Channel order
+ * Colors are red, green and blue everywhere in the application. This is the
+ * one place they are rearranged: settings written in another channel order
+ * are read in with fromChannelOrder, and pixels are put in the strip's wire
+ * order (extracting white for RGBW strips) on the way out.
+ */
+
+import { ChannelOrder, Color, LedOrder } from '../types';
+
+/**
+ * All three-channel orders
+ */
+export const CHANNEL_ORDERS: ChannelOrder[] = ['RGB', 'RBG', 'GRB', 'GBR', 'BRG', 'BGR'];
+
+/**
+ * All strip channel orders
+ */
+export const LED_ORDERS: LedOrder[] = [...CHANNEL_ORDERS, 'RGBW', 'GRBW'];
+
+/**
+ * Check whether a strip has a white channel
+ */
+export function hasWhiteChannel(order: LedOrder): boolean {
+  return order.endsWith('W');
+}
+
+/**
+ * Read a color written in another channel order
+ * The white channel, if any, is kept as is.
+ *
+ * @param color - Channel values in the order given
+ * @param order - Order the values are written in ("GRB": r holds green, ...)
+ * @returns Red, green and blue color
+ */
+export function fromChannelOrder(color: Color, order: ChannelOrder): Color {
+  const values = [color.r, color.g, color.b];
+  const result: Color = { r: 0, g: 0, b: 0 };
+  for (let i = 0; i < 3; i++) {
+    result[order[i].toLowerCase() as 'r' | 'g' | 'b'] = values[i];
+  }
+  if (color.w !== undefined) {
+    result.w = color.w;
+  }
+  return result;
+}
+
+/**
+ * Extract the white channel for an RGBW strip
+ * The part shared by red, green and blue is moved to the white LED. Colors
+ * that already have a white value are left alone.
+ *
+ * @param color - Color to split
+ * @returns Color with a white value
+ */
+export function extractWhite(color: Color): Color {
+  if (color.w !== undefined) {
+    return color;
+  }
+  const w = Math.min(color.r, color.g, color.b);
+  return { r: color.r - w, g: color.g - w, b: color.b - w, w };
+}
+
+/**
+ * Fold a white value into red, green and blue for strips without white LEDs
+ */
+function foldWhite(color: Color): Color {
+  const w = color.w || 0;
+  return {
+    r: Math.min(255, color.r + w),
+    g: Math.min(255, color.g + w),
+    b: Math.min(255, color.b + w)
+  };
+}
+
+/**
+ * Channel values in the order the strip expects them
+ *
+ * @param color - Red, green and blue color (optionally white)
+ * @param order - Strip channel order
+ * @returns Three or four channel values in wire order
+ */
+export function toStripChannels(color: Color, order: LedOrder): number[] {
+  const pixel = hasWhiteChannel(order) ? extractWhite(color) : foldWhite(color);
+  return order.split('').map(channel => pixel[channel.toLowerCase() as keyof Color] || 0);
+}
+
+/**
+ * Pack channel values into a pixel word, first channel sent first
+ * Three channels fill 0x00AABBCC; a fourth goes into the top byte
+ * (0xDDAABBCC), matching the RGB and RGBW strip types of the driver.
+ *
+ * @param channels - Channel values in wire order
+ * @returns 32-bit pixel value
+ */
+export function packChannels(channels: number[]): number {
+  const [first, second, third, fourth = 0] = channels;
+  return ((fourth << 24) | (first << 16) | (second << 8) | third) >>> 0;
+}
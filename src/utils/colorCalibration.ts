@@ -0,0 +1,73 @@
+/**
+ * Color calibration
+ * LED output is far from linear: without gamma correction a half-brightness
+ * channel looks almost as bright as a full one. Colors go through a gamma
+ * lookup table and then per-channel white balance, scale and per-LED factors.
+ * A white channel only gets the gamma correction.
+ */
+
+import { ChannelFactors, Color, ColorCalibration } from '../types';
+
+/**
+ * Factors that leave a channel unchanged
+ */
+export const UNITY_FACTORS: ChannelFactors = { r: 1, g: 1, b: 1 };
+
+/**
+ * Build a gamma lookup table
+ *
+ * @param gamma - Gamma exponent (1 = linear)
+ * @returns Output level (0-255, unrounded) for each input level 0-255
+ */
+export function createGammaTable(gamma: number): number[] {
+  const table: number[] = [];
+  for (let i = 0; i < 256; i++) {
+    table.push(255 * Math.pow(i / 255, gamma));
+  }
+  return table;
+}
+
+/**
+ * Multiply channel factors together
+ */
+function multiplyFactors(...factors: ChannelFactors[]): ChannelFactors {
+  return factors.reduce(
+    (result, f) => ({ r: result.r * f.r, g: result.g * f.g, b: result.b * f.b }),
+    UNITY_FACTORS
+  );
+}
+
+/**
+ * Create the color correction for a strip
+ * Lookup table and factors are computed once; the returned function is
+ * called for every pixel.
+ *
+ * @param calibration - Color calibration settings
+ * @returns Function mapping an LED's color to the value sent to the strip
+ */
+export function createColorCorrection(calibration: ColorCalibration): (index: number, color: Color) => Color {
+  const table = createGammaTable(calibration.gamma);
+  const stripFactors = multiplyFactors(calibration.whiteBalance, calibration.channelScale);
+  const ledFactors = new Map<number, ChannelFactors>();
+  for (const [index, factors] of Object.entries(calibration.ledCorrections)) {
+    ledFactors.set(Number(index), multiplyFactors(stripFactors, factors));
+  }
+
+  const channel = (value: number, factor: number): number => {
+    const level = table[Math.max(0, Math.min(255, Math.round(value)))];
+    return Math.max(0, Math.min(255, Math.round(level * factor)));
+  };
+
+  return (index, color) => {
+    const factors = ledFactors.get(index) || stripFactors;
+    const output: Color = {
+      r: channel(color.r, factors.r),
+      g: channel(color.g, factors.g),
+      b: channel(color.b, factors.b)
+    };
+    if (color.w !== undefined) {
+      output.w = channel(color.w, 1);
+    }
+    return output;
+  };
+}
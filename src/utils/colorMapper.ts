@@ -3,99 +3,453 @@
  * Maps airport conditions to LED colors with animation support
  */
 
-import { AirportConditions, Color, Config } from '../types';
+import {
+  Advisory,
+  AirportConditions,
+  AnimatedColor,
+  Color,
+  Config,
+  FlightCategory,
+  WeatherCondition
+} from '../types';
+import { getPriorityWeather } from './weatherPhenomena';
+import { getPriorityAdvisory } from './advisories';
+import { isSignificantPirep } from './pirepDecoder';
+import { Layer, LayerContext, LayerPixel, compositeLayers, opaque } from './layers';
 
 /**
- * Get LED color for airport conditions with animation state
- * Handles priority: lightning > high winds > windy > flight category
- * Returns clear/off color if flight category is null (no data)
+ * Get the color for a flight category
  * 
- * @param conditions - Airport weather conditions (can have null flight category)
- * @param windCycle - Animation cycle state (true = show effect, false = normal)
+ * @param category - Flight category (null shows clear/off)
+ * @param faded - Use the dimmer fade variant
  * @param config - Application configuration
  * @returns Color object for LED
  */
-export function getColorForConditions(
-  conditions: AirportConditions | null | undefined,
-  windCycle: boolean,
+export function getCategoryColor(
+  category: FlightCategory,
+  faded: boolean,
   config: Config
 ): Color {
-  // No conditions data - show clear/off
-  if (!conditions) {
-    return config.colors.clear;
+  switch (category) {
+    case 'VFR':
+      return faded ? config.colors.vfrFade : config.colors.vfr;
+    case 'MVFR':
+      return faded ? config.colors.mvfrFade : config.colors.mvfr;
+    case 'IFR':
+      return faded ? config.colors.ifrFade : config.colors.ifr;
+    case 'LIFR':
+      return faded ? config.colors.lifrFade : config.colors.lifr;
+    default:
+      // Null or unknown
+      return config.colors.clear;
   }
-  
-  // No flight category - show clear/off
-  if (!conditions.flightCategory) {
-    return config.colors.clear;
+}
+
+/**
+ * Scale a color's brightness
+ * 
+ * @param color - Color to scale
+ * @param factor - Brightness factor (0-1)
+ * @returns Scaled color
+ */
+export function scaleColor(color: Color, factor: number): Color {
+  const scaled: Color = {
+    r: Math.round(color.r * factor),
+    g: Math.round(color.g * factor),
+    b: Math.round(color.b * factor)
+  };
+  if (color.w !== undefined) {
+    scaled.w = Math.round(color.w * factor);
+  }
+  return scaled;
+}
+
+/**
+ * Check whether gusts are strong enough to trigger the wind animation
+ * 
+ * @param windGustSpeed - Gust speed in knots (0 when not gusting)
+ * @param config - Application configuration
+ * @returns True if the airport should blink for its gusts
+ */
+export function isGustBlinking(windGustSpeed: number, config: Config): boolean {
+  return (config.alwaysBlinkForGusts && windGustSpeed > 0) || windGustSpeed > config.windBlinkThreshold;
+}
+
+/**
+ * Get the color for a weather phenomenon
+ * Light intensity is shown at half brightness
+ * 
+ * @param weather - Decoded weather phenomenon
+ * @param config - Application configuration
+ * @returns Color object for LED
+ */
+export function getWeatherColor(weather: WeatherCondition, config: Config): Color {
+  const color = config.colors[weather.phenomenon];
+  return weather.intensity === 'light' ? scaleColor(color, 0.5) : color;
+}
+
+/**
+ * Get the advisory overlay color for an animation cycle
+ * The overlay pulses: full brightness on every other wind cycle, half
+ * brightness in between.
+ * 
+ * @param advisory - Covering advisory
+ * @param cycle - Animation cycle counter
+ * @param config - Application configuration
+ * @returns Overlay color
+ */
+export function getAdvisoryColor(advisory: Advisory, cycle: number, config: Config): Color {
+  const color = advisory.hazard === 'convective'
+    ? config.colors.advisoryConvective
+    : config.colors.advisory;
+  return Math.floor(cycle / 2) % 2 === 0 ? color : scaleColor(color, 0.5);
+}
+
+/**
+ * Get the trend flash for an animation cycle
+ * Airports whose category changed within the trend window briefly show the
+ * previous category color on the last cycle of every TREND_FLASH_EVERY cycles.
+ * 
+ * @param conditions - Airport weather conditions
+ * @param cycle - Animation cycle counter
+ * @param config - Application configuration
+ * @returns Previous category color, or null if not flashing on this cycle
+ */
+export function getTrendFlash(
+  conditions: AirportConditions,
+  cycle: number,
+  config: Config
+): Color | null {
+  if (
+    config.trendAnimation === 'off' ||
+    !conditions.trend ||
+    conditions.trend === 'steady' ||
+    !conditions.previousCategory
+  ) {
+    return null;
+  }
+  if (config.trendAnimation === 'deteriorating' && conditions.trend !== 'deteriorating') {
+    return null;
   }
   
-  // Check if windy enough to animate
-  const isWindy =
-    config.activateWindAnimation &&
-    windCycle &&
-    (conditions.windSpeed >= config.windBlinkThreshold || conditions.windGust);
-  
-  // Check if high winds (overrides normal wind display)
-  const isHighWinds =
-    isWindy &&
-    config.highWindsThreshold !== -1 &&
-    (conditions.windSpeed >= config.highWindsThreshold ||
-      conditions.windGustSpeed >= config.highWindsThreshold);
-  
-  // Check if lightning should be displayed (on opposite cycle from wind)
-  const showLightning =
-    config.activateLightningAnimation &&
-    !windCycle &&
-    conditions.lightning;
+  return cycle % config.trendFlashEvery === config.trendFlashEvery - 1
+    ? getCategoryColor(conditions.previousCategory, false, config)
+    : null;
+}
+
+/**
+ * Get the lightning flash for an animation cycle
+ * On-station thunderstorms flash every lightning cycle, vicinity thunderstorms
+ * every second one and distant lightning every fourth one at half brightness.
+ * Lightning without a classification is treated as on-station.
+ * 
+ * @param conditions - Airport weather conditions
+ * @param cycle - Animation cycle counter (wind and lightning cycles alternate)
+ * @param config - Application configuration
+ * @returns Flash color, or null if not flashing on this cycle
+ */
+export function getLightningFlash(
+  conditions: AirportConditions,
+  cycle: number,
+  config: Config
+): Color | null {
+  const flash = Math.floor(cycle / 2);
+  const onStation =
+    conditions.thunderstorm ||
+    (conditions.lightning && !conditions.vicinityThunderstorm && !conditions.distantLightning);
   
-  // Priority 1: Lightning (white flash)
-  if (showLightning) {
+  if (onStation) {
     return config.colors.lightning;
   }
-  
-  // Priority 2: High winds (yellow)
-  if (isHighWinds) {
-    return config.colors.highWinds;
+  if (conditions.vicinityThunderstorm && flash % 2 === 0) {
+    return config.colors.lightning;
   }
-  
-  // Priority 3: Windy (fade or blink)
-  if (isWindy) {
-    // Use fade color or clear based on config
-    if (config.fadeInsteadOfBlink) {
-      // Fade to dimmer version of flight category color
-      switch (conditions.flightCategory) {
-        case 'VFR':
-          return config.colors.vfrFade;
-        case 'MVFR':
-          return config.colors.mvfrFade;
-        case 'IFR':
-          return config.colors.ifrFade;
-        case 'LIFR':
-          return config.colors.lifrFade;
-        default:
-          return config.colors.clear;
-      }
-    } else {
-      // Blink (turn off)
-      return config.colors.clear;
+  if (conditions.distantLightning && flash % 4 === 0) {
+    return scaleColor(config.colors.lightning, 0.5);
+  }
+  return null;
+}
+
+/**
+ * Conditions of an airport with a flight category, or null
+ */
+function observed({ conditions }: LayerContext): AirportConditions | null {
+  return conditions && conditions.flightCategory ? conditions : null;
+}
+
+/**
+ * Flight category, or clear/off when there is no data
+ */
+export const categoryLayer: Layer = {
+  name: 'base',
+  priority: 0,
+  render: context => {
+    const conditions = observed(context);
+    return opaque(
+      conditions
+        ? getCategoryColor(conditions.flightCategory, false, context.config)
+        : context.config.colors.clear,
+      'crossfade'
+    );
+  }
+};
+
+/**
+ * Brief flash of the previous category when it changed
+ */
+export const trendLayer: Layer = {
+  name: 'trend',
+  priority: 10,
+  render: context => {
+    const conditions = observed(context);
+    const flash = conditions ? getTrendFlash(conditions, context.cycle, context.config) : null;
+    return flash ? opaque(flash, 'pulse') : null;
+  }
+};
+
+/**
+ * Highest priority weather phenomenon (snow, freezing precipitation, fog, ...)
+ * Flashes on the opposite cycle from wind effects; steady or heavy weather
+ * also holds through the wind cycle.
+ */
+export const weatherLayer: Layer = {
+  name: 'weather',
+  priority: 20,
+  render: context => {
+    const { config } = context;
+    const conditions = observed(context);
+    const weather = conditions && config.activateWeatherAnimation
+      ? getPriorityWeather(conditions.weather, config.weatherPriority)
+      : null;
+    if (!weather) {
+      return null;
+    }
+    
+    if (!context.windCycle) {
+      return opaque(getWeatherColor(weather, config), 'pulse');
+    }
+    if (config.weatherAnimation[weather.phenomenon] === 'steady' || weather.intensity === 'heavy') {
+      return opaque(getWeatherColor(weather, config), 'crossfade');
     }
+    return null;
   }
-  
-  // Priority 4: Normal flight category display
-  switch (conditions.flightCategory) {
-    case 'VFR':
-      return config.colors.vfr;
-    case 'MVFR':
-      return config.colors.mvfr;
-    case 'IFR':
-      return config.colors.ifr;
-    case 'LIFR':
-      return config.colors.lifr;
-    default:
-      // Null or unknown
-      return config.colors.clear;
+};
+
+/**
+ * Recent turbulence/icing reports nearby, on the wind cycle
+ */
+export const pirepLayer: Layer = {
+  name: 'pirep',
+  priority: 30,
+  render: context => {
+    const { config } = context;
+    const conditions = observed(context);
+    const hasPirep =
+      conditions !== null &&
+      config.activatePirepOverlay &&
+      context.windCycle &&
+      (conditions.pireps || []).some(n => isSignificantPirep(n.pirep, config.pirepMinIntensity));
+    return hasPirep ? opaque(config.colors.pirep, 'pulse') : null;
+  }
+};
+
+/**
+ * SIGMET/AIRMET covering the airport, pulsing on the wind cycle
+ */
+export const advisoryLayer: Layer = {
+  name: 'advisory',
+  priority: 40,
+  render: context => {
+    const { config } = context;
+    const conditions = observed(context);
+    const advisory = conditions && config.activateAdvisoryOverlay && context.windCycle
+      ? getPriorityAdvisory(conditions.advisories, config.advisoryHazards)
+      : null;
+    return advisory ? opaque(getAdvisoryColor(advisory, context.cycle, config), 'pulse') : null;
+  }
+};
+
+/**
+ * Color an airport shows in a display mode, before any overlay
+ * Used by the overlays that fade the airport's own color.
+ *
+ * @param conditions - Airport weather conditions (with a flight category)
+ * @param faded - Use the dimmer fade variant
+ * @param context - LED being drawn
+ * @returns Color object for LED
+ */
+export type BaseColor = (conditions: AirportConditions, faded: boolean, context: LayerContext) => Color;
+
+/**
+ * Flight category colors, the category mode's base color
+ */
+const categoryColor: BaseColor = (conditions, faded, { config }) =>
+  getCategoryColor(conditions.flightCategory, faded, config);
+
+/**
+ * Create the wind layer
+ * Windy airports blink off (or fade) on the wind cycle; high winds show yellow
+ *
+ * @param baseColor - Airport color faded instead of blinking
+ * @returns Wind layer
+ */
+export function createWindLayer(baseColor: BaseColor): Layer {
+  return {
+    name: 'wind',
+    priority: 50,
+    render: (context): LayerPixel | null => {
+      const { config } = context;
+      const conditions = observed(context);
+      const isWindy =
+        conditions !== null &&
+        config.activateWindAnimation &&
+        context.windCycle &&
+        (conditions.windSpeed >= config.windBlinkThreshold || conditions.windGust);
+      if (!conditions || !isWindy) {
+        return null;
+      }
+      
+      const isHighWinds =
+        config.highWindsThreshold !== -1 &&
+        (conditions.windSpeed >= config.highWindsThreshold ||
+          conditions.windGustSpeed >= config.highWindsThreshold);
+      if (isHighWinds) {
+        return opaque(config.colors.highWinds, 'pulse');
+      }
+      
+      // Fade to dimmer version of the airport color, or blink (turn off)
+      return opaque(
+        config.fadeInsteadOfBlink ? baseColor(conditions, true, context) : config.colors.clear,
+        'pulse'
+      );
+    }
+  };
+}
+
+/**
+ * Lightning strobes on the opposite cycle from wind, pattern depending on distance
+ */
+export const lightningLayer: Layer = {
+  name: 'lightning',
+  priority: 60,
+  render: context => {
+    const { config } = context;
+    const conditions = observed(context);
+    const flash = conditions && config.activateLightningAnimation && !context.windCycle && conditions.lightning
+      ? getLightningFlash(conditions, context.cycle, config)
+      : null;
+    return flash ? opaque(flash, 'strobe') : null;
   }
+};
+
+/**
+ * Create the stale layer
+ * Stale observations dim or slowly pulse instead of animating, so they
+ * never look current
+ *
+ * @param baseColor - Airport color to dim or pulse
+ * @returns Stale layer
+ */
+export function createStaleLayer(baseColor: BaseColor): Layer {
+  return {
+    name: 'stale',
+    priority: 70,
+    render: (context): LayerPixel | null => {
+      const { config } = context;
+      const conditions = observed(context);
+      if (!conditions || !conditions.stale || config.staleDisplay === 'off') {
+        return null;
+      }
+      
+      const faded = config.staleDisplay === 'dim' || context.windCycle;
+      return opaque(
+        baseColor(conditions, faded, context),
+        config.staleDisplay === 'pulse' ? 'breathe' : 'crossfade'
+      );
+    }
+  };
+}
+
+export const windLayer = createWindLayer(categoryColor);
+export const staleLayer = createStaleLayer(categoryColor);
+
+/**
+ * Layers drawn over a display mode's base layer, bottom to top
+ * Wind fades and stale observations dim the mode's own airport color.
+ *
+ * @param baseColor - Airport color in the display mode
+ * @returns Overlay layers
+ */
+export function getOverlayLayers(baseColor: BaseColor): Layer[] {
+  return [
+    trendLayer,
+    weatherLayer,
+    pirepLayer,
+    advisoryLayer,
+    createWindLayer(baseColor),
+    lightningLayer,
+    createStaleLayer(baseColor)
+  ];
+}
+
+/**
+ * Layers of the flight category display, bottom to top
+ */
+export const CATEGORY_LAYERS: Layer[] = [
+  categoryLayer,
+  trendLayer,
+  weatherLayer,
+  pirepLayer,
+  advisoryLayer,
+  windLayer,
+  lightningLayer,
+  staleLayer
+];
+
+/**
+ * Get LED color for airport conditions with animation state
+ * Blends CATEGORY_LAYERS; from the top: stale > lightning > windy/high winds >
+ * advisory > PIREP > weather > trend > flight category.
+ * Returns clear/off color if flight category is null (no data)
+ * 
+ * Lightning and flashing weather show on the opposite cycle from wind effects.
+ * The advisory and PIREP overlays, steady weather and heavy intensity weather
+ * show on the wind cycle when no wind effect is active.
+ * 
+ * @param conditions - Airport weather conditions (can have null flight category)
+ * @param windCycle - Animation cycle state (true = show effect, false = normal)
+ * @param config - Application configuration
+ * @param cycle - Animation cycle counter, used for lightning flash patterns
+ * @returns Color object for LED
+ */
+export function getColorForConditions(
+  conditions: AirportConditions | null | undefined,
+  windCycle: boolean,
+  config: Config,
+  cycle: number = 0
+): Color {
+  return getAnimatedColorForConditions(conditions, windCycle, config, cycle).color;
+}
+
+/**
+ * Get LED color for airport conditions along with the effect used to reach it
+ * Same layers as getColorForConditions. Lightning strobes, wind, weather
+ * and overlay effects pulse, stale pulsing breathes and everything else
+ * crossfades.
+ * 
+ * @param conditions - Airport weather conditions (can have null flight category)
+ * @param windCycle - Animation cycle state (true = show effect, false = normal)
+ * @param config - Application configuration
+ * @param cycle - Animation cycle counter, used for lightning flash patterns
+ * @returns Color and effect for LED
+ */
+export function getAnimatedColorForConditions(
+  conditions: AirportConditions | null | undefined,
+  windCycle: boolean,
+  config: Config,
+  cycle: number = 0
+): AnimatedColor {
+  return compositeLayers(CATEGORY_LAYERS, { conditions, metar: undefined, windCycle, cycle, config });
 }
 
 /**
@@ -104,7 +458,10 @@ export function getColorForConditions(
  * 
  * @param windCycle - Animation cycle state
  * @param config - Application configuration
- * @returns Array of 7 colors for legend LEDs
+ * @returns Array of 7 colors for legend LEDs, plus one per shown weather
+ *          phenomenon (in priority order) when weather animation is enabled
+ *          and one for each overlay (advisory, PIREP) and the trend
+ *          animation when enabled
  */
 export function getLegendColors(windCycle: boolean, config: Config): Color[] {
   const colors: Color[] = [];
@@ -149,5 +506,29 @@ export function getLegendColors(windCycle: boolean, config: Config): Color[] {
     colors.push(config.colors.clear);
   }
   
+  // 8+. Weather phenomena in priority order (animate like the map)
+  if (config.activateWeatherAnimation) {
+    for (const phenomenon of config.weatherPriority) {
+      const steady = config.weatherAnimation[phenomenon] === 'steady';
+      colors.push(
+        steady || !windCycle ? config.colors[phenomenon] : config.colors.vfr
+      );
+    }
+  }
+  
+  // Last: Overlays (animate)
+  if (config.activateAdvisoryOverlay) {
+    colors.push(windCycle ? config.colors.advisory : config.colors.vfr);
+  }
+  
+  if (config.activatePirepOverlay) {
+    colors.push(windCycle ? config.colors.pirep : config.colors.vfr);
+  }
+  
+  // Trend example: MVFR that was VFR
+  if (config.trendAnimation !== 'off') {
+    colors.push(windCycle ? config.colors.vfr : config.colors.mvfr);
+  }
+  
   return colors;
 }
@@ -0,0 +1,127 @@
+/**
+ * Runway wind components
+ * Splits the reported wind into headwind, crosswind and tailwind for each
+ * configured runway end and picks the runway a pilot would use
+ */
+
+import { Config, RunwayConfig, RunwayWind } from '../types';
+
+/**
+ * Wind components relative to a runway heading
+ *
+ * @param windDirection - Direction the wind blows from (degrees true)
+ * @param speed - Wind speed (knots)
+ * @param heading - Runway heading (degrees true)
+ * @returns Headwind (negative for a tailwind) and crosswind, rounded to 0.1 kt
+ */
+export function windComponents(
+  windDirection: number,
+  speed: number,
+  heading: number
+): { headwind: number; crosswind: number } {
+  const angle = (windDirection - heading) * Math.PI / 180;
+  // "+ 0" turns -0 into 0
+  const round = (value: number): number => Math.round(value * 10) / 10 + 0;
+
+  return {
+    headwind: round(speed * Math.cos(angle)),
+    crosswind: round(Math.abs(speed * Math.sin(angle)))
+  };
+}
+
+/**
+ * Smallest angle between two headings (0-180 degrees)
+ */
+function angleBetween(a: number, b: number): number {
+  const diff = Math.abs(a - b) % 360;
+  return diff > 180 ? 360 - diff : diff;
+}
+
+/**
+ * Designator of a runway end, e.g. "05" for heading 50 or "36" for heading 2
+ * Uses the matching half of the runway name ("05L/23R") when one is given.
+ */
+function endDesignator(runway: RunwayConfig, heading: number): string {
+  const ends = runway.name?.split('/').map(s => s.trim()).filter(s => /^\d{1,2}/.test(s));
+
+  if (ends && ends.length > 0) {
+    // Names use magnetic headings, so pick the closest end rather than an exact match
+    return ends.reduce((best, end) =>
+      angleBetween(parseInt(end, 10) * 10, heading) < angleBetween(parseInt(best, 10) * 10, heading)
+        ? end
+        : best
+    );
+  }
+
+  const number = Math.round(heading / 10) % 36 || 36;
+  return number.toString().padStart(2, '0');
+}
+
+/**
+ * Find the best runway for the wind
+ * Gusts are used as the worst case. Runway ends with a tailwind above
+ * TAILWIND_LIMIT (only possible on one-way runways) are avoided; among the
+ * rest the one with the least crosswind wins, ties going to the stronger
+ * headwind. Variable wind is treated as a direct crosswind on every runway.
+ *
+ * @param runways - Configured runways (both ends unless one-way)
+ * @param direction - Wind direction (degrees true), 'VRB' or undefined
+ * @param speed - Sustained wind speed (knots)
+ * @param gust - Gust speed (knots, 0 or undefined when none)
+ * @param config - Application configuration
+ * @returns Wind components on the best runway, or undefined without usable runways
+ */
+export function getRunwayWind(
+  runways: RunwayConfig[] | undefined,
+  direction: number | 'VRB' | undefined,
+  speed: number,
+  gust: number | undefined,
+  config: Config
+): RunwayWind | undefined {
+  const usable = (runways || []).filter(
+    r => !(config.runwayMinLength > 0 && r.length !== undefined && r.length < config.runwayMinLength)
+  );
+  if (usable.length === 0) {
+    return undefined;
+  }
+
+  const windSpeed = Math.max(speed || 0, gust || 0);
+  const variable = typeof direction !== 'number' && windSpeed > 0;
+
+  const candidates: RunwayWind[] = [];
+  for (const runway of usable) {
+    const headings = runway.oneWay
+      ? [runway.heading % 360]
+      : [runway.heading % 360, (runway.heading + 180) % 360];
+
+    for (const heading of headings) {
+      const components = variable
+        ? { headwind: 0, crosswind: windSpeed }
+        : windComponents(typeof direction === 'number' ? direction : 0, windSpeed, heading);
+
+      candidates.push({
+        runway: endDesignator(runway, heading),
+        heading,
+        headwind: components.headwind,
+        crosswind: components.crosswind,
+        tailwind: Math.max(0, -components.headwind)
+      });
+    }
+  }
+
+  const withinTailwind = candidates.filter(c => c.tailwind <= config.tailwindLimit);
+  const pool = withinTailwind.length > 0 ? withinTailwind : candidates;
+
+  return pool.reduce((best, c) =>
+    c.crosswind < best.crosswind || (c.crosswind === best.crosswind && c.headwind > best.headwind)
+      ? c
+      : best
+  );
+}
+
+/**
+ * Check whether the best runway is over the crosswind or tailwind limit
+ */
+export function exceedsRunwayWindLimits(wind: RunwayWind, config: Config): boolean {
+  return wind.crosswind > config.crosswindLimit || wind.tailwind > config.tailwindLimit;
+}
@@ -0,0 +1,103 @@
+/**
+ * Pressure and density altitude
+ * Uses the National Weather Service formulas: station pressure from the
+ * altimeter setting and field elevation, then density altitude from the
+ * virtual temperature (dewpoint included when reported)
+ */
+
+import { MetarData } from '../types';
+
+const FEET_PER_METER = 3.28084;
+const INHG_PER_HPA = 1 / 33.8639;
+const STANDARD_PRESSURE_INHG = 29.9213;
+
+/**
+ * Station pressure from the altimeter setting
+ *
+ * @param altimeterInHg - Altimeter setting (inHg)
+ * @param elevationFt - Field elevation (feet)
+ * @returns Station pressure (inHg)
+ */
+export function stationPressure(altimeterInHg: number, elevationFt: number): number {
+  return Math.pow(Math.pow(altimeterInHg, 0.1903) - 1.313e-5 * elevationFt, 5.255);
+}
+
+/**
+ * Pressure altitude: the altitude in the standard atmosphere with the
+ * station's pressure
+ *
+ * @param altimeterInHg - Altimeter setting (inHg)
+ * @param elevationFt - Field elevation (feet)
+ * @returns Pressure altitude (feet)
+ */
+export function pressureAltitude(altimeterInHg: number, elevationFt: number): number {
+  const pressure = stationPressure(altimeterInHg, elevationFt);
+  return 145366.45 * (1 - Math.pow(pressure / STANDARD_PRESSURE_INHG, 0.190284));
+}
+
+/**
+ * Density altitude: the altitude in the standard atmosphere with the
+ * station's air density
+ *
+ * @param altimeterInHg - Altimeter setting (inHg)
+ * @param elevationFt - Field elevation (feet)
+ * @param temperatureC - Temperature (Celsius)
+ * @param dewpointC - Dewpoint (Celsius), dry air when omitted
+ * @returns Density altitude (feet)
+ */
+export function densityAltitude(
+  altimeterInHg: number,
+  elevationFt: number,
+  temperatureC: number,
+  dewpointC?: number
+): number {
+  const pressure = stationPressure(altimeterInHg, elevationFt);
+
+  // Humid air is lighter: use the virtual temperature
+  let temperatureK = temperatureC + 273.15;
+  if (dewpointC !== undefined) {
+    const vaporPressureHpa = 6.11 * Math.pow(10, 7.5 * dewpointC / (237.7 + dewpointC));
+    const pressureHpa = pressure / INHG_PER_HPA;
+    temperatureK = temperatureK / (1 - (vaporPressureHpa / pressureHpa) * (1 - 0.622));
+  }
+  const temperatureR = temperatureK * 9 / 5;
+
+  return 145442.16 * (1 - Math.pow(17.326 * pressure / temperatureR, 0.235));
+}
+
+/**
+ * Pressure and density altitude for an observation, rounded to whole feet
+ * Either value is undefined when the observation lacks the data for it
+ * (altimeter and elevation; density altitude also needs the temperature).
+ *
+ * @param metar - METAR data (altimeter in hPa, elevation in meters)
+ * @returns Pressure and density altitude (feet)
+ */
+export function getAltitudes(metar: MetarData | undefined): {
+  pressureAltitude?: number;
+  densityAltitude?: number;
+} {
+  if (!metar || !isFiniteNumber(metar.altim) || !isFiniteNumber(metar.elev)) {
+    return {};
+  }
+
+  const altimeterInHg = metar.altim * INHG_PER_HPA;
+  const elevationFt = metar.elev * FEET_PER_METER;
+  const result: { pressureAltitude?: number; densityAltitude?: number } = {
+    pressureAltitude: Math.round(pressureAltitude(altimeterInHg, elevationFt))
+  };
+
+  if (isFiniteNumber(metar.temp)) {
+    const dewpoint = isFiniteNumber(metar.dewp) ? metar.dewp : undefined;
+    result.densityAltitude = Math.round(densityAltitude(altimeterInHg, elevationFt, metar.temp, dewpoint));
+  }
+
+  return result;
+}
+
+/**
+ * Check for a usable numeric field
+ */
+function isFiniteNumber(value: number | undefined | null): value is number {
+  return typeof value === 'number' && isFinite(value);
+}
@@ -0,0 +1,376 @@
+/**
+ * Display modes
+ * Each mode maps an airport's observation to an LED color and provides the
+ * legend colors that explain it. The category mode is the classic flight
+ * category display; the other modes color airports along a gradient.
+ */
+
+import {
+  AirportConditions,
+  AnimatedColor,
+  Color,
+  Config,
+  DisplayModeName,
+  GradientModeName,
+  GradientStop,
+  MetarData
+} from '../types';
+import {
+  CATEGORY_LAYERS,
+  getAnimatedColorForConditions,
+  getColorForConditions,
+  getLegendColors,
+  getOverlayLayers,
+  scaleColor
+} from './colorMapper';
+import { exceedsRunwayWindLimits } from './crosswind';
+import { getAltitudes } from './densityAltitude';
+import { getCeiling, parseVisibility } from './flightCategory';
+import { decodeMetar } from './metarDecoder';
+import { mixColors } from './effects';
+import { Layer, LayerContext, LayerPixel, compositeLayers, opaque } from './layers';
+
+const HPA_PER_INHG = 33.8639;
+
+/**
+ * A way of coloring the airport LEDs
+ */
+export interface DisplayMode {
+  readonly name: DisplayModeName;
+  readonly label: string;
+  readonly unit: string;
+
+  /**
+   * Value shown for an airport (null when the observation lacks the data)
+   */
+  getValue(metar: MetarData | undefined, conditions?: AirportConditions | null): number | null;
+
+  /**
+   * LED color for an airport
+   */
+  getColor(
+    conditions: AirportConditions | null | undefined,
+    metar: MetarData | undefined,
+    windCycle: boolean,
+    config: Config,
+    cycle: number
+  ): Color;
+
+  /**
+   * LED color for an airport with the effect used to reach it
+   */
+  getAnimatedColor(
+    conditions: AirportConditions | null | undefined,
+    metar: MetarData | undefined,
+    windCycle: boolean,
+    config: Config,
+    cycle: number
+  ): AnimatedColor;
+
+  /**
+   * Layers that draw this mode's airport LEDs, bottom to top
+   */
+  getLayers(): Layer[];
+
+  /**
+   * Legend LED colors for this mode
+   */
+  getLegendColors(windCycle: boolean, config: Config): Color[];
+
+  /**
+   * Value scale explaining the colors (undefined for the category mode)
+   */
+  getScale(config: Config): GradientStop[] | undefined;
+}
+
+/**
+ * All display mode names, in documentation order
+ */
+export const DISPLAY_MODE_NAMES: DisplayModeName[] = [
+  'category',
+  'temperature',
+  'visibility',
+  'ceiling',
+  'wind',
+  'altimeter',
+  'tendency',
+  'spread',
+  'crosswind',
+  'density'
+];
+
+/**
+ * Interpolate a color along a gradient
+ * Values outside the gradient use the first or last stop.
+ *
+ * @param stops - Gradient stops sorted by value
+ * @param value - Value to color
+ * @returns Interpolated color
+ */
+export function interpolateGradient(stops: GradientStop[], value: number): Color {
+  if (stops.length === 0) {
+    throw new Error('Gradient has no stops');
+  }
+
+  if (value <= stops[0].value) {
+    return stops[0].color;
+  }
+
+  for (let i = 1; i < stops.length; i++) {
+    const upper = stops[i];
+    if (value <= upper.value) {
+      const lower = stops[i - 1];
+      return mixColors(lower.color, upper.color, (value - lower.value) / (upper.value - lower.value));
+    }
+  }
+
+  return stops[stops.length - 1].color;
+}
+
+/**
+ * Pick the color of the band a value falls in
+ * Each stop colors values from its value up to the next stop; values below
+ * the first stop use the first color.
+ *
+ * @param stops - Band thresholds sorted by value
+ * @param value - Value to color
+ * @returns Band color
+ */
+export function getBandColor(stops: GradientStop[], value: number): Color {
+  if (stops.length === 0) {
+    throw new Error('Bands have no thresholds');
+  }
+
+  let color = stops[0].color;
+  for (const stop of stops) {
+    if (value >= stop.value) {
+      color = stop.color;
+    }
+  }
+  return color;
+}
+
+/**
+ * Layers of a mode that colors airports by their own value
+ * The base layer draws the value's color and the shared overlays draw on top,
+ * fading and dimming that color as they do the flight category.
+ *
+ * @param getColor - Color for an airport (null when the observation lacks the value)
+ * @param shouldFlash - Airports that blink off on every other wind cycle
+ * @returns Layers, bottom to top
+ */
+function valueLayers(
+  getColor: (metar: MetarData | undefined, conditions: AirportConditions | null | undefined, config: Config) =>
+    Color | null,
+  shouldFlash?: (conditions: AirportConditions, config: Config) => boolean
+): Layer[] {
+  const colorOf = ({ metar, conditions, config }: LayerContext): Color =>
+    getColor(metar, conditions, config) ?? config.colors.clear;
+
+  const base: Layer = {
+    name: 'base',
+    priority: 0,
+    render: (context): LayerPixel => {
+      const { conditions, config } = context;
+      if (context.windCycle && conditions && shouldFlash?.(conditions, config)) {
+        return opaque(config.colors.clear, 'pulse');
+      }
+      return opaque(colorOf(context), 'crossfade');
+    }
+  };
+
+  return [
+    base,
+    ...getOverlayLayers((_conditions, faded, context) =>
+      faded ? scaleColor(colorOf(context), 0.5) : colorOf(context)
+    )
+  ];
+}
+
+/**
+ * Create a gradient display mode
+ * Airports without the value stay off. Airports matching shouldFlash blink
+ * off on every other wind cycle.
+ */
+function gradientMode(
+  name: GradientModeName,
+  label: string,
+  unit: string,
+  getValue: (metar: MetarData, conditions?: AirportConditions | null) => number | null,
+  shouldFlash?: (conditions: AirportConditions, config: Config) => boolean
+): DisplayMode {
+  const layers = valueLayers((metar, conditions, config) => {
+    const value = metar ? getValue(metar, conditions) : null;
+    return value === null ? null : interpolateGradient(config.gradients[name], value);
+  }, shouldFlash);
+
+  return {
+    name,
+    label,
+    unit,
+
+    getValue(metar: MetarData | undefined, conditions?: AirportConditions | null): number | null {
+      return metar ? getValue(metar, conditions) : null;
+    },
+
+    getColor(conditions, metar, windCycle, config, cycle): Color {
+      return this.getAnimatedColor(conditions, metar, windCycle, config, cycle).color;
+    },
+
+    getAnimatedColor(conditions, metar, windCycle, config, cycle): AnimatedColor {
+      return compositeLayers(layers, { conditions, metar, windCycle, cycle, config });
+    },
+
+    getLayers: () => layers,
+
+    getLegendColors(_windCycle: boolean, config: Config): Color[] {
+      return config.gradients[name].map(stop => stop.color);
+    },
+
+    getScale: config => config.gradients[name]
+  };
+}
+
+/**
+ * Optional numeric field (missing or NaN becomes null)
+ */
+function numberOrNull(value: number | undefined): number | null {
+  return value === undefined || value === null || isNaN(value) ? null : value;
+}
+
+// Density altitude bands, built once like the gradient modes' layers
+const DENSITY_LAYERS = valueLayers((metar, _conditions, config) => {
+  const value = getAltitudes(metar).densityAltitude;
+  return value === undefined ? null : getBandColor(config.densityAltitudeBands, value);
+});
+
+const DISPLAY_MODES: Record<DisplayModeName, DisplayMode> = {
+  category: {
+    name: 'category',
+    label: 'Flight category',
+    unit: '',
+    getValue: () => null,
+    getColor: (conditions, _metar, windCycle, config, cycle) =>
+      getColorForConditions(conditions, windCycle, config, cycle),
+    getAnimatedColor: (conditions, _metar, windCycle, config, cycle) =>
+      getAnimatedColorForConditions(conditions, windCycle, config, cycle),
+    getLayers: () => CATEGORY_LAYERS,
+    getLegendColors: (windCycle, config) => getLegendColors(windCycle, config),
+    getScale: () => undefined
+  },
+
+  temperature: gradientMode('temperature', 'Temperature', '°C', metar => numberOrNull(metar.temp)),
+
+  visibility: gradientMode('visibility', 'Visibility', 'SM', metar => parseVisibility(metar.visib)),
+
+  ceiling: gradientMode('ceiling', 'Ceiling', 'ft', metar => {
+    if (!metar.clouds) {
+      return null;
+    }
+    // No ceiling reads as unlimited (top of the scale)
+    return getCeiling(metar.clouds) ?? Infinity;
+  }),
+
+  wind: gradientMode('wind', 'Wind speed', 'kt', metar => {
+    const speed = numberOrNull(metar.wspd);
+    const gust = numberOrNull(metar.wgst);
+    if (speed === null && gust === null) {
+      return null;
+    }
+    return Math.max(speed || 0, gust || 0);
+  }),
+
+  altimeter: gradientMode('altimeter', 'Altimeter', 'inHg', metar => {
+    const altim = numberOrNull(metar.altim);
+    return altim === null ? null : Math.round(altim / HPA_PER_INHG * 100) / 100;
+  }),
+
+  tendency: gradientMode('tendency', 'Pressure tendency (3 h)', 'hPa', metar =>
+    decodeMetar(metar.rawOb)?.remarks.pressureTendency?.change ?? null
+  ),
+
+  spread: gradientMode('spread', 'Temperature/dewpoint spread', '°C', metar => {
+    const temp = numberOrNull(metar.temp);
+    const dewp = numberOrNull(metar.dewp);
+    return temp === null || dewp === null ? null : Math.max(0, temp - dewp);
+  }),
+
+  crosswind: gradientMode(
+    'crosswind',
+    'Best-runway crosswind',
+    'kt',
+    (_metar, conditions) => conditions?.runwayWind?.crosswind ?? null,
+    (conditions, config) =>
+      conditions.runwayWind !== undefined && exceedsRunwayWindLimits(conditions.runwayWind, config)
+  ),
+
+  density: {
+    name: 'density',
+    label: 'Density altitude',
+    unit: 'ft',
+
+    getValue(metar: MetarData | undefined): number | null {
+      return getAltitudes(metar).densityAltitude ?? null;
+    },
+
+    getColor(conditions, metar, windCycle, config, cycle): Color {
+      return this.getAnimatedColor(conditions, metar, windCycle, config, cycle).color;
+    },
+
+    getAnimatedColor(conditions, metar, windCycle, config, cycle): AnimatedColor {
+      return compositeLayers(DENSITY_LAYERS, { conditions, metar, windCycle, cycle, config });
+    },
+
+    getLayers: () => DENSITY_LAYERS,
+
+    getLegendColors: (_windCycle, config) => config.densityAltitudeBands.map(stop => stop.color),
+    getScale: config => config.densityAltitudeBands
+  }
+};
+
+/**
+ * Get a display mode by name
+ *
+ * @param name - Display mode name
+ * @returns Display mode
+ */
+export function getDisplayMode(name: DisplayModeName): DisplayMode {
+  return DISPLAY_MODES[name];
+}
+
+/**
+ * Get the display mode active at a point in time
+ * Rotation follows the wall clock so it carries on across update cycles.
+ *
+ * @param config - Application configuration
+ * @param now - Current time in milliseconds
+ * @returns Active display mode
+ */
+export function getActiveDisplayMode(config: Config, now: number = Date.now()): DisplayMode {
+  const modes = config.displayModes;
+  const index = modes.length > 1
+    ? Math.floor(now / (config.displayModeRotateSeconds * 1000)) % modes.length
+    : 0;
+  return getDisplayMode(modes[index]);
+}
+
+/**
+ * Legend colors for a mode, padded with the clear color so switching to a
+ * mode with a shorter legend turns the leftover legend LEDs off
+ *
+ * @param mode - Display mode
+ * @param windCycle - Animation cycle state
+ * @param config - Application configuration
+ * @returns Legend colors, one per legend LED used by any configured mode
+ */
+export function getDisplayModeLegend(mode: DisplayMode, windCycle: boolean, config: Config): Color[] {
+  const colors = mode.getLegendColors(windCycle, config);
+  const size = Math.max(
+    ...config.displayModes.map(name => getDisplayMode(name).getLegendColors(false, config).length)
+  );
+
+  while (colors.length < size) {
+    colors.push(config.colors.clear);
+  }
+  return colors;
+}
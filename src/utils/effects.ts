@@ -0,0 +1,171 @@
+/**
+ * LED effects
+ * Time-based renderers for the transitions between LED colors: crossfades,
+ * eased pulses, breathing and lightning-style strobe bursts
+ */
+
+import { Color, LedEffectName } from '../types';
+
+/**
+ * A transition from one color to another, started at a point in time
+ */
+export interface EffectSegment {
+  effect: LedEffectName;
+  from: Color;
+  to: Color;
+  start: number;                // Milliseconds
+  duration: number;             // Milliseconds
+  flashes?: [number, number][]; // Strobe flashes as [start, end] offsets from start
+}
+
+/**
+ * Quadratic ease-in-out
+ *
+ * @param t - Progress (0-1)
+ * @returns Eased progress (0-1)
+ */
+export function easeInOutQuad(t: number): number {
+  return t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2;
+}
+
+/**
+ * Sine ease-in-out
+ *
+ * @param t - Progress (0-1)
+ * @returns Eased progress (0-1)
+ */
+export function easeInOutSine(t: number): number {
+  return -(Math.cos(Math.PI * t) - 1) / 2;
+}
+
+/**
+ * Blend two colors
+ * The white channel is blended too when either color has one.
+ *
+ * @param from - Color at t = 0
+ * @param to - Color at t = 1
+ * @param t - Blend amount (0-1)
+ * @returns Blended color, rounded to whole channel values
+ */
+export function mixColors(from: Color, to: Color, t: number): Color {
+  const amount = Math.max(0, Math.min(1, t));
+  const mix = (a: number, b: number): number => Math.round(a + (b - a) * amount);
+  const color: Color = {
+    r: mix(from.r, to.r),
+    g: mix(from.g, to.g),
+    b: mix(from.b, to.b)
+  };
+  if (from.w !== undefined || to.w !== undefined) {
+    color.w = mix(from.w || 0, to.w || 0);
+  }
+  return color;
+}
+
+/**
+ * Check whether two colors are the same
+ */
+export function sameColor(a: Color, b: Color): boolean {
+  return a.r === b.r && a.g === b.g && a.b === b.b && (a.w || 0) === (b.w || 0);
+}
+
+/**
+ * Plan a lightning-style strobe burst: one to three short flashes with
+ * uneven gaps, starting early in the segment
+ *
+ * @param duration - Segment length in milliseconds
+ * @param random - Random number source (0-1)
+ * @param minFlashMs - Shortest flash, so no flash falls between two frames
+ * @returns Flashes as [start, end] offsets
+ */
+export function createStrobeFlashes(
+  duration: number,
+  random: () => number,
+  minFlashMs: number = 0
+): [number, number][] {
+  const flashes: [number, number][] = [];
+  const count = 1 + Math.floor(random() * 3);
+  let time = random() * duration * 0.2;
+
+  for (let i = 0; i < count && time < duration; i++) {
+    const length = Math.max(minFlashMs, 40 + random() * 80);
+    flashes.push([time, Math.min(duration, time + length)]);
+    time += length + 60 + random() * 140;
+  }
+
+  return flashes;
+}
+
+/**
+ * Start an effect segment
+ *
+ * @param effect - Effect to use
+ * @param from - Color shown when the segment starts
+ * @param to - Target color
+ * @param start - Start time in milliseconds
+ * @param duration - Segment length in milliseconds
+ * @param random - Random number source, for strobe bursts
+ * @param minFlashMs - Shortest strobe flash
+ * @returns Effect segment
+ */
+export function createSegment(
+  effect: LedEffectName,
+  from: Color,
+  to: Color,
+  start: number,
+  duration: number,
+  random: () => number = Math.random,
+  minFlashMs: number = 0
+): EffectSegment {
+  const segment: EffectSegment = { effect, from, to, start, duration };
+  if (effect === 'strobe') {
+    segment.flashes = createStrobeFlashes(duration, random, minFlashMs);
+  }
+  return segment;
+}
+
+/**
+ * Color of an effect segment at a point in time
+ * Strobes show the target color during flashes and the starting color in
+ * between; the other effects settle on the target color once done.
+ *
+ * @param segment - Effect segment
+ * @param now - Current time in milliseconds
+ * @returns LED color
+ */
+export function renderSegment(segment: EffectSegment, now: number): Color {
+  const elapsed = now - segment.start;
+
+  if (segment.effect === 'strobe') {
+    const flashing = (segment.flashes || []).some(([start, end]) => elapsed >= start && elapsed < end);
+    return flashing ? segment.to : segment.from;
+  }
+
+  if (segment.effect === 'steady' || segment.duration <= 0 || elapsed >= segment.duration) {
+    return segment.to;
+  }
+
+  const t = Math.max(0, elapsed / segment.duration);
+  switch (segment.effect) {
+    case 'pulse':
+      return mixColors(segment.from, segment.to, easeInOutQuad(t));
+    case 'breathe':
+      return mixColors(segment.from, segment.to, easeInOutSine(t));
+    default:
+      return mixColors(segment.from, segment.to, t);
+  }
+}
+
+/**
+ * Offset of an LED's animation cycle, spreading LEDs evenly over a cycle
+ * so they do not all change in lockstep
+ *
+ * @param index - LED index
+ * @param cycleMs - Animation cycle length in milliseconds
+ * @param spread - Fraction of a cycle to spread over (0 = lockstep)
+ * @returns Offset in milliseconds
+ */
+export function getPhaseOffset(index: number, cycleMs: number, spread: number): number {
+  // Golden ratio steps keep neighbouring LEDs far apart
+  const fraction = (index * 0.6180339887) % 1;
+  return Math.round(fraction * spread * cycleMs);
+}
@@ -3,7 +3,32 @@
  * Handles edge cases where data may be missing or incomplete
  */
 
-import { CloudLayer, FlightCategory } from '../types';
+import { CategoryTrend, CloudLayer, FlightCategory } from '../types';
+
+/**
+ * Get the ceiling: the lowest broken, overcast or obscured layer
+ * 
+ * @param clouds - Array of cloud layers
+ * @returns Ceiling in feet AGL, or null if there is no ceiling
+ */
+export function getCeiling(clouds: CloudLayer[]): number | null {
+  let ceiling: number | null = null;
+  
+  for (const layer of clouds) {
+    const cover = layer.cover || '';
+    
+    // Broken, Overcast, or Sky Obscured
+    if (cover === 'BKN' || cover === 'OVC' || cover === 'OVX') {
+      const cloudBase = layer.base || 0;
+      
+      if (ceiling === null || cloudBase < ceiling) {
+        ceiling = cloudBase;
+      }
+    }
+  }
+  
+  return ceiling;
+}
 
 /**
  * Calculate flight category based on visibility and sky conditions per FAA criteria.
@@ -33,20 +58,7 @@ export function calculateFlightCategory(
   const clouds = skyConditions || [];
   
   // Determine ceiling (lowest broken or overcast layer)
-  let ceiling: number | null = null;
-  
-  for (const layer of clouds) {
-    const cover = layer.cover || '';
-    
-    // Broken, Overcast, or Sky Obscured
-    if (cover === 'BKN' || cover === 'OVC' || cover === 'OVX') {
-      const cloudBase = layer.base || 0;
-      
-      if (ceiling === null || cloudBase < ceiling) {
-        ceiling = cloudBase;
-      }
-    }
-  }
+  let ceiling = getCeiling(clouds);
   
   // If no ceiling found (clear, scattered, few), use high value
   if (ceiling === null) {
@@ -122,3 +134,48 @@ export function parseVisibility(visibilityInput: string | number | undefined): n
   
   return null;
 }
+
+/**
+ * Return the more restrictive of two flight categories
+ * A null (unknown) category never wins over a known one
+ * 
+ * @param a - First flight category
+ * @param b - Second flight category
+ * @returns The worst known category, or null if both are unknown
+ */
+export function worstCategory(a: FlightCategory, b: FlightCategory): FlightCategory {
+  const categories: FlightCategory[] = ['VFR', 'MVFR', 'IFR', 'LIFR'];
+  
+  if (a === null) {
+    return b;
+  }
+  if (b === null) {
+    return a;
+  }
+  
+  return categories.indexOf(a) >= categories.indexOf(b) ? a : b;
+}
+
+/**
+ * Compare two flight categories
+ * 
+ * @param previous - Earlier flight category
+ * @param current - Current flight category
+ * @returns Trend from previous to current, or undefined if either is unknown
+ */
+export function getCategoryTrend(
+  previous: FlightCategory,
+  current: FlightCategory
+): CategoryTrend | undefined {
+  const categories: FlightCategory[] = ['VFR', 'MVFR', 'IFR', 'LIFR'];
+  
+  if (previous === null || current === null) {
+    return undefined;
+  }
+  
+  const change = categories.indexOf(current) - categories.indexOf(previous);
+  if (change > 0) {
+    return 'deteriorating';
+  }
+  return change < 0 ? 'improving' : 'steady';
+}
@@ -0,0 +1,107 @@
+/**
+ * Geographic helpers
+ */
+
+import { AirportMapping, GeoPoint, MetarData } from '../types';
+
+const EARTH_RADIUS_NM = 3440.065;
+
+/**
+ * Area between two latitudes and two longitudes, in degrees
+ */
+export interface BoundingBox {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+/**
+ * Great-circle distance between two points (haversine)
+ *
+ * @param a - First point
+ * @param b - Second point
+ * @returns Distance in nautical miles
+ */
+export function distanceNm(a: GeoPoint, b: GeoPoint): number {
+  const toRadians = (degrees: number): number => degrees * Math.PI / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLon = toRadians(b.lon - a.lon);
+
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLon / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_NM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Position of an airport: the lat/lon from airports.json when set, otherwise
+ * the METAR station's
+ *
+ * @param airport - Airport entry
+ * @param metar - Latest METAR data for the airport
+ * @returns Position, or null if neither gives one
+ */
+export function getAirportPosition(
+  airport: Pick<AirportMapping, 'lat' | 'lon'> | undefined,
+  metar: MetarData | undefined
+): GeoPoint | null {
+  if (airport?.lat !== undefined && airport.lon !== undefined) {
+    return { lat: airport.lat, lon: airport.lon };
+  }
+  if (metar && typeof metar.lat === 'number' && typeof metar.lon === 'number') {
+    return { lat: metar.lat, lon: metar.lon };
+  }
+  return null;
+}
+
+/**
+ * Positions of the configured airports that have one
+ *
+ * @param airports - Configured airports
+ * @param metarDataMap - Latest METAR data by airport code
+ * @returns Position by airport code
+ */
+export function getAirportPositions(
+  airports: AirportMapping[],
+  metarDataMap: Map<string, MetarData>
+): Map<string, GeoPoint> {
+  const positions = new Map<string, GeoPoint>();
+  for (const airport of airports) {
+    const position = getAirportPosition(airport, metarDataMap.get(airport.code));
+    if (position) {
+      positions.set(airport.code, position);
+    }
+  }
+  return positions;
+}
+
+/**
+ * Smallest box around a set of points, widened by a distance on every side
+ * (boxes crossing the antimeridian are not handled)
+ *
+ * @param points - Points to enclose
+ * @param marginNm - Distance added around the points
+ * @returns Bounding box, or null when there are no points
+ */
+export function getBoundingBox(points: GeoPoint[], marginNm: number): BoundingBox | null {
+  if (points.length === 0) {
+    return null;
+  }
+
+  const marginLat = marginNm / 60;
+  const south = Math.max(-90, Math.min(...points.map(p => p.lat)) - marginLat);
+  const north = Math.min(90, Math.max(...points.map(p => p.lat)) + marginLat);
+
+  // A degree of longitude shrinks towards the poles; use the widest latitude
+  const widest = Math.max(Math.abs(south), Math.abs(north));
+  const marginLon = widest >= 89 ? 180 : marginLat / Math.cos(widest * Math.PI / 180);
+
+  return {
+    south,
+    west: Math.max(-180, Math.min(...points.map(p => p.lon)) - marginLon),
+    north,
+    east: Math.min(180, Math.max(...points.map(p => p.lon)) + marginLon)
+  };
+}
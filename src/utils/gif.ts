@@ -0,0 +1,205 @@
+/**
+ * GIF encoding
+ * Minimal animated GIF encoder for time-lapse exports. Each frame carries
+ * its own color table, so frames are encoded one at a time and never all
+ * held in memory as pixels.
+ */
+
+import { Color } from '../types';
+import { Raster } from './raster';
+
+/**
+ * Largest LZW code; the table is reset once it is full
+ */
+const MAX_CODE = 4095;
+
+/**
+ * Frame reduced to a color table and one table index per pixel
+ */
+export interface IndexedImage {
+  palette: Color[];
+  indices: Uint8Array;
+}
+
+/**
+ * Reduce a raster to at most 256 colors
+ * Map images use few colors, so they normally keep every color exactly;
+ * anything busier falls back to a fixed 6x7x6 color cube.
+ *
+ * @param raster - Image to reduce
+ * @returns Color table and pixel indices
+ */
+export function indexColors(raster: Raster): IndexedImage {
+  const pixelCount = raster.width * raster.height;
+  const indices = new Uint8Array(pixelCount);
+  const lookup = new Map<number, number>();
+  const palette: Color[] = [];
+
+  for (let i = 0; i < pixelCount; i++) {
+    const r = raster.data[i * 3];
+    const g = raster.data[i * 3 + 1];
+    const b = raster.data[i * 3 + 2];
+    const key = (r << 16) | (g << 8) | b;
+    let index = lookup.get(key);
+    if (index === undefined) {
+      if (palette.length === 256) {
+        return indexColorCube(raster);
+      }
+      index = palette.length;
+      lookup.set(key, index);
+      palette.push({ r, g, b });
+    }
+    indices[i] = index;
+  }
+  return { palette, indices };
+}
+
+/**
+ * Reduce a raster to the nearest colors of a 6x7x6 cube (252 colors)
+ */
+function indexColorCube(raster: Raster): IndexedImage {
+  const levels = (steps: number): number[] =>
+    Array.from({ length: steps }, (_, i) => Math.round(i * 255 / (steps - 1)));
+  const reds = levels(6);
+  const greens = levels(7);
+  const blues = levels(6);
+
+  const palette: Color[] = [];
+  reds.forEach(r => greens.forEach(g => blues.forEach(b => palette.push({ r, g, b }))));
+
+  const pixelCount = raster.width * raster.height;
+  const indices = new Uint8Array(pixelCount);
+  for (let i = 0; i < pixelCount; i++) {
+    const r = Math.round(raster.data[i * 3] * 5 / 255);
+    const g = Math.round(raster.data[i * 3 + 1] * 6 / 255);
+    const b = Math.round(raster.data[i * 3 + 2] * 5 / 255);
+    indices[i] = r * 42 + g * 6 + b;
+  }
+  return { palette, indices };
+}
+
+/**
+ * LZW-compress pixel indices as GIF image data
+ *
+ * @param indices - Pixel indices
+ * @param minCodeSize - Bits per index (2-8)
+ * @returns Variable-length codes packed least significant bit first
+ */
+function lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bufferBits = 0;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+
+  const emit = (code: number): void => {
+    buffer |= code << bufferBits;
+    bufferBits += codeSize;
+    while (bufferBits >= 8) {
+      bytes.push(buffer & 0xff);
+      buffer >>>= 8;
+      bufferBits -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const index = indices[i];
+    const key = (prefix << 8) | index;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode > MAX_CODE) {
+      emit(clearCode);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) {
+        codeSize++;
+      }
+      table.set(key, nextCode++);
+    }
+    prefix = index;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bufferBits > 0) {
+    bytes.push(buffer & 0xff);
+  }
+  return Uint8Array.from(bytes);
+}
+
+/**
+ * Encode one animation frame: graphic control extension, image descriptor,
+ * local color table and image data
+ *
+ * @param raster - Frame image (every frame of a GIF has the same size)
+ * @param delayMs - Time the frame is shown (10 ms steps)
+ * @returns Frame blocks for encodeGif
+ */
+export function encodeGifFrame(raster: Raster, delayMs: number): Buffer {
+  const { palette, indices } = indexColors(raster);
+  const tableBits = Math.max(1, Math.ceil(Math.log2(palette.length)));
+  const minCodeSize = Math.max(2, tableBits);
+
+  const control = Buffer.from([0x21, 0xf9, 0x04, 0x04, 0, 0, 0, 0]);  // Disposal: leave in place
+  control.writeUInt16LE(Math.round(delayMs / 10), 4);
+
+  const descriptor = Buffer.alloc(10);
+  descriptor.writeUInt8(0x2c, 0);
+  descriptor.writeUInt16LE(0, 1);
+  descriptor.writeUInt16LE(0, 3);
+  descriptor.writeUInt16LE(raster.width, 5);
+  descriptor.writeUInt16LE(raster.height, 7);
+  descriptor.writeUInt8(0x80 | (tableBits - 1), 9);  // Local color table
+
+  const colorTable = Buffer.alloc(3 << tableBits);
+  palette.forEach((color, i) => {
+    colorTable[i * 3] = color.r;
+    colorTable[i * 3 + 1] = color.g;
+    colorTable[i * 3 + 2] = color.b;
+  });
+
+  // Image data goes out in sub-blocks of up to 255 bytes
+  const data = lzwEncode(indices, minCodeSize);
+  const blocks: Buffer[] = [Buffer.from([minCodeSize])];
+  for (let offset = 0; offset < data.length; offset += 255) {
+    const chunk = data.subarray(offset, offset + 255);
+    blocks.push(Buffer.from([chunk.length]), Buffer.from(chunk));
+  }
+  blocks.push(Buffer.from([0]));
+
+  return Buffer.concat([control, descriptor, colorTable, ...blocks]);
+}
+
+/**
+ * Assemble an animated GIF that loops forever
+ *
+ * @param width - Image width (pixels)
+ * @param height - Image height (pixels)
+ * @param frames - Frames from encodeGifFrame, in order
+ * @returns GIF file contents
+ */
+export function encodeGif(width: number, height: number, frames: Buffer[]): Buffer {
+  const header = Buffer.alloc(13);
+  header.write('GIF89a', 0, 'ascii');
+  header.writeUInt16LE(width, 6);
+  header.writeUInt16LE(height, 8);
+  header.writeUInt8(0x70, 10);  // No global color table, 8-bit color resolution
+
+  // NETSCAPE2.0 application extension: loop count 0 = forever
+  const loop = Buffer.from([
+    0x21, 0xff, 0x0b, ...Buffer.from('NETSCAPE2.0', 'ascii'), 0x03, 0x01, 0x00, 0x00, 0x00
+  ]);
+
+  return Buffer.concat([header, loop, ...frames, Buffer.from([0x3b])]);
+}
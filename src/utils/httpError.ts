@@ -0,0 +1,70 @@
+/**
+ * HTTP error helpers shared by the weather data services
+ */
+
+import axios, { AxiosError } from 'axios';
+import { parseRetryAfter } from './retry';
+
+/**
+ * Convert an axios (or other) error into a readable Error
+ * 
+ * @param error - Error thrown by the request
+ * @param dataType - Kind of data being fetched (e.g. "METAR", "TAF")
+ * @returns Error with a message describing what went wrong
+ */
+export function describeFetchError(error: unknown, dataType: string): Error {
+  if (axios.isAxiosError(error)) {
+    const axiosError = error as AxiosError;
+    
+    if (axiosError.code === 'ECONNABORTED') {
+      return new Error(`Request timeout while fetching ${dataType} data`);
+    }
+    
+    if (axiosError.response) {
+      return new Error(
+        `API error: ${axiosError.response.status} ${axiosError.response.statusText}`
+      );
+    }
+    
+    if (axiosError.request) {
+      return new Error(`No response received from ${dataType} API`);
+    }
+  }
+  
+  return new Error(`Failed to fetch ${dataType} data: ${error}`);
+}
+
+/**
+ * Check whether a failed request is worth retrying
+ * Retries timeouts, network errors, 429 (rate limited) and 5xx responses
+ * 
+ * @param error - Error thrown by the request
+ * @returns true if the request may succeed on a later attempt
+ */
+export function isRetryableFetchError(error: unknown): boolean {
+  if (!axios.isAxiosError(error)) {
+    return false;
+  }
+  
+  const status = error.response?.status;
+  if (status === undefined) {
+    return true;  // Timeout or no response
+  }
+  
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Get the server-requested retry delay from a 429/503 response
+ * 
+ * @param error - Error thrown by the request
+ * @returns Delay in milliseconds, or null if the server did not send Retry-After
+ */
+export function getRetryAfterMs(error: unknown): number | null {
+  if (!axios.isAxiosError(error) || !error.response) {
+    return null;
+  }
+  
+  const header = error.response.headers?.['retry-after'];
+  return parseRetryAfter(typeof header === 'string' ? header : undefined);
+}
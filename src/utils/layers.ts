@@ -0,0 +1,122 @@
+/**
+ * LED layers
+ * Each layer draws a color with alpha onto an LED, or nothing; the layers are
+ * blended bottom to top by priority. New indicators are new layers rather
+ * than another branch in a priority chain.
+ */
+
+import { AirportConditions, AnimatedColor, Color, Config, LayerName, LedEffectName, MetarData } from '../types';
+import { mixColors } from './effects';
+
+/**
+ * A layer's color for one LED
+ */
+export interface LayerPixel {
+  color: Color;
+  alpha: number;  // 0-1: how much of the color below shows through (1 = opaque)
+  effect: LedEffectName;
+}
+
+/**
+ * What a layer knows about the LED it draws
+ */
+export interface LayerContext {
+  conditions: AirportConditions | null | undefined;
+  metar: MetarData | undefined;
+  windCycle: boolean;
+  cycle: number;
+  config: Config;
+  legend?: Color;    // Set for legend LEDs
+  alerts?: Color[];  // Active system alerts, oldest first
+}
+
+/**
+ * A source of LED colors
+ */
+export interface Layer {
+  readonly name: LayerName;
+  readonly priority: number;  // Higher layers draw on top
+
+  /**
+   * Color for an LED (null leaves the layers below showing)
+   */
+  render(context: LayerContext): LayerPixel | null;
+}
+
+/**
+ * All layer names, bottom to top
+ */
+export const LAYER_NAMES: LayerName[] = [
+  'base',
+  'trend',
+  'weather',
+  'pirep',
+  'advisory',
+  'wind',
+  'lightning',
+  'stale',
+  'legend',
+  'alert'
+];
+
+const OFF: Color = { r: 0, g: 0, b: 0 };
+
+/**
+ * Opaque layer pixel
+ *
+ * @param color - LED color
+ * @param effect - Effect used to reach it
+ * @returns Layer pixel
+ */
+export function opaque(color: Color, effect: LedEffectName): LayerPixel {
+  return { color, alpha: 1, effect };
+}
+
+/**
+ * Blend layers into one LED color
+ * Layers draw bottom to top; the effect comes from the topmost layer that
+ * drew anything.
+ *
+ * @param layers - Layers to blend (any order)
+ * @param context - LED being drawn
+ * @returns Blended color and effect (off when no layer draws)
+ */
+export function compositeLayers(layers: Layer[], context: LayerContext): AnimatedColor {
+  const sorted = [...layers].sort((a, b) => a.priority - b.priority);
+  let result: AnimatedColor = { color: OFF, effect: 'crossfade' };
+
+  for (const layer of sorted) {
+    const pixel = layer.render(context);
+    if (!pixel || pixel.alpha <= 0) {
+      continue;
+    }
+    result = {
+      color: pixel.alpha >= 1 ? pixel.color : mixColors(result.color, pixel.color, pixel.alpha),
+      effect: pixel.effect
+    };
+  }
+
+  return result;
+}
+
+/**
+ * Legend LEDs show the display mode's legend colors, switching instantly
+ */
+export const legendLayer: Layer = {
+  name: 'legend',
+  priority: 80,
+  render: ({ legend }) => (legend ? opaque(legend, 'steady') : null)
+};
+
+/**
+ * System alerts tint every LED on the wind cycle, so the map stays readable
+ * between pulses
+ */
+export const alertLayer: Layer = {
+  name: 'alert',
+  priority: 90,
+  render: ({ alerts, windCycle }) =>
+    alerts && alerts.length > 0 && windCycle
+      ? { color: alerts[0], alpha: 0.5, effect: 'pulse' }
+      : null
+};
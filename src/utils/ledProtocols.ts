@@ -0,0 +1,201 @@
+/**
+ * LED protocols
+ * Frame encoders for the LED backends other than WS281x: Open Pixel Control
+ * over TCP, E1.31 (sACN) and WLED's UDP realtime protocol for network
+ * controllers, and APA102 frames for SPI strips. Frames are channel values,
+ * three (RGB) or four (RGBW) per LED.
+ */
+
+import { LedBackend, NetworkLedBackend } from '../types';
+
+/**
+ * All LED backends
+ */
+export const LED_BACKENDS: LedBackend[] = ['gpio', 'apa102', 'opc', 'e131', 'wled'];
+
+/**
+ * Check whether a backend streams frames over the network
+ */
+export function isNetworkBackend(backend: LedBackend): backend is NetworkLedBackend {
+  return backend === 'opc' || backend === 'e131' || backend === 'wled';
+}
+
+/**
+ * Default port of each network backend
+ */
+export const DEFAULT_LED_PORTS: Record<NetworkLedBackend, number> = {
+  opc: 7890,
+  e131: 5568,
+  wled: 21324
+};
+
+/**
+ * Channel slots in a DMX universe
+ */
+export const E131_UNIVERSE_SIZE = 512;
+
+/**
+ * LEDs per WLED packet: DNRGB carries up to 489 LEDs from a start index,
+ * DRGBW up to 367 LEDs from the first LED
+ */
+export const WLED_MAX_RGB_LEDS = 489;
+export const WLED_MAX_RGBW_LEDS = 367;
+
+const E131_ACN_IDENTIFIER = Buffer.from('ASC-E1.17\0\0\0', 'ascii');
+const WLED_PROTOCOL_DRGBW = 3;
+const WLED_PROTOCOL_DNRGB = 4;
+
+/**
+ * Encode an Open Pixel Control "set pixel colors" message
+ *
+ * @param channel - OPC channel (0 = all channels)
+ * @param data - RGB channel values
+ * @returns Message with its 4-byte header
+ */
+export function encodeOpcMessage(channel: number, data: Uint8Array): Buffer {
+  const message = Buffer.alloc(4 + data.length);
+  message.writeUInt8(channel, 0);
+  message.writeUInt8(0, 1);  // Command 0: set pixel colors
+  message.writeUInt16BE(data.length, 2);
+  message.set(data, 4);
+  return message;
+}
+
+/**
+ * One E1.31 data packet
+ */
+export interface E131Packet {
+  universe: number;
+  sequence: number;    // 0-255, per universe
+  priority: number;    // 0-200
+  sourceName: string;
+  cid: Buffer;         // 16-byte component identifier of the sender
+  data: Uint8Array;    // DMX slot values (up to 512)
+}
+
+/**
+ * Encode an E1.31 data packet (root, framing and DMP layers)
+ *
+ * @param packet - Packet fields
+ * @returns Packet bytes
+ */
+export function encodeE131Packet(packet: E131Packet): Buffer {
+  const length = 126 + packet.data.length;
+  const buffer = Buffer.alloc(length);
+
+  // Root layer
+  buffer.writeUInt16BE(0x0010, 0);  // Preamble size
+  buffer.writeUInt16BE(0x0000, 2);  // Post-amble size
+  E131_ACN_IDENTIFIER.copy(buffer, 4);
+  buffer.writeUInt16BE(0x7000 | (length - 16), 16);
+  buffer.writeUInt32BE(0x00000004, 18);  // VECTOR_ROOT_E131_DATA
+  packet.cid.copy(buffer, 22, 0, 16);
+
+  // Framing layer
+  buffer.writeUInt16BE(0x7000 | (length - 38), 38);
+  buffer.writeUInt32BE(0x00000002, 40);  // VECTOR_E131_DATA_PACKET
+  buffer.write(packet.sourceName.slice(0, 63), 44, 'utf8');
+  buffer.writeUInt8(packet.priority, 108);
+  buffer.writeUInt16BE(0, 109);  // Synchronization address (none)
+  buffer.writeUInt8(packet.sequence & 0xff, 111);
+  buffer.writeUInt8(0, 112);  // Options
+  buffer.writeUInt16BE(packet.universe, 113);
+
+  // DMP layer
+  buffer.writeUInt16BE(0x7000 | (length - 115), 115);
+  buffer.writeUInt8(0x02, 117);  // VECTOR_DMP_SET_PROPERTY
+  buffer.writeUInt8(0xa1, 118);  // Address and data type
+  buffer.writeUInt16BE(0x0000, 119);  // First property address
+  buffer.writeUInt16BE(0x0001, 121);  // Address increment
+  buffer.writeUInt16BE(packet.data.length + 1, 123);
+  buffer.writeUInt8(0x00, 125);  // DMX start code
+  buffer.set(packet.data, 126);
+
+  return buffer;
+}
+
+/**
+ * Multicast address receivers of a universe listen on
+ *
+ * @param universe - Universe number (1-63999)
+ * @returns Address 239.255.hi.lo
+ */
+export function getE131MulticastAddress(universe: number): string {
+  return `239.255.${(universe >> 8) & 0xff}.${universe & 0xff}`;
+}
+
+/**
+ * Split a frame into universes, never splitting an LED across two
+ *
+ * @param data - Frame channel values
+ * @param channelsPerLed - 3 for RGB, 4 for RGBW
+ * @param ledsPerUniverse - LEDs in each universe
+ * @returns Slot values for each universe, in order
+ */
+export function splitUniverses(data: Uint8Array, channelsPerLed: number, ledsPerUniverse: number): Uint8Array[] {
+  const size = channelsPerLed * ledsPerUniverse;
+  const universes: Uint8Array[] = [];
+  for (let start = 0; start < data.length; start += size) {
+    universes.push(data.subarray(start, start + size));
+  }
+  return universes;
+}
+
+/**
+ * Encode a frame as WLED UDP realtime packets
+ * RGB frames use DNRGB packets with a start index, so strips of any length
+ * fit; RGBW frames use a single DRGBW packet.
+ *
+ * @param data - Frame channel values
+ * @param channelsPerLed - 3 for RGB, 4 for RGBW
+ * @param timeoutSeconds - Seconds WLED waits for the next frame before going back to its own effects
+ * @returns Packets to send
+ */
+export function encodeWledPackets(data: Uint8Array, channelsPerLed: number, timeoutSeconds: number): Buffer[] {
+  if (channelsPerLed === 4) {
+    if (data.length > WLED_MAX_RGBW_LEDS * 4) {
+      throw new Error(`WLED RGBW frames are limited to ${WLED_MAX_RGBW_LEDS} LEDs`);
+    }
+    return [Buffer.concat([Buffer.from([WLED_PROTOCOL_DRGBW, timeoutSeconds]), data])];
+  }
+
+  const packets: Buffer[] = [];
+  const size = WLED_MAX_RGB_LEDS * 3;
+  for (let start = 0; start < data.length; start += size) {
+    const led = start / 3;
+    const header = Buffer.from([WLED_PROTOCOL_DNRGB, timeoutSeconds, (led >> 8) & 0xff, led & 0xff]);
+    packets.push(Buffer.concat([header, data.subarray(start, start + size)]));
+  }
+  return packets;
+}
+
+/**
+ * Encode a frame for an APA102/SK9822 strip
+ * Each LED gets a 5-bit brightness next to its 8-bit colors. The frame
+ * brightness goes into those bits as far as it can, so dim frames keep their
+ * color depth, and the colors make up the rest.
+ *
+ * @param data - Channel values in wire order, three per LED
+ * @param brightness - Frame brightness (0-1)
+ * @returns Start frame, one 4-byte frame per LED, and end frame
+ */
+export function encodeApa102Frame(data: Uint8Array, brightness: number): Buffer {
+  const ledCount = data.length / 3;
+  const level = Math.max(0, Math.min(1, brightness));
+  const global = Math.ceil(level * 31);
+  const scale = global > 0 ? (level * 31) / global : 0;
+
+  // The end frame clocks the data through the strip: half a clock per LED,
+  // after the 32 zero bits SK9822 strips need to latch
+  const endLength = 4 + Math.ceil(ledCount / 16);
+  const frame = Buffer.alloc(4 + ledCount * 4 + endLength);
+
+  for (let i = 0; i < ledCount; i++) {
+    const offset = 4 + i * 4;
+    frame[offset] = 0xe0 | global;
+    frame[offset + 1] = Math.round(data[i * 3] * scale);
+    frame[offset + 2] = Math.round(data[i * 3 + 1] * scale);
+    frame[offset + 3] = Math.round(data[i * 3 + 2] * scale);
+  }
+  return frame;
+}
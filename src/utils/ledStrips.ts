@@ -0,0 +1,99 @@
+/**
+ * LED strips
+ * Several physical strips are chained into one logical LED index space: the
+ * first strip holds LEDs 0 to count-1, the next carries on from there. Airports,
+ * the legend and calibration all use logical indices; only the LED service
+ * needs to know which strip an LED lives on.
+ */
+
+import { LedStrip } from '../types';
+
+/**
+ * Where a logical LED lives
+ */
+export interface StripAddress {
+  strip: number;   // Index of the strip in the strip list
+  offset: number;  // LED position on that strip
+}
+
+/**
+ * Logical LED range of a strip
+ */
+export interface StripSegment {
+  strip: number;
+  first: number;  // First logical LED index
+  last: number;   // Last logical LED index
+}
+
+/**
+ * Total number of logical LEDs
+ */
+export function getTotalLedCount(strips: LedStrip[]): number {
+  return strips.reduce((total, strip) => total + strip.count, 0);
+}
+
+/**
+ * Logical LED range of each strip
+ *
+ * @param strips - Strips in chain order
+ * @returns One segment per strip
+ */
+export function getStripSegments(strips: LedStrip[]): StripSegment[] {
+  let first = 0;
+  return strips.map((strip, index) => {
+    const segment = { strip: index, first, last: first + strip.count - 1 };
+    first += strip.count;
+    return segment;
+  });
+}
+
+/**
+ * Find the strip and position of a logical LED
+ *
+ * @param strips - Strips in chain order
+ * @param index - Logical LED index
+ * @returns Strip address, or null when the index is past the last strip
+ */
+export function locateLed(strips: LedStrip[], index: number): StripAddress | null {
+  if (index < 0) {
+    return null;
+  }
+  for (const segment of getStripSegments(strips)) {
+    if (index <= segment.last) {
+      return { strip: segment.strip, offset: index - segment.first };
+    }
+  }
+  return null;
+}
+
+/**
+ * Create a lookup from logical LED index to strip address
+ * Addresses are computed once; the returned function is called for every pixel.
+ *
+ * @param strips - Strips in chain order
+ * @returns Function mapping a logical index to its address (null when out of range)
+ */
+export function createLedAddressMap(strips: LedStrip[]): (index: number) => StripAddress | null {
+  const addresses: StripAddress[] = [];
+  strips.forEach((strip, index) => {
+    for (let offset = 0; offset < strip.count; offset++) {
+      addresses.push({ strip: index, offset });
+    }
+  });
+  return index => addresses[index] || null;
+}
+
+/**
+ * One-line description of a strip and its logical LEDs
+ *
+ * @param strip - Strip settings
+ * @param segment - Strip's logical LED range
+ * @returns Description like "Strip 1: GPIO 13, 20 LEDs (GRB), logical 30-49"
+ */
+export function describeStrip(strip: LedStrip, segment: StripSegment): string {
+  const brightness = strip.brightness < 1 ? `, ${Math.round(strip.brightness * 100)}% brightness` : '';
+  return (
+    `Strip ${segment.strip}: GPIO ${strip.pin}, ${strip.count} LEDs (${strip.order})${brightness}, ` +
+    `logical ${segment.first}-${segment.last}`
+  );
+}
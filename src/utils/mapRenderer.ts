@@ -0,0 +1,330 @@
+/**
+ * Map renderer
+ * Draws the current frame as a map: each airport at its position, in the
+ * color its LED shows, with its code and a legend for the active display
+ * mode. Renders to SVG, or to a raster for PNG.
+ */
+
+import { Color, Config } from '../types';
+import { MetarState } from '../shared/metarState';
+import { encodePngAsync } from './png';
+import { GLYPH_HEIGHT, Raster, createRaster, drawText, fillCircle, fillRect, measureText } from './raster';
+
+/**
+ * Airport drawn on the map
+ */
+export interface MapPoint {
+  code: string;
+  lat: number;
+  lon: number;
+  color: Color;
+}
+
+/**
+ * Legend row: a color swatch and its label
+ */
+export interface MapLegendEntry {
+  label: string;
+  color: Color;
+}
+
+/**
+ * Everything one map image shows
+ */
+export interface MapSnapshot {
+  title: string;
+  subtitle: string;
+  points: MapPoint[];
+  legend: MapLegendEntry[];
+  unplaced: number;   // Airports without a position, left off the map
+}
+
+/**
+ * Line of text in the 5x7 font, positioned by its top-left corner
+ */
+interface MapText {
+  x: number;
+  y: number;
+  text: string;
+  scale: number;
+  color: Color;
+}
+
+/**
+ * Positions of everything on the image, shared by the SVG and PNG output
+ */
+interface MapLayout {
+  radius: number;
+  dots: { x: number; y: number; color: Color }[];
+  swatches: { x: number; y: number; size: number; color: Color }[];
+  panel: { x: number; y: number; width: number; height: number };
+  texts: MapText[];
+}
+
+const BACKGROUND: Color = { r: 18, g: 22, b: 30 };
+const PANEL: Color = { r: 30, g: 36, b: 46 };
+const TEXT: Color = { r: 220, g: 224, b: 230 };
+const MUTED: Color = { r: 140, g: 148, b: 160 };
+const OUTLINE: Color = { r: 90, g: 96, b: 108 };
+
+const MARGIN = 16;
+const HEADER_HEIGHT = 70;
+const LEGEND_ROW = 24;
+const LEGEND_PADDING = 12;
+const SWATCH = 14;
+const LABEL_SCALE = 2;
+
+/**
+ * Smallest span drawn, in degrees, so one airport or a row of airports
+ * still gets a sensible scale
+ */
+const MIN_SPAN_DEGREES = 0.5;
+
+/**
+ * Build the snapshot of a state file
+ *
+ * @param state - State written by the map
+ * @param config - Application configuration (title and category colors)
+ * @param colors - Colors by LED index when known (the live frame), else the state colors are used
+ * @returns Snapshot to render
+ */
+export function createMapSnapshot(state: MetarState, config: Config, colors?: Color[]): MapSnapshot {
+  const placed = state.airports.filter(airport => airport.lat !== undefined && airport.lon !== undefined);
+  const mode = state.displayMode;
+
+  const legend: MapLegendEntry[] = mode?.legend
+    ? mode.legend
+      .filter(stop => Number.isFinite(stop.value))
+      .map(stop => ({ label: `${stop.value} ${mode.unit}`.trim(), color: stop.color }))
+    : createCategoryLegend(config);
+
+  return {
+    title: config.mapTitle,
+    subtitle: `${mode?.label ?? 'Flight category'} - ${formatMapTime(state.timestamp)}`,
+    points: placed.map(airport => ({
+      code: airport.code,
+      lat: airport.lat as number,
+      lon: airport.lon as number,
+      color: colors?.[airport.led] ?? airport.color
+    })),
+    legend,
+    unplaced: state.airports.length - placed.length
+  };
+}
+
+/**
+ * Legend of the flight category colors
+ *
+ * @param config - Application configuration
+ * @returns One entry per category, plus airports without data
+ */
+export function createCategoryLegend(config: Config): MapLegendEntry[] {
+  return [
+    { label: 'VFR', color: config.colors.vfr },
+    { label: 'MVFR', color: config.colors.mvfr },
+    { label: 'IFR', color: config.colors.ifr },
+    { label: 'LIFR', color: config.colors.lifr },
+    { label: 'No data', color: config.colors.clear }
+  ];
+}
+
+/**
+ * Format an ISO timestamp for a map subtitle
+ *
+ * @param timestamp - ISO timestamp
+ * @returns Time like "2024-05-01 14:05Z" (the input when it can't be parsed)
+ */
+export function formatMapTime(timestamp: string): string {
+  const date = new Date(timestamp);
+  if (isNaN(date.getTime())) {
+    return timestamp;
+  }
+  return `${date.toISOString().slice(0, 10)} ${date.toISOString().slice(11, 16)}Z`;
+}
+
+/**
+ * Whether a color is too dark to see on the background (LED off)
+ */
+function isDark(color: Color): boolean {
+  return Math.max(color.r, color.g, color.b) < 24;
+}
+
+/**
+ * Lay out the title, airports and legend
+ * Airports use an equirectangular projection scaled by the cosine of the
+ * middle latitude, which keeps shapes right at the size of a regional map.
+ */
+function layoutMap(snapshot: MapSnapshot, width: number, height: number): MapLayout {
+  const radius = Math.max(4, Math.min(12, Math.round(Math.min(width, height) / 60)));
+  const texts: MapText[] = [
+    { x: MARGIN, y: MARGIN, text: snapshot.title, scale: 3, color: TEXT },
+    { x: MARGIN, y: MARGIN + 30, text: snapshot.subtitle, scale: LABEL_SCALE, color: MUTED }
+  ];
+
+  // Legend panel on the right
+  const notes = snapshot.unplaced > 0 ? [`${snapshot.unplaced} not placed`] : [];
+  const labelWidth = Math.max(
+    0,
+    ...snapshot.legend.map(entry => SWATCH + 8 + measureText(entry.label, LABEL_SCALE)),
+    ...notes.map(note => measureText(note, LABEL_SCALE))
+  );
+  const panel = {
+    x: width - MARGIN - labelWidth - LEGEND_PADDING * 2,
+    y: HEADER_HEIGHT,
+    width: labelWidth + LEGEND_PADDING * 2,
+    height: (snapshot.legend.length + notes.length) * LEGEND_ROW + LEGEND_PADDING * 2 - (LEGEND_ROW - SWATCH)
+  };
+  const swatches = snapshot.legend.map((entry, i) => {
+    const y = panel.y + LEGEND_PADDING + i * LEGEND_ROW;
+    texts.push({
+      x: panel.x + LEGEND_PADDING + SWATCH + 8,
+      y: y + (SWATCH - GLYPH_HEIGHT * LABEL_SCALE) / 2,
+      text: entry.label,
+      scale: LABEL_SCALE,
+      color: TEXT
+    });
+    return { x: panel.x + LEGEND_PADDING, y, size: SWATCH, color: entry.color };
+  });
+  notes.forEach((note, i) => {
+    const y = panel.y + LEGEND_PADDING + (snapshot.legend.length + i) * LEGEND_ROW;
+    texts.push({ x: panel.x + LEGEND_PADDING, y, text: note, scale: LABEL_SCALE, color: MUTED });
+  });
+
+  // Map area left of the legend, with room for the dots and their labels
+  const codeWidth = Math.max(0, ...snapshot.points.map(point => measureText(point.code, LABEL_SCALE)));
+  const area = {
+    left: MARGIN + radius + 2,
+    top: HEADER_HEIGHT + radius + 2,
+    right: panel.x - MARGIN - radius - 6 - codeWidth,
+    bottom: height - MARGIN - radius - 2
+  };
+
+  const lats = snapshot.points.map(point => point.lat);
+  const midLat = (Math.min(...lats) + Math.max(...lats)) / 2;
+  const xScale = Math.cos(midLat * Math.PI / 180);
+  const xs = snapshot.points.map(point => point.lon * xScale);
+  const ys = lats;
+
+  const minX = Math.min(...xs);
+  const maxY = Math.max(...ys);
+  const spanX = Math.max(Math.max(...xs) - minX, MIN_SPAN_DEGREES);
+  const spanY = Math.max(maxY - Math.min(...ys), MIN_SPAN_DEGREES);
+  const areaWidth = Math.max(1, area.right - area.left);
+  const areaHeight = Math.max(1, area.bottom - area.top);
+  const scale = Math.min(areaWidth / spanX, areaHeight / spanY);
+
+  // Center the airports in the area
+  const offsetX = area.left + (areaWidth - (Math.max(...xs) - minX) * scale) / 2;
+  const offsetY = area.top + (areaHeight - (maxY - Math.min(...ys)) * scale) / 2;
+
+  const dots = snapshot.points.map((point, i) => {
+    const x = offsetX + (xs[i] - minX) * scale;
+    const y = offsetY + (maxY - ys[i]) * scale;
+    texts.push({
+      x: x + radius + 4,
+      y: y - (GLYPH_HEIGHT * LABEL_SCALE) / 2,
+      text: point.code,
+      scale: LABEL_SCALE,
+      color: TEXT
+    });
+    return { x, y, color: point.color };
+  });
+
+  return { radius, dots, swatches, panel, texts };
+}
+
+/**
+ * Hex notation of a color
+ */
+function toHex(color: Color): string {
+  return '#' + [color.r, color.g, color.b].map(value => value.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Escape text for SVG
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Render a snapshot as SVG
+ *
+ * @param snapshot - Snapshot to draw
+ * @param width - Image width (pixels)
+ * @param height - Image height (pixels)
+ * @returns SVG document
+ */
+export function renderMapSvg(snapshot: MapSnapshot, width: number, height: number): string {
+  const layout = layoutMap(snapshot, width, height);
+  const { panel, radius } = layout;
+
+  // Off LEDs are drawn as outlines, lit ones with a thin edge
+  const dot = (x: number, y: number, color: Color, r: number): string =>
+    `<circle cx="${x.toFixed(1)}" cy="${y.toFixed(1)}" r="${r}" fill="${isDark(color) ? 'none' : toHex(color)}" ` +
+    `stroke="${toHex(OUTLINE)}" stroke-width="1.5"/>`;
+  const text = (t: MapText): string =>
+    `<text x="${t.x.toFixed(1)}" y="${(t.y + GLYPH_HEIGHT * t.scale).toFixed(1)}" ` +
+    `font-size="${Math.round(GLYPH_HEIGHT * t.scale * 1.4)}" fill="${toHex(t.color)}">${escapeXml(t.text)}</text>`;
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" ` +
+    `viewBox="0 0 ${width} ${height}" font-family="monospace">`,
+    `<rect width="${width}" height="${height}" fill="${toHex(BACKGROUND)}"/>`,
+    '<g class="airports">',
+    ...layout.dots.map(d => dot(d.x, d.y, d.color, radius)),
+    '</g>',
+    `<rect class="legend" x="${panel.x}" y="${panel.y}" width="${panel.width}" height="${panel.height}" ` +
+    `rx="6" fill="${toHex(PANEL)}"/>`,
+    ...layout.swatches.map(s => dot(s.x + s.size / 2, s.y + s.size / 2, s.color, s.size / 2)),
+    ...layout.texts.map(text),
+    '</svg>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Render a snapshot to a raster
+ *
+ * @param snapshot - Snapshot to draw
+ * @param width - Image width (pixels)
+ * @param height - Image height (pixels)
+ * @returns Raster image
+ */
+export function renderMapRaster(snapshot: MapSnapshot, width: number, height: number): Raster {
+  const layout = layoutMap(snapshot, width, height);
+  const raster = createRaster(width, height, BACKGROUND);
+
+  const dot = (x: number, y: number, color: Color, r: number): void => {
+    fillCircle(raster, x, y, r + 1.5, OUTLINE);
+    fillCircle(raster, x, y, r, isDark(color) ? BACKGROUND : color);
+  };
+
+  layout.dots.forEach(d => dot(d.x, d.y, d.color, layout.radius));
+  fillRect(raster, layout.panel.x, layout.panel.y, layout.panel.width, layout.panel.height, PANEL);
+  layout.swatches.forEach(s => {
+    fillCircle(raster, s.x + s.size / 2, s.y + s.size / 2, s.size / 2 + 1.5, OUTLINE);
+    fillCircle(raster, s.x + s.size / 2, s.y + s.size / 2, s.size / 2, isDark(s.color) ? PANEL : s.color);
+  });
+  layout.texts.forEach(t => drawText(raster, t.x, t.y, t.text, t.color, t.scale));
+
+  return raster;
+}
+
+/**
+ * Render a snapshot as PNG
+ * Compression runs on the thread pool, so the event loop keeps running.
+ *
+ * @param snapshot - Snapshot to draw
+ * @param width - Image width (pixels)
+ * @param height - Image height (pixels)
+ * @returns PNG file contents
+ */
+export async function renderMapPng(snapshot: MapSnapshot, width: number, height: number): Promise<Buffer> {
+  const raster = renderMapRaster(snapshot, width, height);
+  return encodePngAsync(raster.width, raster.height, raster.data);
+}
@@ -0,0 +1,484 @@
+/**
+ * Raw METAR text decoder
+ * Tokenizes the rawOb string so missing JSON fields can be filled in
+ * before the flight category is calculated
+ */
+
+import {
+  CloudLayer,
+  DecodedConditions,
+  DecodedMetar,
+  DecodedRemarks,
+  DecodedWind,
+  MetarData,
+  RunwayVisualRange
+} from '../types';
+
+const HPA_PER_INHG = 33.8639;
+const METERS_PER_SM = 1609.344;
+
+const STATION_REGEX = /^[A-Z][A-Z0-9]{3}$/;
+const TIME_REGEX = /^(\d{2})(\d{2})(\d{2})Z$/;
+const WIND_REGEX = /^(\d{3}|VRB)(\d{2,3})(?:G(\d{2,3}))?(KT|MPS|KMH)$/;
+const WIND_VARIABLE_REGEX = /^(\d{3})V(\d{3})$/;
+const VISIBILITY_SM_REGEX = /^([MP])?(?:(\d+)|(\d+)\/(\d+))SM$/;
+const VISIBILITY_WHOLE_REGEX = /^\d$/;
+const VISIBILITY_FRACTION_REGEX = /^(\d)\/(\d{1,2})SM$/;
+const VISIBILITY_METRIC_REGEX = /^(\d{4})(NDV)?$/;
+const RVR_REGEX = /^R(\d{2}[LRC]?)\/([MP])?(\d{4})(?:V([MP])?(\d{4}))?(?:FT)?\/?([UDN])?$/;
+const WEATHER_REGEX =
+  /^(-|\+|VC)?(MI|PR|BC|DR|BL|SH|TS|FZ)?((?:DZ|RA|SN|SG|IC|PL|GR|GS|UP|BR|FG|FU|VA|DU|SA|HZ|PY|PO|SQ|FC|SS|DS)*)$/;
+const CLOUD_REGEX = /^(FEW|SCT|BKN|OVC)(\d{3}|\/\/\/)(CB|TCU|\/\/\/)?$/;
+const VERTICAL_VISIBILITY_REGEX = /^VV(\d{3}|\/\/\/)$/;
+const SKY_CLEAR_REGEX = /^(SKC|CLR|NSC|NCD)$/;
+const TEMPERATURE_REGEX = /^(M)?(\d{2})\/(?:(M)?(\d{2}))?$/;
+const ALTIMETER_INHG_REGEX = /^A(\d{4})$/;
+const ALTIMETER_HPA_REGEX = /^Q(\d{4})$/;
+
+// Tokens that end the body of the report (trend forecasts are not decoded)
+const BODY_END_TOKENS = new Set(['RMK', 'NOSIG', 'BECMG', 'TEMPO']);
+
+// Cloud coverage from least to most
+const COVER_RANK = ['FEW', 'SCT', 'BKN', 'OVC', 'OVX'];
+
+const LIGHTNING_FREQUENCY_REGEX = /^(FRQ|OCNL|CONS)$/;
+const LIGHTNING_REGEX = /^LTG[A-Z]*$/;
+const LIGHTNING_QUALIFIER_REGEX = /^(DSNT|VC|OHD|AP|ALQDS|AND|MOV|[NSEW]{1,3}(?:-[NSEW]{1,3})*)$/;
+
+/**
+ * Convert a wind speed to knots
+ */
+function toKnots(value: number, unit: string): number {
+  if (unit === 'MPS') {
+    return Math.round(value * 1.94384);
+  }
+  if (unit === 'KMH') {
+    return Math.round(value * 0.539957);
+  }
+  return value;
+}
+
+/**
+ * Parse a temperature group value such as "M05" or "12"
+ */
+function parseSignedTemp(minus: string | undefined, digits: string): number {
+  const value = parseInt(digits, 10);
+  return minus ? -value : value;
+}
+
+/**
+ * Round to one decimal place
+ */
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Check whether a token is a present weather group
+ * Requires at least a descriptor or a phenomenon (a bare "-" or "VC" is not weather)
+ */
+export function isWeatherToken(token: string): boolean {
+  const match = WEATHER_REGEX.exec(token);
+  if (!match) {
+    return false;
+  }
+  return Boolean(match[2] || match[3]);
+}
+
+/**
+ * Parse a visibility group in statute miles
+ * Handles "10SM", "1/2SM", "M1/4SM" and "P6SM"
+ *
+ * @returns Visibility and optional modifier, or null if not a visibility group
+ */
+export function parseStatuteVisibility(
+  token: string
+): { visibility: number; modifier?: 'M' | 'P' } | null {
+  const match = VISIBILITY_SM_REGEX.exec(token);
+  if (!match) {
+    return null;
+  }
+
+  const modifier = match[1] as 'M' | 'P' | undefined;
+  let visibility: number;
+
+  if (match[2] !== undefined) {
+    visibility = parseInt(match[2], 10);
+  } else {
+    const denominator = parseInt(match[4], 10);
+    if (denominator === 0) {
+      return null;
+    }
+    visibility = parseInt(match[3], 10) / denominator;
+  }
+
+  return { visibility, modifier };
+}
+
+/**
+ * Decode the RMK section of a METAR
+ *
+ * @param tokens - Tokens following the RMK keyword
+ * @returns Decoded remarks
+ */
+export function decodeRemarks(tokens: string[]): DecodedRemarks {
+  const remarks: DecodedRemarks = {
+    lightning: [],
+    thunderstorm: [],
+    thunderstormInfoUnavailable: false,
+    pressureRisingRapidly: false,
+    pressureFallingRapidly: false,
+    maintenanceNeeded: false
+  };
+
+  let i = 0;
+  while (i < tokens.length) {
+    const token = tokens[i];
+    let match: RegExpExecArray | null;
+
+    if (token === 'AO1' || token === 'AO1A') {
+      remarks.stationType = 'AO1';
+    } else if (token === 'AO2' || token === 'AO2A') {
+      remarks.stationType = 'AO2';
+    } else if ((match = /^SLP(\d{3})$/.exec(token))) {
+      const value = parseInt(match[1], 10) / 10;
+      remarks.seaLevelPressure = round1(value < 50 ? 1000 + value : 900 + value);
+    } else if ((match = /^T([01])(\d{3})(?:([01])(\d{3}))?$/.exec(token))) {
+      const temp = parseInt(match[2], 10) / 10;
+      remarks.preciseTemp = match[1] === '1' ? -temp : temp;
+      if (match[3] !== undefined) {
+        const dewp = parseInt(match[4], 10) / 10;
+        remarks.preciseDewpoint = match[3] === '1' ? -dewp : dewp;
+      }
+    } else if (token === 'PK' && tokens[i + 1] === 'WND' && tokens[i + 2]) {
+      const peak = /^(\d{3})(\d{2,3})\/(\d{2,4})$/.exec(tokens[i + 2]);
+      if (peak) {
+        remarks.peakWind = {
+          direction: parseInt(peak[1], 10),
+          speed: parseInt(peak[2], 10),
+          time: peak[3]
+        };
+        i += 2;
+      }
+    } else if (token === 'WSHFT' && tokens[i + 1] && /^\d{2,4}$/.test(tokens[i + 1])) {
+      remarks.windShiftTime = tokens[i + 1];
+      i++;
+    } else if (
+      LIGHTNING_REGEX.test(token) ||
+      (LIGHTNING_FREQUENCY_REGEX.test(token) && tokens[i + 1] && LIGHTNING_REGEX.test(tokens[i + 1]))
+    ) {
+      // Collect the whole phrase, e.g. "OCNL LTGICCG DSNT NE-S"
+      const phrase = [token];
+      let j = i + 1;
+      if (!LIGHTNING_REGEX.test(token)) {
+        phrase.push(tokens[j]);
+        j++;
+      }
+      while (j < tokens.length && LIGHTNING_QUALIFIER_REGEX.test(tokens[j])) {
+        phrase.push(tokens[j]);
+        j++;
+      }
+      remarks.lightning.push(phrase.join(' '));
+      i = j - 1;
+    } else if (token === 'TS' && tokens[i + 1] && LIGHTNING_QUALIFIER_REGEX.test(tokens[i + 1])) {
+      // Thunderstorm location, e.g. "TS OHD MOV E" or "TS DSNT W"
+      const phrase = [token];
+      let j = i + 1;
+      while (j < tokens.length && LIGHTNING_QUALIFIER_REGEX.test(tokens[j])) {
+        phrase.push(tokens[j]);
+        j++;
+      }
+      remarks.thunderstorm.push(phrase.join(' '));
+      i = j - 1;
+    } else if (token === 'TSNO') {
+      remarks.thunderstormInfoUnavailable = true;
+    } else if ((match = /^5([0-8])(\d{3})$/.exec(token))) {
+      const code = parseInt(match[1], 10);
+      const magnitude = parseInt(match[2], 10) / 10;
+      // Codes 0-3 are rising, 4 is steady, 5-8 are falling
+      const change = code >= 5 ? -magnitude : code === 4 ? 0 : magnitude;
+      remarks.pressureTendency = { code, change };
+    } else if (token === 'PRESRR') {
+      remarks.pressureRisingRapidly = true;
+    } else if (token === 'PRESFR') {
+      remarks.pressureFallingRapidly = true;
+    } else if (token === '$') {
+      remarks.maintenanceNeeded = true;
+    }
+
+    i++;
+  }
+
+  return remarks;
+}
+
+/**
+ * Decode the weather groups shared by METAR bodies and TAF change groups
+ *
+ * Handles wind (including variable direction), visibility with fractions
+ * ("1 1/2SM", "M1/4SM") or meters, RVR, present weather, cloud layers,
+ * vertical visibility, temperature/dewpoint and altimeter.
+ *
+ * @param tokens - Weather group tokens (no station, time or remarks)
+ * @returns Decoded conditions
+ */
+export function decodeConditions(tokens: string[]): DecodedConditions {
+  const decoded: DecodedConditions = {
+    cavok: false,
+    rvr: [],
+    weather: [],
+    noSignificantWeather: false,
+    clouds: [],
+    skyClear: false,
+    unparsed: []
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    let match: RegExpExecArray | null;
+
+    if (!decoded.wind && (match = WIND_REGEX.exec(token))) {
+      const wind: DecodedWind = {
+        direction: match[1] === 'VRB' ? 'VRB' : parseInt(match[1], 10),
+        speed: toKnots(parseInt(match[2], 10), match[4])
+      };
+      if (match[3] !== undefined) {
+        wind.gust = toKnots(parseInt(match[3], 10), match[4]);
+      }
+      decoded.wind = wind;
+    } else if (decoded.wind && (match = WIND_VARIABLE_REGEX.exec(token))) {
+      decoded.wind.variableFrom = parseInt(match[1], 10);
+      decoded.wind.variableTo = parseInt(match[2], 10);
+    } else if (token === 'CAVOK') {
+      decoded.cavok = true;
+      decoded.skyClear = true;
+      decoded.visibility = 6;
+      decoded.visibilityModifier = 'P';
+    } else if (
+      decoded.visibility === undefined &&
+      VISIBILITY_WHOLE_REGEX.test(token) &&
+      tokens[i + 1] &&
+      (match = VISIBILITY_FRACTION_REGEX.exec(tokens[i + 1]))
+    ) {
+      // Two-token visibility such as "1 1/2SM"
+      decoded.visibility = parseInt(token, 10) + parseInt(match[1], 10) / parseInt(match[2], 10);
+      i++;
+    } else if (decoded.visibility === undefined && VISIBILITY_SM_REGEX.test(token)) {
+      const parsed = parseStatuteVisibility(token);
+      if (parsed) {
+        decoded.visibility = parsed.visibility;
+        decoded.visibilityModifier = parsed.modifier;
+      }
+    } else if (decoded.visibility === undefined && (match = VISIBILITY_METRIC_REGEX.exec(token))) {
+      const meters = parseInt(match[1], 10);
+      if (meters >= 9999) {
+        // 9999 means 10 km or more
+        decoded.visibility = round1(10000 / METERS_PER_SM);
+        decoded.visibilityModifier = 'P';
+      } else {
+        decoded.visibility = round1(meters / METERS_PER_SM);
+      }
+    } else if ((match = RVR_REGEX.exec(token))) {
+      const rvr: RunwayVisualRange = {
+        runway: match[1],
+        visibility: parseInt(match[3], 10)
+      };
+      if (match[2]) {
+        rvr.modifier = match[2] as 'M' | 'P';
+      }
+      if (match[5] !== undefined) {
+        rvr.variableMax = parseInt(match[5], 10);
+      }
+      if (match[6]) {
+        rvr.trend = match[6] as 'U' | 'D' | 'N';
+      }
+      decoded.rvr.push(rvr);
+    } else if ((match = CLOUD_REGEX.exec(token))) {
+      const layer: CloudLayer = { cover: match[1] };
+      if (match[2] !== '///') {
+        layer.base = parseInt(match[2], 10) * 100;
+      }
+      decoded.clouds.push(layer);
+    } else if ((match = VERTICAL_VISIBILITY_REGEX.exec(token))) {
+      // Indefinite ceiling - treated as sky obscured with base at vertical visibility
+      const layer: CloudLayer = { cover: 'OVX' };
+      if (match[1] !== '///') {
+        layer.base = parseInt(match[1], 10) * 100;
+      }
+      decoded.clouds.push(layer);
+    } else if (SKY_CLEAR_REGEX.test(token)) {
+      decoded.skyClear = true;
+    } else if (token === 'NSW') {
+      decoded.noSignificantWeather = true;
+    } else if ((match = TEMPERATURE_REGEX.exec(token))) {
+      decoded.temp = parseSignedTemp(match[1], match[2]);
+      if (match[4] !== undefined) {
+        decoded.dewp = parseSignedTemp(match[3], match[4]);
+      }
+    } else if ((match = ALTIMETER_INHG_REGEX.exec(token))) {
+      decoded.altim = round1((parseInt(match[1], 10) / 100) * HPA_PER_INHG);
+    } else if ((match = ALTIMETER_HPA_REGEX.exec(token))) {
+      decoded.altim = parseInt(match[1], 10);
+    } else if (isWeatherToken(token)) {
+      decoded.weather.push(token);
+    } else {
+      decoded.unparsed.push(token);
+    }
+  }
+
+  return decoded;
+}
+
+/**
+ * Decode a raw METAR/SPECI string into structured fields
+ * Decodes the header, the weather groups and the main remarks
+ *
+ * @param rawOb - Raw METAR observation string
+ * @returns Decoded METAR, or null if the string has no station identifier
+ */
+export function decodeMetar(rawOb: string | undefined): DecodedMetar | null {
+  if (!rawOb) {
+    return null;
+  }
+
+  const tokens = tokenize(rawOb);
+  let i = 0;
+
+  let reportType: 'METAR' | 'SPECI' = 'METAR';
+  if (tokens[i] === 'METAR' || tokens[i] === 'SPECI') {
+    reportType = tokens[i] as 'METAR' | 'SPECI';
+    i++;
+  }
+
+  if (!tokens[i] || !STATION_REGEX.test(tokens[i])) {
+    return null;
+  }
+
+  const station = tokens[i];
+  i++;
+
+  let observationTime: DecodedMetar['observationTime'];
+  let auto = false;
+  let corrected = false;
+
+  // Header groups that precede the weather groups
+  for (; i < tokens.length; i++) {
+    const token = tokens[i];
+    const match = TIME_REGEX.exec(token);
+
+    if (match && !observationTime) {
+      observationTime = {
+        day: parseInt(match[1], 10),
+        hour: parseInt(match[2], 10),
+        minute: parseInt(match[3], 10)
+      };
+    } else if (token === 'AUTO') {
+      auto = true;
+    } else if (token === 'COR' || token === 'CC' || token === 'CCA') {
+      corrected = true;
+    } else {
+      break;
+    }
+  }
+
+  let bodyEnd = i;
+  while (bodyEnd < tokens.length && !BODY_END_TOKENS.has(tokens[bodyEnd])) {
+    bodyEnd++;
+  }
+
+  const rmkIndex = tokens.indexOf('RMK');
+
+  return {
+    station,
+    reportType,
+    observationTime,
+    auto,
+    corrected,
+    ...decodeConditions(tokens.slice(i, bodyEnd)),
+    remarks: decodeRemarks(rmkIndex === -1 ? [] : tokens.slice(rmkIndex + 1))
+  };
+}
+
+/**
+ * Split a raw report into whitespace-separated tokens
+ * Strips the trailing "=" end-of-message marker used by some feeds
+ *
+ * @param raw - Raw METAR or TAF text
+ * @returns Array of tokens
+ */
+export function tokenize(raw: string): string[] {
+  return raw.trim().replace(/=$/, '').split(/\s+/).filter(t => t.length > 0);
+}
+
+/**
+ * Check whether a MetarData field is missing
+ */
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+/**
+ * Fill missing MetarData fields from a decoded raw observation
+ * Fields already provided by the JSON API are never overwritten
+ *
+ * @param metar - METAR data from the API
+ * @param decoded - Decoded raw observation
+ * @returns New METAR data object and the names of the fields that were filled
+ */
+export function applyDecodedMetar(
+  metar: MetarData,
+  decoded: DecodedMetar
+): { metar: MetarData; filledFields: string[] } {
+  const filled: MetarData = { ...metar };
+  const filledFields: string[] = [];
+
+  const fill = <K extends keyof MetarData>(key: K, value: MetarData[K] | undefined): void => {
+    if (value !== undefined && isMissing(filled[key])) {
+      filled[key] = value;
+      filledFields.push(key);
+    }
+  };
+
+  if (decoded.wind) {
+    if (decoded.wind.direction !== 'VRB') {
+      fill('wdir', decoded.wind.direction);
+    }
+    fill('wspd', decoded.wind.speed);
+    fill('wgst', decoded.wind.gust);
+  }
+
+  if (decoded.visibility !== undefined) {
+    // Match the API convention of "10+" for greater-than values
+    fill(
+      'visib',
+      decoded.visibilityModifier === 'P' ? `${decoded.visibility}+` : decoded.visibility
+    );
+  }
+
+  if (decoded.weather.length > 0) {
+    fill('wxString', decoded.weather.join(' '));
+  }
+
+  if (decoded.clouds.length > 0 && (!filled.clouds || filled.clouds.length === 0)) {
+    filled.clouds = decoded.clouds;
+    filledFields.push('clouds');
+  }
+
+  if (decoded.clouds.length > 0) {
+    // Report the greatest coverage, like the API's summary field
+    const greatest = decoded.clouds.reduce((worst, layer) =>
+      COVER_RANK.indexOf(layer.cover) > COVER_RANK.indexOf(worst.cover) ? layer : worst
+    );
+    fill('cover', greatest.cover);
+  } else if (decoded.skyClear) {
+    fill('cover', 'CLR');
+  }
+
+  fill('temp', decoded.remarks.preciseTemp ?? decoded.temp);
+  fill('dewp', decoded.remarks.preciseDewpoint ?? decoded.dewp);
+  fill('altim', decoded.altim);
+  fill('slp', decoded.remarks.seaLevelPressure);
+  fill('metarType', decoded.reportType);
+
+  return { metar: filled, filledFields };
+}
@@ -0,0 +1,293 @@
+/**
+ * Parsers for alternative METAR feed formats
+ * Converts the aviationweather.gov bulk CSV/XML cache files and plain
+ * raw METAR text into the MetarData shape used by the JSON API
+ */
+
+import * as zlib from 'zlib';
+import { CloudLayer, MetarData } from '../types';
+import { decodeMetar, tokenize } from './metarDecoder';
+import { resolveDayTime } from './tafParser';
+
+const HPA_PER_INHG = 33.8639;
+const FLIGHT_CATEGORIES = ['VFR', 'MVFR', 'IFR', 'LIFR'];
+
+/**
+ * Decode a feed download, gunzipping it if it is gzip-compressed
+ *
+ * @param data - Raw bytes from the feed
+ * @returns Feed text
+ */
+export function decodeFeedBuffer(data: Buffer): string {
+  // gzip magic number
+  if (data.length >= 2 && data[0] === 0x1f && data[1] === 0x8b) {
+    return zlib.gunzipSync(data).toString('utf-8');
+  }
+  return data.toString('utf-8');
+}
+
+/**
+ * Parse an optional numeric field (empty or invalid values become undefined)
+ */
+function optionalNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') {
+    return undefined;
+  }
+  const num = parseFloat(value);
+  return isNaN(num) ? undefined : num;
+}
+
+/**
+ * Build MetarData from named feed fields shared by the CSV and XML formats
+ */
+function metarFromFeedFields(
+  field: (name: string) => string | undefined,
+  clouds: CloudLayer[]
+): MetarData | null {
+  const icaoId = field('station_id');
+  const rawOb = field('raw_text');
+
+  if (!icaoId || !rawOb) {
+    return null;
+  }
+
+  const observationTime = field('observation_time') || '';
+  const obsMs = Date.parse(observationTime);
+  const altimInHg = optionalNumber(field('altim_in_hg'));
+  const vertVis = optionalNumber(field('vert_vis_ft'));
+  const fltCat = field('flight_category');
+  const metarType = field('metar_type');
+  const visib = field('visibility_statute_mi');
+
+  if (vertVis !== undefined) {
+    clouds.push({ cover: 'OVX', base: vertVis });
+  }
+
+  return {
+    icaoId,
+    rawOb,
+    receiptTime: observationTime,
+    reportTime: observationTime,
+    obsTime: isNaN(obsMs) ? 0 : Math.floor(obsMs / 1000),
+    temp: optionalNumber(field('temp_c')),
+    dewp: optionalNumber(field('dewpoint_c')),
+    wdir: optionalNumber(field('wind_dir_degrees')),
+    wspd: optionalNumber(field('wind_speed_kt')),
+    wgst: optionalNumber(field('wind_gust_kt')),
+    // Keep "10+" style strings as the JSON API does
+    visib: visib && visib.includes('+') ? visib : optionalNumber(visib),
+    altim: altimInHg !== undefined ? Math.round(altimInHg * HPA_PER_INHG * 10) / 10 : undefined,
+    slp: optionalNumber(field('sea_level_pressure_mb')),
+    wxString: field('wx_string') || undefined,
+    lat: optionalNumber(field('latitude')) ?? NaN,
+    lon: optionalNumber(field('longitude')) ?? NaN,
+    elev: optionalNumber(field('elevation_m')) ?? NaN,
+    name: icaoId,
+    clouds,
+    fltCat: fltCat && FLIGHT_CATEGORIES.includes(fltCat)
+      ? fltCat as MetarData['fltCat']
+      : undefined,
+    metarType: metarType === 'SPECI' ? 'SPECI' : 'METAR'
+  };
+}
+
+/**
+ * Parse the aviationweather.gov metars.cache.csv format
+ * The file starts with a few status lines before the "raw_text,..." header.
+ * Sky cover columns repeat (sky_cover, cloud_base_ft_agl) up to four times.
+ *
+ * @param csv - CSV text
+ * @param airports - Optional set of ICAO codes to keep (all when omitted)
+ * @returns Array of METAR data objects
+ */
+export function parseMetarCsv(csv: string, airports?: Set<string>): MetarData[] {
+  const lines = csv.split(/\r?\n/);
+  const headerIndex = lines.findIndex(line => line.startsWith('raw_text,'));
+
+  if (headerIndex === -1) {
+    throw new Error('CSV feed has no raw_text header');
+  }
+
+  const header = lines[headerIndex].split(',').map(h => h.trim());
+  const results: MetarData[] = [];
+
+  for (const line of lines.slice(headerIndex + 1)) {
+    if (!line.trim()) {
+      continue;
+    }
+
+    const values = line.split(',');
+    const stationIndex = header.indexOf('station_id');
+    if (airports && !airports.has(values[stationIndex])) {
+      continue;
+    }
+
+    const clouds: CloudLayer[] = [];
+    header.forEach((name, index) => {
+      if (name === 'sky_cover' && values[index]) {
+        const layer: CloudLayer = { cover: values[index] };
+        const base = optionalNumber(values[index + 1]);
+        if (base !== undefined) {
+          layer.base = base;
+        }
+        clouds.push(layer);
+      }
+    });
+
+    const metar = metarFromFeedFields(name => {
+      const index = header.indexOf(name);
+      return index === -1 ? undefined : values[index];
+    }, clouds);
+
+    if (metar) {
+      results.push(metar);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Decode the XML entities used in the feed
+ */
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, '\'')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Parse the aviationweather.gov METAR XML format
+ * (metars.cache.xml or the API with format=xml)
+ *
+ * @param xml - XML text
+ * @param airports - Optional set of ICAO codes to keep (all when omitted)
+ * @returns Array of METAR data objects
+ */
+export function parseMetarXml(xml: string, airports?: Set<string>): MetarData[] {
+  const results: MetarData[] = [];
+  const metarBlocks = xml.match(/<METAR>[\s\S]*?<\/METAR>/g) || [];
+
+  for (const block of metarBlocks) {
+    const fields = new Map<string, string>();
+    const fieldRegex = /<([a-z_]+)>([^<]*)<\/\1>/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = fieldRegex.exec(block))) {
+      fields.set(match[1], decodeXmlEntities(match[2].trim()));
+    }
+
+    if (airports && !airports.has(fields.get('station_id') || '')) {
+      continue;
+    }
+
+    const clouds: CloudLayer[] = [];
+    const skyRegex = /<sky_condition\s+([^>]*?)\/?>/g;
+    while ((match = skyRegex.exec(block))) {
+      const cover = /sky_cover="([^"]*)"/.exec(match[1]);
+      const base = /cloud_base_ft_agl="([^"]*)"/.exec(match[1]);
+      if (cover) {
+        const layer: CloudLayer = { cover: cover[1] };
+        const baseValue = optionalNumber(base?.[1]);
+        if (baseValue !== undefined) {
+          layer.base = baseValue;
+        }
+        clouds.push(layer);
+      }
+    }
+
+    const metar = metarFromFeedFields(name => fields.get(name), clouds);
+    if (metar) {
+      results.push(metar);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Build a minimal MetarData object from a raw METAR string
+ * Weather fields are filled in later from the raw text; location is unknown (NaN)
+ *
+ * @param rawOb - Raw METAR observation string
+ * @param now - Current time, used to resolve the day/time group
+ * @returns METAR data, or null if the text is not a METAR
+ */
+export function metarFromRawText(rawOb: string, now: Date = new Date()): MetarData | null {
+  const decoded = decodeMetar(rawOb);
+
+  if (!decoded || !decoded.observationTime) {
+    return null;
+  }
+
+  const { day, hour, minute } = decoded.observationTime;
+  const observed = resolveDayTime(day, hour, minute, now);
+  const iso = observed.toISOString();
+
+  return {
+    icaoId: decoded.station,
+    rawOb: tokenize(rawOb).join(' '),
+    receiptTime: iso,
+    reportTime: iso,
+    obsTime: Math.floor(observed.getTime() / 1000),
+    lat: NaN,
+    lon: NaN,
+    elev: NaN,
+    name: decoded.station,
+    metarType: decoded.reportType
+  };
+}
+
+/**
+ * Parse text containing one raw METAR per line
+ *
+ * @param text - Raw METAR lines
+ * @param airports - Optional set of ICAO codes to keep (all when omitted)
+ * @param now - Current time, used to resolve day/time groups
+ * @returns Array of METAR data objects
+ */
+export function parseRawMetarLines(
+  text: string,
+  airports?: Set<string>,
+  now: Date = new Date()
+): MetarData[] {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .map(line => metarFromRawText(line, now))
+    .filter((metar): metar is MetarData =>
+      metar !== null && (!airports || airports.has(metar.icaoId))
+    );
+}
+
+/**
+ * Parse METAR data in any supported format, detected from the content
+ * Supports a JSON array (API format), CSV cache, XML and raw METAR lines
+ *
+ * @param text - Feed contents
+ * @param airports - Optional set of ICAO codes to keep (all when omitted)
+ * @returns Array of METAR data objects
+ */
+export function parseMetarFeed(text: string, airports?: Set<string>): MetarData[] {
+  const trimmed = text.trimStart();
+
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    const parsed = JSON.parse(trimmed);
+    const list: MetarData[] = Array.isArray(parsed) ? parsed : [parsed];
+    return list.filter(m => !airports || airports.has(m.icaoId));
+  }
+
+  if (trimmed.startsWith('<')) {
+    return parseMetarXml(trimmed, airports);
+  }
+
+  if (/^raw_text,/m.test(trimmed)) {
+    return parseMetarCsv(trimmed, airports);
+  }
+
+  return parseRawMetarLines(trimmed, airports);
+}
@@ -0,0 +1,207 @@
+/**
+ * Pilot report (PIREP) decoder
+ * Decodes the flight level, turbulence (/TB) and icing (/IC) groups of a
+ * PIREP, using the structured API fields when the raw text lacks them
+ */
+
+import { Pirep, PirepApiData, PirepHazard, PirepIntensity } from '../types';
+
+/**
+ * Intensities in increasing order of severity
+ */
+export const PIREP_INTENSITIES: PirepIntensity[] = ['none', 'trace', 'light', 'moderate', 'severe', 'extreme'];
+
+const INTENSITY_CODES: Record<string, PirepIntensity> = {
+  NEG: 'none',
+  NIL: 'none',
+  NONE: 'none',
+  SMTH: 'none',
+  SMOOTH: 'none',
+  TRC: 'trace',
+  TRACE: 'trace',
+  LGT: 'light',
+  LIGHT: 'light',
+  MOD: 'moderate',
+  MDT: 'moderate',
+  SEV: 'severe',
+  HVY: 'severe',
+  EXTM: 'extreme',
+  EXTRM: 'extreme'
+};
+
+// Turbulence and icing types that may follow the intensity
+const HAZARD_TYPES = ['CAT', 'CHOP', 'LLWS', 'MWAVE', 'RIME', 'CLR', 'MX', 'MXD'];
+
+/**
+ * Compare two intensities
+ *
+ * @returns Positive if a is more severe than b, negative if less, 0 if equal
+ */
+export function compareIntensity(a: PirepIntensity, b: PirepIntensity): number {
+  return PIREP_INTENSITIES.indexOf(a) - PIREP_INTENSITIES.indexOf(b);
+}
+
+/**
+ * Parse an intensity, taking the higher end of a range
+ *
+ * @param text - Intensity text, e.g. "MOD", "LGT-MOD", "SMTH-LGT"
+ * @returns Intensity, or null if none is recognized
+ */
+export function parseIntensity(text: string | undefined): PirepIntensity | null {
+  if (!text) {
+    return null;
+  }
+
+  let result: PirepIntensity | null = null;
+  for (const word of text.toUpperCase().split(/[-\s]+/)) {
+    const intensity = INTENSITY_CODES[word];
+    if (intensity && (result === null || compareIntensity(intensity, result) > 0)) {
+      result = intensity;
+    }
+  }
+  return result;
+}
+
+/**
+ * Decode a /TB or /IC group
+ * Altitudes are in hundreds of feet: "060-080", "080", "BLO 050", "ABV 100".
+ *
+ * @param text - Group contents, e.g. "MOD CHOP 060-080" or "LGT-MOD RIME 090"
+ * @returns Decoded hazard, or null if no intensity is given
+ */
+export function decodeHazardGroup(text: string): PirepHazard | null {
+  const upper = text.toUpperCase();
+  const intensity = parseIntensity(upper.replace(/\d+/g, ' '));
+  if (!intensity) {
+    return null;
+  }
+
+  const hazard: PirepHazard = { intensity };
+
+  const type = upper.split(/\s+/).find(word => HAZARD_TYPES.includes(word));
+  if (type) {
+    hazard.type = type;
+  }
+
+  const below = /BLO\s*(\d{3})/.exec(upper);
+  const above = /ABV\s*(\d{3})/.exec(upper);
+  const range = /(\d{3})\s*-\s*(\d{3})/.exec(upper);
+  const single = /(?:^|\s)(\d{3})(?:\s|$)/.exec(upper);
+
+  if (range) {
+    hazard.base = parseInt(range[1], 10) * 100;
+    hazard.top = parseInt(range[2], 10) * 100;
+  } else if (below) {
+    hazard.top = parseInt(below[1], 10) * 100;
+  } else if (above) {
+    hazard.base = parseInt(above[1], 10) * 100;
+  } else if (single) {
+    hazard.base = parseInt(single[1], 10) * 100;
+    hazard.top = hazard.base;
+  }
+
+  return hazard;
+}
+
+/**
+ * Get the contents of a slash group from a raw PIREP ("/TB MOD 050" -> "MOD 050")
+ */
+function getGroup(rawOb: string, name: string): string | undefined {
+  const match = new RegExp(`/${name}\\s*([^/]*)`).exec(rawOb.toUpperCase());
+  return match ? match[1].trim() : undefined;
+}
+
+/**
+ * Decode a hazard from the structured API fields
+ */
+function hazardFromFields(
+  intensity: string | undefined,
+  type: string | undefined,
+  base: number | null | undefined,
+  top: number | null | undefined
+): PirepHazard | undefined {
+  const parsed = parseIntensity(intensity);
+  if (!parsed) {
+    return undefined;
+  }
+
+  const hazard: PirepHazard = { intensity: parsed };
+  if (type) {
+    hazard.type = type;
+  }
+  if (typeof base === 'number') {
+    hazard.base = base * 100;
+  }
+  if (typeof top === 'number') {
+    hazard.top = top * 100;
+  }
+  return hazard;
+}
+
+/**
+ * Decode a PIREP from the API
+ *
+ * @param data - Raw pirep API entry
+ * @returns Decoded PIREP
+ */
+export function decodePirep(data: PirepApiData): Pirep {
+  const raw = data.rawOb || '';
+  const pirep: Pirep = {
+    time: new Date(data.obsTime * 1000),
+    lat: data.lat,
+    lon: data.lon,
+    urgent: /urgent/i.test(data.pirepType || '') || /\bUUA\b/.test(raw),
+    raw
+  };
+
+  if (data.acType) {
+    pirep.aircraft = data.acType;
+  }
+
+  const flightLevel = Number(getGroup(raw, 'FL') ?? data.fltLvl);
+  if (!isNaN(flightLevel) && flightLevel > 0) {
+    pirep.altitude = flightLevel * 100;
+  }
+
+  const turbulenceGroup = getGroup(raw, 'TB');
+  const turbulence = turbulenceGroup !== undefined
+    ? decodeHazardGroup(turbulenceGroup)
+    : hazardFromFields(data.tbInt1, data.tbType1, data.tbBas1, data.tbTop1);
+  if (turbulence) {
+    pirep.turbulence = turbulence;
+  }
+
+  const icingGroup = getGroup(raw, 'IC');
+  const icing = icingGroup !== undefined
+    ? decodeHazardGroup(icingGroup)
+    : hazardFromFields(data.icgInt1, data.icgType1, data.icgBas1, data.icgTop1);
+  if (icing) {
+    pirep.icing = icing;
+  }
+
+  return pirep;
+}
+
+/**
+ * Highest turbulence or icing intensity in a PIREP
+ *
+ * @param pirep - Decoded PIREP
+ * @returns Intensity ('none' when neither is reported)
+ */
+export function getPirepIntensity(pirep: Pirep): PirepIntensity {
+  const turbulence = pirep.turbulence?.intensity ?? 'none';
+  const icing = pirep.icing?.intensity ?? 'none';
+  return compareIntensity(turbulence, icing) >= 0 ? turbulence : icing;
+}
+
+/**
+ * Check whether a PIREP reports turbulence or icing at or above an intensity
+ *
+ * @param pirep - Decoded PIREP
+ * @param minIntensity - Lowest intensity that counts
+ * @returns true if the report meets the intensity
+ */
+export function isSignificantPirep(pirep: Pirep, minIntensity: PirepIntensity): boolean {
+  const intensity = getPirepIntensity(pirep);
+  return intensity !== 'none' && compareIntensity(intensity, minIntensity) >= 0;
+}
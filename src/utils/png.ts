@@ -0,0 +1,107 @@
+/**
+ * PNG encoding
+ * Minimal encoder for truecolor images, so snapshots need no image library.
+ */
+
+import { promisify } from 'util';
+import { deflate, deflateSync } from 'zlib';
+
+const deflateAsync = promisify(deflate);
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+/**
+ * CRC-32 as used by PNG chunks (and zip/gzip)
+ *
+ * @param data - Bytes to checksum
+ * @returns Unsigned 32-bit checksum
+ */
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Build one chunk: length, type, data and CRC of type and data
+ */
+function pngChunk(type: string, data: Uint8Array): Buffer {
+  const chunk = Buffer.alloc(12 + data.length);
+  chunk.writeUInt32BE(data.length, 0);
+  chunk.write(type, 4, 'ascii');
+  chunk.set(data, 8);
+  chunk.writeUInt32BE(crc32(chunk.subarray(4, 8 + data.length)), 8 + data.length);
+  return chunk;
+}
+
+/**
+ * Check the pixel data and prefix each row with its filter type (0: none)
+ */
+function pngRows(width: number, height: number, rgb: Uint8Array): Buffer {
+  if (rgb.length !== width * height * 3) {
+    throw new Error(`PNG data is ${rgb.length} bytes, expected ${width * height * 3} for ${width}x${height}`);
+  }
+
+  const rowLength = width * 3;
+  const raw = Buffer.alloc((rowLength + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw.set(rgb.subarray(y * rowLength, (y + 1) * rowLength), y * (rowLength + 1) + 1);
+  }
+  return raw;
+}
+
+/**
+ * Assemble the PNG file around the compressed rows
+ */
+function pngFile(width: number, height: number, compressed: Uint8Array): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header.writeUInt8(8, 8);   // Bit depth
+  header.writeUInt8(2, 9);   // Color type: truecolor
+  header.writeUInt8(0, 10);  // Compression: deflate
+  header.writeUInt8(0, 11);  // Filter method
+  header.writeUInt8(0, 12);  // No interlace
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', compressed),
+    pngChunk('IEND', new Uint8Array(0))
+  ]);
+}
+
+/**
+ * Encode an RGB image as PNG
+ *
+ * @param width - Image width (pixels)
+ * @param height - Image height (pixels)
+ * @param rgb - Pixel rows top to bottom, three bytes per pixel
+ * @returns PNG file contents
+ */
+export function encodePng(width: number, height: number, rgb: Uint8Array): Buffer {
+  return pngFile(width, height, deflateSync(pngRows(width, height, rgb)));
+}
+
+/**
+ * Encode an RGB image as PNG, compressing on the thread pool so the event
+ * loop keeps running
+ *
+ * @param width - Image width (pixels)
+ * @param height - Image height (pixels)
+ * @param rgb - Pixel rows top to bottom, three bytes per pixel
+ * @returns PNG file contents
+ */
+export async function encodePngAsync(width: number, height: number, rgb: Uint8Array): Promise<Buffer> {
+  return pngFile(width, height, await deflateAsync(pngRows(width, height, rgb)));
+}
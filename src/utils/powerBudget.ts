@@ -0,0 +1,47 @@
+/**
+ * Power budget
+ * Estimates the current an LED strip draws: every LED has a small idle draw,
+ * and each channel draws in proportion to its value and the brightness. When
+ * a frame would exceed the supply limit, the brightness is scaled down so it
+ * fits.
+ */
+
+import { PowerDraw } from '../types';
+
+/**
+ * Current one LED draws at full brightness
+ *
+ * @param channels - Channel values as sent to the strip (0-255)
+ * @param maPerChannel - Current of one channel at 255
+ * @returns Current in mA (idle draw not included)
+ */
+export function estimateLedCurrent(channels: number[], maPerChannel: number): number {
+  return channels.reduce((total, value) => total + (value / 255) * maPerChannel, 0);
+}
+
+/**
+ * Work out a frame's draw, limiting it to the supply
+ * The idle draw can't be dimmed, so only the active draw is scaled.
+ *
+ * @param idleMa - Idle draw of all LEDs
+ * @param activeMa - Channel draw of all LEDs at full brightness
+ * @param brightness - Requested brightness (0-1)
+ * @param limitMa - Supply limit (0 = no limit)
+ * @returns Requested and limited draw with the brightness scale
+ */
+export function limitPowerDraw(idleMa: number, activeMa: number, brightness: number, limitMa: number): PowerDraw {
+  const requestedMa = idleMa + activeMa * brightness;
+  if (limitMa <= 0) {
+    return { requestedMa, estimatedMa: requestedMa, scale: 1 };
+  }
+
+  const scale = requestedMa > limitMa
+    ? Math.max(0, (limitMa - idleMa) / (activeMa * brightness))
+    : 1;
+  return {
+    requestedMa,
+    estimatedMa: idleMa + activeMa * brightness * scale,
+    limitMa,
+    scale
+  };
+}
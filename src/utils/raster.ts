@@ -0,0 +1,184 @@
+/**
+ * Raster drawing
+ * Just enough of a canvas for map snapshots: rectangles, dots and text in a
+ * built-in 5x7 pixel font.
+ */
+
+import { Color } from '../types';
+
+/**
+ * RGB image, rows top to bottom, three bytes per pixel
+ */
+export interface Raster {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+/**
+ * Glyph size in font pixels; characters advance one column more
+ */
+export const GLYPH_WIDTH = 5;
+export const GLYPH_HEIGHT = 7;
+
+/**
+ * 5x7 glyphs, one 5-bit row per entry (top row first, high bit on the left)
+ * Lowercase is drawn as uppercase; other characters are drawn blank.
+ */
+const FONT: Record<string, number[]> = {
+  '0': [0x0e, 0x11, 0x13, 0x15, 0x19, 0x11, 0x0e],
+  '1': [0x04, 0x0c, 0x04, 0x04, 0x04, 0x04, 0x0e],
+  '2': [0x0e, 0x11, 0x01, 0x02, 0x04, 0x08, 0x1f],
+  '3': [0x1f, 0x02, 0x04, 0x02, 0x01, 0x11, 0x0e],
+  '4': [0x02, 0x06, 0x0a, 0x12, 0x1f, 0x02, 0x02],
+  '5': [0x1f, 0x10, 0x1e, 0x01, 0x01, 0x11, 0x0e],
+  '6': [0x06, 0x08, 0x10, 0x1e, 0x11, 0x11, 0x0e],
+  '7': [0x1f, 0x01, 0x02, 0x04, 0x08, 0x08, 0x08],
+  '8': [0x0e, 0x11, 0x11, 0x0e, 0x11, 0x11, 0x0e],
+  '9': [0x0e, 0x11, 0x11, 0x0f, 0x01, 0x02, 0x0c],
+  'A': [0x0e, 0x11, 0x11, 0x11, 0x1f, 0x11, 0x11],
+  'B': [0x1e, 0x11, 0x11, 0x1e, 0x11, 0x11, 0x1e],
+  'C': [0x0e, 0x11, 0x10, 0x10, 0x10, 0x11, 0x0e],
+  'D': [0x1c, 0x12, 0x11, 0x11, 0x11, 0x12, 0x1c],
+  'E': [0x1f, 0x10, 0x10, 0x1e, 0x10, 0x10, 0x1f],
+  'F': [0x1f, 0x10, 0x10, 0x1e, 0x10, 0x10, 0x10],
+  'G': [0x0e, 0x11, 0x10, 0x17, 0x11, 0x11, 0x0f],
+  'H': [0x11, 0x11, 0x11, 0x1f, 0x11, 0x11, 0x11],
+  'I': [0x0e, 0x04, 0x04, 0x04, 0x04, 0x04, 0x0e],
+  'J': [0x07, 0x02, 0x02, 0x02, 0x02, 0x12, 0x0c],
+  'K': [0x11, 0x12, 0x14, 0x18, 0x14, 0x12, 0x11],
+  'L': [0x10, 0x10, 0x10, 0x10, 0x10, 0x10, 0x1f],
+  'M': [0x11, 0x1b, 0x15, 0x15, 0x11, 0x11, 0x11],
+  'N': [0x11, 0x11, 0x19, 0x15, 0x13, 0x11, 0x11],
+  'O': [0x0e, 0x11, 0x11, 0x11, 0x11, 0x11, 0x0e],
+  'P': [0x1e, 0x11, 0x11, 0x1e, 0x10, 0x10, 0x10],
+  'Q': [0x0e, 0x11, 0x11, 0x11, 0x15, 0x12, 0x0d],
+  'R': [0x1e, 0x11, 0x11, 0x1e, 0x14, 0x12, 0x11],
+  'S': [0x0f, 0x10, 0x10, 0x0e, 0x01, 0x01, 0x1e],
+  'T': [0x1f, 0x04, 0x04, 0x04, 0x04, 0x04, 0x04],
+  'U': [0x11, 0x11, 0x11, 0x11, 0x11, 0x11, 0x0e],
+  'V': [0x11, 0x11, 0x11, 0x11, 0x11, 0x0a, 0x04],
+  'W': [0x11, 0x11, 0x11, 0x15, 0x15, 0x15, 0x0a],
+  'X': [0x11, 0x11, 0x0a, 0x04, 0x0a, 0x11, 0x11],
+  'Y': [0x11, 0x11, 0x11, 0x0a, 0x04, 0x04, 0x04],
+  'Z': [0x1f, 0x01, 0x02, 0x04, 0x08, 0x10, 0x1f],
+  '-': [0x00, 0x00, 0x00, 0x1f, 0x00, 0x00, 0x00],
+  '+': [0x00, 0x04, 0x04, 0x1f, 0x04, 0x04, 0x00],
+  '.': [0x00, 0x00, 0x00, 0x00, 0x00, 0x0c, 0x0c],
+  ',': [0x00, 0x00, 0x00, 0x00, 0x0c, 0x04, 0x08],
+  ':': [0x00, 0x0c, 0x0c, 0x00, 0x0c, 0x0c, 0x00],
+  '/': [0x00, 0x01, 0x02, 0x04, 0x08, 0x10, 0x00],
+  '%': [0x18, 0x19, 0x02, 0x04, 0x08, 0x13, 0x03],
+  '(': [0x02, 0x04, 0x08, 0x08, 0x08, 0x04, 0x02],
+  ')': [0x08, 0x04, 0x02, 0x02, 0x02, 0x04, 0x08],
+  '°': [0x0c, 0x12, 0x12, 0x0c, 0x00, 0x00, 0x00]
+};
+
+/**
+ * Create a raster filled with one color
+ *
+ * @param width - Width (pixels)
+ * @param height - Height (pixels)
+ * @param background - Fill color
+ * @returns New raster
+ */
+export function createRaster(width: number, height: number, background: Color): Raster {
+  const raster = { width, height, data: new Uint8Array(width * height * 3) };
+  fillRect(raster, 0, 0, width, height, background);
+  return raster;
+}
+
+/**
+ * Set one pixel, ignoring pixels outside the raster
+ */
+function setPixel(raster: Raster, x: number, y: number, color: Color): void {
+  if (x < 0 || y < 0 || x >= raster.width || y >= raster.height) {
+    return;
+  }
+  const offset = (y * raster.width + x) * 3;
+  raster.data[offset] = color.r;
+  raster.data[offset + 1] = color.g;
+  raster.data[offset + 2] = color.b;
+}
+
+/**
+ * Fill a rectangle, clipped to the raster
+ *
+ * @param raster - Raster to draw on
+ * @param x - Left edge
+ * @param y - Top edge
+ * @param width - Width (pixels)
+ * @param height - Height (pixels)
+ * @param color - Fill color
+ */
+export function fillRect(raster: Raster, x: number, y: number, width: number, height: number, color: Color): void {
+  const left = Math.max(0, Math.round(x));
+  const top = Math.max(0, Math.round(y));
+  const right = Math.min(raster.width, Math.round(x + width));
+  const bottom = Math.min(raster.height, Math.round(y + height));
+  for (let py = top; py < bottom; py++) {
+    for (let px = left; px < right; px++) {
+      setPixel(raster, px, py, color);
+    }
+  }
+}
+
+/**
+ * Fill a circle, clipped to the raster
+ *
+ * @param raster - Raster to draw on
+ * @param cx - Center x
+ * @param cy - Center y
+ * @param radius - Radius (pixels)
+ * @param color - Fill color
+ */
+export function fillCircle(raster: Raster, cx: number, cy: number, radius: number, color: Color): void {
+  const limit = radius * radius;
+  for (let y = Math.floor(cy - radius); y <= Math.ceil(cy + radius); y++) {
+    for (let x = Math.floor(cx - radius); x <= Math.ceil(cx + radius); x++) {
+      const dx = x + 0.5 - cx;
+      const dy = y + 0.5 - cy;
+      if (dx * dx + dy * dy <= limit) {
+        setPixel(raster, x, y, color);
+      }
+    }
+  }
+}
+
+/**
+ * Width of a line of text
+ *
+ * @param text - Text to measure
+ * @param scale - Screen pixels per font pixel
+ * @returns Width (pixels), without trailing spacing
+ */
+export function measureText(text: string, scale: number): number {
+  return text.length > 0 ? (text.length * (GLYPH_WIDTH + 1) - 1) * scale : 0;
+}
+
+/**
+ * Draw a line of text in the 5x7 font
+ *
+ * @param raster - Raster to draw on
+ * @param x - Left edge
+ * @param y - Top edge
+ * @param text - Text to draw
+ * @param color - Text color
+ * @param scale - Screen pixels per font pixel
+ */
+export function drawText(raster: Raster, x: number, y: number, text: string, color: Color, scale: number): void {
+  [...text.toUpperCase()].forEach((char, i) => {
+    const glyph = FONT[char];
+    if (!glyph) {
+      return;
+    }
+    const left = Math.round(x) + i * (GLYPH_WIDTH + 1) * scale;
+    glyph.forEach((row, gy) => {
+      for (let gx = 0; gx < GLYPH_WIDTH; gx++) {
+        if (row & (0x10 >> gx)) {
+          fillRect(raster, left + gx * scale, Math.round(y) + gy * scale, scale, scale, color);
+        }
+      }
+    });
+  });
+}
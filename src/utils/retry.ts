@@ -0,0 +1,179 @@
+/**
+ * Retry, backoff and batching helpers for network requests
+ */
+
+import { sleep } from './shutdown';
+
+/**
+ * Options for retryWithBackoff
+ */
+export interface RetryOptions {
+  retries: number;                 // Attempts after the first one
+  baseDelayMs: number;             // Delay before the first retry (doubles each attempt)
+  maxDelayMs: number;              // Upper bound for any single delay
+  isRetryable?: (error: unknown) => boolean;
+  getRetryAfterMs?: (error: unknown) => number | null;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+  signal?: AbortSignal;            // Stops retrying (and any wait in progress) when aborted
+  wait?: (ms: number) => Promise<void>;
+  random?: () => number;
+}
+
+/**
+ * Split a list into batches of at most `size` items
+ *
+ * @param items - Items to split
+ * @param size - Maximum batch size
+ * @returns Array of batches (empty when there are no items)
+ */
+export function chunk<T>(items: T[], size: number): T[][] {
+  if (size <= 0) {
+    throw new Error(`Batch size must be positive: ${size}`);
+  }
+
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    batches.push(items.slice(i, i + size));
+  }
+  return batches;
+}
+
+/**
+ * Run an async function over items with at most `limit` calls in flight
+ * Never rejects: each item gets a settled result in input order
+ *
+ * @param items - Items to process
+ * @param limit - Maximum concurrent calls
+ * @param fn - Async function called for each item
+ * @returns Settled results in the same order as items
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await fn(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  const workers = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
+
+/**
+ * Exponential backoff delay with jitter
+ * A random delay between half and all of base * 2^attempt, capped at maxDelayMs
+ *
+ * @param attempt - Retry number (0 for the first retry)
+ * @param baseDelayMs - Base delay
+ * @param maxDelayMs - Maximum delay
+ * @param random - Random source in [0, 1)
+ * @returns Delay in milliseconds
+ */
+export function backoffDelay(
+  attempt: number,
+  baseDelayMs: number,
+  maxDelayMs: number,
+  random: () => number = Math.random
+): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * Math.pow(2, attempt));
+  return Math.round(ceiling / 2 + random() * ceiling / 2);
+}
+
+/**
+ * Parse an HTTP Retry-After header (delay seconds or an HTTP date)
+ *
+ * @param value - Header value
+ * @param now - Current time, used for HTTP dates
+ * @returns Delay in milliseconds, or null if missing or unreadable
+ */
+export function parseRetryAfter(value: string | undefined | null, now: Date = new Date()): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const trimmed = value.trim();
+
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  if (isNaN(date)) {
+    return null;
+  }
+
+  return Math.max(0, date - now.getTime());
+}
+
+/**
+ * Wait, giving up early when the signal is aborted
+ *
+ * @param waiting - Wait in progress
+ * @param signal - Abort signal
+ * @returns Resolves when the wait ends; rejects with the abort reason
+ */
+function waitUnlessAborted(waiting: Promise<void>, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = (): void => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    waiting
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Call an async function, retrying failures with exponential backoff
+ * A server-provided Retry-After delay replaces the backoff delay (still capped
+ * at maxDelayMs so a bad header cannot stall the update loop). An aborted
+ * signal stops any further attempts.
+ *
+ * @param fn - Function to call
+ * @param options - Retry options
+ * @returns Result of the first successful call
+ */
+export async function retryWithBackoff<T>(
+  fn: () => Promise<T>,
+  options: RetryOptions
+): Promise<T> {
+  const wait = options.wait || sleep;
+
+  const signal = options.signal;
+
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted();
+    try {
+      return await fn();
+    } catch (error) {
+      signal?.throwIfAborted();
+      const retryable = options.isRetryable ? options.isRetryable(error) : true;
+      if (attempt >= options.retries || !retryable) {
+        throw error;
+      }
+
+      const retryAfter = options.getRetryAfterMs?.(error) ?? null;
+      const delayMs = retryAfter !== null
+        ? Math.min(retryAfter, options.maxDelayMs)
+        : backoffDelay(attempt, options.baseDelayMs, options.maxDelayMs, options.random);
+
+      options.onRetry?.(error, attempt + 1, delayMs);
+      await (signal ? waitUnlessAborted(wait(delayMs), signal) : wait(delayMs));
+    }
+  }
+}
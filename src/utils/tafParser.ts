@@ -0,0 +1,361 @@
+/**
+ * TAF (Terminal Aerodrome Forecast) parser
+ * Splits a raw TAF into FM/BECMG/TEMPO/PROB groups and works out the
+ * forecast flight category at a given time
+ */
+
+import {
+  DecodedConditions,
+  FlightCategory,
+  TafData,
+  TafForecast,
+  TafPeriod
+} from '../types';
+import { calculateFlightCategory, worstCategory } from './flightCategory';
+import { decodeConditions, tokenize } from './metarDecoder';
+
+const STATION_REGEX = /^[A-Z][A-Z0-9]{3}$/;
+const ISSUE_TIME_REGEX = /^(\d{2})(\d{2})(\d{2})Z$/;
+const VALID_PERIOD_REGEX = /^(\d{2})(\d{2})\/(\d{2})(\d{2})$/;
+const FROM_REGEX = /^FM(\d{2})(\d{2})(\d{2})$/;
+const PROB_REGEX = /^PROB(\d{2})$/;
+
+/**
+ * Resolve a day-of-month/hour/minute group to a full UTC date
+ * Picks the month (previous, current or next) that lands closest to the
+ * reference date, so forecasts spanning a month boundary resolve correctly.
+ * Hour 24 is allowed and rolls over to the next day.
+ *
+ * @param day - Day of month
+ * @param hour - Hour (0-24)
+ * @param minute - Minute
+ * @param reference - Date the group is expected to be near
+ * @returns Resolved UTC date
+ */
+export function resolveDayTime(day: number, hour: number, minute: number, reference: Date): Date {
+  let best: Date | null = null;
+
+  for (const monthOffset of [-1, 0, 1]) {
+    const candidate = new Date(Date.UTC(
+      reference.getUTCFullYear(),
+      reference.getUTCMonth() + monthOffset,
+      day,
+      hour,
+      minute
+    ));
+
+    if (
+      best === null ||
+      Math.abs(candidate.getTime() - reference.getTime()) <
+        Math.abs(best.getTime() - reference.getTime())
+    ) {
+      best = candidate;
+    }
+  }
+
+  return best as Date;
+}
+
+/**
+ * Parse a "DDHH/DDHH" period group
+ */
+function parsePeriod(token: string | undefined, reference: Date): { from: Date; to: Date } | null {
+  const match = token ? VALID_PERIOD_REGEX.exec(token) : null;
+  if (!match) {
+    return null;
+  }
+
+  const from = resolveDayTime(parseInt(match[1], 10), parseInt(match[2], 10), 0, reference);
+  const to = resolveDayTime(parseInt(match[3], 10), parseInt(match[4], 10), 0, reference);
+
+  return { from, to };
+}
+
+/**
+ * Group of tokens belonging to one change indicator while splitting a TAF
+ */
+interface PendingGroup {
+  change: TafPeriod['change'];
+  probability?: number;
+  from: Date;
+  to?: Date;
+  tokens: string[];
+}
+
+/**
+ * Parse a raw TAF string
+ *
+ * @param rawTaf - Raw TAF text (with or without the leading "TAF")
+ * @param reference - Date near the issue time, used to resolve day/hour groups
+ * @returns Parsed TAF, or null if the header cannot be read
+ */
+export function parseTaf(rawTaf: string, reference: Date = new Date()): TafData | null {
+  if (!rawTaf) {
+    return null;
+  }
+
+  const tokens = tokenize(rawTaf);
+  let i = 0;
+  let amended = false;
+
+  while (tokens[i] === 'TAF' || tokens[i] === 'AMD' || tokens[i] === 'COR') {
+    if (tokens[i] === 'AMD') {
+      amended = true;
+    }
+    i++;
+  }
+
+  if (!tokens[i] || !STATION_REGEX.test(tokens[i])) {
+    return null;
+  }
+  const icaoId = tokens[i];
+  i++;
+
+  let issueTime = reference;
+  const issueMatch = tokens[i] ? ISSUE_TIME_REGEX.exec(tokens[i]) : null;
+  if (issueMatch) {
+    issueTime = resolveDayTime(
+      parseInt(issueMatch[1], 10),
+      parseInt(issueMatch[2], 10),
+      parseInt(issueMatch[3], 10),
+      reference
+    );
+    i++;
+  }
+
+  const validity = parsePeriod(tokens[i], issueTime);
+  if (!validity) {
+    return null;
+  }
+  i++;
+
+  // Split the remaining tokens into change groups
+  const groups: PendingGroup[] = [{ change: 'BASE', from: validity.from, tokens: [] }];
+
+  while (i < tokens.length && tokens[i] !== 'RMK') {
+    const token = tokens[i];
+    let match: RegExpExecArray | null;
+
+    if ((match = FROM_REGEX.exec(token))) {
+      groups.push({
+        change: 'FM',
+        from: resolveDayTime(
+          parseInt(match[1], 10),
+          parseInt(match[2], 10),
+          parseInt(match[3], 10),
+          issueTime
+        ),
+        tokens: []
+      });
+    } else if (token === 'BECMG' || token === 'TEMPO' || PROB_REGEX.test(token)) {
+      let change: TafPeriod['change'] = token === 'BECMG' ? 'BECMG' : 'TEMPO';
+      let probability: number | undefined;
+
+      if ((match = PROB_REGEX.exec(token))) {
+        probability = parseInt(match[1], 10);
+        change = 'PROB';
+        // "PROB30 TEMPO 1806/1810" - probability applied to a temporary group
+        if (tokens[i + 1] === 'TEMPO') {
+          change = 'TEMPO';
+          i++;
+        }
+      }
+
+      const period = parsePeriod(tokens[i + 1], issueTime);
+      if (period) {
+        groups.push({ change, probability, from: period.from, to: period.to, tokens: [] });
+        i++;
+      } else {
+        // Malformed group - keep tokens with the current group rather than guess
+        groups[groups.length - 1].tokens.push(token);
+      }
+    } else {
+      groups[groups.length - 1].tokens.push(token);
+    }
+
+    i++;
+  }
+
+  // FM and BASE groups run until the next FM group (or the end of the TAF)
+  const prevailingStarts = groups
+    .filter(g => g.change === 'BASE' || g.change === 'FM')
+    .map(g => g.from.getTime());
+
+  const periods: TafPeriod[] = groups.map(group => {
+    let to = group.to;
+    if (!to) {
+      const nextStart = prevailingStarts.find(start => start > group.from.getTime());
+      to = nextStart !== undefined ? new Date(nextStart) : validity.to;
+    }
+
+    const period: TafPeriod = {
+      change: group.change,
+      temporary: group.change === 'TEMPO' || group.change === 'PROB',
+      from: group.from,
+      to,
+      ...decodeConditions(group.tokens)
+    };
+    if (group.probability !== undefined) {
+      period.probability = group.probability;
+    }
+    return period;
+  });
+
+  return {
+    icaoId,
+    rawTaf,
+    issueTime,
+    validFrom: validity.from,
+    validTo: validity.to,
+    amended,
+    periods
+  };
+}
+
+/**
+ * Apply a change group on top of existing conditions
+ * Only the elements the change group reports replace the existing ones
+ *
+ * @param base - Conditions before the change
+ * @param change - Change group conditions
+ * @returns Merged conditions
+ */
+export function mergeConditions(base: DecodedConditions, change: DecodedConditions): DecodedConditions {
+  const merged: DecodedConditions = { ...base };
+
+  if (change.wind) {
+    merged.wind = change.wind;
+  }
+
+  if (change.visibility !== undefined) {
+    merged.visibility = change.visibility;
+    merged.visibilityModifier = change.visibilityModifier;
+  }
+
+  if (change.noSignificantWeather) {
+    merged.weather = [];
+  } else if (change.weather.length > 0) {
+    merged.weather = change.weather;
+  }
+
+  if (change.clouds.length > 0) {
+    merged.clouds = change.clouds;
+    merged.skyClear = false;
+  } else if (change.skyClear) {
+    merged.clouds = [];
+    merged.skyClear = true;
+  }
+
+  return merged;
+}
+
+/**
+ * Flight category for decoded forecast conditions
+ */
+function categoryOf(conditions: DecodedConditions): FlightCategory {
+  return calculateFlightCategory(conditions.visibility, conditions.clouds);
+}
+
+/**
+ * Work out forecast conditions at a given time
+ *
+ * Prevailing conditions come from the BASE group or the latest FM group,
+ * with completed BECMG changes applied. While a BECMG change is in
+ * progress the worse of the old and new categories is used. TEMPO and
+ * PROB groups covering the time are folded in as a worst case when
+ * includeTemporary is set.
+ *
+ * @param taf - Parsed TAF
+ * @param time - Time to evaluate the forecast at
+ * @param includeTemporary - Include TEMPO/PROB groups in the worst case
+ * @returns Forecast at the time, or null if the time is outside the TAF validity
+ */
+export function getForecastAt(
+  taf: TafData,
+  time: Date,
+  includeTemporary: boolean = true
+): TafForecast | null {
+  const t = time.getTime();
+
+  if (t < taf.validFrom.getTime() || t >= taf.validTo.getTime()) {
+    return null;
+  }
+
+  // Latest BASE/FM group that has started
+  let prevailing: TafPeriod | null = null;
+  for (const period of taf.periods) {
+    if (
+      (period.change === 'BASE' || period.change === 'FM') &&
+      period.from.getTime() <= t &&
+      (prevailing === null || period.from.getTime() >= prevailing.from.getTime())
+    ) {
+      prevailing = period;
+    }
+  }
+
+  if (!prevailing) {
+    return null;
+  }
+
+  let conditions: DecodedConditions = prevailing;
+  let transitionCategory: FlightCategory = null;
+
+  // BECMG groups that belong to the current prevailing period
+  const becoming = taf.periods
+    .filter(p =>
+      p.change === 'BECMG' &&
+      p.from.getTime() >= prevailing!.from.getTime() &&
+      p.from.getTime() <= t
+    )
+    .sort((a, b) => a.from.getTime() - b.from.getTime());
+
+  for (const period of becoming) {
+    const changed = mergeConditions(conditions, period);
+    if (t >= period.to.getTime()) {
+      conditions = changed;
+    } else {
+      // Change in progress - either set of conditions may be observed
+      transitionCategory = worstCategory(transitionCategory, categoryOf(changed));
+    }
+  }
+
+  const prevailingCategory = worstCategory(categoryOf(conditions), transitionCategory);
+  let flightCategory = prevailingCategory;
+  let wind = conditions.wind;
+  const weather = [...conditions.weather];
+
+  if (includeTemporary) {
+    const temporary = taf.periods.filter(p =>
+      p.temporary && p.from.getTime() <= t && t < p.to.getTime()
+    );
+
+    for (const period of temporary) {
+      const changed = mergeConditions(conditions, period);
+      flightCategory = worstCategory(flightCategory, categoryOf(changed));
+
+      if (period.wind && (!wind || windStrength(period.wind) > windStrength(wind))) {
+        wind = period.wind;
+      }
+      for (const wx of period.weather) {
+        if (!weather.includes(wx)) {
+          weather.push(wx);
+        }
+      }
+    }
+  }
+
+  return {
+    time,
+    flightCategory,
+    prevailingCategory,
+    wind,
+    weather
+  };
+}
+
+/**
+ * Strongest wind value (gust or sustained) for comparisons
+ */
+function windStrength(wind: NonNullable<DecodedConditions['wind']>): number {
+  return Math.max(wind.speed, wind.gust || 0);
+}
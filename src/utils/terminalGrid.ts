@@ -0,0 +1,111 @@
+/**
+ * Terminal grid
+ * Lays the airports out on a character grid and draws them in 24-bit ANSI
+ * color for the terminal simulator.
+ */
+
+import { AirportMapping, Color } from '../types';
+
+/**
+ * Airport placed on the grid
+ */
+export interface GridCell {
+  led: number;
+  code: string;
+  x: number;   // Column
+  y: number;   // Row
+}
+
+const RESET = '\x1b[0m';
+
+/**
+ * Shown for LEDs that are off, so their place on the grid stays visible
+ */
+const OFF_MARK = '\x1b[38;2;70;70;70m··' + RESET;
+
+/**
+ * Characters one grid column takes: a two-character swatch, a space, the
+ * longest code and a space
+ *
+ * @param airports - Airports on the grid
+ * @returns Column width
+ */
+export function getGridCellWidth(airports: AirportMapping[]): number {
+  return 4 + Math.max(4, ...airports.map(airport => airport.code.length));
+}
+
+/**
+ * Place airports on the grid
+ * Airports with x/y keep their cell. The rest fill rows of `columns` cells,
+ * in LED order, below any placed airports (with a blank row between).
+ *
+ * @param airports - Airports to place
+ * @param columns - Cells per row for airports without a position
+ * @returns Grid cells
+ */
+export function createGridLayout(airports: AirportMapping[], columns: number): GridCell[] {
+  const placed = airports.filter(airport => airport.x !== undefined && airport.y !== undefined);
+  const unplaced = airports
+    .filter(airport => airport.x === undefined || airport.y === undefined)
+    .sort((a, b) => a.led - b.led);
+
+  const firstRow = placed.length > 0 ? Math.max(...placed.map(airport => airport.y as number)) + 2 : 0;
+  const perRow = Math.max(1, columns);
+
+  return [
+    ...placed.map(airport => ({
+      led: airport.led,
+      code: airport.code,
+      x: airport.x as number,
+      y: airport.y as number
+    })),
+    ...unplaced.map((airport, i) => ({
+      led: airport.led,
+      code: airport.code,
+      x: i % perRow,
+      y: firstRow + Math.floor(i / perRow)
+    }))
+  ];
+}
+
+/**
+ * Two-character swatch in a 24-bit foreground color
+ *
+ * @param color - Color to show
+ * @returns ANSI-colored swatch (a dim mark when the color is off)
+ */
+export function colorSwatch(color: Color): string {
+  if (color.r === 0 && color.g === 0 && color.b === 0) {
+    return OFF_MARK;
+  }
+  return `\x1b[38;2;${color.r};${color.g};${color.b}m██${RESET}`;
+}
+
+/**
+ * Draw the grid
+ *
+ * @param cells - Grid cells
+ * @param getColor - Color shown by an LED index
+ * @param cellWidth - Characters per grid column
+ * @returns One line per grid row (rows without airports are empty)
+ */
+export function renderGrid(cells: GridCell[], getColor: (led: number) => Color, cellWidth: number): string[] {
+  if (cells.length === 0) {
+    return [];
+  }
+
+  const rows = Math.max(...cells.map(cell => cell.y)) + 1;
+  const lines: string[] = [];
+  for (let y = 0; y < rows; y++) {
+    let line = '';
+    let width = 0;
+    const rowCells = cells.filter(cell => cell.y === y).sort((a, b) => a.x - b.x);
+    for (const cell of rowCells) {
+      const column = cell.x * cellWidth;
+      line += ' '.repeat(column - width) + `${colorSwatch(getColor(cell.led))} ${cell.code}`;
+      width = column + 3 + cell.code.length;
+    }
+    lines.push(line);
+  }
+  return lines;
+}
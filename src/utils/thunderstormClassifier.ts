@@ -0,0 +1,123 @@
+/**
+ * Thunderstorm and lightning classification
+ * Separates thunderstorms at the station from those in the vicinity and
+ * lightning seen in the distance, using the decoded weather groups and remarks
+ * rather than substring matches on the raw text
+ */
+
+import { DecodedRemarks, ThunderstormActivity } from '../types';
+import { decodeMetar } from './metarDecoder';
+
+// Present weather groups with a thunderstorm: "TS", "+TSRA", "-TSRAGR", "VCTS"
+const THUNDERSTORM_GROUP_REGEX = /^(-|\+|VC)?TS([A-Z]{2})*$/;
+
+type ActivityClass = 'onStation' | 'vicinity' | 'distant';
+
+/**
+ * An activity record with nothing detected
+ */
+function noActivity(): ThunderstormActivity {
+  return { onStation: false, vicinity: false, distantLightning: false };
+}
+
+/**
+ * Record one class of activity
+ */
+function addActivity(activity: ThunderstormActivity, cls: ActivityClass): void {
+  if (cls === 'onStation') {
+    activity.onStation = true;
+  } else if (cls === 'vicinity') {
+    activity.vicinity = true;
+  } else {
+    activity.distantLightning = true;
+  }
+}
+
+/**
+ * Classify a lightning or thunderstorm remark phrase by its location
+ * The closest location in the phrase wins ("LTG VC AND DSNT" is vicinity).
+ * Phrases without a location are treated as vicinity.
+ *
+ * @param phrase - Remark phrase, e.g. "OCNL LTGICCG DSNT NE" or "TS OHD MOV E"
+ * @returns Activity class
+ */
+export function classifyRemarkPhrase(phrase: string): ActivityClass {
+  const words = phrase.split(' ');
+
+  if (words.includes('OHD') || words.includes('AP')) {
+    return 'onStation';
+  }
+  if (words.includes('VC')) {
+    return 'vicinity';
+  }
+  if (words.includes('DSNT')) {
+    return 'distant';
+  }
+  return 'vicinity';
+}
+
+/**
+ * Classify thunderstorms in present weather groups (METAR body or TAF)
+ *
+ * @param weather - Present weather groups, e.g. ["-TSRA", "BR"]
+ * @returns Thunderstorm activity
+ */
+export function classifyWeatherGroups(weather: string[]): ThunderstormActivity {
+  const activity = noActivity();
+
+  for (const group of weather) {
+    const match = THUNDERSTORM_GROUP_REGEX.exec(group);
+    if (match) {
+      addActivity(activity, match[1] === 'VC' ? 'vicinity' : 'onStation');
+    }
+  }
+
+  return activity;
+}
+
+/**
+ * Classify lightning and thunderstorm remarks
+ *
+ * @param remarks - Decoded remarks
+ * @returns Thunderstorm activity
+ */
+export function classifyRemarks(remarks: DecodedRemarks): ThunderstormActivity {
+  const activity = noActivity();
+
+  for (const phrase of [...remarks.lightning, ...remarks.thunderstorm]) {
+    addActivity(activity, classifyRemarkPhrase(phrase));
+  }
+
+  return activity;
+}
+
+/**
+ * Classify thunderstorm and lightning activity in a raw METAR
+ * Only current weather counts: recent weather (RETS), begin/end times
+ * (TSB15E40) and TSNO (sensor not available) are ignored.
+ *
+ * @param rawOb - Raw METAR observation string
+ * @returns Thunderstorm activity
+ */
+export function classifyThunderstorm(rawOb: string | undefined): ThunderstormActivity {
+  const decoded = decodeMetar(rawOb);
+  if (!decoded) {
+    return noActivity();
+  }
+
+  const body = classifyWeatherGroups(decoded.weather);
+  const remarks = classifyRemarks(decoded.remarks);
+
+  return {
+    onStation: body.onStation || remarks.onStation,
+    vicinity: body.vicinity || remarks.vicinity,
+    distantLightning: body.distantLightning || remarks.distantLightning
+  };
+}
+
+/**
+ * Check whether any thunderstorm or lightning activity was found
+ */
+export function hasThunderstormActivity(activity: ThunderstormActivity): boolean {
+  return activity.onStation || activity.vicinity || activity.distantLightning;
+}
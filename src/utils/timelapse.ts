@@ -0,0 +1,108 @@
+/**
+ * Time-lapse replay
+ * Steps through the history log at a fixed interval and rebuilds the map as
+ * it looked at each step, for animations of weather moving across the map.
+ */
+
+import { AirportConditions, Config } from '../types';
+import { MetarLogEntry } from '../shared/metarState';
+import { getColorForConditions, isGustBlinking } from './colorMapper';
+import { MapSnapshot, createCategoryLegend, formatMapTime } from './mapRenderer';
+
+/**
+ * How far before the start of a time-lapse the log is read, so the first
+ * frame shows the observations current at that time
+ */
+export const TIMELAPSE_LOOKBACK_MS = 2 * 60 * 60 * 1000;
+
+/**
+ * Map at one point in time: the newest logged entry of each airport
+ */
+export interface TimelapseFrame {
+  time: Date;
+  entries: Map<string, MetarLogEntry>;
+}
+
+/**
+ * Replay log entries into evenly spaced frames
+ * Each frame holds the newest entry of every airport at its time, so
+ * airports keep their last observation between updates.
+ *
+ * @param entries - Log entries, oldest first (earlier entries seed the first frame)
+ * @param from - Time of the first frame
+ * @param to - Latest frame time
+ * @param stepMinutes - Minutes between frames
+ * @returns Frames in order
+ */
+export function createTimelapseFrames(
+  entries: MetarLogEntry[],
+  from: Date,
+  to: Date,
+  stepMinutes: number
+): TimelapseFrame[] {
+  const frames: TimelapseFrame[] = [];
+  const current = new Map<string, MetarLogEntry>();
+  let next = 0;
+
+  for (let time = from.getTime(); time <= to.getTime(); time += stepMinutes * 60 * 1000) {
+    while (next < entries.length && Date.parse(entries[next].timestamp) <= time) {
+      current.set(entries[next].airport, entries[next]);
+      next++;
+    }
+    frames.push({ time: new Date(time), entries: new Map(current) });
+  }
+  return frames;
+}
+
+/**
+ * Conditions of a log entry, as far as the log records them
+ */
+function toConditions(entry: MetarLogEntry, config: Config): AirportConditions {
+  return {
+    flightCategory: entry.flightCategory,
+    windSpeed: entry.windSpeed,
+    windGustSpeed: entry.windGustSpeed,
+    windGust: isGustBlinking(entry.windGustSpeed, config),
+    lightning: entry.lightning
+  };
+}
+
+/**
+ * Build the map snapshot of a frame
+ * Every airport with a position is drawn in every frame, so the map keeps
+ * its layout; airports without a logged entry yet show as off. Colors come
+ * from the color mapper, with wind and lightning effects alternating from
+ * frame to frame like the animation cycles on the map.
+ *
+ * @param frame - Frame to draw
+ * @param index - Frame number (drives the animation cycle)
+ * @param positions - Map position of each airport code
+ * @param config - Application configuration
+ * @returns Snapshot to render
+ */
+export function createTimelapseSnapshot(
+  frame: TimelapseFrame,
+  index: number,
+  positions: Map<string, { lat: number; lon: number }>,
+  config: Config
+): MapSnapshot {
+  const unplaced = [...frame.entries.keys()].filter(code => !positions.has(code));
+
+  return {
+    title: config.mapTitle,
+    subtitle: `Flight category - ${formatMapTime(frame.time.toISOString())}`,
+    points: [...positions].map(([code, position]) => {
+      const entry = frame.entries.get(code);
+      return {
+        code,
+        lat: position.lat,
+        lon: position.lon,
+        color: entry
+          ? getColorForConditions(toConditions(entry, config), index % 2 === 1, config, index)
+          : config.colors.clear
+      };
+    }),
+    legend: createCategoryLegend(config),
+    unplaced: unplaced.length
+  };
+}
@@ -0,0 +1,138 @@
+/**
+ * Present-weather phenomena decoding
+ * Turns METAR/TAF weather groups (e.g. "-FZRA", "+SHSN", "BR") into the
+ * phenomena shown on the map
+ */
+
+import { WeatherCondition, WeatherIntensity, WeatherPhenomenon } from '../types';
+
+/**
+ * All phenomena, in default priority order (most important first)
+ */
+export const WEATHER_PHENOMENA: WeatherPhenomenon[] = ['freezing', 'hail', 'snow', 'fog', 'haze'];
+
+const DESCRIPTORS = ['MI', 'PR', 'BC', 'DR', 'BL', 'SH', 'TS', 'FZ'];
+
+/**
+ * Two-letter weather codes and the phenomenon they map to
+ * Codes missing here (RA, DZ, UP, DU, SA, ...) are not shown on their own
+ */
+const PHENOMENON_CODES: Record<string, WeatherPhenomenon> = {
+  SN: 'snow',
+  SG: 'snow',
+  PL: 'snow',
+  IC: 'snow',
+  GR: 'hail',
+  GS: 'hail',
+  FG: 'fog',
+  BR: 'fog',
+  HZ: 'haze',
+  FU: 'haze'
+};
+
+/**
+ * Liquid precipitation that becomes freezing precipitation with FZ
+ */
+const FREEZING_CODES = ['RA', 'DZ', 'UP'];
+
+/**
+ * Decode a single present-weather group
+ * Vicinity (VC) groups describe weather away from the station and are ignored.
+ *
+ * @param token - Weather group, e.g. "-FZRASN"
+ * @returns Phenomena found in the group (may be empty)
+ */
+export function parseWeatherToken(token: string): WeatherCondition[] {
+  let rest = token.toUpperCase();
+  let intensity: WeatherIntensity = 'moderate';
+
+  if (rest.startsWith('-')) {
+    intensity = 'light';
+    rest = rest.substring(1);
+  } else if (rest.startsWith('+')) {
+    intensity = 'heavy';
+    rest = rest.substring(1);
+  }
+
+  if (rest.startsWith('VC')) {
+    return [];
+  }
+
+  // Descriptors (TS, SH, FZ, BL, ...)
+  const descriptors: string[] = [];
+  while (rest.length >= 2 && DESCRIPTORS.includes(rest.substring(0, 2))) {
+    descriptors.push(rest.substring(0, 2));
+    rest = rest.substring(2);
+  }
+
+  const freezing = descriptors.includes('FZ');
+  const found: WeatherCondition[] = [];
+
+  for (let i = 0; i + 2 <= rest.length; i += 2) {
+    const code = rest.substring(i, i + 2);
+    let phenomenon: WeatherPhenomenon | undefined = PHENOMENON_CODES[code];
+
+    if (freezing && FREEZING_CODES.includes(code)) {
+      phenomenon = 'freezing';
+    }
+
+    if (phenomenon && !found.some(c => c.phenomenon === phenomenon)) {
+      found.push({
+        phenomenon,
+        // Obscurations have no intensity
+        intensity: phenomenon === 'fog' || phenomenon === 'haze' ? 'moderate' : intensity,
+        token
+      });
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Decode all phenomena from a list of weather groups
+ * Each phenomenon appears once, keeping its most intense occurrence
+ *
+ * @param tokens - Weather groups (e.g. wxString split on spaces)
+ * @returns Phenomena in the order they were reported
+ */
+export function parseWeatherPhenomena(tokens: string[]): WeatherCondition[] {
+  const rank: Record<WeatherIntensity, number> = { light: 0, moderate: 1, heavy: 2 };
+  const byPhenomenon = new Map<WeatherPhenomenon, WeatherCondition>();
+
+  for (const token of tokens) {
+    for (const condition of parseWeatherToken(token)) {
+      const existing = byPhenomenon.get(condition.phenomenon);
+      if (!existing || rank[condition.intensity] > rank[existing.intensity]) {
+        byPhenomenon.set(condition.phenomenon, condition);
+      }
+    }
+  }
+
+  return [...byPhenomenon.values()];
+}
+
+/**
+ * Pick the phenomenon to display according to a priority list
+ *
+ * @param weather - Decoded phenomena
+ * @param priority - Phenomena in priority order (unlisted ones are never shown)
+ * @returns Highest priority phenomenon, or null if none apply
+ */
+export function getPriorityWeather(
+  weather: WeatherCondition[] | undefined,
+  priority: WeatherPhenomenon[]
+): WeatherCondition | null {
+  if (!weather || weather.length === 0) {
+    return null;
+  }
+
+  for (const phenomenon of priority) {
+    const match = weather.find(w => w.phenomenon === phenomenon);
+    if (match) {
+      return match;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,367 @@
+/**
+ * Unit tests for SIGMET/AIRMET/G-AIRMET advisories
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import axios from 'axios';
+import {
+  findCoveringAdvisories,
+  getPriorityAdvisory,
+  normalizeHazard,
+  parseAirSigmet,
+  parseGAirmet,
+  parseGAirmetAltitude,
+  pointInPolygon
+} from '../src/utils/advisories';
+import {
+  applyAdvisories,
+  fetchActiveAdvisories,
+  parseActiveAdvisories
+} from '../src/services/advisoryService';
+import { getColorForConditions, scaleColor } from '../src/utils/colorMapper';
+import { getAirportPosition, getAirportPositions } from '../src/utils/geo';
+import {
+  Advisory,
+  AirportConditions,
+  AirSigmetApiData,
+  Config,
+  GAirmetApiData,
+  MetarData
+} from '../src/types';
+import { mockConfig } from './mockConfig';
+
+function loadFixture<T>(name: string): T {
+  return JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf-8'));
+}
+
+const AIRSIGMETS = loadFixture<AirSigmetApiData[]>('airsigmet.json');
+const GAIRMETS = loadFixture<GAirmetApiData[]>('gairmet.json');
+const NOW = new Date('2026-02-17T17:00:00Z');
+
+const KCLT = { lat: 35.21, lon: -80.94 };
+const KDEN = { lat: 39.86, lon: -104.67 };
+const KORD = { lat: 41.98, lon: -87.9 };
+const KATL = { lat: 33.64, lon: -84.43 };
+
+function fakeMetar(icaoId: string, position: { lat: number; lon: number }): MetarData {
+  return {
+    icaoId,
+    rawOb: `${icaoId} 171652Z 20008KT 10SM CLR 22/10 A3012`,
+    receiptTime: '',
+    reportTime: '',
+    obsTime: 1771347120,
+    elev: 0,
+    name: icaoId,
+    ...position
+  };
+}
+
+function vfrConditions(advisories?: Advisory[]): AirportConditions {
+  return {
+    flightCategory: 'VFR',
+    windSpeed: 5,
+    windGustSpeed: 0,
+    windGust: false,
+    lightning: false,
+    advisories
+  };
+}
+
+describe('parseAirSigmet', () => {
+  it('should parse a convective SIGMET', () => {
+    const advisory = parseAirSigmet(AIRSIGMETS[0])!;
+
+    expect(advisory).toMatchObject({
+      id: 'CONVECTIVE SIGMET 45E',
+      type: 'CONVECTIVE SIGMET',
+      hazard: 'convective',
+      altitudeLow: undefined,
+      altitudeHigh: 42000,
+      validFrom: new Date('2026-02-17T16:55:00Z'),
+      validTo: new Date('2026-02-17T18:55:00Z')
+    });
+    expect(advisory.polygon).toHaveLength(5);
+  });
+
+  it('should parse SIGMET and AIRMET hazards and altitudes', () => {
+    expect(parseAirSigmet(AIRSIGMETS[1])).toMatchObject({
+      id: 'SIGMET UNIFORM 3',
+      type: 'SIGMET',
+      hazard: 'turbulence',
+      altitudeLow: 24000,
+      altitudeHigh: 39000
+    });
+    expect(parseAirSigmet(AIRSIGMETS[2])).toMatchObject({
+      id: 'AIRMET ZULU 2',
+      type: 'AIRMET',
+      hazard: 'icing',
+      severity: '2'
+    });
+  });
+
+  it('should skip outlooks', () => {
+    expect(parseAirSigmet(AIRSIGMETS[3])).toBeNull();
+  });
+
+  it('should skip entries without an area', () => {
+    expect(parseAirSigmet({ ...AIRSIGMETS[0], coords: AIRSIGMETS[0].coords.slice(0, 2) })).toBeNull();
+  });
+});
+
+describe('parseGAirmet', () => {
+  it('should parse a snapshot with string coordinates', () => {
+    const advisory = parseGAirmet(GAIRMETS[0])!;
+
+    expect(advisory).toMatchObject({
+      id: 'G-AIRMET 1W TURB-LO',
+      type: 'G-AIRMET',
+      hazard: 'turbulence',
+      severity: 'MOD',
+      altitudeLow: 0,
+      altitudeHigh: 15000,
+      validFrom: new Date('2026-02-17T16:30:00Z'),
+      validTo: new Date('2026-02-17T19:30:00Z')
+    });
+    expect(advisory.polygon[0]).toEqual({ lat: 40.8, lon: -106.2 });
+  });
+
+  it('should leave freezing level altitudes undefined', () => {
+    expect(parseGAirmet(GAIRMETS[2])).toMatchObject({ hazard: 'icing', altitudeHigh: 18000 });
+    expect(parseGAirmet(GAIRMETS[2])!.altitudeLow).toBeUndefined();
+  });
+
+  it('should skip freezing level lines', () => {
+    expect(parseGAirmet(GAIRMETS[3])).toBeNull();
+  });
+
+  it('should accept epoch validity times', () => {
+    const advisory = parseGAirmet({ ...GAIRMETS[0], validTime: 1771351200 })!;
+    expect(advisory.validFrom).toEqual(new Date('2026-02-17T16:30:00Z'));
+  });
+});
+
+describe('parseGAirmetAltitude', () => {
+  it('should convert hundreds of feet and the surface', () => {
+    expect(parseGAirmetAltitude('180')).toBe(18000);
+    expect(parseGAirmetAltitude(45)).toBe(4500);
+    expect(parseGAirmetAltitude('SFC')).toBe(0);
+    expect(parseGAirmetAltitude('FZL')).toBeUndefined();
+    expect(parseGAirmetAltitude(undefined)).toBeUndefined();
+  });
+});
+
+describe('normalizeHazard', () => {
+  it('should map feed codes to hazards', () => {
+    expect(normalizeHazard('TURB-HI')).toBe('turbulence');
+    expect(normalizeHazard('MTN OBSCN')).toBe('mountain');
+    expect(normalizeHazard('MT_OBSC')).toBe('mountain');
+    expect(normalizeHazard('SFC_WND')).toBe('wind');
+    expect(normalizeHazard('TC')).toBe('other');
+  });
+});
+
+describe('pointInPolygon', () => {
+  const square = [
+    { lat: 0, lon: 0 },
+    { lat: 0, lon: 10 },
+    { lat: 10, lon: 10 },
+    { lat: 10, lon: 0 }
+  ];
+
+  it('should find points inside and outside', () => {
+    expect(pointInPolygon({ lat: 5, lon: 5 }, square)).toBe(true);
+    expect(pointInPolygon({ lat: 15, lon: 5 }, square)).toBe(false);
+    expect(pointInPolygon({ lat: 5, lon: -1 }, square)).toBe(false);
+  });
+
+  it('should handle concave polygons', () => {
+    // "C" shape open to the east
+    const shape = [
+      { lat: 0, lon: 0 },
+      { lat: 0, lon: 10 },
+      { lat: 3, lon: 10 },
+      { lat: 3, lon: 3 },
+      { lat: 7, lon: 3 },
+      { lat: 7, lon: 10 },
+      { lat: 10, lon: 10 },
+      { lat: 10, lon: 0 }
+    ];
+    expect(pointInPolygon({ lat: 5, lon: 5 }, shape)).toBe(false);
+    expect(pointInPolygon({ lat: 5, lon: 1 }, shape)).toBe(true);
+  });
+
+  it('should cover the airports in the recorded advisories', () => {
+    const csigmet = parseAirSigmet(AIRSIGMETS[0])!;
+    expect(pointInPolygon(KCLT, csigmet.polygon)).toBe(true);
+    expect(pointInPolygon(KATL, csigmet.polygon)).toBe(false);
+  });
+});
+
+describe('parseActiveAdvisories', () => {
+  it('should keep active advisories with shown hazards at low altitude', () => {
+    const ids = parseActiveAdvisories(mockConfig, AIRSIGMETS, GAIRMETS, NOW).map(a => a.id);
+
+    // Not included: the high-level SIGMET, the outlook, the expired AIRMET,
+    // the later G-AIRMET snapshot, the freezing level and the IFR area
+    expect(ids).toEqual([
+      'CONVECTIVE SIGMET 45E',
+      'AIRMET ZULU 2',
+      'G-AIRMET 1W TURB-LO',
+      'G-AIRMET 2C ICE'
+    ]);
+  });
+
+  it('should include high-level advisories below ADVISORY_MAX_ALTITUDE', () => {
+    const config: Config = { ...mockConfig, advisoryMaxAltitude: 45000 };
+    const ids = parseActiveAdvisories(config, AIRSIGMETS, GAIRMETS, NOW).map(a => a.id);
+    expect(ids).toContain('SIGMET UNIFORM 3');
+  });
+
+  it('should only keep listed hazards', () => {
+    const config: Config = { ...mockConfig, advisoryHazards: ['ifr'] };
+    const ids = parseActiveAdvisories(config, AIRSIGMETS, GAIRMETS, NOW).map(a => a.id);
+    expect(ids).toEqual(['G-AIRMET 4E IFR']);
+  });
+});
+
+describe('applyAdvisories', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should flag the airports each advisory covers', () => {
+    const advisories = parseActiveAdvisories(mockConfig, AIRSIGMETS, GAIRMETS, NOW);
+    const positions = { KCLT, KDEN, KORD, KATL };
+    const conditionsMap = new Map<string, AirportConditions>();
+    const metarDataMap = new Map<string, MetarData>();
+
+    for (const [code, position] of Object.entries(positions)) {
+      conditionsMap.set(code, vfrConditions());
+      metarDataMap.set(code, fakeMetar(code, position));
+    }
+    const airports = Object.keys(positions).map((code, led) => ({ code, led }));
+
+    expect(applyAdvisories(conditionsMap, getAirportPositions(airports, metarDataMap), advisories)).toBe(3);
+    expect(conditionsMap.get('KCLT')!.advisories!.map(a => a.id)).toEqual(['CONVECTIVE SIGMET 45E']);
+    expect(conditionsMap.get('KDEN')!.advisories!.map(a => a.id)).toEqual(['G-AIRMET 1W TURB-LO']);
+    expect(conditionsMap.get('KORD')!.advisories!.map(a => a.id)).toEqual(['AIRMET ZULU 2', 'G-AIRMET 2C ICE']);
+    expect(conditionsMap.get('KATL')!.advisories).toEqual([]);
+  });
+
+  it('should skip airports without a position', () => {
+    const conditionsMap = new Map([['KCLT', vfrConditions()]]);
+    const advisories = parseActiveAdvisories(mockConfig, AIRSIGMETS, [], NOW);
+
+    expect(applyAdvisories(conditionsMap, new Map(), advisories)).toBe(0);
+    expect(conditionsMap.get('KCLT')!.advisories).toBeUndefined();
+  });
+
+  it('should use the airports.json position over the METAR station', () => {
+    const conditionsMap = new Map([['KATL', vfrConditions()]]);
+    const metarDataMap = new Map([['KATL', fakeMetar('KATL', KATL)]]);
+    const positions = getAirportPositions([{ code: 'KATL', led: 0, ...KCLT }], metarDataMap);
+    const advisories = parseActiveAdvisories(mockConfig, AIRSIGMETS, GAIRMETS, NOW);
+
+    expect(applyAdvisories(conditionsMap, positions, advisories)).toBe(1);
+    expect(conditionsMap.get('KATL')!.advisories!.map(a => a.id)).toEqual(['CONVECTIVE SIGMET 45E']);
+  });
+});
+
+describe('getAirportPosition', () => {
+  it('should prefer the airports.json position', () => {
+    expect(getAirportPosition({ lat: 1, lon: 2 }, fakeMetar('KCLT', KCLT))).toEqual({ lat: 1, lon: 2 });
+  });
+
+  it('should fall back to the METAR station position', () => {
+    expect(getAirportPosition({}, fakeMetar('KCLT', KCLT))).toEqual(KCLT);
+  });
+
+  it('should return null without either', () => {
+    expect(getAirportPosition({ lat: 1 }, undefined)).toBeNull();
+    expect(getAirportPosition(undefined, { icaoId: 'KCLT', lat: null } as unknown as MetarData)).toBeNull();
+  });
+});
+
+describe('fetchActiveAdvisories', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should combine both feeds', async () => {
+    jest.spyOn(axios, 'get').mockImplementation(async (url: string) => ({
+      data: url.includes('gairmet') ? GAIRMETS : AIRSIGMETS
+    }));
+
+    const advisories = await fetchActiveAdvisories(mockConfig, NOW);
+    expect(advisories).toHaveLength(4);
+  });
+
+  it('should continue when one feed fails', async () => {
+    jest.spyOn(axios, 'get').mockImplementation(async (url: string) => {
+      if (url.includes('gairmet')) {
+        throw new Error('network down');
+      }
+      return { data: AIRSIGMETS };
+    });
+
+    const advisories = await fetchActiveAdvisories(mockConfig, NOW);
+    expect(advisories.map(a => a.type)).toEqual(['CONVECTIVE SIGMET', 'AIRMET']);
+  });
+
+  it('should throw when both feeds fail', async () => {
+    jest.spyOn(axios, 'get').mockRejectedValue(new Error('network down'));
+    await expect(fetchActiveAdvisories(mockConfig, NOW)).rejects.toThrow('SIGMET/AIRMET');
+  });
+});
+
+describe('advisory overlay colors', () => {
+  const config: Config = { ...mockConfig, activateAdvisoryOverlay: true };
+  const csigmet = parseAirSigmet(AIRSIGMETS[0])!;
+  const icing = parseGAirmet(GAIRMETS[2])!;
+
+  it('should pulse the overlay color on the wind cycle', () => {
+    const conditions = vfrConditions([icing]);
+
+    expect(getColorForConditions(conditions, false, config, 0)).toEqual(config.colors.vfr);
+    expect(getColorForConditions(conditions, true, config, 1)).toEqual(config.colors.advisory);
+    expect(getColorForConditions(conditions, true, config, 3)).toEqual(scaleColor(config.colors.advisory, 0.5));
+  });
+
+  it('should use the convective color for convective SIGMETs', () => {
+    expect(getColorForConditions(vfrConditions([icing, csigmet]), true, config, 1))
+      .toEqual(config.colors.advisoryConvective);
+  });
+
+  it('should not show the overlay when disabled', () => {
+    expect(getColorForConditions(vfrConditions([icing]), true, mockConfig, 1)).toEqual(mockConfig.colors.vfr);
+  });
+
+  it('should let wind animation take priority', () => {
+    const windy = { ...vfrConditions([icing]), windSpeed: 20 };
+    expect(getColorForConditions(windy, true, config, 1)).toEqual(config.colors.clear);
+  });
+});
+
+describe('getPriorityAdvisory', () => {
+  it('should follow the hazard priority', () => {
+    const [csigmet, , turbulence] = parseActiveAdvisories(mockConfig, AIRSIGMETS, GAIRMETS, NOW);
+    expect(getPriorityAdvisory([turbulence, csigmet], ['convective', 'turbulence'])).toBe(csigmet);
+    expect(getPriorityAdvisory([turbulence, csigmet], ['icing'])).toBeNull();
+    expect(getPriorityAdvisory(undefined, ['icing'])).toBeNull();
+  });
+
+  it('should find covering advisories by position', () => {
+    const advisories = parseActiveAdvisories(mockConfig, AIRSIGMETS, GAIRMETS, NOW);
+    expect(findCoveringAdvisories(advisories, KATL)).toEqual([]);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Unit tests for the frame-based animation engine
+ */
+
+import { AnimationEngine } from '../src/services/animationEngine';
+import { ILedService } from '../src/services/ledService';
+import { Color, PowerDraw } from '../src/types';
+import { mockConfig } from './mockConfig';
+
+const GREEN: Color = mockConfig.colors.vfr;
+const BLUE: Color = mockConfig.colors.mvfr;
+
+/**
+ * LED service that records what the engine pushes
+ */
+class RecordingLedService implements ILedService {
+  pixels = new Map<number, Color>();
+  setPixelCalls = 0;
+  showCalls = 0;
+
+  setPixel(index: number, color: Color): void {
+    this.pixels.set(index, color);
+    this.setPixelCalls++;
+  }
+
+  show(): void {
+    this.showCalls++;
+  }
+
+  clear(): void {
+    this.pixels.clear();
+  }
+
+  setBrightness(): void {
+    // Not used by the engine
+  }
+
+  cleanup(): void {
+    // Not used by the engine
+  }
+
+  getPowerDraw(): PowerDraw {
+    return { requestedMa: 0, estimatedMa: 0, scale: 1 };
+  }
+}
+
+describe('AnimationEngine', () => {
+  let leds: RecordingLedService;
+  let engine: AnimationEngine;
+
+  beforeEach(() => {
+    leds = new RecordingLedService();
+    engine = new AnimationEngine(leds, mockConfig, () => 0.5);
+  });
+
+  it('should push only changed pixels and skip show() when nothing changed', () => {
+    engine.setTarget(0, { color: GREEN, effect: 'steady' }, 0);
+    engine.setTarget(1, { color: BLUE, effect: 'steady' }, 0);
+
+    expect(engine.renderFrame(0)).toBe(2);
+    expect(leds.showCalls).toBe(1);
+
+    expect(engine.renderFrame(50)).toBe(0);
+    expect(leds.showCalls).toBe(1);
+
+    engine.setTarget(1, { color: GREEN, effect: 'steady' }, 100);
+    expect(engine.renderFrame(100)).toBe(1);
+    expect(leds.setPixelCalls).toBe(3);
+    expect(leds.pixels.get(1)).toEqual(GREEN);
+  });
+
+  it('should crossfade from the current color over CROSSFADE_MS', () => {
+    engine.setTarget(0, { color: GREEN, effect: 'steady' }, 0);
+    engine.setTarget(0, { color: BLUE, effect: 'crossfade' }, 1000);
+
+    engine.renderFrame(1250);
+    expect(leds.pixels.get(0)).toEqual({ r: 0, g: 128, b: 128 });
+
+    engine.renderFrame(1500);
+    expect(leds.pixels.get(0)).toEqual(BLUE);
+  });
+
+  it('should start a new effect from wherever an interrupted one was', () => {
+    engine.setTarget(0, { color: GREEN, effect: 'steady' }, 0);
+    engine.setTarget(0, { color: BLUE, effect: 'crossfade' }, 0);
+    engine.setTarget(0, { color: GREEN, effect: 'crossfade' }, 250);
+
+    expect(engine.getColor(0, 250)).toEqual({ r: 0, g: 128, b: 128 });
+    expect(engine.getColor(0, 500)).toEqual({ r: 0, g: 192, b: 64 });
+  });
+
+  it('should ignore a target equal to the current one', () => {
+    engine.setTarget(0, { color: GREEN, effect: 'steady' }, 0);
+    engine.setTarget(0, { color: BLUE, effect: 'crossfade' }, 0);
+    engine.setTarget(0, { color: BLUE, effect: 'crossfade' }, 400);
+
+    // Still finishing the first crossfade
+    expect(engine.getColor(0, 500)).toEqual(BLUE);
+  });
+
+  it('should size effects from the animation settings', () => {
+    expect(engine.getEffectDuration('crossfade')).toBe(mockConfig.crossfadeMs);
+    expect(engine.getEffectDuration('pulse')).toBe(mockConfig.blinkSpeed * 500);
+    expect(engine.getEffectDuration('strobe')).toBe(mockConfig.blinkSpeed * 1000);
+    expect(engine.getEffectDuration('steady')).toBe(0);
+  });
+
+  it('should strobe lightning over the current color', () => {
+    engine.setTarget(0, { color: GREEN, effect: 'steady' }, 0);
+    engine.setTarget(0, { color: mockConfig.colors.lightning, effect: 'strobe' }, 1000);
+
+    // Flashes at 100-180 ms and 310-390 ms into the cycle
+    const colors = [1050, 1150, 1250, 1350].map(t => engine.getColor(0, t));
+    const lightning = mockConfig.colors.lightning;
+    expect(colors).toEqual([GREEN, lightning, GREEN, lightning]);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Unit tests for the flight category history
+ */
+
+import { CategoryHistoryService } from '../src/services/categoryHistoryService';
+import { AirportConditions, FlightCategory, MetarData } from '../src/types';
+
+// 2026-02-17 16:53Z
+const OBS_1653 = 1771347180;
+
+function metar(icaoId: string, obsTime: number): MetarData {
+  return {
+    icaoId,
+    rawOb: `${icaoId} 171653Z 20008KT 10SM CLR 22/10 A3012`,
+    receiptTime: '',
+    reportTime: '',
+    obsTime,
+    lat: 35.21,
+    lon: -80.94,
+    elev: 0,
+    name: icaoId
+  };
+}
+
+function conditions(flightCategory: FlightCategory): AirportConditions {
+  return {
+    flightCategory,
+    windSpeed: 5,
+    windGustSpeed: 0,
+    windGust: false,
+    lightning: false
+  };
+}
+
+/**
+ * Run one update cycle for a single airport and return its conditions
+ */
+function update(
+  history: CategoryHistoryService,
+  category: FlightCategory,
+  obsTime: number
+): AirportConditions {
+  const airport = conditions(category);
+  history.applyTrends(new Map([['KCLT', airport]]), new Map([['KCLT', metar('KCLT', obsTime)]]));
+  return airport;
+}
+
+describe('CategoryHistoryService', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should have no trend for the first observation', () => {
+    const history = new CategoryHistoryService(60);
+    const airport = update(history, 'VFR', OBS_1653);
+
+    expect(airport.trend).toBeUndefined();
+    expect(airport.previousCategory).toBeUndefined();
+  });
+
+  it('should record the same observation only once', () => {
+    const history = new CategoryHistoryService(60);
+    update(history, 'VFR', OBS_1653);
+    const airport = update(history, 'VFR', OBS_1653);
+
+    expect(history.getHistory('KCLT')).toHaveLength(1);
+    expect(airport.trend).toBeUndefined();
+  });
+
+  it('should compare against the oldest observation in the window', () => {
+    const history = new CategoryHistoryService(60);
+    update(history, 'VFR', OBS_1653 - 3600);
+    update(history, 'MVFR', OBS_1653 - 1200);
+    const airport = update(history, 'IFR', OBS_1653);
+
+    expect(airport.trend).toBe('deteriorating');
+    expect(airport.previousCategory).toBe('VFR');
+  });
+
+  it('should report improving and steady trends', () => {
+    const history = new CategoryHistoryService(60);
+    update(history, 'IFR', OBS_1653 - 3600);
+    expect(update(history, 'MVFR', OBS_1653).trend).toBe('improving');
+
+    const steady = new CategoryHistoryService(60);
+    update(steady, 'IFR', OBS_1653 - 3600);
+    update(steady, 'VFR', OBS_1653 - 1800);
+    const airport = update(steady, 'IFR', OBS_1653);
+    expect(airport.trend).toBe('steady');
+    expect(airport.previousCategory).toBe('IFR');
+  });
+
+  it('should drop observations older than the window', () => {
+    const history = new CategoryHistoryService(60);
+    update(history, 'LIFR', OBS_1653 - 7200);
+    update(history, 'VFR', OBS_1653 - 3600);
+    const airport = update(history, 'VFR', OBS_1653);
+
+    expect(history.getHistory('KCLT').map(o => o.category)).toEqual(['VFR', 'VFR']);
+    expect(airport.trend).toBe('steady');
+  });
+
+  it('should keep the previous observation when reports are far apart', () => {
+    const history = new CategoryHistoryService(60);
+    update(history, 'VFR', OBS_1653 - 3 * 3600);
+    const airport = update(history, 'IFR', OBS_1653);
+
+    expect(airport.trend).toBe('deteriorating');
+    expect(airport.previousCategory).toBe('VFR');
+  });
+
+  it('should skip airports without a category or METAR', () => {
+    const history = new CategoryHistoryService(60);
+    const unknown = conditions(null);
+    const missing = conditions('VFR');
+    const changed = history.applyTrends(
+      new Map([['KCLT', unknown], ['KDEN', missing]]),
+      new Map([['KCLT', metar('KCLT', OBS_1653)]])
+    );
+
+    expect(changed).toBe(0);
+    expect(history.getHistory('KCLT')).toEqual([]);
+    expect(history.getHistory('KDEN')).toEqual([]);
+  });
+
+  it('should count airports whose category changed', () => {
+    const history = new CategoryHistoryService(60);
+    const metars = new Map([
+      ['KCLT', metar('KCLT', OBS_1653 - 3600)],
+      ['KDEN', metar('KDEN', OBS_1653 - 3600)]
+    ]);
+    history.applyTrends(new Map([['KCLT', conditions('VFR')], ['KDEN', conditions('VFR')]]), metars);
+
+    metars.set('KCLT', metar('KCLT', OBS_1653));
+    metars.set('KDEN', metar('KDEN', OBS_1653));
+    const changed = history.applyTrends(
+      new Map([['KCLT', conditions('MVFR')], ['KDEN', conditions('VFR')]]),
+      metars
+    );
+    expect(changed).toBe(1);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Unit tests for channel ordering
+ */
+
+import {
+  CHANNEL_ORDERS,
+  extractWhite,
+  fromChannelOrder,
+  hasWhiteChannel,
+  packChannels,
+  toStripChannels
+} from '../src/utils/channelOrder';
+
+const COLOR = { r: 10, g: 20, b: 30 };
+
+describe('fromChannelOrder', () => {
+  it('should read GRB values as red, green and blue', () => {
+    expect(fromChannelOrder({ r: 255, g: 0, b: 0 }, 'GRB')).toEqual({ r: 0, g: 255, b: 0 });
+  });
+
+  it('should leave RGB values unchanged', () => {
+    expect(fromChannelOrder(COLOR, 'RGB')).toEqual(COLOR);
+  });
+
+  it('should keep the white value', () => {
+    expect(fromChannelOrder({ r: 1, g: 2, b: 3, w: 4 }, 'BGR')).toEqual({ r: 3, g: 2, b: 1, w: 4 });
+  });
+
+  it('should undo every strip order', () => {
+    for (const order of CHANNEL_ORDERS) {
+      const [r, g, b] = toStripChannels(COLOR, order);
+      expect(fromChannelOrder({ r, g, b }, order)).toEqual(COLOR);
+    }
+  });
+});
+
+describe('extractWhite', () => {
+  it('should move the shared part to the white channel', () => {
+    expect(extractWhite({ r: 255, g: 200, b: 100 })).toEqual({ r: 155, g: 100, b: 0, w: 100 });
+  });
+
+  it('should turn pure white into the white LED only', () => {
+    expect(extractWhite({ r: 255, g: 255, b: 255 })).toEqual({ r: 0, g: 0, b: 0, w: 255 });
+  });
+
+  it('should leave colors with a white value alone', () => {
+    const color = { r: 50, g: 50, b: 50, w: 0 };
+    expect(extractWhite(color)).toBe(color);
+  });
+});
+
+describe('toStripChannels', () => {
+  it('should put channels in wire order', () => {
+    expect(toStripChannels(COLOR, 'GRB')).toEqual([20, 10, 30]);
+    expect(toStripChannels(COLOR, 'BGR')).toEqual([30, 20, 10]);
+    expect(toStripChannels(COLOR, 'GBR')).toEqual([20, 30, 10]);
+  });
+
+  it('should extract white for RGBW strips', () => {
+    expect(toStripChannels(COLOR, 'RGBW')).toEqual([0, 10, 20, 10]);
+    expect(toStripChannels(COLOR, 'GRBW')).toEqual([10, 0, 20, 10]);
+  });
+
+  it('should fold white into the colors for RGB strips', () => {
+    expect(toStripChannels({ r: 250, g: 0, b: 0, w: 100 }, 'RGB')).toEqual([255, 100, 100]);
+  });
+
+  it('should report which orders have a white channel', () => {
+    expect(hasWhiteChannel('GRBW')).toBe(true);
+    expect(hasWhiteChannel('GRB')).toBe(false);
+  });
+});
+
+describe('packChannels', () => {
+  it('should pack three channels first channel highest', () => {
+    expect(packChannels([0x12, 0x34, 0x56])).toBe(0x123456);
+  });
+
+  it('should put a fourth channel in the top byte', () => {
+    expect(packChannels([0x12, 0x34, 0x56, 0xff])).toBe(0xff123456);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Unit tests for color calibration
+ */
+
+import { UNITY_FACTORS, createColorCorrection, createGammaTable } from '../src/utils/colorCalibration';
+import { ColorCalibration } from '../src/types';
+
+const LINEAR: ColorCalibration = {
+  gamma: 1,
+  whiteBalance: UNITY_FACTORS,
+  channelScale: UNITY_FACTORS,
+  ledCorrections: {}
+};
+
+describe('createGammaTable', () => {
+  it('should keep both ends and darken the middle', () => {
+    const table = createGammaTable(2.8);
+    expect(table).toHaveLength(256);
+    expect(table[0]).toBe(0);
+    expect(table[255]).toBe(255);
+    expect(Math.round(table[128])).toBe(37);
+  });
+
+  it('should be linear with gamma 1', () => {
+    expect(createGammaTable(1)[100]).toBeCloseTo(100);
+  });
+});
+
+describe('createColorCorrection', () => {
+  it('should pass colors through unchanged when linear', () => {
+    const correct = createColorCorrection(LINEAR);
+    expect(correct(0, { r: 12, g: 128, b: 255 })).toEqual({ r: 12, g: 128, b: 255 });
+  });
+
+  it('should make faded colors clearly dimmer than full colors', () => {
+    const correct = createColorCorrection({ ...LINEAR, gamma: 2.8 });
+    expect(correct(0, { r: 255, g: 0, b: 0 })).toEqual({ r: 255, g: 0, b: 0 });
+    expect(correct(0, { r: 128, g: 0, b: 0 })).toEqual({ r: 37, g: 0, b: 0 });
+  });
+
+  it('should apply white balance and channel scale together', () => {
+    const correct = createColorCorrection({
+      ...LINEAR,
+      whiteBalance: { r: 1, g: 1, b: 0.8 },
+      channelScale: { r: 0.5, g: 1, b: 0.5 }
+    });
+    expect(correct(0, { r: 255, g: 255, b: 255 })).toEqual({ r: 128, g: 255, b: 102 });
+  });
+
+  it('should apply per-LED corrections on top of the strip factors', () => {
+    const correct = createColorCorrection({
+      ...LINEAR,
+      channelScale: { r: 1, g: 1, b: 0.5 },
+      ledCorrections: { 3: { r: 1, g: 0.5, b: 1 } }
+    });
+    expect(correct(2, { r: 200, g: 200, b: 200 })).toEqual({ r: 200, g: 200, b: 100 });
+    expect(correct(3, { r: 200, g: 200, b: 200 })).toEqual({ r: 200, g: 100, b: 100 });
+  });
+
+  it('should clamp and round channel values', () => {
+    const correct = createColorCorrection(LINEAR);
+    expect(correct(0, { r: 300, g: -5, b: 99.6 })).toEqual({ r: 255, g: 0, b: 100 });
+  });
+});
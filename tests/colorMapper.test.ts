@@ -2,52 +2,14 @@
  * Unit tests for color mapping
  */
 
-import { getColorForConditions } from '../src/utils/colorMapper';
+import {
+  getAnimatedColorForConditions,
+  getColorForConditions,
+  getLegendColors,
+  scaleColor
+} from '../src/utils/colorMapper';
 import { AirportConditions, Config } from '../src/types';
-
-// Mock configuration for testing
-const mockConfig: Config = {
-  useMockGpio: true,
-  ledCount: 50,
-  ledPin: 18,
-  ledBrightness: 0.5,
-  ledBrightnessDim: 0.1,
-  ledOrder: 'GRB',
-  airports: [],
-  colors: {
-    vfr: { r: 255, g: 0, b: 0 },
-    vfrFade: { r: 128, g: 0, b: 0 },
-    mvfr: { r: 0, g: 0, b: 255 },
-    mvfrFade: { r: 0, g: 0, b: 128 },
-    ifr: { r: 0, g: 255, b: 0 },
-    ifrFade: { r: 0, g: 128, b: 0 },
-    lifr: { r: 255, g: 0, b: 255 },
-    lifrFade: { r: 128, g: 0, b: 128 },
-    clear: { r: 0, g: 0, b: 0 },
-    lightning: { r: 255, g: 255, b: 255 },
-    highWinds: { r: 255, g: 255, b: 0 }
-  },
-  activateWindAnimation: true,
-  activateLightningAnimation: true,
-  fadeInsteadOfBlink: false,
-  windBlinkThreshold: 15,
-  highWindsThreshold: 25,
-  alwaysBlinkForGusts: false,
-  blinkSpeed: 1.0,
-  blinkTotalTimeSeconds: 300,
-  activateDaytimeDimming: false,
-  brightTimeStart: '07:00',
-  dimTimeStart: '19:00',
-  useSunriseSunset: false,
-  showLegend: false,
-  offsetLegendBy: 0,
-  metarApiUrl: 'https://aviationweather.gov/api/data/metar',
-  metarUpdateInterval: 5,
-  mockGpioColors: true,
-  mockGpioFormat: 'strip',
-  statePath: '/tmp/metar-state.json',
-  enableLogging: false
-};
+import { mockConfig } from './mockConfig';
 
 describe('getColorForConditions', () => {
   describe('null/undefined handling', () => {
@@ -150,6 +112,44 @@ describe('getColorForConditions', () => {
     });
   });
 
+  describe('lightning flash patterns', () => {
+    const base: AirportConditions = {
+      flightCategory: 'VFR',
+      windSpeed: 5,
+      windGustSpeed: 0,
+      windGust: false,
+      lightning: true
+    };
+
+    // Lightning cycles are the even cycle counts (windCycle = false)
+    const flashes = (conditions: AirportConditions): boolean[] =>
+      [0, 2, 4, 6, 8, 10, 12, 14].map(cycle =>
+        getColorForConditions(conditions, false, mockConfig, cycle) !== mockConfig.colors.vfr
+      );
+
+    it('should flash on-station thunderstorms every lightning cycle', () => {
+      const conditions = { ...base, thunderstorm: true };
+      expect(flashes(conditions)).toEqual([true, true, true, true, true, true, true, true]);
+    });
+
+    it('should flash vicinity thunderstorms every second lightning cycle', () => {
+      const conditions = { ...base, vicinityThunderstorm: true };
+      expect(flashes(conditions)).toEqual([true, false, true, false, true, false, true, false]);
+    });
+
+    it('should flash distant lightning every fourth lightning cycle at half brightness', () => {
+      const conditions = { ...base, distantLightning: true };
+      expect(flashes(conditions)).toEqual([true, false, false, false, true, false, false, false]);
+      expect(getColorForConditions(conditions, false, mockConfig, 0))
+        .toEqual(scaleColor(mockConfig.colors.lightning, 0.5));
+    });
+
+    it('should use the closest activity when several are reported', () => {
+      const conditions = { ...base, thunderstorm: true, distantLightning: true };
+      expect(getColorForConditions(conditions, false, mockConfig, 2)).toEqual(mockConfig.colors.lightning);
+    });
+  });
+
   describe('high winds priority', () => {
     it('should show high winds color when winds exceed threshold', () => {
       const conditions: AirportConditions = {
@@ -257,4 +257,197 @@ describe('getColorForConditions', () => {
       expect(color).toEqual(mockConfig.colors.highWinds);
     });
   });
+
+  describe('stale observations', () => {
+    const staleConditions: AirportConditions = {
+      flightCategory: 'IFR',
+      windSpeed: 30,
+      windGustSpeed: 35,
+      windGust: true,
+      lightning: true,
+      ageMinutes: 120,
+      stale: true
+    };
+
+    it('should dim stale data and suppress animations', () => {
+      expect(getColorForConditions(staleConditions, false, mockConfig)).toEqual(mockConfig.colors.ifrFade);
+      expect(getColorForConditions(staleConditions, true, mockConfig)).toEqual(mockConfig.colors.ifrFade);
+    });
+
+    it('should pulse stale data between fade and full color', () => {
+      const pulseConfig = { ...mockConfig, staleDisplay: 'pulse' as const };
+      expect(getColorForConditions(staleConditions, false, pulseConfig)).toEqual(mockConfig.colors.ifr);
+      expect(getColorForConditions(staleConditions, true, pulseConfig)).toEqual(mockConfig.colors.ifrFade);
+    });
+
+    it('should display stale data normally when stale display is off', () => {
+      const offConfig = { ...mockConfig, staleDisplay: 'off' as const };
+      expect(getColorForConditions(staleConditions, false, offConfig)).toEqual(mockConfig.colors.lightning);
+    });
+  });
+
+  describe('weather phenomena', () => {
+    const weatherConfig: Config = { ...mockConfig, activateWeatherAnimation: true };
+
+    const snowy: AirportConditions = {
+      flightCategory: 'IFR',
+      windSpeed: 5,
+      windGustSpeed: 0,
+      windGust: false,
+      lightning: false,
+      weather: [
+        { phenomenon: 'snow', intensity: 'moderate', token: 'SN' },
+        { phenomenon: 'freezing', intensity: 'light', token: '-FZDZ' }
+      ]
+    };
+
+    it('should be ignored when weather animation is disabled', () => {
+      expect(getColorForConditions(snowy, false, mockConfig)).toEqual(mockConfig.colors.ifr);
+    });
+
+    it('should flash the highest priority phenomenon against the category color', () => {
+      // Freezing drizzle outranks snow by default and is light (half brightness)
+      expect(getColorForConditions(snowy, false, weatherConfig))
+        .toEqual(scaleColor(mockConfig.colors.freezing, 0.5));
+      expect(getColorForConditions(snowy, true, weatherConfig)).toEqual(mockConfig.colors.ifr);
+    });
+
+    it('should follow the configured priority order', () => {
+      const snowFirst: Config = { ...weatherConfig, weatherPriority: ['snow', 'freezing'] };
+      expect(getColorForConditions(snowy, false, snowFirst)).toEqual(mockConfig.colors.snow);
+    });
+
+    it('should hold steady phenomena through the wind cycle', () => {
+      const steadySnow: Config = {
+        ...weatherConfig,
+        weatherPriority: ['snow'],
+        weatherAnimation: { ...mockConfig.weatherAnimation, snow: 'steady' }
+      };
+      expect(getColorForConditions(snowy, true, steadySnow)).toEqual(mockConfig.colors.snow);
+    });
+
+    it('should hold heavy intensity through the wind cycle', () => {
+      const heavy: AirportConditions = {
+        ...snowy,
+        weather: [{ phenomenon: 'snow', intensity: 'heavy', token: '+SN' }]
+      };
+      expect(getColorForConditions(heavy, true, weatherConfig)).toEqual(mockConfig.colors.snow);
+    });
+
+    it('should rank below lightning and leave wind effects on the wind cycle', () => {
+      const stormy: AirportConditions = { ...snowy, lightning: true, windSpeed: 30, windGust: true };
+      expect(getColorForConditions(stormy, false, weatherConfig)).toEqual(mockConfig.colors.lightning);
+      expect(getColorForConditions(stormy, true, weatherConfig)).toEqual(mockConfig.colors.highWinds);
+    });
+  });
+});
+
+describe('getAnimatedColorForConditions', () => {
+  const base: AirportConditions = {
+    flightCategory: 'VFR',
+    windSpeed: 5,
+    windGustSpeed: 0,
+    windGust: false,
+    lightning: false
+  };
+
+  it('should crossfade to the category color', () => {
+    expect(getAnimatedColorForConditions(base, false, mockConfig)).toEqual({
+      color: mockConfig.colors.vfr,
+      effect: 'crossfade'
+    });
+  });
+
+  it('should strobe lightning', () => {
+    const stormy: AirportConditions = { ...base, lightning: true, thunderstorm: true };
+    expect(getAnimatedColorForConditions(stormy, false, mockConfig)).toEqual({
+      color: mockConfig.colors.lightning,
+      effect: 'strobe'
+    });
+  });
+
+  it('should pulse wind effects', () => {
+    const windy: AirportConditions = { ...base, windSpeed: 20 };
+    const gusty: AirportConditions = { ...base, windSpeed: 30, windGustSpeed: 35, windGust: true };
+    expect(getAnimatedColorForConditions(windy, true, mockConfig).effect).toBe('pulse');
+    expect(getAnimatedColorForConditions(gusty, true, mockConfig)).toEqual({
+      color: mockConfig.colors.highWinds,
+      effect: 'pulse'
+    });
+  });
+
+  it('should match getColorForConditions', () => {
+    const windy: AirportConditions = { ...base, windSpeed: 20, lightning: true };
+    for (let cycle = 0; cycle < 8; cycle++) {
+      const windCycle = cycle % 2 === 1;
+      expect(getAnimatedColorForConditions(windy, windCycle, mockConfig, cycle).color)
+        .toEqual(getColorForConditions(windy, windCycle, mockConfig, cycle));
+    }
+  });
+});
+
+describe('category trend flash', () => {
+  const worsening: AirportConditions = {
+    flightCategory: 'IFR',
+    windSpeed: 5,
+    windGustSpeed: 0,
+    windGust: false,
+    lightning: false,
+    previousCategory: 'MVFR',
+    trend: 'deteriorating'
+  };
+  const improving: AirportConditions = { ...worsening, previousCategory: 'LIFR', trend: 'improving' };
+  const flashConfig: Config = { ...mockConfig, trendAnimation: 'flash' };
+
+  it('should flash the previous category on the last of every TREND_FLASH_EVERY cycles', () => {
+    const colors = [0, 1, 2, 3, 4, 5, 6, 7].map(cycle =>
+      getColorForConditions(worsening, cycle % 2 === 1, flashConfig, cycle)
+    );
+    const ifr = mockConfig.colors.ifr;
+    const mvfr = mockConfig.colors.mvfr;
+    expect(colors).toEqual([ifr, ifr, ifr, mvfr, ifr, ifr, ifr, mvfr]);
+  });
+
+  it('should not flash when the animation is off or the category is steady', () => {
+    expect(getColorForConditions(worsening, true, mockConfig, 3)).toEqual(mockConfig.colors.ifr);
+    const steady: AirportConditions = { ...worsening, previousCategory: 'IFR', trend: 'steady' };
+    expect(getColorForConditions(steady, true, flashConfig, 3)).toEqual(mockConfig.colors.ifr);
+  });
+
+  it('should only flash deteriorating airports when configured', () => {
+    const config: Config = { ...mockConfig, trendAnimation: 'deteriorating' };
+    expect(getColorForConditions(worsening, true, config, 3)).toEqual(mockConfig.colors.mvfr);
+    expect(getColorForConditions(improving, true, config, 3)).toEqual(mockConfig.colors.ifr);
+    expect(getColorForConditions(improving, true, flashConfig, 3)).toEqual(mockConfig.colors.lifr);
+  });
+
+  it('should rank below wind effects', () => {
+    const windy: AirportConditions = { ...worsening, windSpeed: 20 };
+    expect(getColorForConditions(windy, true, flashConfig, 3)).not.toEqual(mockConfig.colors.mvfr);
+  });
+});
+
+describe('getLegendColors', () => {
+  it('should show the standard 7 legend entries', () => {
+    expect(getLegendColors(false, mockConfig)).toHaveLength(7);
+  });
+
+  it('should add a trend example when the trend animation is enabled', () => {
+    const config: Config = { ...mockConfig, trendAnimation: 'flash' };
+    expect(getLegendColors(false, config)[7]).toEqual(mockConfig.colors.mvfr);
+    expect(getLegendColors(true, config)[7]).toEqual(mockConfig.colors.vfr);
+  });
+
+  it('should add weather phenomena in priority order when enabled', () => {
+    const config: Config = {
+      ...mockConfig,
+      activateWeatherAnimation: true,
+      weatherPriority: ['freezing', 'snow']
+    };
+    const colors = getLegendColors(false, config);
+
+    expect(colors).toHaveLength(9);
+    expect(colors.slice(7)).toEqual([mockConfig.colors.freezing, mockConfig.colors.snow]);
+    expect(getLegendColors(true, config).slice(7)).toEqual([mockConfig.colors.vfr, mockConfig.colors.vfr]);
+  });
 });
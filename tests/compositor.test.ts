@@ -0,0 +1,183 @@
+/**
+ * Unit tests for the LED compositor
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Compositor } from '../src/services/compositor';
+import { getDisplayMode, interpolateGradient } from '../src/utils/displayModes';
+import { mixColors } from '../src/utils/effects';
+import { AirportConditions, Config, MetarData } from '../src/types';
+import { mockConfig } from './mockConfig';
+
+const category = getDisplayMode('category');
+
+const windy: AirportConditions = {
+  flightCategory: 'VFR',
+  windSpeed: 30,
+  windGustSpeed: 0,
+  windGust: false,
+  lightning: false
+};
+
+describe('Compositor', () => {
+  let compositor: Compositor;
+
+  beforeEach(() => {
+    compositor = new Compositor(mockConfig);
+  });
+
+  it('should match the flight category display with every layer on', () => {
+    for (const cycle of [0, 1, 2, 3]) {
+      expect(compositor.render(category, { conditions: windy, metar: undefined }, cycle)).toEqual(
+        category.getAnimatedColor(windy, undefined, cycle % 2 === 1, mockConfig, cycle)
+      );
+    }
+  });
+
+  it('should leave out disabled layers', () => {
+    expect(compositor.render(category, { conditions: windy, metar: undefined }, 1).color)
+      .toEqual(mockConfig.colors.highWinds);
+
+    compositor.setLayerEnabled('wind', false);
+    expect(compositor.isLayerEnabled('wind')).toBe(false);
+    expect(compositor.render(category, { conditions: windy, metar: undefined }, 1))
+      .toEqual({ color: mockConfig.colors.vfr, effect: 'crossfade' });
+
+    compositor.setLayerEnabled('wind', true);
+    expect(compositor.render(category, { conditions: windy, metar: undefined }, 1).color)
+      .toEqual(mockConfig.colors.highWinds);
+  });
+
+  it('should start with DISABLED_LAYERS off', () => {
+    const config: Config = { ...mockConfig, disabledLayers: ['legend'] };
+    const legend = { conditions: undefined, metar: undefined, legend: mockConfig.colors.mvfr };
+    expect(new Compositor(config).render(category, legend, 0).color).toEqual(mockConfig.colors.clear);
+    expect(compositor.render(category, legend, 0)).toEqual({ color: mockConfig.colors.mvfr, effect: 'steady' });
+  });
+
+  it('should tint LEDs with system alerts until cleared', () => {
+    const calm: AirportConditions = { ...windy, windSpeed: 5 };
+    expect(compositor.raiseAlert('update-failed')).toBe(true);
+    expect(compositor.raiseAlert('update-failed')).toBe(false);
+
+    expect(compositor.render(category, { conditions: calm, metar: undefined }, 1)).toEqual({
+      color: mixColors(mockConfig.colors.vfr, mockConfig.colors.alert, 0.5),
+      effect: 'pulse'
+    });
+    expect(compositor.render(category, { conditions: calm, metar: undefined }, 2).color)
+      .toEqual(mockConfig.colors.vfr);
+
+    expect(compositor.clearAlert('update-failed')).toBe(true);
+    expect(compositor.clearAlert('update-failed')).toBe(false);
+    expect(compositor.render(category, { conditions: calm, metar: undefined }, 1).color)
+      .toEqual(mockConfig.colors.vfr);
+  });
+
+  it('should bump the version on every change', () => {
+    const versions = [compositor.version];
+    compositor.setLayerEnabled('pirep', false);
+    versions.push(compositor.version);
+    compositor.setLayerEnabled('pirep', false);
+    versions.push(compositor.version);
+    compositor.raiseAlert('test');
+    versions.push(compositor.version);
+    compositor.clearAlert('test');
+    versions.push(compositor.version);
+
+    expect(versions).toEqual([0, 1, 1, 2, 3]);
+  });
+
+  it('should draw gradient modes through their base layer', () => {
+    const temperature = getDisplayMode('temperature');
+    const metar = { icaoId: 'KCLT', temp: 20 } as MetarData;
+    expect(compositor.render(temperature, { conditions: windy, metar }, 1))
+      .toEqual(temperature.getAnimatedColor(windy, metar, true, mockConfig, 1));
+
+    compositor.setLayerEnabled('base', false);
+    expect(compositor.render(temperature, { conditions: windy, metar }, 0).color)
+      .toEqual(mockConfig.colors.clear);
+  });
+
+  it('should draw the overlays over gradient modes', () => {
+    const temperature = getDisplayMode('temperature');
+    const metar = { icaoId: 'KCLT', temp: 20 } as MetarData;
+    expect(compositor.render(temperature, { conditions: windy, metar }, 1))
+      .toEqual({ color: mockConfig.colors.highWinds, effect: 'pulse' });
+
+    compositor.setLayerEnabled('wind', false);
+    expect(compositor.render(temperature, { conditions: windy, metar }, 1).color)
+      .toEqual(interpolateGradient(mockConfig.gradients.temperature, 20));
+  });
+});
+
+describe('Compositor layer control file', () => {
+  let dir: string;
+  let controlPath: string;
+  let config: Config;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'metar-layers-'));
+    controlPath = path.join(dir, 'metar-layers.json');
+    config = { ...mockConfig, disabledLayers: ['pirep'], layerControlPath: controlPath };
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should turn off the layers the file lists and turn the rest on', async () => {
+    const compositor = new Compositor(config);
+    fs.writeFileSync(controlPath, JSON.stringify({ disabledLayers: ['wind', 'legend'] }));
+
+    expect(await compositor.loadLayerControl()).toBe(true);
+    expect(compositor.isLayerEnabled('wind')).toBe(false);
+    expect(compositor.isLayerEnabled('legend')).toBe(false);
+    expect(compositor.isLayerEnabled('pirep')).toBe(true);
+    expect(await compositor.loadLayerControl()).toBe(false);
+  });
+
+  it('should go back to DISABLED_LAYERS when the file is removed', async () => {
+    const compositor = new Compositor(config);
+    fs.writeFileSync(controlPath, JSON.stringify({ disabledLayers: [] }));
+    await compositor.loadLayerControl();
+    expect(compositor.isLayerEnabled('pirep')).toBe(true);
+
+    fs.rmSync(controlPath);
+    await compositor.loadLayerControl();
+    expect(compositor.isLayerEnabled('pirep')).toBe(false);
+  });
+
+  it('should keep the layers as they are when the file is invalid', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const compositor = new Compositor(config);
+    fs.writeFileSync(controlPath, JSON.stringify({ disabledLayers: ['sparkles'] }));
+
+    expect(await compositor.loadLayerControl()).toBe(false);
+    expect(compositor.isLayerEnabled('pirep')).toBe(false);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Unknown layer: sparkles'));
+  });
+
+  it('should switch layers while running when the file changes', async () => {
+    const compositor = new Compositor(config);
+    const stop = compositor.watchLayerControl(controlPath, 10);
+    const windyLed = { conditions: windy, metar: undefined };
+
+    try {
+      expect(compositor.render(category, windyLed, 1).color).toEqual(mockConfig.colors.highWinds);
+
+      const version = compositor.version;
+      fs.writeFileSync(controlPath, JSON.stringify({ disabledLayers: ['wind'] }));
+      for (let i = 0; i < 100 && compositor.version === version; i++) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+
+      expect(compositor.render(category, windyLed, 1).color).toEqual(mockConfig.colors.vfr);
+    } finally {
+      stop();
+    }
+  });
+});
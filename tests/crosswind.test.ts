@@ -0,0 +1,133 @@
+/**
+ * Unit tests for runway wind components
+ */
+
+import { exceedsRunwayWindLimits, getRunwayWind, windComponents } from '../src/utils/crosswind';
+import { getDisplayMode } from '../src/utils/displayModes';
+import { AirportConditions, Config, MetarData, RunwayConfig } from '../src/types';
+import { mockConfig } from './mockConfig';
+
+// KCLT-style parallel runways plus a crossing runway
+const RUNWAYS: RunwayConfig[] = [
+  { heading: 180, length: 10000, name: '18C/36C' },
+  { heading: 230, length: 7502, name: '05/23' }
+];
+
+describe('windComponents', () => {
+  it('should split a direct crosswind', () => {
+    expect(windComponents(270, 20, 180)).toEqual({ headwind: 0, crosswind: 20 });
+  });
+
+  it('should report a wind down the runway as headwind', () => {
+    expect(windComponents(360, 20, 360)).toEqual({ headwind: 20, crosswind: 0 });
+    expect(windComponents(180, 20, 360)).toEqual({ headwind: -20, crosswind: 0 });
+  });
+
+  it('should split a wind 30 degrees off the runway', () => {
+    expect(windComponents(210, 20, 180)).toEqual({ headwind: 17.3, crosswind: 10 });
+  });
+});
+
+describe('getRunwayWind', () => {
+  it('should pick the runway end with the least crosswind', () => {
+    const wind = getRunwayWind(RUNWAYS, 220, 20, 0, mockConfig);
+
+    expect(wind).toMatchObject({ runway: '23', heading: 230, crosswind: 3.5, tailwind: 0 });
+    expect(wind!.headwind).toBeCloseTo(19.7, 1);
+  });
+
+  it('should use the end into the wind', () => {
+    expect(getRunwayWind(RUNWAYS, 10, 12, 0, mockConfig)).toMatchObject({
+      runway: '36C',
+      heading: 0,
+      headwind: 11.8,
+      tailwind: 0
+    });
+  });
+
+  it('should use the gust speed as the worst case', () => {
+    expect(getRunwayWind(RUNWAYS, 270, 10, 25, mockConfig)?.crosswind).toBeCloseTo(16.1, 1);
+  });
+
+  it('should avoid one-way runways over the tailwind limit', () => {
+    // The one-way runway 09 has no crosswind but a 20 kt tailwind
+    const runways: RunwayConfig[] = [{ heading: 90, oneWay: true }, { heading: 160 }];
+
+    expect(getRunwayWind(runways, 270, 20, 0, mockConfig))
+      .toMatchObject({ runway: '34', tailwind: 0, crosswind: 18.8 });
+    expect(getRunwayWind(runways, 270, 20, 0, { ...mockConfig, tailwindLimit: 25 }))
+      .toMatchObject({ runway: '09', tailwind: 20, crosswind: 0 });
+  });
+
+  it('should take the least crosswind when every end is over the tailwind limit', () => {
+    const config: Config = { ...mockConfig, tailwindLimit: 5 };
+    expect(getRunwayWind([{ heading: 90, oneWay: true }], 240, 20, 0, config))
+      .toMatchObject({ runway: '09', tailwind: 17.3, crosswind: 10 });
+  });
+
+  it('should treat variable wind as a direct crosswind', () => {
+    expect(getRunwayWind(RUNWAYS, 'VRB', 6, 0, mockConfig)).toMatchObject({ crosswind: 6, tailwind: 0 });
+  });
+
+  it('should report calm wind as no crosswind', () => {
+    expect(getRunwayWind(RUNWAYS, 0, 0, 0, mockConfig)).toMatchObject({ crosswind: 0, tailwind: 0 });
+  });
+
+  it('should ignore runways shorter than the minimum length', () => {
+    const config: Config = { ...mockConfig, runwayMinLength: 8000 };
+    expect(getRunwayWind(RUNWAYS, 220, 20, 0, config)?.runway).toBe('18C');
+    expect(getRunwayWind([{ heading: 50, length: 3000 }], 220, 20, 0, config)).toBeUndefined();
+  });
+
+  it('should return undefined without runways', () => {
+    expect(getRunwayWind(undefined, 220, 20, 0, mockConfig)).toBeUndefined();
+    expect(getRunwayWind([], 220, 20, 0, mockConfig)).toBeUndefined();
+  });
+
+  it('should derive designators from the heading without a name', () => {
+    expect(getRunwayWind([{ heading: 3 }], 10, 10, 0, mockConfig)?.runway).toBe('36');
+    expect(getRunwayWind([{ heading: 47 }], 50, 10, 0, mockConfig)?.runway).toBe('05');
+  });
+});
+
+describe('exceedsRunwayWindLimits', () => {
+  const wind = { runway: '23', heading: 230, headwind: 5, crosswind: 10, tailwind: 0 };
+
+  it('should compare against the crosswind and tailwind limits', () => {
+    expect(exceedsRunwayWindLimits(wind, mockConfig)).toBe(false);
+    expect(exceedsRunwayWindLimits({ ...wind, crosswind: 16 }, mockConfig)).toBe(true);
+    expect(exceedsRunwayWindLimits({ ...wind, headwind: -12, tailwind: 12 }, mockConfig)).toBe(true);
+  });
+});
+
+describe('crosswind display mode', () => {
+  const metar = { icaoId: 'KCLT', rawOb: 'KCLT 171652Z 27020KT 10SM CLR 20/12 A3012' } as MetarData;
+  const conditions = (crosswind: number): AirportConditions => ({
+    flightCategory: 'VFR',
+    windSpeed: 20,
+    windGustSpeed: 0,
+    windGust: false,
+    lightning: false,
+    runwayWind: { runway: '23', heading: 230, headwind: 10, crosswind, tailwind: 0 }
+  });
+  const mode = getDisplayMode('crosswind');
+
+  it('should color the crosswind along the gradient', () => {
+    expect(mode.getValue(metar, conditions(7.5))).toBe(7.5);
+    expect(mode.getColor(conditions(7.5), metar, false, mockConfig, 0)).toEqual({ r: 128, g: 128, b: 0 });
+  });
+
+  it('should flash airports over the crosswind limit', () => {
+    const color = mockConfig.gradients.crosswind[1].color;
+    expect(mode.getColor(conditions(20), metar, false, mockConfig, 0)).toEqual(color);
+    expect(mode.getColor(conditions(20), metar, true, mockConfig, 0)).toEqual(mockConfig.colors.clear);
+    // Calm enough not to blink for the wind either
+    const calm = { ...conditions(7.5), windSpeed: 5 };
+    expect(mode.getColor(calm, metar, true, mockConfig, 0)).not.toEqual(mockConfig.colors.clear);
+  });
+
+  it('should turn airports without runways off', () => {
+    const { runwayWind: _runwayWind, ...noRunways } = conditions(0);
+    expect(mode.getColor(noRunways, metar, false, mockConfig, 0)).toEqual(mockConfig.colors.clear);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Unit tests for pressure and density altitude
+ */
+
+import { densityAltitude, getAltitudes, pressureAltitude } from '../src/utils/densityAltitude';
+import { MetarData } from '../src/types';
+
+// Denver on a hot summer afternoon (elevation 1656 m / 5434 ft, A3012)
+const KDEN = {
+  icaoId: 'KDEN',
+  rawOb: 'KDEN 172253Z 35010KT 10SM SCT080 30/05 A3012',
+  temp: 30,
+  dewp: 5,
+  altim: 1020,
+  elev: 1656
+} as MetarData;
+
+describe('pressureAltitude', () => {
+  it('should equal the elevation on a standard day', () => {
+    expect(pressureAltitude(29.92, 0)).toBeCloseTo(0, -1);
+    expect(pressureAltitude(29.92, 5000)).toBeCloseTo(5000, -1);
+  });
+
+  it('should rise about 1000 ft per inHg below standard', () => {
+    expect(pressureAltitude(28.92, 5000)).toBeGreaterThan(5900);
+    expect(pressureAltitude(28.92, 5000)).toBeLessThan(6100);
+  });
+});
+
+describe('densityAltitude', () => {
+  it('should equal pressure altitude in dry standard air', () => {
+    expect(Math.abs(densityAltitude(29.92, 0, 15))).toBeLessThan(30);
+  });
+
+  it('should rise about 120 ft per degree above standard', () => {
+    const standard = densityAltitude(29.92, 5000, 5);
+    const hot = densityAltitude(29.92, 5000, 25);
+    expect(hot - standard).toBeGreaterThan(2200);
+    expect(hot - standard).toBeLessThan(2700);
+  });
+
+  it('should be higher in humid air', () => {
+    expect(densityAltitude(29.92, 0, 30, 25)).toBeGreaterThan(densityAltitude(29.92, 0, 30));
+  });
+});
+
+describe('getAltitudes', () => {
+  it('should convert METAR units (hPa, meters) and round to feet', () => {
+    const { pressureAltitude, densityAltitude } = getAltitudes(KDEN);
+
+    expect(pressureAltitude).toBeGreaterThan(5200);
+    expect(pressureAltitude).toBeLessThan(5300);
+    expect(densityAltitude).toBeGreaterThan(8150);
+    expect(densityAltitude).toBeLessThan(8350);
+    expect(Number.isInteger(densityAltitude)).toBe(true);
+  });
+
+  it('should compute density altitude without a dewpoint', () => {
+    expect(getAltitudes({ ...KDEN, dewp: undefined }).densityAltitude).toBeDefined();
+  });
+
+  it('should leave out values the observation cannot support', () => {
+    expect(getAltitudes({ ...KDEN, temp: undefined })).toEqual({
+      pressureAltitude: getAltitudes(KDEN).pressureAltitude
+    });
+    expect(getAltitudes({ ...KDEN, altim: undefined })).toEqual({});
+    expect(getAltitudes(undefined)).toEqual({});
+  });
+});
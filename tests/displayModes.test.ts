@@ -0,0 +1,209 @@
+/**
+ * Unit tests for display modes
+ */
+
+import {
+  getActiveDisplayMode,
+  getBandColor,
+  getDisplayMode,
+  getDisplayModeLegend,
+  interpolateGradient
+} from '../src/utils/displayModes';
+import { scaleColor } from '../src/utils/colorMapper';
+import { AirportConditions, Config, MetarData } from '../src/types';
+import { mockConfig } from './mockConfig';
+
+const METAR: MetarData = {
+  icaoId: 'KCLT',
+  rawOb: 'KCLT 171652Z 20012G22KT 10SM FEW050 BKN250 20/12 A3012 RMK AO2 SLP120 57015',
+  receiptTime: '',
+  reportTime: '',
+  obsTime: 1771347120,
+  temp: 20,
+  dewp: 12,
+  wdir: 200,
+  wspd: 12,
+  wgst: 22,
+  visib: '10+',
+  altim: 1020,
+  lat: 35.2,
+  lon: -80.9,
+  elev: 229,
+  name: 'KCLT',
+  clouds: [{ cover: 'FEW', base: 5000 }, { cover: 'BKN', base: 25000 }]
+};
+
+const CONDITIONS: AirportConditions = {
+  flightCategory: 'VFR',
+  windSpeed: 12,
+  windGustSpeed: 22,
+  windGust: true,
+  lightning: false
+};
+
+describe('interpolateGradient', () => {
+  const stops = [
+    { value: 0, color: { r: 0, g: 0, b: 200 } },
+    { value: 10, color: { r: 200, g: 0, b: 0 } }
+  ];
+
+  it('should interpolate between stops', () => {
+    expect(interpolateGradient(stops, 5)).toEqual({ r: 100, g: 0, b: 100 });
+  });
+
+  it('should clamp values outside the gradient', () => {
+    expect(interpolateGradient(stops, -5)).toEqual(stops[0].color);
+    expect(interpolateGradient(stops, 50)).toEqual(stops[1].color);
+    expect(interpolateGradient(stops, Infinity)).toEqual(stops[1].color);
+  });
+});
+
+describe('getBandColor', () => {
+  const bands = mockConfig.densityAltitudeBands;
+
+  it('should use the color of the band the value falls in', () => {
+    expect(getBandColor(bands, 2999)).toEqual(bands[0].color);
+    expect(getBandColor(bands, 3000)).toEqual(bands[1].color);
+    expect(getBandColor(bands, 12000)).toEqual(bands[2].color);
+  });
+
+  it('should use the first band below the first threshold', () => {
+    expect(getBandColor(bands, -500)).toEqual(bands[0].color);
+  });
+});
+
+describe('display mode values', () => {
+  it('should read temperature and dewpoint spread', () => {
+    expect(getDisplayMode('temperature').getValue(METAR)).toBe(20);
+    expect(getDisplayMode('spread').getValue(METAR)).toBe(8);
+  });
+
+  it('should read visibility in statute miles', () => {
+    expect(getDisplayMode('visibility').getValue(METAR)).toBe(10);
+  });
+
+  it('should use the lowest broken or overcast layer as the ceiling', () => {
+    expect(getDisplayMode('ceiling').getValue(METAR)).toBe(25000);
+    expect(getDisplayMode('ceiling').getValue({ ...METAR, clouds: [{ cover: 'FEW', base: 5000 }] }))
+      .toBe(Infinity);
+  });
+
+  it('should use the gust speed for wind when higher', () => {
+    expect(getDisplayMode('wind').getValue(METAR)).toBe(22);
+    expect(getDisplayMode('wind').getValue({ ...METAR, wgst: undefined })).toBe(12);
+  });
+
+  it('should convert the altimeter to inHg', () => {
+    expect(getDisplayMode('altimeter').getValue(METAR)).toBe(30.12);
+  });
+
+  it('should read the pressure tendency from the remarks', () => {
+    expect(getDisplayMode('tendency').getValue(METAR)).toBe(-1.5);
+  });
+
+  it('should compute the density altitude from the field elevation', () => {
+    // KCLT: 751 ft field, A3012 (pressure altitude ~550 ft), 6°C above standard
+    const value = getDisplayMode('density').getValue(METAR)!;
+    expect(value).toBeGreaterThan(1350);
+    expect(value).toBeLessThan(1600);
+  });
+
+  it('should return null when the data is missing', () => {
+    expect(getDisplayMode('temperature').getValue({ ...METAR, temp: undefined })).toBeNull();
+    expect(getDisplayMode('tendency').getValue({ ...METAR, rawOb: 'KCLT 171652Z 20012KT 10SM CLR' })).toBeNull();
+    expect(getDisplayMode('temperature').getValue(undefined)).toBeNull();
+  });
+});
+
+describe('display mode colors', () => {
+  it('should color along the configured gradient', () => {
+    const color = getDisplayMode('temperature').getColor(CONDITIONS, METAR, false, mockConfig, 0);
+    expect(color).toEqual(mockConfig.gradients.temperature[1].color);
+  });
+
+  it('should turn airports without data off', () => {
+    const color = getDisplayMode('temperature').getColor(CONDITIONS, undefined, false, mockConfig, 0);
+    expect(color).toEqual(mockConfig.colors.clear);
+  });
+
+  it('should dim stale observations', () => {
+    const stale = { ...CONDITIONS, stale: true };
+    const color = getDisplayMode('temperature').getColor(stale, METAR, false, mockConfig, 0);
+    expect(color).toEqual(scaleColor(mockConfig.gradients.temperature[1].color, 0.5));
+  });
+
+  it('should fade the gradient color for windy airports', () => {
+    const windy = { ...CONDITIONS, windSpeed: 20 };
+    const fade: Config = { ...mockConfig, fadeInsteadOfBlink: true, highWindsThreshold: -1 };
+    expect(getDisplayMode('temperature').getColor(windy, METAR, true, fade, 1))
+      .toEqual(scaleColor(mockConfig.gradients.temperature[1].color, 0.5));
+  });
+
+  it('should color density altitude by band', () => {
+    const hot = { ...METAR, temp: 38, dewp: 20 };
+    expect(getDisplayMode('density').getColor(CONDITIONS, METAR, false, mockConfig, 0))
+      .toEqual(mockConfig.densityAltitudeBands[0].color);
+    expect(getDisplayMode('density').getColor(CONDITIONS, hot, false, mockConfig, 0))
+      .toEqual(mockConfig.densityAltitudeBands[1].color);
+  });
+
+  it('should keep the flight category display in category mode', () => {
+    const color = getDisplayMode('category').getColor(CONDITIONS, METAR, false, mockConfig, 0);
+    expect(color).toEqual(mockConfig.colors.vfr);
+  });
+
+  it('should crossfade gradient colors and breathe pulsing stale observations', () => {
+    const mode = getDisplayMode('temperature');
+    expect(mode.getAnimatedColor(CONDITIONS, METAR, false, mockConfig, 0)).toEqual({
+      color: mockConfig.gradients.temperature[1].color,
+      effect: 'crossfade'
+    });
+
+    const pulse: Config = { ...mockConfig, staleDisplay: 'pulse' };
+    const stale = { ...CONDITIONS, stale: true };
+    expect(mode.getAnimatedColor(stale, METAR, true, pulse, 1).effect).toBe('breathe');
+  });
+});
+
+describe('getActiveDisplayMode', () => {
+  const rotating: Config = {
+    ...mockConfig,
+    displayModes: ['category', 'temperature', 'wind'],
+    displayModeRotateSeconds: 30
+  };
+
+  it('should rotate modes on the configured interval', () => {
+    expect(getActiveDisplayMode(rotating, 0).name).toBe('category');
+    expect(getActiveDisplayMode(rotating, 30000).name).toBe('temperature');
+    expect(getActiveDisplayMode(rotating, 60000).name).toBe('wind');
+    expect(getActiveDisplayMode(rotating, 90000).name).toBe('category');
+  });
+
+  it('should always use a single configured mode', () => {
+    expect(getActiveDisplayMode(mockConfig, 45000).name).toBe('category');
+  });
+});
+
+describe('getScale', () => {
+  it('should describe gradient and band modes but not the category mode', () => {
+    expect(getDisplayMode('wind').getScale(mockConfig)).toBe(mockConfig.gradients.wind);
+    expect(getDisplayMode('density').getScale(mockConfig)).toBe(mockConfig.densityAltitudeBands);
+    expect(getDisplayMode('category').getScale(mockConfig)).toBeUndefined();
+  });
+});
+
+describe('getDisplayModeLegend', () => {
+  it('should show the gradient stops of the mode', () => {
+    const config: Config = { ...mockConfig, displayModes: ['temperature'] };
+    expect(getDisplayModeLegend(getDisplayMode('temperature'), false, config))
+      .toEqual(mockConfig.gradients.temperature.map(stop => stop.color));
+  });
+
+  it('should pad shorter legends so unused legend LEDs turn off', () => {
+    const config: Config = { ...mockConfig, displayModes: ['category', 'wind'] };
+    const legend = getDisplayModeLegend(getDisplayMode('wind'), false, config);
+
+    expect(legend).toHaveLength(7);
+    expect(legend.slice(2)).toEqual(new Array(5).fill(mockConfig.colors.clear));
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Unit tests for LED effects
+ */
+
+import {
+  createSegment,
+  createStrobeFlashes,
+  easeInOutQuad,
+  easeInOutSine,
+  getPhaseOffset,
+  mixColors,
+  renderSegment
+} from '../src/utils/effects';
+import { Color } from '../src/types';
+
+const BLACK: Color = { r: 0, g: 0, b: 0 };
+const WHITE: Color = { r: 200, g: 100, b: 50 };
+
+/**
+ * Deterministic random source cycling through fixed values
+ */
+function sequence(...values: number[]): () => number {
+  let i = 0;
+  return () => values[i++ % values.length];
+}
+
+describe('easing', () => {
+  it('should start at 0, end at 1 and pass through the middle', () => {
+    for (const ease of [easeInOutQuad, easeInOutSine]) {
+      expect(ease(0)).toBeCloseTo(0);
+      expect(ease(0.5)).toBeCloseTo(0.5);
+      expect(ease(1)).toBeCloseTo(1);
+    }
+  });
+
+  it('should start slowly', () => {
+    expect(easeInOutQuad(0.1)).toBeLessThan(0.1);
+    expect(easeInOutSine(0.1)).toBeLessThan(0.1);
+  });
+});
+
+describe('mixColors', () => {
+  it('should blend and round channel values', () => {
+    expect(mixColors(BLACK, WHITE, 0.5)).toEqual({ r: 100, g: 50, b: 25 });
+    expect(mixColors(BLACK, WHITE, 0.333)).toEqual({ r: 67, g: 33, b: 17 });
+  });
+
+  it('should clamp the blend amount', () => {
+    expect(mixColors(BLACK, WHITE, 2)).toEqual(WHITE);
+    expect(mixColors(BLACK, WHITE, -1)).toEqual(BLACK);
+  });
+});
+
+describe('renderSegment', () => {
+  it('should crossfade linearly', () => {
+    const segment = createSegment('crossfade', BLACK, WHITE, 1000, 500);
+    expect(renderSegment(segment, 1000)).toEqual(BLACK);
+    expect(renderSegment(segment, 1250)).toEqual({ r: 100, g: 50, b: 25 });
+    expect(renderSegment(segment, 1500)).toEqual(WHITE);
+    expect(renderSegment(segment, 9000)).toEqual(WHITE);
+  });
+
+  it('should ease pulses and breathing', () => {
+    const pulse = createSegment('pulse', BLACK, WHITE, 0, 1000);
+    const breathe = createSegment('breathe', BLACK, WHITE, 0, 1000);
+    expect(renderSegment(pulse, 100)).toEqual(mixColors(BLACK, WHITE, 0.02));
+    expect(renderSegment(breathe, 500)).toEqual(mixColors(BLACK, WHITE, 0.5));
+  });
+
+  it('should switch steady segments immediately', () => {
+    expect(renderSegment(createSegment('steady', BLACK, WHITE, 0, 1000), 0)).toEqual(WHITE);
+  });
+
+  it('should strobe between the flash and starting colors', () => {
+    const segment = createSegment('strobe', BLACK, WHITE, 0, 1000, sequence(0.5, 0, 0.5, 0.5));
+    // Two flashes: 0-80 ms and 210-290 ms
+    expect(segment.flashes).toEqual([[0, 80], [210, 290]]);
+    expect(renderSegment(segment, 20)).toEqual(WHITE);
+    expect(renderSegment(segment, 100)).toEqual(BLACK);
+    expect(renderSegment(segment, 250)).toEqual(WHITE);
+    expect(renderSegment(segment, 900)).toEqual(BLACK);
+  });
+});
+
+describe('createStrobeFlashes', () => {
+  it('should plan one to three short flashes within the segment', () => {
+    for (let seed = 0; seed < 1; seed += 0.1) {
+      const flashes = createStrobeFlashes(1000, sequence(seed, 1 - seed, seed / 2));
+      expect(flashes.length).toBeGreaterThanOrEqual(1);
+      expect(flashes.length).toBeLessThanOrEqual(3);
+      for (const [start, end] of flashes) {
+        expect(end - start).toBeLessThanOrEqual(120);
+        expect(end).toBeLessThanOrEqual(1000);
+      }
+    }
+  });
+
+  it('should make every flash last at least the minimum', () => {
+    const flashes = createStrobeFlashes(1000, sequence(0.9, 0, 0, 0), 250);
+    expect(flashes).toEqual([[0, 250], [310, 560], [620, 870]]);
+  });
+});
+
+describe('getPhaseOffset', () => {
+  it('should keep LEDs in lockstep with no spread', () => {
+    expect(getPhaseOffset(7, 1000, 0)).toBe(0);
+  });
+
+  it('should spread LEDs within the configured fraction of a cycle', () => {
+    const offsets = [0, 1, 2, 3, 4, 5].map(i => getPhaseOffset(i, 1000, 0.5));
+    expect(offsets[0]).toBe(0);
+    expect(new Set(offsets).size).toBe(offsets.length);
+    for (const offset of offsets) {
+      expect(offset).toBeGreaterThanOrEqual(0);
+      expect(offset).toBeLessThan(500);
+    }
+  });
+});
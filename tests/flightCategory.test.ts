@@ -2,7 +2,7 @@
  * Unit tests for flight category calculation
  */
 
-import { calculateFlightCategory, parseVisibility } from '../src/utils/flightCategory';
+import { calculateFlightCategory, getCategoryTrend, parseVisibility } from '../src/utils/flightCategory';
 import { CloudLayer } from '../src/types';
 
 describe('calculateFlightCategory', () => {
@@ -147,3 +147,23 @@ describe('parseVisibility', () => {
     expect(parseVisibility('-5')).toBeNull();
   });
 });
+
+describe('getCategoryTrend', () => {
+  it('should report lower categories as deteriorating', () => {
+    expect(getCategoryTrend('VFR', 'MVFR')).toBe('deteriorating');
+    expect(getCategoryTrend('MVFR', 'LIFR')).toBe('deteriorating');
+  });
+
+  it('should report higher categories as improving', () => {
+    expect(getCategoryTrend('IFR', 'VFR')).toBe('improving');
+  });
+
+  it('should report an unchanged category as steady', () => {
+    expect(getCategoryTrend('IFR', 'IFR')).toBe('steady');
+  });
+
+  it('should have no trend when either category is unknown', () => {
+    expect(getCategoryTrend(null, 'VFR')).toBeUndefined();
+    expect(getCategoryTrend('VFR', null)).toBeUndefined();
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Unit tests for the GIF encoder, checked with a small decoder
+ */
+
+import { encodeGif, encodeGifFrame, indexColors } from '../src/utils/gif';
+import { Raster, createRaster, fillRect } from '../src/utils/raster';
+
+/**
+ * Decode the LZW image data of a GIF frame
+ */
+function lzwDecode(data: Uint8Array, minCodeSize: number, pixelCount: number): number[] {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let table: number[][] = [];
+  const reset = (): void => {
+    table = Array.from({ length: clearCode + 2 }, (_, i) => [i]);
+    codeSize = minCodeSize + 1;
+  };
+  reset();
+
+  const output: number[] = [];
+  let previous: number[] | null = null;
+  let bit = 0;
+  while (output.length < pixelCount) {
+    let code = 0;
+    for (let i = 0; i < codeSize; i++, bit++) {
+      code |= ((data[bit >> 3] >> (bit & 7)) & 1) << i;
+    }
+    if (code === clearCode) {
+      reset();
+      previous = null;
+      continue;
+    }
+    if (code === endCode) {
+      break;
+    }
+
+    let entry: number[];
+    if (code < table.length) {
+      entry = table[code];
+      if (previous) {
+        table.push([...previous, entry[0]]);
+      }
+    } else {
+      entry = [...(previous as number[]), (previous as number[])[0]];
+      table.push(entry);
+    }
+    output.push(...entry);
+    previous = entry;
+    if (table.length === 1 << codeSize && codeSize < 12) {
+      codeSize++;
+    }
+  }
+  return output;
+}
+
+/**
+ * Pull the pieces of the first frame out of an encoded frame
+ */
+function decodeFrame(frame: Buffer): { delay: number; palette: number[][]; pixels: number[]; width: number } {
+  const delay = frame.readUInt16LE(4) * 10;
+  const width = frame.readUInt16LE(13);
+  const height = frame.readUInt16LE(15);
+  const tableBits = (frame[17] & 0x07) + 1;
+  const tableEnd = 18 + (3 << tableBits);
+  const palette: number[][] = [];
+  for (let i = 18; i < tableEnd; i += 3) {
+    palette.push([frame[i], frame[i + 1], frame[i + 2]]);
+  }
+
+  const minCodeSize = frame[tableEnd];
+  const chunks: Buffer[] = [];
+  let offset = tableEnd + 1;
+  while (frame[offset] !== 0) {
+    chunks.push(frame.subarray(offset + 1, offset + 1 + frame[offset]));
+    offset += 1 + frame[offset];
+  }
+  const pixels = lzwDecode(Buffer.concat(chunks), minCodeSize, width * height);
+  return { delay, palette, pixels, width };
+}
+
+describe('indexColors', () => {
+  it('should keep every color of simple images', () => {
+    const raster = createRaster(4, 1, { r: 1, g: 2, b: 3 });
+    fillRect(raster, 2, 0, 2, 1, { r: 9, g: 8, b: 7 });
+    const image = indexColors(raster);
+    expect(image.palette).toEqual([{ r: 1, g: 2, b: 3 }, { r: 9, g: 8, b: 7 }]);
+    expect([...image.indices]).toEqual([0, 0, 1, 1]);
+  });
+
+  it('should fall back to the color cube for busy images', () => {
+    const raster: Raster = { width: 300, height: 1, data: new Uint8Array(900) };
+    for (let i = 0; i < 300; i++) {
+      raster.data[i * 3] = i % 256;
+      raster.data[i * 3 + 1] = Math.floor(i / 256);
+    }
+    const image = indexColors(raster);
+    expect(image.palette).toHaveLength(252);
+    expect(image.palette[image.indices[255]]).toEqual({ r: 255, g: 0, b: 0 });
+  });
+});
+
+describe('encodeGifFrame', () => {
+  it('should round-trip the pixels through LZW', () => {
+    const raster = createRaster(40, 30, { r: 0, g: 0, b: 0 });
+    fillRect(raster, 5, 5, 20, 10, { r: 255, g: 0, b: 0 });
+    fillRect(raster, 10, 12, 25, 15, { r: 0, g: 0, b: 255 });
+    const frame = decodeFrame(encodeGifFrame(raster, 250));
+
+    expect(frame.delay).toBe(250);
+    const decoded = frame.pixels.map(index => frame.palette[index]);
+    const expected = Array.from({ length: 40 * 30 }, (_, i) => [...raster.data.subarray(i * 3, i * 3 + 3)]);
+    expect(decoded).toEqual(expected);
+  });
+
+  it('should round-trip noisy frames that fill the code table', () => {
+    const raster: Raster = { width: 200, height: 100, data: new Uint8Array(200 * 100 * 3) };
+    let seed = 7;
+    for (let i = 0; i < 200 * 100; i++) {
+      seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+      raster.data[i * 3] = (seed >> 16) % 16 * 16;
+    }
+    const frame = decodeFrame(encodeGifFrame(raster, 100));
+    expect(frame.pixels.map(index => frame.palette[index][0])).toEqual(
+      Array.from({ length: 200 * 100 }, (_, i) => raster.data[i * 3])
+    );
+  });
+});
+
+describe('encodeGif', () => {
+  it('should wrap the frames in a looping GIF', () => {
+    const frame = encodeGifFrame(createRaster(2, 2, { r: 0, g: 0, b: 0 }), 100);
+    const gif = encodeGif(2, 2, [frame, frame]);
+
+    expect(gif.toString('ascii', 0, 6)).toBe('GIF89a');
+    expect(gif.readUInt16LE(6)).toBe(2);
+    expect(gif.toString('ascii', 16, 27)).toBe('NETSCAPE2.0');
+    expect(gif.subarray(32, 32 + frame.length).equals(frame)).toBe(true);
+    expect(gif[gif.length - 1]).toBe(0x3b);
+  });
+});
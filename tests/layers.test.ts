@@ -0,0 +1,67 @@
+/**
+ * Unit tests for LED layers
+ */
+
+import { Layer, LayerContext, alertLayer, compositeLayers, legendLayer, opaque } from '../src/utils/layers';
+import { Color } from '../src/types';
+import { mockConfig } from './mockConfig';
+
+const RED: Color = { r: 200, g: 0, b: 0 };
+const BLUE: Color = { r: 0, g: 0, b: 100 };
+
+const context: LayerContext = {
+  conditions: undefined,
+  metar: undefined,
+  windCycle: false,
+  cycle: 0,
+  config: mockConfig
+};
+
+function fixedLayer(priority: number, color: Color, alpha: number = 1): Layer {
+  return {
+    name: 'base',
+    priority,
+    render: () => ({ color, alpha, effect: alpha < 1 ? 'pulse' : 'crossfade' })
+  };
+}
+
+describe('compositeLayers', () => {
+  it('should be off when no layer draws', () => {
+    const empty: Layer = { name: 'base', priority: 0, render: () => null };
+    expect(compositeLayers([empty], context)).toEqual({ color: { r: 0, g: 0, b: 0 }, effect: 'crossfade' });
+  });
+
+  it('should draw higher priority layers on top, whatever the order given', () => {
+    const result = compositeLayers([fixedLayer(10, BLUE), fixedLayer(0, RED)], context);
+    expect(result.color).toEqual(BLUE);
+  });
+
+  it('should blend translucent layers and take their effect', () => {
+    const result = compositeLayers([fixedLayer(0, RED), fixedLayer(10, BLUE, 0.5)], context);
+    expect(result).toEqual({ color: { r: 100, g: 0, b: 50 }, effect: 'pulse' });
+  });
+
+  it('should skip fully transparent layers', () => {
+    const result = compositeLayers([fixedLayer(0, RED), fixedLayer(10, BLUE, 0)], context);
+    expect(result).toEqual({ color: RED, effect: 'crossfade' });
+  });
+});
+
+describe('legendLayer', () => {
+  it('should only draw legend LEDs', () => {
+    expect(legendLayer.render(context)).toBeNull();
+    expect(legendLayer.render({ ...context, legend: RED })).toEqual(opaque(RED, 'steady'));
+  });
+});
+
+describe('alertLayer', () => {
+  it('should tint on the wind cycle while an alert is raised', () => {
+    expect(alertLayer.render({ ...context, windCycle: true })).toBeNull();
+    expect(alertLayer.render({ ...context, alerts: [RED] })).toBeNull();
+    expect(alertLayer.render({ ...context, alerts: [RED, BLUE], windCycle: true })).toEqual({
+      color: RED,
+      alpha: 0.5,
+      effect: 'pulse'
+    });
+  });
+});
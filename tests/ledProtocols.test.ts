@@ -0,0 +1,126 @@
+/**
+ * Unit tests for the LED protocol encoders
+ */
+
+import {
+  encodeApa102Frame,
+  encodeE131Packet,
+  encodeOpcMessage,
+  encodeWledPackets,
+  getE131MulticastAddress,
+  splitUniverses
+} from '../src/utils/ledProtocols';
+
+describe('encodeOpcMessage', () => {
+  it('should prefix the data with channel, command and length', () => {
+    const message = encodeOpcMessage(1, Uint8Array.from([255, 0, 0, 0, 255, 0]));
+    expect([...message]).toEqual([1, 0, 0, 6, 255, 0, 0, 0, 255, 0]);
+  });
+});
+
+describe('encodeE131Packet', () => {
+  const cid = Buffer.alloc(16, 0xab);
+  const packet = encodeE131Packet({
+    universe: 2,
+    sequence: 7,
+    priority: 100,
+    sourceName: 'Test',
+    cid,
+    data: Uint8Array.from([10, 20, 30])
+  });
+
+  it('should size the packet for its slots', () => {
+    expect(packet.length).toBe(129);
+  });
+
+  it('should write the root layer', () => {
+    expect(packet.readUInt16BE(0)).toBe(0x0010);
+    expect(packet.toString('ascii', 4, 13)).toBe('ASC-E1.17');
+    expect(packet.readUInt16BE(16)).toBe(0x7000 | (129 - 16));
+    expect(packet.readUInt32BE(18)).toBe(4);
+    expect(packet.subarray(22, 38).equals(cid)).toBe(true);
+  });
+
+  it('should write the framing layer', () => {
+    expect(packet.readUInt16BE(38)).toBe(0x7000 | (129 - 38));
+    expect(packet.readUInt32BE(40)).toBe(2);
+    expect(packet.toString('utf8', 44, 48)).toBe('Test');
+    expect(packet[48]).toBe(0);
+    expect(packet[108]).toBe(100);
+    expect(packet[111]).toBe(7);
+    expect(packet.readUInt16BE(113)).toBe(2);
+  });
+
+  it('should write the DMP layer with the start code and slots', () => {
+    expect(packet.readUInt16BE(115)).toBe(0x7000 | (129 - 115));
+    expect(packet[117]).toBe(0x02);
+    expect(packet[118]).toBe(0xa1);
+    expect(packet.readUInt16BE(121)).toBe(1);
+    expect(packet.readUInt16BE(123)).toBe(4);
+    expect([...packet.subarray(125)]).toEqual([0, 10, 20, 30]);
+  });
+});
+
+describe('getE131MulticastAddress', () => {
+  it('should put the universe in the last two octets', () => {
+    expect(getE131MulticastAddress(1)).toBe('239.255.0.1');
+    expect(getE131MulticastAddress(258)).toBe('239.255.1.2');
+  });
+});
+
+describe('splitUniverses', () => {
+  it('should keep whole LEDs in each universe', () => {
+    const data = Uint8Array.from({ length: 15 }, (_, i) => i);
+    const universes = splitUniverses(data, 3, 2);
+    expect(universes.map(u => [...u])).toEqual([[0, 1, 2, 3, 4, 5], [6, 7, 8, 9, 10, 11], [12, 13, 14]]);
+  });
+});
+
+describe('encodeWledPackets', () => {
+  it('should send RGB frames as DNRGB packets with a start index', () => {
+    const data = new Uint8Array(500 * 3).fill(9);
+    const packets = encodeWledPackets(data, 3, 2);
+    expect(packets).toHaveLength(2);
+    expect([...packets[0].subarray(0, 4)]).toEqual([4, 2, 0, 0]);
+    expect(packets[0].length).toBe(4 + 489 * 3);
+    expect([...packets[1].subarray(0, 4)]).toEqual([4, 2, 489 >> 8, 489 & 0xff]);
+    expect(packets[1].length).toBe(4 + 11 * 3);
+  });
+
+  it('should send RGBW frames as one DRGBW packet', () => {
+    const packets = encodeWledPackets(Uint8Array.from([1, 2, 3, 4]), 4, 2);
+    expect(packets.map(p => [...p])).toEqual([[3, 2, 1, 2, 3, 4]]);
+  });
+
+  it('should reject RGBW frames too long for one packet', () => {
+    expect(() => encodeWledPackets(new Uint8Array(368 * 4), 4, 2)).toThrow('367');
+  });
+});
+
+describe('encodeApa102Frame', () => {
+  it('should frame each LED with its brightness bits', () => {
+    const frame = encodeApa102Frame(Uint8Array.from([10, 20, 30, 255, 0, 0]), 1);
+    expect([...frame]).toEqual([
+      0, 0, 0, 0,
+      0xff, 10, 20, 30,
+      0xff, 255, 0, 0,
+      0, 0, 0, 0, 0
+    ]);
+  });
+
+  it('should dim through the brightness bits before the colors', () => {
+    const frame = encodeApa102Frame(Uint8Array.from([200, 100, 0]), 0.5);
+    // 0.5 * 31 = 15.5: 16 brightness steps with the colors at 15.5/16
+    expect([...frame.subarray(4, 8)]).toEqual([0xe0 | 16, 194, 97, 0]);
+  });
+
+  it('should turn LEDs off at zero brightness', () => {
+    const frame = encodeApa102Frame(Uint8Array.from([255, 255, 255]), 0);
+    expect([...frame.subarray(4, 8)]).toEqual([0xe0, 0, 0, 0]);
+  });
+
+  it('should lengthen the end frame for long strips', () => {
+    const frame = encodeApa102Frame(new Uint8Array(100 * 3), 1);
+    expect(frame.length).toBe(4 + 400 + 4 + 7);
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Unit tests for the logical LED address space
+ */
+
+import {
+  createLedAddressMap,
+  describeStrip,
+  getStripSegments,
+  getTotalLedCount,
+  locateLed
+} from '../src/utils/ledStrips';
+import { LedStrip } from '../src/types';
+
+const STRIPS: LedStrip[] = [
+  { pin: 18, count: 30, order: 'GRB', brightness: 1 },
+  { pin: 13, count: 20, order: 'GRBW', brightness: 0.8 }
+];
+
+describe('getStripSegments', () => {
+  it('should chain strips in the order listed', () => {
+    expect(getStripSegments(STRIPS)).toEqual([
+      { strip: 0, first: 0, last: 29 },
+      { strip: 1, first: 30, last: 49 }
+    ]);
+  });
+
+  it('should count every LED', () => {
+    expect(getTotalLedCount(STRIPS)).toBe(50);
+  });
+});
+
+describe('locateLed', () => {
+  it('should find the strip and position of an LED', () => {
+    expect(locateLed(STRIPS, 0)).toEqual({ strip: 0, offset: 0 });
+    expect(locateLed(STRIPS, 29)).toEqual({ strip: 0, offset: 29 });
+    expect(locateLed(STRIPS, 30)).toEqual({ strip: 1, offset: 0 });
+    expect(locateLed(STRIPS, 49)).toEqual({ strip: 1, offset: 19 });
+  });
+
+  it('should return null outside the strips', () => {
+    expect(locateLed(STRIPS, -1)).toBeNull();
+    expect(locateLed(STRIPS, 50)).toBeNull();
+  });
+});
+
+describe('createLedAddressMap', () => {
+  it('should agree with locateLed', () => {
+    const locate = createLedAddressMap(STRIPS);
+    for (let index = -1; index <= 50; index++) {
+      expect(locate(index)).toEqual(locateLed(STRIPS, index));
+    }
+  });
+});
+
+describe('describeStrip', () => {
+  it('should show the pin, order and logical range', () => {
+    const segments = getStripSegments(STRIPS);
+    expect(describeStrip(STRIPS[0], segments[0])).toBe('Strip 0: GPIO 18, 30 LEDs (GRB), logical 0-29');
+    expect(describeStrip(STRIPS[1], segments[1])).toBe(
+      'Strip 1: GPIO 13, 20 LEDs (GRBW), 80% brightness, logical 30-49'
+    );
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Unit tests for the map snapshot output
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MapLedService } from '../src/services/mapLedService';
+import { MultiLedService, ILedService } from '../src/services/ledService';
+import { MetarState } from '../src/shared/metarState';
+import { Config } from '../src/types';
+import { mockConfig } from './mockConfig';
+
+const state: MetarState = {
+  timestamp: '2024-05-01T14:05:00.000Z',
+  airports: [
+    {
+      code: 'KCLT',
+      name: 'Charlotte',
+      led: 0,
+      lat: 35.21,
+      lon: -80.94,
+      flightCategory: 'VFR',
+      color: { r: 0, g: 255, b: 0 },
+      windSpeed: 0,
+      windGustSpeed: 0,
+      windGust: false,
+      lightning: false,
+      thunderstorm: false,
+      vicinityThunderstorm: false,
+      distantLightning: false,
+      stale: false
+    }
+  ],
+  config: { ledCount: 2, activeCount: 1 }
+};
+
+describe('MapLedService', () => {
+  let dir: string;
+  let config: Config;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'map-'));
+    config = {
+      ...mockConfig,
+      ledCount: 2,
+      statePath: path.join(dir, 'state.json'),
+      mapSnapshotPaths: [path.join(dir, 'map.svg'), path.join(dir, 'map.png')],
+      mapSnapshotSeconds: 60
+    };
+    fs.writeFileSync(config.statePath, JSON.stringify(state));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should write each snapshot path with the settled state colors', async () => {
+    const map = new MapLedService(config);
+    // Mid-blink pixel
+    map.setPixel(0, { r: 0, g: 0, b: 0 });
+    await map.render();
+
+    expect(fs.readFileSync(path.join(dir, 'map.svg'), 'utf-8')).toContain('fill="#00ff00"');
+    expect(fs.readFileSync(path.join(dir, 'map.png')).toString('ascii', 1, 4)).toBe('PNG');
+    map.cleanup();
+  });
+
+  it('should skip snapshots until a state file exists', async () => {
+    fs.rmSync(config.statePath);
+    const map = new MapLedService(config);
+    await map.render();
+
+    expect(fs.existsSync(path.join(dir, 'map.svg'))).toBe(false);
+    map.cleanup();
+  });
+
+  it('should render at most once per interval', async () => {
+    const map = new MapLedService(config);
+    const render = jest.spyOn(map, 'render');
+    map.show();
+    map.show();
+    await new Promise(resolve => setTimeout(resolve, 20));
+    map.show();
+
+    expect(render).toHaveBeenCalledTimes(1);
+    map.cleanup();
+  });
+
+  it('should render a frame shown during a render once it finishes', async () => {
+    const map = new MapLedService({ ...config, mapSnapshotSeconds: 0.05 });
+    const render = jest.spyOn(map, 'render');
+    map.show();
+    const blue = { ...state.airports[0], color: { r: 0, g: 0, b: 255 } };
+    fs.writeFileSync(config.statePath, JSON.stringify({ ...state, airports: [blue] }));
+    map.show();
+
+    for (let i = 0; i < 50 && render.mock.calls.length < 2; i++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    await render.mock.results[render.mock.results.length - 1].value;
+
+    expect(render).toHaveBeenCalledTimes(2);
+    expect(fs.readFileSync(path.join(dir, 'map.svg'), 'utf-8')).toContain('fill="#0000ff"');
+    map.cleanup();
+  });
+});
+
+describe('MultiLedService', () => {
+  it('should pass calls to every output and report the first output power draw', () => {
+    const outputs = [0, 1].map(n => ({
+      setPixel: jest.fn(),
+      show: jest.fn(),
+      clear: jest.fn(),
+      setBrightness: jest.fn(),
+      cleanup: jest.fn(),
+      getPowerDraw: jest.fn(() => ({ requestedMa: n, estimatedMa: n, scale: 1 }))
+    })) as jest.Mocked<ILedService>[];
+    const leds = new MultiLedService(outputs);
+
+    leds.setPixel(1, { r: 1, g: 2, b: 3 });
+    leds.show();
+
+    outputs.forEach(output => {
+      expect(output.setPixel).toHaveBeenCalledWith(1, { r: 1, g: 2, b: 3 });
+      expect(output.show).toHaveBeenCalled();
+    });
+    expect(leds.getPowerDraw().estimatedMa).toBe(0);
+  });
+});
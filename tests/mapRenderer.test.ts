@@ -0,0 +1,151 @@
+/**
+ * Unit tests for the map renderer and its PNG encoder
+ */
+
+import { inflateSync } from 'zlib';
+import { MetarState, MetarStateAirport } from '../src/shared/metarState';
+import { crc32, encodePng, encodePngAsync } from '../src/utils/png';
+import { createMapSnapshot, renderMapPng, renderMapRaster, renderMapSvg } from '../src/utils/mapRenderer';
+import { mockConfig } from './mockConfig';
+
+function airport(code: string, led: number, lat?: number, lon?: number): MetarStateAirport {
+  return {
+    code,
+    name: code,
+    led,
+    lat,
+    lon,
+    flightCategory: 'VFR',
+    color: { r: 0, g: 255, b: 0 },
+    windSpeed: 0,
+    windGustSpeed: 0,
+    windGust: false,
+    lightning: false,
+    thunderstorm: false,
+    vicinityThunderstorm: false,
+    distantLightning: false,
+    stale: false
+  };
+}
+
+const state: MetarState = {
+  timestamp: '2024-05-01T14:05:30.000Z',
+  airports: [
+    airport('KCLT', 0, 35.21, -80.94),
+    airport('KRDU', 1, 35.88, -78.79),
+    airport('KXYZ', 2)
+  ],
+  config: { ledCount: 3, activeCount: 3 }
+};
+
+describe('crc32', () => {
+  it('should match the standard check value', () => {
+    expect(crc32(Buffer.from('123456789', 'ascii'))).toBe(0xcbf43926);
+  });
+});
+
+describe('encodePng', () => {
+  const png = encodePng(2, 1, Uint8Array.from([255, 0, 0, 0, 0, 255]));
+
+  it('should write the signature and header', () => {
+    expect([...png.subarray(0, 8)]).toEqual([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    expect(png.toString('ascii', 12, 16)).toBe('IHDR');
+    expect(png.readUInt32BE(16)).toBe(2);
+    expect(png.readUInt32BE(20)).toBe(1);
+    expect([...png.subarray(24, 29)]).toEqual([8, 2, 0, 0, 0]);
+    expect(png.readUInt32BE(29)).toBe(crc32(png.subarray(12, 29)));
+  });
+
+  it('should deflate the rows with a filter byte each', () => {
+    const length = png.readUInt32BE(33);
+    expect(png.toString('ascii', 37, 41)).toBe('IDAT');
+    expect([...inflateSync(png.subarray(41, 41 + length))]).toEqual([0, 255, 0, 0, 0, 0, 255]);
+  });
+
+  it('should end with IEND', () => {
+    expect(png.toString('ascii', png.length - 8, png.length - 4)).toBe('IEND');
+  });
+
+  it('should reject data of the wrong size', () => {
+    expect(() => encodePng(2, 2, new Uint8Array(3))).toThrow('expected 12');
+  });
+
+  it('should encode the same file off the event loop', async () => {
+    expect(await encodePngAsync(2, 1, Uint8Array.from([255, 0, 0, 0, 0, 255]))).toEqual(png);
+  });
+});
+
+describe('createMapSnapshot', () => {
+  it('should place airports with a position and count the rest', () => {
+    const snapshot = createMapSnapshot(state, mockConfig);
+    expect(snapshot.points.map(point => point.code)).toEqual(['KCLT', 'KRDU']);
+    expect(snapshot.unplaced).toBe(1);
+    expect(snapshot.subtitle).toBe('Flight category - 2024-05-01 14:05Z');
+  });
+
+  it('should use the live frame colors when given', () => {
+    const snapshot = createMapSnapshot(state, mockConfig, [{ r: 1, g: 2, b: 3 }, { r: 4, g: 5, b: 6 }]);
+    expect(snapshot.points[1].color).toEqual({ r: 4, g: 5, b: 6 });
+  });
+
+  it('should show the flight categories in category mode', () => {
+    const snapshot = createMapSnapshot(state, mockConfig);
+    expect(snapshot.legend.map(entry => entry.label)).toEqual(['VFR', 'MVFR', 'IFR', 'LIFR', 'No data']);
+    expect(snapshot.legend[2].color).toEqual(mockConfig.colors.ifr);
+  });
+
+  it('should show the scale of gradient modes', () => {
+    const snapshot = createMapSnapshot({
+      ...state,
+      displayMode: {
+        active: 'wind',
+        label: 'Wind speed',
+        unit: 'kt',
+        modes: ['wind'],
+        legend: [{ value: 0, color: { r: 0, g: 0, b: 0 } }, { value: 25, color: { r: 255, g: 0, b: 0 } }]
+      }
+    }, mockConfig);
+    expect(snapshot.legend.map(entry => entry.label)).toEqual(['0 kt', '25 kt']);
+    expect(snapshot.subtitle).toMatch(/^Wind speed/);
+  });
+});
+
+describe('renderMapSvg', () => {
+  const svg = renderMapSvg(createMapSnapshot(state, mockConfig), 800, 600);
+
+  it('should draw a dot and label for each placed airport', () => {
+    expect(svg.match(/<circle/g)).toHaveLength(2 + 5);
+    expect(svg).toContain('>KCLT</text>');
+    expect(svg).toContain('>KRDU</text>');
+    expect(svg).not.toContain('KXYZ');
+  });
+
+  it('should put the west airport left of the east one', () => {
+    const xs = [...svg.matchAll(/<circle cx="([\d.]+)"/g)].slice(0, 2).map(match => Number(match[1]));
+    expect(xs[0]).toBeLessThan(xs[1]);
+  });
+
+  it('should escape text', () => {
+    const snapshot = { ...createMapSnapshot(state, mockConfig), title: 'A & B <map>' };
+    expect(renderMapSvg(snapshot, 800, 600)).toContain('A &amp; B &lt;map&gt;');
+  });
+});
+
+describe('renderMapRaster', () => {
+  it('should draw each airport in its color', () => {
+    const snapshot = createMapSnapshot(state, mockConfig, [{ r: 255, g: 0, b: 0 }, { r: 0, g: 0, b: 255 }]);
+    const raster = renderMapRaster(snapshot, 800, 600);
+    const colors = new Set<string>();
+    for (let i = 0; i < raster.data.length; i += 3) {
+      colors.add(`${raster.data[i]},${raster.data[i + 1]},${raster.data[i + 2]}`);
+    }
+    expect(colors.has('255,0,0')).toBe(true);
+    expect(colors.has('0,0,255')).toBe(true);
+  });
+
+  it('should encode the raster as PNG', async () => {
+    const png = await renderMapPng(createMapSnapshot(state, mockConfig), 400, 300);
+    expect(png.readUInt32BE(16)).toBe(400);
+    expect(png.readUInt32BE(20)).toBe(300);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Unit tests for the last-known-good METAR cache
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  MetarCacheService,
+  defaultCachePath,
+  getObservationAgeMinutes
+} from '../src/services/metarCacheService';
+import { MetarData } from '../src/types';
+
+function metar(icaoId: string, obsTime: number): MetarData {
+  return {
+    icaoId,
+    rawOb: `${icaoId} 171652Z 20008KT 10SM CLR 22/10 A3012`,
+    receiptTime: '',
+    reportTime: '',
+    obsTime,
+    lat: 35.2,
+    lon: -80.9,
+    elev: 229,
+    name: icaoId
+  };
+}
+
+describe('getObservationAgeMinutes', () => {
+  it('should return whole minutes since the observation', () => {
+    const now = new Date('2026-02-17T17:00:00Z');
+    const obsTime = now.getTime() / 1000 - 95 * 60 - 30;
+    expect(getObservationAgeMinutes(metar('KCLT', obsTime), now)).toBe(95);
+  });
+
+  it('should never be negative', () => {
+    const now = new Date('2026-02-17T17:00:00Z');
+    expect(getObservationAgeMinutes(metar('KCLT', now.getTime() / 1000 + 120), now)).toBe(0);
+  });
+});
+
+describe('defaultCachePath', () => {
+  it('should place the cache next to the state file', () => {
+    expect(defaultCachePath('/home/pi/metar-state.json')).toBe('/home/pi/metar-cache.json');
+  });
+});
+
+describe('MetarCacheService', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'metar-cache-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should keep the newest observation per airport', () => {
+    const cache = new MetarCacheService(path.join(tempDir, 'cache.json'));
+
+    expect(cache.update([metar('KCLT', 2000), metar('KJQF', 2000)])).toBe(2);
+    expect(cache.update([metar('KCLT', 1000), metar('KJQF', 3000)])).toBe(1);
+
+    expect(cache.get('KCLT')?.obsTime).toBe(2000);
+    expect(cache.get('KJQF')?.obsTime).toBe(3000);
+    expect(cache.size).toBe(2);
+  });
+
+  it('should round-trip through the cache file', async () => {
+    const cachePath = path.join(tempDir, 'cache.json');
+    const cache = new MetarCacheService(cachePath);
+    cache.update([metar('KCLT', 2000)]);
+    await cache.save();
+
+    const reloaded = new MetarCacheService(cachePath);
+    await reloaded.load();
+
+    expect(reloaded.get('KCLT')).toEqual(metar('KCLT', 2000));
+  });
+
+  it('should start empty when the cache file does not exist', async () => {
+    const cache = new MetarCacheService(path.join(tempDir, 'missing.json'));
+    await cache.load();
+    expect(cache.size).toBe(0);
+  });
+});
@@ -0,0 +1,270 @@
+/**
+ * Unit tests for raw METAR decoding
+ */
+
+import {
+  decodeMetar,
+  decodeRemarks,
+  applyDecodedMetar,
+  parseStatuteVisibility
+} from '../src/utils/metarDecoder';
+import { calculateFlightCategory, parseVisibility } from '../src/utils/flightCategory';
+import { MetarData } from '../src/types';
+
+describe('decodeMetar', () => {
+  describe('header', () => {
+    it('should return null for empty input', () => {
+      expect(decodeMetar('')).toBeNull();
+      expect(decodeMetar(undefined)).toBeNull();
+    });
+
+    it('should decode station, time and report type', () => {
+      const decoded = decodeMetar('SPECI KCLT 171652Z AUTO 18005KT 10SM CLR 13/02 A3012');
+      expect(decoded?.station).toBe('KCLT');
+      expect(decoded?.reportType).toBe('SPECI');
+      expect(decoded?.observationTime).toEqual({ day: 17, hour: 16, minute: 52 });
+      expect(decoded?.auto).toBe(true);
+    });
+
+    it('should default report type to METAR', () => {
+      expect(decodeMetar('KCLT 171652Z 18005KT 10SM CLR 13/02 A3012')?.reportType).toBe('METAR');
+    });
+  });
+
+  describe('wind', () => {
+    it('should decode wind with gusts', () => {
+      const decoded = decodeMetar('KCLT 171652Z 27015G25KT 10SM CLR 13/02 A3012');
+      expect(decoded?.wind).toEqual({ direction: 270, speed: 15, gust: 25 });
+    });
+
+    it('should decode variable wind direction', () => {
+      const decoded = decodeMetar('KCLT 171652Z 21012KT 180V240 10SM CLR 13/02 A3012');
+      expect(decoded?.wind).toEqual({
+        direction: 210,
+        speed: 12,
+        variableFrom: 180,
+        variableTo: 240
+      });
+    });
+
+    it('should decode VRB wind', () => {
+      expect(decodeMetar('KCLT 171652Z VRB03KT 10SM CLR 13/02 A3012')?.wind?.direction).toBe('VRB');
+    });
+
+    it('should convert meters per second to knots', () => {
+      expect(decodeMetar('EGLL 171650Z 24010MPS 9999 FEW030 13/02 Q1012')?.wind?.speed).toBe(19);
+    });
+  });
+
+  describe('visibility', () => {
+    it('should decode whole and fractional visibility', () => {
+      expect(decodeMetar('KCLT 171652Z 00000KT 1 1/2SM BR OVC004 13/12 A3012')?.visibility).toBe(1.5);
+      expect(decodeMetar('KCLT 171652Z 00000KT 3/4SM BR OVC004 13/12 A3012')?.visibility).toBe(0.75);
+    });
+
+    it('should decode less-than visibility', () => {
+      const decoded = decodeMetar('KCLT 171652Z 00000KT M1/4SM FG VV001 13/13 A3012');
+      expect(decoded?.visibility).toBe(0.25);
+      expect(decoded?.visibilityModifier).toBe('M');
+    });
+
+    it('should decode greater-than visibility', () => {
+      const decoded = decodeMetar('KCLT 171652Z 00000KT P6SM SKC 13/02 A3012');
+      expect(decoded?.visibility).toBe(6);
+      expect(decoded?.visibilityModifier).toBe('P');
+    });
+
+    it('should convert metric visibility to statute miles', () => {
+      expect(decodeMetar('EGLL 171650Z 24010KT 0800 FG OVC002 10/10 Q1012')?.visibility).toBe(0.5);
+      expect(decodeMetar('EGLL 171650Z 24010KT 9999 FEW030 13/02 Q1012')?.visibilityModifier).toBe('P');
+    });
+
+    it('should treat CAVOK as clear with good visibility', () => {
+      const decoded = decodeMetar('LFPG 171700Z 22008KT CAVOK 15/06 Q1018 NOSIG');
+      expect(decoded?.cavok).toBe(true);
+      expect(decoded?.skyClear).toBe(true);
+      expect(decoded?.visibility).toBe(6);
+    });
+  });
+
+  describe('runway visual range', () => {
+    it('should decode RVR with variable range and trend', () => {
+      const decoded = decodeMetar('KCLT 171652Z 00000KT 1/4SM R18C/2400V4000FT/U FG VV002 10/10 A3012');
+      expect(decoded?.rvr).toEqual([
+        { runway: '18C', visibility: 2400, variableMax: 4000, trend: 'U' }
+      ]);
+    });
+
+    it('should decode RVR with modifier', () => {
+      const decoded = decodeMetar('KCLT 171652Z 00000KT 1/8SM R36L/M0600FT FG VV001 10/10 A3012');
+      expect(decoded?.rvr[0]).toEqual({ runway: '36L', visibility: 600, modifier: 'M' });
+    });
+  });
+
+  describe('present weather', () => {
+    it('should decode weather groups in order', () => {
+      const decoded = decodeMetar('KCLT 171652Z 18010KT 2SM +TSRA BR VCSH BKN008CB 20/19 A2992');
+      expect(decoded?.weather).toEqual(['+TSRA', 'BR', 'VCSH']);
+    });
+
+    it('should decode freezing precipitation', () => {
+      expect(decodeMetar('KCLT 171652Z 36005KT 3SM -FZRA OVC010 M01/M02 A3002')?.weather).toEqual(['-FZRA']);
+    });
+  });
+
+  describe('clouds', () => {
+    it('should decode cloud layers with bases in feet', () => {
+      const decoded = decodeMetar('KCLT 171652Z 18005KT 10SM FEW025 SCT040 BKN080TCU OVC250 13/02 A3012');
+      expect(decoded?.clouds).toEqual([
+        { cover: 'FEW', base: 2500 },
+        { cover: 'SCT', base: 4000 },
+        { cover: 'BKN', base: 8000 },
+        { cover: 'OVC', base: 25000 }
+      ]);
+    });
+
+    it('should decode vertical visibility as an obscured layer', () => {
+      expect(decodeMetar('KCLT 171652Z 00000KT 1/4SM FG VV002 10/10 A3012')?.clouds).toEqual([
+        { cover: 'OVX', base: 200 }
+      ]);
+    });
+
+    it('should flag clear skies', () => {
+      const decoded = decodeMetar('KCLT 171652Z 18005KT 10SM CLR 13/02 A3012');
+      expect(decoded?.skyClear).toBe(true);
+      expect(decoded?.clouds).toEqual([]);
+    });
+  });
+
+  describe('temperature and altimeter', () => {
+    it('should decode negative temperature and dewpoint', () => {
+      const decoded = decodeMetar('KCLT 171652Z 18005KT 10SM CLR M05/M12 A3012');
+      expect(decoded?.temp).toBe(-5);
+      expect(decoded?.dewp).toBe(-12);
+    });
+
+    it('should handle missing dewpoint', () => {
+      const decoded = decodeMetar('KCLT 171652Z 18005KT 10SM CLR 13/ A3012');
+      expect(decoded?.temp).toBe(13);
+      expect(decoded?.dewp).toBeUndefined();
+    });
+
+    it('should convert inHg altimeter to hPa', () => {
+      expect(decodeMetar('KCLT 171652Z 18005KT 10SM CLR 13/02 A2992')?.altim).toBe(1013.2);
+    });
+
+    it('should accept hPa altimeter', () => {
+      expect(decodeMetar('EGLL 171650Z 24010KT 9999 FEW030 13/02 Q1008')?.altim).toBe(1008);
+    });
+  });
+
+  it('should not decode remark tokens as body groups', () => {
+    const decoded = decodeMetar('KCLT 171652Z 18005KT 10SM CLR 13/02 A3012 RMK AO2 SLP199 T01330022');
+    expect(decoded?.unparsed).toEqual([]);
+    expect(decoded?.remarks.stationType).toBe('AO2');
+  });
+});
+
+describe('decodeRemarks', () => {
+  it('should decode sea level pressure', () => {
+    expect(decodeRemarks(['SLP199']).seaLevelPressure).toBe(1019.9);
+    expect(decodeRemarks(['SLP982']).seaLevelPressure).toBe(998.2);
+  });
+
+  it('should decode precise temperature and dewpoint', () => {
+    const remarks = decodeRemarks(['T10061017']);
+    expect(remarks.preciseTemp).toBe(-0.6);
+    expect(remarks.preciseDewpoint).toBe(-1.7);
+  });
+
+  it('should decode peak wind and wind shift', () => {
+    const remarks = decodeRemarks(['PK', 'WND', '28045/1955', 'WSHFT', '1930']);
+    expect(remarks.peakWind).toEqual({ direction: 280, speed: 45, time: '1955' });
+    expect(remarks.windShiftTime).toBe('1930');
+  });
+
+  it('should collect lightning phrases', () => {
+    const remarks = decodeRemarks('AO2 OCNL LTGICCG DSNT NE-S SLP120'.split(' '));
+    expect(remarks.lightning).toEqual(['OCNL LTGICCG DSNT NE-S']);
+    expect(remarks.seaLevelPressure).toBe(1012);
+  });
+
+  it('should decode pressure tendency', () => {
+    expect(decodeRemarks(['52015']).pressureTendency).toEqual({ code: 2, change: 1.5 });
+    expect(decodeRemarks(['57008']).pressureTendency).toEqual({ code: 7, change: -0.8 });
+  });
+
+  it('should decode flags', () => {
+    const remarks = decodeRemarks(['TSNO', 'PRESFR', '$']);
+    expect(remarks.thunderstormInfoUnavailable).toBe(true);
+    expect(remarks.pressureFallingRapidly).toBe(true);
+    expect(remarks.maintenanceNeeded).toBe(true);
+  });
+});
+
+describe('parseStatuteVisibility', () => {
+  it('should return null for non-visibility tokens', () => {
+    expect(parseStatuteVisibility('BKN010')).toBeNull();
+  });
+
+  it('should reject zero denominators', () => {
+    expect(parseStatuteVisibility('1/0SM')).toBeNull();
+  });
+});
+
+describe('applyDecodedMetar', () => {
+  const baseMetar: MetarData = {
+    icaoId: 'KRUQ',
+    receiptTime: '2026-02-17T16:55:00Z',
+    obsTime: 1771347300,
+    reportTime: '2026-02-17T16:55:00Z',
+    rawOb: 'KRUQ 171655Z AUTO 18008KT 1 1/2SM BR OVC007 09/08 A3001 RMK AO2 T00890078',
+    lat: 35.646,
+    lon: -80.52,
+    elev: 236,
+    name: 'Salisbury/Rowan Co, NC, US',
+    clouds: []
+  };
+
+  it('should fill missing fields from the raw observation', () => {
+    const decoded = decodeMetar(baseMetar.rawOb)!;
+    const { metar, filledFields } = applyDecodedMetar(baseMetar, decoded);
+
+    expect(metar.clouds).toEqual([{ cover: 'OVC', base: 700 }]);
+    expect(metar.visib).toBe(1.5);
+    expect(metar.wspd).toBe(8);
+    expect(metar.temp).toBe(8.9);
+    expect(metar.wxString).toBe('BR');
+    expect(filledFields).toContain('clouds');
+  });
+
+  it('should let the raw observation drive the flight category when clouds are empty', () => {
+    const decoded = decodeMetar(baseMetar.rawOb)!;
+    const { metar } = applyDecodedMetar(baseMetar, decoded);
+
+    expect(calculateFlightCategory(parseVisibility(metar.visib), metar.clouds)).toBe('IFR');
+  });
+
+  it('should not overwrite fields provided by the API', () => {
+    const apiMetar: MetarData = {
+      ...baseMetar,
+      visib: '10+',
+      temp: 12,
+      clouds: [{ cover: 'BKN', base: 2000 }]
+    };
+    const decoded = decodeMetar(baseMetar.rawOb)!;
+    const { metar, filledFields } = applyDecodedMetar(apiMetar, decoded);
+
+    expect(metar.visib).toBe('10+');
+    expect(metar.temp).toBe(12);
+    expect(metar.clouds).toEqual([{ cover: 'BKN', base: 2000 }]);
+    expect(filledFields).not.toContain('clouds');
+  });
+
+  it('should use the API "+" convention for greater-than visibility', () => {
+    const decoded = decodeMetar('KRUQ 171655Z 18008KT P6SM SKC 09/08 A3001')!;
+    const { metar } = applyDecodedMetar({ ...baseMetar, rawOb: 'x' }, decoded);
+    expect(metar.visib).toBe('6+');
+    expect(metar.cover).toBe('CLR');
+  });
+});
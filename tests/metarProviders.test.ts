@@ -0,0 +1,234 @@
+/**
+ * Unit tests for METAR feed parsing and provider failover
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import {
+  decodeFeedBuffer,
+  parseMetarCsv,
+  parseMetarXml,
+  parseMetarFeed,
+  metarFromRawText
+} from '../src/utils/metarFeedParser';
+import {
+  FailoverMetarProvider,
+  LocalMetarProvider,
+  MetarProvider
+} from '../src/services/metarProviders';
+import { MetarData } from '../src/types';
+
+const CSV_FEED = [
+  'No errors',
+  'No warnings',
+  '12 ms',
+  'data source=metars',
+  '2 results',
+  'raw_text,station_id,observation_time,latitude,longitude,temp_c,dewpoint_c,wind_dir_degrees,' +
+    'wind_speed_kt,wind_gust_kt,visibility_statute_mi,altim_in_hg,sea_level_pressure_mb,wx_string,' +
+    'sky_cover,cloud_base_ft_agl,sky_cover,cloud_base_ft_agl,flight_category,vert_vis_ft,metar_type,elevation_m',
+  'KCLT 171652Z 18005KT 10SM FEW050 BKN250 13/02 A3012,KCLT,2026-02-17T16:52:00Z,35.214,-80.943,' +
+    '13.3,2.2,180,5,,10+,30.12,1019.9,,FEW,5000,BKN,25000,VFR,,METAR,221',
+  'KJQF 171650Z 00000KT 2SM BR OVC008 09/08 A3001,KJQF,2026-02-17T16:50:00Z,35.387,-80.709,' +
+    '9,8,0,0,,2,30.01,,BR,OVC,800,,,IFR,,SPECI,215'
+].join('\n');
+
+const XML_FEED = `<?xml version="1.0" encoding="UTF-8"?>
+<response>
+  <data num_results="1">
+    <METAR>
+      <raw_text>KGMU 171653Z 22006KT 10SM SCT045 14/01 A3010</raw_text>
+      <station_id>KGMU</station_id>
+      <observation_time>2026-02-17T16:53:00Z</observation_time>
+      <latitude>34.848</latitude>
+      <longitude>-82.35</longitude>
+      <temp_c>14</temp_c>
+      <wind_speed_kt>6</wind_speed_kt>
+      <visibility_statute_mi>10+</visibility_statute_mi>
+      <altim_in_hg>30.1</altim_in_hg>
+      <sky_condition sky_cover="SCT" cloud_base_ft_agl="4500" />
+      <flight_category>VFR</flight_category>
+      <metar_type>METAR</metar_type>
+      <elevation_m>305</elevation_m>
+    </METAR>
+  </data>
+</response>`;
+
+function fakeMetar(icaoId: string, obsTime: number = 1771347120): MetarData {
+  return {
+    icaoId,
+    receiptTime: '2026-02-17T16:52:00Z',
+    obsTime,
+    reportTime: '2026-02-17T16:52:00Z',
+    rawOb: `${icaoId} 171652Z 18005KT 10SM CLR 13/02 A3012`,
+    lat: 35,
+    lon: -80,
+    elev: 200,
+    name: icaoId
+  };
+}
+
+describe('parseMetarCsv', () => {
+  it('should parse rows after the status lines', () => {
+    const metars = parseMetarCsv(CSV_FEED);
+    expect(metars.map(m => m.icaoId)).toEqual(['KCLT', 'KJQF']);
+  });
+
+  it('should map CSV columns to METAR data fields', () => {
+    const [kclt, kjqf] = parseMetarCsv(CSV_FEED);
+    expect(kclt.visib).toBe('10+');
+    expect(kclt.altim).toBe(1020);
+    expect(kclt.obsTime).toBe(Date.parse('2026-02-17T16:52:00Z') / 1000);
+    expect(kclt.clouds).toEqual([{ cover: 'FEW', base: 5000 }, { cover: 'BKN', base: 25000 }]);
+    expect(kclt.fltCat).toBe('VFR');
+    expect(kjqf.wxString).toBe('BR');
+    expect(kjqf.metarType).toBe('SPECI');
+  });
+
+  it('should filter to requested airports', () => {
+    expect(parseMetarCsv(CSV_FEED, new Set(['KJQF'])).map(m => m.icaoId)).toEqual(['KJQF']);
+  });
+
+  it('should reject a feed without a header', () => {
+    expect(() => parseMetarCsv('station,foo\nKCLT,1')).toThrow('raw_text header');
+  });
+});
+
+describe('parseMetarXml', () => {
+  it('should parse METAR elements and sky conditions', () => {
+    const [metar] = parseMetarXml(XML_FEED);
+    expect(metar.icaoId).toBe('KGMU');
+    expect(metar.rawOb).toBe('KGMU 171653Z 22006KT 10SM SCT045 14/01 A3010');
+    expect(metar.clouds).toEqual([{ cover: 'SCT', base: 4500 }]);
+    expect(metar.lat).toBe(34.848);
+    expect(metar.wdir).toBeUndefined();
+  });
+});
+
+describe('decodeFeedBuffer', () => {
+  it('should gunzip compressed feeds', () => {
+    expect(decodeFeedBuffer(zlib.gzipSync(Buffer.from(CSV_FEED)))).toBe(CSV_FEED);
+  });
+
+  it('should pass plain text through', () => {
+    expect(decodeFeedBuffer(Buffer.from('plain'))).toBe('plain');
+  });
+});
+
+describe('parseMetarFeed', () => {
+  it('should detect raw METAR lines', () => {
+    const now = new Date('2026-02-17T17:00:00Z');
+    const metar = metarFromRawText('SPECI KRUQ 171655Z 18008KT 3SM BR OVC007 09/08 A3001', now);
+    expect(metar?.icaoId).toBe('KRUQ');
+    expect(metar?.metarType).toBe('SPECI');
+    expect(metar?.reportTime).toBe('2026-02-17T16:55:00.000Z');
+  });
+
+  it('should detect JSON, XML and CSV content', () => {
+    expect(parseMetarFeed(JSON.stringify([fakeMetar('KCLT')]))[0].icaoId).toBe('KCLT');
+    expect(parseMetarFeed(XML_FEED)[0].icaoId).toBe('KGMU');
+    expect(parseMetarFeed(CSV_FEED)).toHaveLength(2);
+  });
+});
+
+describe('LocalMetarProvider', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'metar-local-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should read a directory and keep the newest report per airport', async () => {
+    fs.writeFileSync(path.join(dir, 'a.json'), JSON.stringify([fakeMetar('KCLT', 100)]));
+    fs.writeFileSync(path.join(dir, 'b.json'), JSON.stringify([fakeMetar('KCLT', 200)]));
+    fs.writeFileSync(path.join(dir, 'c.csv.gz'), zlib.gzipSync(Buffer.from(CSV_FEED)));
+
+    const metars = await new LocalMetarProvider(dir).fetch(['KCLT', 'KJQF']);
+    const kclt = metars.find(m => m.icaoId === 'KCLT');
+
+    expect(metars).toHaveLength(2);
+    expect(kclt?.obsTime).toBe(Date.parse('2026-02-17T16:52:00Z') / 1000);
+  });
+
+  it('should read a single file', async () => {
+    const file = path.join(dir, 'metars.xml');
+    fs.writeFileSync(file, XML_FEED);
+
+    const metars = await new LocalMetarProvider(file).fetch(['KGMU']);
+    expect(metars.map(m => m.icaoId)).toEqual(['KGMU']);
+  });
+});
+
+describe('FailoverMetarProvider', () => {
+  const failing: MetarProvider = {
+    name: 'failing',
+    fetch: () => Promise.reject(new Error('API error: 500 Internal Server Error'))
+  };
+  const changedFormat: MetarProvider = {
+    name: 'changed',
+    fetch: () => Promise.resolve([{ station: 'KCLT' } as unknown as MetarData])
+  };
+  const hanging: MetarProvider = {
+    name: 'hanging',
+    fetch: () => new Promise<MetarData[]>(() => undefined)
+  };
+  const working: MetarProvider = {
+    name: 'working',
+    fetch: () => Promise.resolve([fakeMetar('KCLT')])
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should use the first provider that succeeds', async () => {
+    const provider = new FailoverMetarProvider([working, failing], 1000);
+    await expect(provider.fetch(['KCLT'])).resolves.toHaveLength(1);
+    expect(provider.activeSource).toBe('working');
+  });
+
+  it('should fail over on errors, format changes and timeouts', async () => {
+    const provider = new FailoverMetarProvider([failing, changedFormat, hanging, working], 50);
+    await expect(provider.fetch(['KCLT'])).resolves.toHaveLength(1);
+    expect(provider.activeSource).toBe('working');
+  });
+
+  it('should abort a provider that times out', async () => {
+    let signal: AbortSignal | undefined;
+    const slow: MetarProvider = {
+      name: 'slow',
+      fetch: (_airports, abortSignal) => {
+        signal = abortSignal;
+        return new Promise<MetarData[]>(() => undefined);
+      }
+    };
+
+    const provider = new FailoverMetarProvider([slow, working], 50);
+    await expect(provider.fetch(['KCLT'])).resolves.toHaveLength(1);
+    expect(signal?.aborted).toBe(true);
+    expect(signal?.reason).toEqual(new Error('timed out after 0.05s'));
+  });
+
+  it('should throw when every provider fails', async () => {
+    const provider = new FailoverMetarProvider([failing, changedFormat], 1000);
+    await expect(provider.fetch(['KCLT'])).rejects.toThrow(
+      'All METAR providers failed (failing: API error: 500 Internal Server Error; ' +
+      'changed: no usable METAR reports (1 records received))'
+    );
+  });
+
+  it('should require at least one provider', () => {
+    expect(() => new FailoverMetarProvider([], 1000)).toThrow();
+  });
+});
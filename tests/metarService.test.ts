@@ -0,0 +1,131 @@
+/**
+ * Unit tests for batched METAR fetching
+ */
+
+import axios, { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { fetchMetarData, getMetarFetchBudgetMs } from '../src/services/metarService';
+import { MetarData, MetarFetchOptions } from '../src/types';
+
+const API_URL = 'https://example.test/metar';
+
+const OPTIONS: MetarFetchOptions = {
+  batchSize: 2,
+  concurrency: 2,
+  retries: 2,
+  retryBaseDelayMs: 1,
+  retryMaxDelayMs: 5
+};
+
+function idsFromUrl(url: string): string[] {
+  return new URL(url).searchParams.get('ids')!.split(',');
+}
+
+function fakeMetar(icaoId: string): MetarData {
+  return {
+    icaoId,
+    rawOb: `${icaoId} 171652Z 20008KT 10SM CLR 22/10 A3012`,
+    receiptTime: '',
+    reportTime: '',
+    obsTime: 1771347120,
+    lat: 35.2,
+    lon: -80.9,
+    elev: 229,
+    name: icaoId
+  };
+}
+
+function httpError(status: number, headers: Record<string, string> = {}): AxiosError {
+  const config = { headers: {} } as InternalAxiosRequestConfig;
+  const response = { status, statusText: 'Error', headers, config, data: null } as AxiosResponse;
+  return new AxiosError('Request failed', 'ERR_BAD_RESPONSE', config, {}, response);
+}
+
+describe('fetchMetarData', () => {
+  let getSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    getSpy = jest.spyOn(axios, 'get');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should split airports into batches and merge the results', async () => {
+    getSpy.mockImplementation(async (url: string) => ({ data: idsFromUrl(url).map(fakeMetar) }));
+
+    const data = await fetchMetarData(['KCLT', 'KJQF', 'KGMU', 'KAVL', 'KGSO'], API_URL, OPTIONS);
+
+    expect(getSpy).toHaveBeenCalledTimes(3);
+    expect(data.map(m => m.icaoId).sort()).toEqual(['KAVL', 'KCLT', 'KGMU', 'KGSO', 'KJQF']);
+  });
+
+  it('should retry rate-limited batches', async () => {
+    getSpy
+      .mockRejectedValueOnce(httpError(429, { 'retry-after': '0' }))
+      .mockImplementation(async (url: string) => ({ data: idsFromUrl(url).map(fakeMetar) }));
+
+    const data = await fetchMetarData(['KCLT'], API_URL, OPTIONS);
+
+    expect(getSpy).toHaveBeenCalledTimes(2);
+    expect(data).toHaveLength(1);
+  });
+
+  it('should keep partial results when one batch fails', async () => {
+    getSpy.mockImplementation(async (url: string) => {
+      const ids = idsFromUrl(url);
+      if (ids.includes('KGMU')) {
+        throw httpError(503);
+      }
+      return { data: ids.map(fakeMetar) };
+    });
+
+    const data = await fetchMetarData(['KCLT', 'KJQF', 'KGMU'], API_URL, OPTIONS);
+
+    expect(data.map(m => m.icaoId)).toEqual(['KCLT', 'KJQF']);
+    // 1 call for the good batch, 3 attempts for the failing batch
+    expect(getSpy).toHaveBeenCalledTimes(4);
+  });
+
+  it('should not retry client errors', async () => {
+    getSpy.mockRejectedValue(httpError(400));
+
+    await expect(fetchMetarData(['KCLT'], API_URL, OPTIONS)).rejects.toThrow('API error: 400');
+    expect(getSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw when every batch fails', async () => {
+    getSpy.mockRejectedValue(httpError(500));
+
+    await expect(fetchMetarData(['KCLT', 'KJQF', 'KGMU'], API_URL, OPTIONS)).rejects.toThrow('API error: 500');
+  });
+
+  it('should stop retrying once the fetch is aborted', async () => {
+    const controller = new AbortController();
+    getSpy.mockImplementation(async () => {
+      controller.abort(new Error('timed out'));
+      throw httpError(503);
+    });
+
+    const slowRetries = { ...OPTIONS, retryBaseDelayMs: 60000, retryMaxDelayMs: 60000 };
+
+    await expect(fetchMetarData(['KCLT'], API_URL, slowRetries, controller.signal)).rejects.toThrow('timed out');
+    expect(getSpy).toHaveBeenCalledTimes(1);
+    expect(getSpy.mock.calls[0][1].signal).toBe(controller.signal);
+  });
+});
+
+describe('getMetarFetchBudgetMs', () => {
+  it('should allow every attempt to time out with the longest retry delays', () => {
+    // 4 requests of 15s and 3 delays of 30s
+    const defaults = { ...OPTIONS, batchSize: 50, concurrency: 3, retries: 3, retryMaxDelayMs: 30000 };
+    expect(getMetarFetchBudgetMs(150, defaults)).toBe(150000);
+  });
+
+  it('should add a round for batches waiting on the concurrency limit', () => {
+    expect(getMetarFetchBudgetMs(5, { ...OPTIONS, batchSize: 2, concurrency: 2, retries: 0 })).toBe(30000);
+  });
+});
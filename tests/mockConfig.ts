@@ -0,0 +1,175 @@
+/**
+ * Shared mock configuration for unit tests
+ */
+
+import { Config } from '../src/types';
+
+export const mockConfig: Config = {
+  useMockGpio: true,
+  ledBackend: 'gpio',
+  ledCount: 50,
+  ledPin: 18,
+  ledBrightness: 0.5,
+  ledBrightnessDim: 0.1,
+  ledOrder: 'GRB',
+  ledStrips: [{ pin: 18, count: 50, order: 'GRB', brightness: 1 }],
+  colorOrder: 'GRB',
+  colorCalibration: {
+    gamma: 2.8,
+    whiteBalance: { r: 1, g: 1, b: 1 },
+    channelScale: { r: 1, g: 1, b: 1 },
+    ledCorrections: {}
+  },
+  ledMaPerChannel: 20,
+  ledIdleMa: 1,
+  powerLimitMa: 0,
+  ledHost: '',
+  ledPort: 0,
+  ledNetworkFps: 30,
+  opcChannel: 0,
+  e131Universe: 1,
+  e131LedsPerUniverse: 170,
+  e131Priority: 100,
+  spiDevice: '/dev/spidev0.0',
+  airports: [],
+  colors: {
+    vfr: { r: 0, g: 255, b: 0 },
+    vfrFade: { r: 0, g: 128, b: 0 },
+    mvfr: { r: 0, g: 0, b: 255 },
+    mvfrFade: { r: 0, g: 0, b: 128 },
+    ifr: { r: 255, g: 0, b: 0 },
+    ifrFade: { r: 128, g: 0, b: 0 },
+    lifr: { r: 0, g: 255, b: 255 },
+    lifrFade: { r: 0, g: 128, b: 128 },
+    clear: { r: 0, g: 0, b: 0 },
+    lightning: { r: 255, g: 255, b: 255 },
+    highWinds: { r: 255, g: 255, b: 0 },
+    snow: { r: 200, g: 200, b: 255 },
+    freezing: { r: 255, g: 20, b: 147 },
+    fog: { r: 80, g: 80, b: 80 },
+    haze: { r: 255, g: 140, b: 0 },
+    hail: { r: 128, g: 0, b: 255 },
+    advisory: { r: 255, g: 191, b: 0 },
+    advisoryConvective: { r: 255, g: 69, b: 0 },
+    pirep: { r: 165, g: 0, b: 255 },
+    alert: { r: 255, g: 165, b: 0 }
+  },
+  activateWindAnimation: true,
+  activateLightningAnimation: true,
+  activateWeatherAnimation: false,
+  weatherPriority: ['freezing', 'hail', 'snow', 'fog', 'haze'],
+  weatherAnimation: {
+    freezing: 'flash',
+    hail: 'flash',
+    snow: 'flash',
+    fog: 'flash',
+    haze: 'flash'
+  },
+  fadeInsteadOfBlink: false,
+  windBlinkThreshold: 15,
+  highWindsThreshold: 25,
+  alwaysBlinkForGusts: false,
+  blinkSpeed: 1.0,
+  blinkTotalTimeSeconds: 300,
+  animationFps: 20,
+  crossfadeMs: 500,
+  animationPhaseSpread: 0.5,
+  disabledLayers: [],
+  layerControlPath: '/tmp/metar-layers.json',
+  activateDaytimeDimming: false,
+  brightTimeStart: '07:00',
+  dimTimeStart: '19:00',
+  useSunriseSunset: false,
+  displayModes: ['category'],
+  displayModeRotateSeconds: 30,
+  gradients: {
+    temperature: [
+      { value: 0, color: { r: 0, g: 0, b: 255 } },
+      { value: 20, color: { r: 255, g: 255, b: 0 } },
+      { value: 40, color: { r: 255, g: 0, b: 0 } }
+    ],
+    visibility: [
+      { value: 0, color: { r: 255, g: 0, b: 255 } },
+      { value: 5, color: { r: 0, g: 255, b: 0 } }
+    ],
+    ceiling: [
+      { value: 0, color: { r: 255, g: 0, b: 255 } },
+      { value: 3000, color: { r: 0, g: 255, b: 0 } }
+    ],
+    wind: [
+      { value: 0, color: { r: 0, g: 255, b: 0 } },
+      { value: 30, color: { r: 255, g: 0, b: 0 } }
+    ],
+    altimeter: [
+      { value: 29.5, color: { r: 255, g: 0, b: 0 } },
+      { value: 30.4, color: { r: 0, g: 0, b: 255 } }
+    ],
+    tendency: [
+      { value: -3, color: { r: 255, g: 0, b: 0 } },
+      { value: 3, color: { r: 0, g: 0, b: 255 } }
+    ],
+    spread: [
+      { value: 0, color: { r: 255, g: 0, b: 255 } },
+      { value: 8, color: { r: 0, g: 255, b: 0 } }
+    ],
+    crosswind: [
+      { value: 0, color: { r: 0, g: 255, b: 0 } },
+      { value: 15, color: { r: 255, g: 0, b: 0 } }
+    ]
+  },
+  crosswindLimit: 15,
+  tailwindLimit: 10,
+  runwayMinLength: 0,
+  densityAltitudeBands: [
+    { value: 0, color: { r: 0, g: 255, b: 0 } },
+    { value: 3000, color: { r: 255, g: 255, b: 0 } },
+    { value: 6000, color: { r: 255, g: 0, b: 0 } }
+  ],
+  showLegend: false,
+  offsetLegendBy: 0,
+  metarApiUrl: 'https://aviationweather.gov/api/data/metar',
+  metarUpdateInterval: 5,
+  adaptivePolling: true,
+  pollIntervalActive: 2,
+  pollIntervalMax: 15,
+  issuanceWindow: { start: 51, end: 56 },
+  metarProviders: ['json'],
+  metarCsvUrl: 'https://aviationweather.gov/data/cache/metars.cache.csv.gz',
+  metarXmlUrl: 'https://aviationweather.gov/data/cache/metars.cache.xml.gz',
+  metarProviderTimeout: 20,
+  metarBatchSize: 50,
+  metarFetchConcurrency: 3,
+  metarFetchRetries: 3,
+  metarRetryBaseDelay: 1,
+  metarRetryMaxDelay: 30,
+  tafApiUrl: 'https://aviationweather.gov/api/data/taf',
+  forecastDisplayMode: 'current',
+  forecastLookaheadHours: 3,
+  forecastAlternateSeconds: 10,
+  forecastIncludeTemporary: true,
+  activateAdvisoryOverlay: false,
+  advisoryHazards: ['convective', 'turbulence', 'icing'],
+  advisoryMaxAltitude: 18000,
+  airSigmetApiUrl: 'https://aviationweather.gov/api/data/airsigmet',
+  gAirmetApiUrl: 'https://aviationweather.gov/api/data/gairmet',
+  activatePirepOverlay: false,
+  pirepApiUrl: 'https://aviationweather.gov/api/data/pirep',
+  pirepRadiusNm: 25,
+  pirepMaxAgeMinutes: 90,
+  pirepMinIntensity: 'moderate',
+  trendAnimation: 'off',
+  trendWindowMinutes: 60,
+  trendFlashEvery: 4,
+  mockGpioColors: true,
+  mockGpioFormat: 'strip',
+  statePath: '/tmp/metar-state.json',
+  enableLogging: false,
+  metarCachePath: '/tmp/metar-cache.json',
+  staleObservationMinutes: 90,
+  staleDisplay: 'dim',
+  mapSnapshotPaths: [],
+  mapSnapshotSeconds: 10,
+  mapWidth: 800,
+  mapHeight: 600,
+  mapTitle: 'METAR Map'
+};
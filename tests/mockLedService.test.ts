@@ -0,0 +1,52 @@
+/**
+ * Unit tests for the mock GPIO console output
+ */
+
+import { MockLedService } from '../src/services/ledService';
+import { mockConfig } from './mockConfig';
+
+describe('MockLedService', () => {
+  let log: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  function summaries(): string[] {
+    return log.mock.calls.map(call => String(call[0])).filter(line => line.includes('LEDs active'));
+  }
+
+  it('should print at most once a second and end on the last frame', () => {
+    const leds = new MockLedService({ ...mockConfig, mockGpioFormat: 'strip' });
+
+    // A crossfade at 20 fps
+    for (let frame = 1; frame <= 10; frame++) {
+      leds.setPixel(frame, mockConfig.colors.vfr);
+      leds.show();
+      jest.advanceTimersByTime(50);
+    }
+    expect(summaries()).toHaveLength(1);
+
+    jest.advanceTimersByTime(1000);
+    expect(summaries()).toHaveLength(2);
+    expect(summaries()[1]).toContain(`10/${mockConfig.ledCount} LEDs active`);
+
+    leds.cleanup();
+  });
+
+  it('should not print after cleanup', () => {
+    const leds = new MockLedService(mockConfig);
+    leds.show();
+    leds.show();
+    leds.cleanup();
+
+    jest.advanceTimersByTime(2000);
+    expect(summaries()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Unit tests for the network LED services, against local socket stand-ins
+ */
+
+import * as dgram from 'dgram';
+import * as net from 'net';
+import { AddressInfo } from 'net';
+import { E131LedService, OpcLedService, WledLedService } from '../src/services/networkLedService';
+import { Config } from '../src/types';
+import { mockConfig } from './mockConfig';
+
+const RED = { r: 255, g: 0, b: 0 };
+const BLUE = { r: 0, g: 0, b: 255 };
+
+function testConfig(overrides: Partial<Config>): Config {
+  return {
+    ...mockConfig,
+    ledCount: 3,
+    ledStrips: [{ pin: 18, count: 3, order: 'GRB', brightness: 1 }],
+    ledBrightness: 1,
+    colorCalibration: { ...mockConfig.colorCalibration, gamma: 1 },
+    ledHost: '127.0.0.1',
+    ...overrides
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * UDP socket collecting the datagrams it receives
+ */
+async function udpReceiver(): Promise<{ socket: dgram.Socket; port: number; packets: Buffer[] }> {
+  const socket = dgram.createSocket('udp4');
+  const packets: Buffer[] = [];
+  socket.on('message', message => packets.push(message));
+  await new Promise<void>(resolve => socket.bind(0, '127.0.0.1', resolve));
+  return { socket, port: (socket.address() as AddressInfo).port, packets };
+}
+
+async function waitFor(condition: () => boolean, timeoutMs: number = 2000): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) {
+      throw new Error('Timed out');
+    }
+    await sleep(5);
+  }
+}
+
+describe('WledLedService', () => {
+  it('should send the frame as a DNRGB packet', async () => {
+    const receiver = await udpReceiver();
+    const leds = new WledLedService(testConfig({ ledPort: receiver.port }));
+
+    leds.setPixel(1, RED);
+    leds.show();
+    await waitFor(() => receiver.packets.length >= 1);
+
+    expect([...receiver.packets[0]]).toEqual([4, 2, 0, 0, 0, 0, 0, 255, 0, 0, 0, 0, 0]);
+    leds.cleanup();
+    receiver.socket.close();
+  });
+
+  it('should apply the brightness to the frame', async () => {
+    const receiver = await udpReceiver();
+    const leds = new WledLedService(testConfig({ ledPort: receiver.port }));
+
+    leds.setBrightness(0.5);
+    leds.setPixel(0, RED);
+    leds.show();
+    await waitFor(() => receiver.packets.length >= 1);
+
+    expect(receiver.packets[0][4]).toBe(128);
+    leds.cleanup();
+    receiver.socket.close();
+  });
+
+  it('should merge frames shown faster than LED_NETWORK_FPS', async () => {
+    const receiver = await udpReceiver();
+    const leds = new WledLedService(testConfig({ ledPort: receiver.port, ledNetworkFps: 10 }));
+
+    leds.setPixel(0, RED);
+    leds.show();
+    leds.setPixel(0, BLUE);
+    leds.show();
+    leds.setPixel(0, RED);
+    leds.show();
+    await sleep(200);
+
+    expect(receiver.packets).toHaveLength(2);
+    expect([...receiver.packets[1].subarray(4, 7)]).toEqual([255, 0, 0]);
+    leds.cleanup();
+    receiver.socket.close();
+  });
+});
+
+describe('E131LedService', () => {
+  it('should spread LEDs over consecutive universes', async () => {
+    const receiver = await udpReceiver();
+    const leds = new E131LedService(testConfig({ ledPort: receiver.port, e131Universe: 5, e131LedsPerUniverse: 2 }));
+
+    leds.setPixel(2, BLUE);
+    leds.show();
+    await waitFor(() => receiver.packets.length >= 2);
+
+    const universes = receiver.packets.map(packet => packet.readUInt16BE(113)).sort();
+    expect(universes).toEqual([5, 6]);
+    const second = receiver.packets.find(packet => packet.readUInt16BE(113) === 6) as Buffer;
+    expect([...second.subarray(125)]).toEqual([0, 0, 0, 255]);
+    leds.cleanup();
+    receiver.socket.close();
+  });
+});
+
+describe('OpcLedService', () => {
+  let server: net.Server;
+  let connections: net.Socket[];
+  let received: Buffer;
+  let port: number;
+
+  beforeEach(async () => {
+    connections = [];
+    received = Buffer.alloc(0);
+    server = net.createServer(socket => {
+      connections.push(socket);
+      socket.on('data', data => {
+        received = Buffer.concat([received, data]);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    connections.forEach(socket => socket.destroy());
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should send the frame after connecting', async () => {
+    const leds = new OpcLedService(testConfig({ ledPort: port }));
+    await waitFor(() => leds.isConnected);
+
+    leds.setPixel(2, BLUE);
+    leds.show();
+    await waitFor(() => received.length >= 26);
+
+    // Dark frame on connect, then the new one
+    expect([...received.subarray(13, 26)]).toEqual([0, 0, 0, 9, 0, 0, 0, 0, 0, 0, 0, 0, 255]);
+    leds.cleanup();
+  });
+
+  it('should reconnect and resend the frame when the server drops the connection', async () => {
+    const leds = new OpcLedService(testConfig({ ledPort: port }), 20);
+    leds.setPixel(0, RED);
+    await waitFor(() => connections.length === 1 && received.length >= 13);
+
+    connections[0].destroy();
+    received = Buffer.alloc(0);
+    await waitFor(() => connections.length === 2 && received.length >= 13);
+
+    expect([...received.subarray(0, 7)]).toEqual([0, 0, 0, 9, 255, 0, 0]);
+    leds.cleanup();
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * Unit tests for PIREP decoding and nearby report lookup
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import axios from 'axios';
+import {
+  decodeHazardGroup,
+  decodePirep,
+  getPirepIntensity,
+  isSignificantPirep,
+  parseIntensity
+} from '../src/utils/pirepDecoder';
+import { distanceNm, getAirportPositions, getBoundingBox } from '../src/utils/geo';
+import {
+  applyPireps,
+  fetchPirepData,
+  fetchRecentPireps,
+  findNearbyPireps
+} from '../src/services/pirepService';
+import { getColorForConditions } from '../src/utils/colorMapper';
+import { AirportConditions, Config, MetarData, PirepApiData } from '../src/types';
+import { mockConfig } from './mockConfig';
+
+const PIREPS: PirepApiData[] = JSON.parse(
+  fs.readFileSync(path.join(__dirname, 'fixtures', 'pirep.json'), 'utf-8')
+);
+const DECODED = PIREPS.map(decodePirep);
+const NOW = new Date('2026-02-17T17:00:00Z');
+
+const KCLT = { lat: 35.21, lon: -80.94 };
+const KDEN = { lat: 39.86, lon: -104.67 };
+const KATL = { lat: 33.64, lon: -84.43 };
+
+function fakeMetar(icaoId: string, position: { lat: number; lon: number }): MetarData {
+  return {
+    icaoId,
+    rawOb: `${icaoId} 171652Z 20008KT 10SM CLR 22/10 A3012`,
+    receiptTime: '',
+    reportTime: '',
+    obsTime: 1771347120,
+    elev: 0,
+    name: icaoId,
+    ...position
+  };
+}
+
+function vfrConditions(): AirportConditions {
+  return {
+    flightCategory: 'VFR',
+    windSpeed: 5,
+    windGustSpeed: 0,
+    windGust: false,
+    lightning: false
+  };
+}
+
+describe('parseIntensity', () => {
+  it('should decode single intensities', () => {
+    expect(parseIntensity('MOD')).toBe('moderate');
+    expect(parseIntensity('SEV')).toBe('severe');
+    expect(parseIntensity('NEG')).toBe('none');
+  });
+
+  it('should take the higher end of a range', () => {
+    expect(parseIntensity('LGT-MOD')).toBe('moderate');
+    expect(parseIntensity('SMTH-LGT')).toBe('light');
+  });
+
+  it('should return null without an intensity', () => {
+    expect(parseIntensity('CHOP')).toBeNull();
+    expect(parseIntensity(undefined)).toBeNull();
+  });
+});
+
+describe('decodeHazardGroup', () => {
+  it('should decode intensity, type and altitude range', () => {
+    expect(decodeHazardGroup('MOD CHOP 040-070')).toEqual({
+      intensity: 'moderate',
+      type: 'CHOP',
+      base: 4000,
+      top: 7000
+    });
+  });
+
+  it('should decode a single altitude', () => {
+    expect(decodeHazardGroup('LGT-MOD RIME 090')).toEqual({
+      intensity: 'moderate',
+      type: 'RIME',
+      base: 9000,
+      top: 9000
+    });
+  });
+
+  it('should decode open-ended altitudes', () => {
+    expect(decodeHazardGroup('MOD BLO 050')).toEqual({ intensity: 'moderate', top: 5000 });
+    expect(decodeHazardGroup('LGT CAT ABV 350')).toEqual({ intensity: 'light', type: 'CAT', base: 35000 });
+  });
+
+  it('should keep groups without altitudes', () => {
+    expect(decodeHazardGroup('NEG')).toEqual({ intensity: 'none' });
+    expect(decodeHazardGroup('')).toBeNull();
+  });
+});
+
+describe('decodePirep', () => {
+  it('should decode a routine turbulence report', () => {
+    expect(DECODED[0]).toEqual({
+      time: new Date('2026-02-17T16:40:00Z'),
+      lat: 35.21,
+      lon: -81.14,
+      urgent: false,
+      aircraft: 'CRJ9',
+      altitude: 6000,
+      turbulence: { intensity: 'moderate', type: 'CHOP', base: 4000, top: 7000 },
+      raw: PIREPS[0].rawOb
+    });
+  });
+
+  it('should decode an urgent report', () => {
+    expect(DECODED[4].urgent).toBe(true);
+    expect(DECODED[4].turbulence).toEqual({ intensity: 'severe', base: 10000, top: 12000 });
+  });
+
+  it('should fall back to the API fields when the raw report has no group', () => {
+    expect(DECODED[6].icing).toEqual({ intensity: 'moderate', type: 'MX', base: 8000, top: 10000 });
+  });
+
+  it('should leave out hazards that were not reported', () => {
+    expect(DECODED[7].turbulence).toBeUndefined();
+    expect(DECODED[7].icing).toBeUndefined();
+  });
+});
+
+describe('getPirepIntensity and isSignificantPirep', () => {
+  it('should use the worse of turbulence and icing', () => {
+    expect(getPirepIntensity(DECODED[1])).toBe('moderate');
+    expect(getPirepIntensity(DECODED[7])).toBe('none');
+  });
+
+  it('should compare against the minimum intensity', () => {
+    expect(isSignificantPirep(DECODED[0], 'moderate')).toBe(true);
+    expect(isSignificantPirep(DECODED[2], 'moderate')).toBe(false);
+    expect(isSignificantPirep(DECODED[2], 'light')).toBe(true);
+    expect(isSignificantPirep(DECODED[5], 'trace')).toBe(false);
+  });
+});
+
+describe('distanceNm', () => {
+  it('should measure great-circle distance in nautical miles', () => {
+    // One degree of latitude is 60 nm
+    expect(distanceNm({ lat: 35, lon: -80 }, { lat: 36, lon: -80 })).toBeCloseTo(60, 0);
+    expect(distanceNm(KCLT, KCLT)).toBe(0);
+  });
+});
+
+describe('findNearbyPireps', () => {
+  it('should find recent turbulence and icing reports within the radius', () => {
+    const nearby = findNearbyPireps(DECODED, KCLT, mockConfig, NOW);
+
+    // Not included: the report 30 nm out, the one from 14:30 and the one
+    // without turbulence or icing
+    expect(nearby.map(n => n.pirep.aircraft)).toEqual(['C172', 'CRJ9']);
+    expect(nearby[1].distanceNm).toBeCloseTo(9.8, 0);
+  });
+
+  it('should follow the configured radius and time window', () => {
+    const config: Config = { ...mockConfig, pirepRadiusNm: 40, pirepMaxAgeMinutes: 180 };
+    const aircraft = findNearbyPireps(DECODED, KCLT, config, NOW).map(n => n.pirep.aircraft);
+    expect(aircraft).toEqual(['C172', 'CRJ9', 'E145', 'A321']);
+  });
+});
+
+describe('applyPireps', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should attach nearby reports and count airports with significant ones', () => {
+    const conditionsMap = new Map<string, AirportConditions>();
+    const metarDataMap = new Map<string, MetarData>();
+    for (const [code, position] of Object.entries({ KCLT, KDEN, KATL })) {
+      conditionsMap.set(code, vfrConditions());
+      metarDataMap.set(code, fakeMetar(code, position));
+    }
+    const airports = ['KCLT', 'KDEN', 'KATL'].map((code, led) => ({ code, led }));
+
+    expect(applyPireps(conditionsMap, getAirportPositions(airports, metarDataMap), DECODED, mockConfig, NOW)).toBe(2);
+    expect(conditionsMap.get('KDEN')!.pireps!.map(n => n.pirep.aircraft)).toEqual(['B738', 'PC12']);
+    expect(conditionsMap.get('KATL')!.pireps).toEqual([]);
+  });
+});
+
+describe('getBoundingBox', () => {
+  it('should widen the box by the margin on every side', () => {
+    const box = getBoundingBox([KCLT, KATL], 60)!;
+    expect(box.south).toBeCloseTo(32.64);
+    expect(box.north).toBeCloseTo(36.21);
+    // Every corner is at least the margin away from the airports
+    expect(distanceNm(KATL, { lat: KATL.lat, lon: box.west })).toBeGreaterThanOrEqual(60);
+    expect(distanceNm(KCLT, { lat: KCLT.lat, lon: box.east })).toBeGreaterThanOrEqual(60);
+  });
+
+  it('should return null without points', () => {
+    expect(getBoundingBox([], 25)).toBeNull();
+  });
+});
+
+describe('fetchPirepData', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should request the time window in whole hours', async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const getSpy = jest.spyOn(axios, 'get').mockResolvedValue({ data: PIREPS });
+
+    await fetchPirepData('https://example.test/pirep', 90);
+    expect(getSpy.mock.calls[0][0]).toBe('https://example.test/pirep?format=json&age=2');
+  });
+
+  it('should only request the area around the airports', async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const getSpy = jest.spyOn(axios, 'get').mockResolvedValue({ data: PIREPS });
+    const config: Config = { ...mockConfig, pirepApiUrl: 'https://example.test/pirep', pirepMaxAgeMinutes: 60 };
+
+    const pireps = await fetchRecentPireps({ ...config, pirepRadiusNm: 60 }, [KCLT, KATL]);
+    expect(pireps).toHaveLength(PIREPS.length);
+    expect(getSpy.mock.calls[0][0]).toBe(
+      'https://example.test/pirep?format=json&age=1&bbox=32.64,-85.67,36.21,-79.70'
+    );
+  });
+
+  it('should not request anything without airport positions', async () => {
+    const getSpy = jest.spyOn(axios, 'get');
+    expect(await fetchRecentPireps(mockConfig, [])).toEqual([]);
+    expect(getSpy).not.toHaveBeenCalled();
+  });
+
+  it('should describe failures', async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(axios, 'get').mockResolvedValue({ data: {} });
+    await expect(fetchPirepData('https://example.test/pirep', 60)).rejects.toThrow('PIREP');
+  });
+});
+
+describe('PIREP overlay colors', () => {
+  const config: Config = { ...mockConfig, activatePirepOverlay: true };
+
+  it('should show the overlay color on the wind cycle for significant reports', () => {
+    const conditions = { ...vfrConditions(), pireps: [{ pirep: DECODED[0], distanceNm: 9.8 }] };
+    expect(getColorForConditions(conditions, true, config, 1)).toEqual(config.colors.pirep);
+    expect(getColorForConditions(conditions, false, config, 0)).toEqual(config.colors.vfr);
+  });
+
+  it('should ignore reports below the minimum intensity', () => {
+    const conditions = { ...vfrConditions(), pireps: [{ pirep: DECODED[2], distanceNm: 2.4 }] };
+    expect(getColorForConditions(conditions, true, config, 1)).toEqual(config.colors.vfr);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Unit tests for the power budget and meter
+ */
+
+import { estimateLedCurrent, limitPowerDraw } from '../src/utils/powerBudget';
+import { PowerMeter } from '../src/services/powerMeter';
+import { mockConfig } from './mockConfig';
+
+describe('estimateLedCurrent', () => {
+  it('should add up the channels in proportion to their values', () => {
+    expect(estimateLedCurrent([255, 255, 255], 20)).toBe(60);
+    expect(estimateLedCurrent([255, 0, 0], 20)).toBe(20);
+    expect(estimateLedCurrent([0, 0, 0, 255], 20)).toBe(20);
+    expect(estimateLedCurrent([0, 0, 0], 20)).toBe(0);
+  });
+});
+
+describe('limitPowerDraw', () => {
+  it('should scale by brightness without a limit', () => {
+    expect(limitPowerDraw(50, 3000, 0.5, 0)).toEqual({ requestedMa: 1550, estimatedMa: 1550, scale: 1 });
+  });
+
+  it('should leave frames within the limit alone', () => {
+    expect(limitPowerDraw(50, 3000, 0.5, 2000)).toEqual({
+      requestedMa: 1550,
+      estimatedMa: 1550,
+      limitMa: 2000,
+      scale: 1
+    });
+  });
+
+  it('should scale the active draw down to the limit', () => {
+    const draw = limitPowerDraw(50, 3000, 1, 1550);
+    expect(draw.requestedMa).toBe(3050);
+    expect(draw.scale).toBe(0.5);
+    expect(draw.estimatedMa).toBe(1550);
+  });
+});
+
+describe('PowerMeter', () => {
+  const config = { ...mockConfig, ledBrightness: 1, powerLimitMa: 1050 };
+
+  it('should estimate the idle draw of a dark strip', () => {
+    const meter = new PowerMeter(config);
+    expect(meter.measure(1)).toEqual({ requestedMa: 50, estimatedMa: 50, limitMa: 1050, scale: 1 });
+  });
+
+  it('should limit a frame of white LEDs', () => {
+    const meter = new PowerMeter(config);
+    for (let i = 0; i < 50; i++) {
+      meter.setPixel(i, [255, 255, 255]);
+    }
+    const draw = meter.measure(1);
+    expect(draw.requestedMa).toBe(3050);
+    expect(draw.scale).toBeCloseTo(1000 / 3000);
+    expect(draw.estimatedMa).toBeCloseTo(1050);
+    expect(meter.lastDraw).toBe(draw);
+  });
+
+  it('should apply each strip\'s brightness', () => {
+    const meter = new PowerMeter({
+      ...config,
+      ledStrips: [
+        { pin: 18, count: 25, order: 'GRB', brightness: 1 },
+        { pin: 13, count: 25, order: 'GRB', brightness: 0.5 }
+      ]
+    });
+    meter.setPixel(0, [255, 0, 0]);
+    meter.setPixel(25, [255, 0, 0]);
+    expect(meter.measure(1).requestedMa).toBe(50 + 20 + 10);
+  });
+
+  it('should forget LEDs when cleared', () => {
+    const meter = new PowerMeter(config);
+    meter.setPixel(0, [255, 255, 255]);
+    meter.clear();
+    expect(meter.measure(1).requestedMa).toBe(50);
+  });
+});
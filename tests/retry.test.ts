@@ -0,0 +1,171 @@
+/**
+ * Unit tests for retry, backoff and batching helpers
+ */
+
+import {
+  backoffDelay,
+  chunk,
+  mapWithConcurrency,
+  parseRetryAfter,
+  retryWithBackoff
+} from '../src/utils/retry';
+
+describe('chunk', () => {
+  it('should split items into batches of the given size', () => {
+    expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+    expect(chunk([], 2)).toEqual([]);
+  });
+
+  it('should reject a non-positive batch size', () => {
+    expect(() => chunk([1], 0)).toThrow('Batch size must be positive');
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('should limit calls in flight and keep results in order', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async ms => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, ms));
+      inFlight--;
+      return ms * 2;
+    });
+
+    expect(maxInFlight).toBe(2);
+    expect(results.map(r => r.status === 'fulfilled' && r.value)).toEqual([60, 20, 40, 10, 30]);
+  });
+
+  it('should settle failures without stopping other items', async () => {
+    const results = await mapWithConcurrency([1, 2, 3], 3, async n => {
+      if (n === 2) {
+        throw new Error('boom');
+      }
+      return n;
+    });
+
+    expect(results.map(r => r.status)).toEqual(['fulfilled', 'rejected', 'fulfilled']);
+  });
+});
+
+describe('backoffDelay', () => {
+  it('should double the delay ceiling each attempt', () => {
+    expect(backoffDelay(0, 1000, 30000, () => 0.999999)).toBe(1000);
+    expect(backoffDelay(3, 1000, 30000, () => 0.999999)).toBe(8000);
+  });
+
+  it('should apply jitter down to half the ceiling', () => {
+    expect(backoffDelay(2, 1000, 30000, () => 0)).toBe(2000);
+  });
+
+  it('should cap the delay', () => {
+    expect(backoffDelay(10, 1000, 30000, () => 0.999999)).toBe(30000);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should parse delay seconds', () => {
+    expect(parseRetryAfter('120')).toBe(120000);
+  });
+
+  it('should parse an HTTP date', () => {
+    const now = new Date('2026-02-17T17:00:00Z');
+    expect(parseRetryAfter('Tue, 17 Feb 2026 17:00:30 GMT', now)).toBe(30000);
+  });
+
+  it('should return null for missing or unreadable values', () => {
+    expect(parseRetryAfter(undefined)).toBeNull();
+    expect(parseRetryAfter('soon')).toBeNull();
+  });
+});
+
+describe('retryWithBackoff', () => {
+  const noWait = jest.fn(async (): Promise<void> => undefined);
+
+  beforeEach(() => noWait.mockClear());
+
+  it('should retry until the call succeeds', async () => {
+    const fn = jest.fn()
+      .mockRejectedValueOnce(new Error('fail 1'))
+      .mockRejectedValueOnce(new Error('fail 2'))
+      .mockResolvedValue('ok');
+
+    const result = await retryWithBackoff(fn, {
+      retries: 3,
+      baseDelayMs: 1000,
+      maxDelayMs: 30000,
+      wait: noWait,
+      random: () => 0
+    });
+
+    expect(result).toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(noWait.mock.calls).toEqual([[500], [1000]]);
+  });
+
+  it('should give up after the configured retries', async () => {
+    const fn = jest.fn().mockRejectedValue(new Error('down'));
+
+    await expect(
+      retryWithBackoff(fn, { retries: 2, baseDelayMs: 10, maxDelayMs: 100, wait: noWait })
+    ).rejects.toThrow('down');
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry errors that are not retryable', async () => {
+    const fn = jest.fn().mockRejectedValue(new Error('bad request'));
+
+    await expect(
+      retryWithBackoff(fn, {
+        retries: 3,
+        baseDelayMs: 10,
+        maxDelayMs: 100,
+        isRetryable: () => false,
+        wait: noWait
+      })
+    ).rejects.toThrow('bad request');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should honor a capped Retry-After delay', async () => {
+    const fn = jest.fn()
+      .mockRejectedValueOnce(new Error('429'))
+      .mockRejectedValueOnce(new Error('429'))
+      .mockResolvedValue('ok');
+    const retryAfter = jest.fn()
+      .mockReturnValueOnce(5000)
+      .mockReturnValueOnce(120000);
+
+    await retryWithBackoff(fn, {
+      retries: 3,
+      baseDelayMs: 1000,
+      maxDelayMs: 30000,
+      getRetryAfterMs: retryAfter,
+      wait: noWait
+    });
+
+    expect(noWait.mock.calls).toEqual([[5000], [30000]]);
+  });
+
+  it('should stop retrying when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const fn = jest.fn().mockRejectedValue(new Error('down'));
+    const neverEnds = jest.fn(() => {
+      controller.abort(new Error('timed out'));
+      return new Promise<void>(() => undefined);
+    });
+
+    await expect(
+      retryWithBackoff(fn, {
+        retries: 3,
+        baseDelayMs: 1000,
+        maxDelayMs: 30000,
+        signal: controller.signal,
+        wait: neverEnds
+      })
+    ).rejects.toThrow('timed out');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Unit tests for the APA102 SPI LED service, writing to a fake device file
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Apa102LedService } from '../src/services/spiLedService';
+import { Config } from '../src/types';
+import { mockConfig } from './mockConfig';
+
+const FRAME_BYTES = 4 + 3 * 4 + 5;
+
+describe('Apa102LedService', () => {
+  let dir: string;
+  let device: string;
+  let config: Config;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'apa102-'));
+    device = path.join(dir, 'spidev0.0');
+    config = {
+      ...mockConfig,
+      ledBackend: 'apa102',
+      ledCount: 3,
+      ledOrder: 'BGR',
+      ledStrips: [{ pin: 10, count: 3, order: 'BGR', brightness: 1 }],
+      ledBrightness: 1,
+      colorCalibration: { ...mockConfig.colorCalibration, gamma: 1 },
+      spiDevice: device
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Last frame written to the fake device
+   */
+  function lastFrame(): number[] {
+    const written = fs.readFileSync(device);
+    return [...written.subarray(written.length - FRAME_BYTES)];
+  }
+
+  it('should write a dark frame on start', () => {
+    const leds = new Apa102LedService(config);
+    expect(fs.readFileSync(device).length).toBe(FRAME_BYTES);
+    expect(lastFrame().slice(4, 16)).toEqual([0xff, 0, 0, 0, 0xff, 0, 0, 0, 0xff, 0, 0, 0]);
+    leds.cleanup();
+  });
+
+  it('should write colors in the strip order', () => {
+    const leds = new Apa102LedService(config);
+    leds.setPixel(1, { r: 255, g: 128, b: 0 });
+    leds.show();
+    expect(lastFrame().slice(8, 12)).toEqual([0xff, 0, 128, 255]);
+    leds.cleanup();
+  });
+
+  it('should put the brightness into the brightness bits', () => {
+    const leds = new Apa102LedService(config);
+    leds.setBrightness(0.5);
+    leds.setPixel(0, { r: 0, g: 0, b: 255 });
+    leds.show();
+    expect(lastFrame().slice(4, 8)).toEqual([0xe0 | 16, 247, 0, 0]);
+    leds.cleanup();
+  });
+
+  it('should turn the strip off on cleanup', () => {
+    const leds = new Apa102LedService(config);
+    leds.setPixel(2, { r: 255, g: 255, b: 255 });
+    leds.show();
+    leds.cleanup();
+    expect(lastFrame().slice(12, 16)).toEqual([0xff, 0, 0, 0]);
+  });
+
+  it('should fail clearly when the device is missing', () => {
+    expect(() => new Apa102LedService({ ...config, spiDevice: path.join(dir, 'missing', 'spidev') }))
+      .toThrow('Failed to open SPI device');
+  });
+});
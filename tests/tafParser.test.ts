@@ -0,0 +1,170 @@
+/**
+ * Unit tests for TAF parsing and forecast evaluation
+ */
+
+import { parseTaf, getForecastAt, resolveDayTime, mergeConditions } from '../src/utils/tafParser';
+import { forecastToConditions } from '../src/services/tafService';
+import { decodeConditions } from '../src/utils/metarDecoder';
+import { TafData } from '../src/types';
+import { mockConfig } from './mockConfig';
+
+const RAW_TAF =
+  'TAF KCLT 171720Z 1718/1824 20008KT P6SM SCT050 ' +
+  'FM172200 22010G18KT P6SM BKN040 ' +
+  'TEMPO 1800/1804 3SM -TSRA BKN025CB ' +
+  'FM180600 VRB03KT 5SM BR OVC015 ' +
+  'PROB30 1808/1812 1SM BR OVC004 ' +
+  'BECMG 1814/1816 24010KT P6SM SCT030 NSW';
+
+const REFERENCE = new Date('2026-02-17T17:20:00Z');
+
+function at(iso: string): Date {
+  return new Date(iso);
+}
+
+describe('resolveDayTime', () => {
+  it('should resolve within the reference month', () => {
+    expect(resolveDayTime(18, 6, 0, REFERENCE).toISOString()).toBe('2026-02-18T06:00:00.000Z');
+  });
+
+  it('should roll hour 24 into the next day', () => {
+    expect(resolveDayTime(18, 24, 0, REFERENCE).toISOString()).toBe('2026-02-19T00:00:00.000Z');
+  });
+
+  it('should resolve across a month boundary', () => {
+    const reference = at('2026-01-31T22:00:00Z');
+    expect(resolveDayTime(1, 3, 0, reference).toISOString()).toBe('2026-02-01T03:00:00.000Z');
+  });
+});
+
+describe('parseTaf', () => {
+  const taf = parseTaf(RAW_TAF, REFERENCE) as TafData;
+
+  it('should parse the header', () => {
+    expect(taf.icaoId).toBe('KCLT');
+    expect(taf.issueTime.toISOString()).toBe('2026-02-17T17:20:00.000Z');
+    expect(taf.validFrom.toISOString()).toBe('2026-02-17T18:00:00.000Z');
+    expect(taf.validTo.toISOString()).toBe('2026-02-19T00:00:00.000Z');
+    expect(taf.amended).toBe(false);
+  });
+
+  it('should split change groups in order', () => {
+    expect(taf.periods.map(p => p.change)).toEqual(['BASE', 'FM', 'TEMPO', 'FM', 'PROB', 'BECMG']);
+  });
+
+  it('should end FM groups at the next FM group', () => {
+    expect(taf.periods[0].to.toISOString()).toBe('2026-02-17T22:00:00.000Z');
+    expect(taf.periods[1].to.toISOString()).toBe('2026-02-18T06:00:00.000Z');
+    expect(taf.periods[3].to.toISOString()).toBe('2026-02-19T00:00:00.000Z');
+  });
+
+  it('should decode group conditions', () => {
+    expect(taf.periods[1].wind).toEqual({ direction: 220, speed: 10, gust: 18 });
+    expect(taf.periods[2].weather).toEqual(['-TSRA']);
+    expect(taf.periods[2].temporary).toBe(true);
+    expect(taf.periods[4].probability).toBe(30);
+    expect(taf.periods[5].noSignificantWeather).toBe(true);
+  });
+
+  it('should read PROB TEMPO groups as temporary with a probability', () => {
+    const parsed = parseTaf(
+      'TAF KJQF 171720Z 1718/1818 18005KT P6SM SKC PROB40 TEMPO 1720/1724 2SM TSRA OVC010',
+      REFERENCE
+    ) as TafData;
+    expect(parsed.periods[1].change).toBe('TEMPO');
+    expect(parsed.periods[1].probability).toBe(40);
+  });
+
+  it('should flag amended forecasts', () => {
+    const parsed = parseTaf('TAF AMD KCLT 171720Z 1718/1824 20008KT P6SM SCT050', REFERENCE);
+    expect(parsed?.amended).toBe(true);
+  });
+
+  it('should return null for unreadable input', () => {
+    expect(parseTaf('', REFERENCE)).toBeNull();
+    expect(parseTaf('TAF KCLT NOT A TAF', REFERENCE)).toBeNull();
+  });
+});
+
+describe('getForecastAt', () => {
+  const taf = parseTaf(RAW_TAF, REFERENCE) as TafData;
+
+  it('should use the base group before the first FM group', () => {
+    expect(getForecastAt(taf, at('2026-02-17T19:00:00Z'))?.flightCategory).toBe('VFR');
+  });
+
+  it('should include TEMPO groups as a worst case', () => {
+    const forecast = getForecastAt(taf, at('2026-02-18T01:00:00Z'));
+    expect(forecast?.prevailingCategory).toBe('VFR');
+    expect(forecast?.flightCategory).toBe('MVFR');
+    expect(forecast?.weather).toEqual(['-TSRA']);
+  });
+
+  it('should ignore temporary groups when disabled', () => {
+    expect(getForecastAt(taf, at('2026-02-18T01:00:00Z'), false)?.flightCategory).toBe('VFR');
+  });
+
+  it('should include PROB groups as a worst case', () => {
+    const forecast = getForecastAt(taf, at('2026-02-18T09:00:00Z'));
+    expect(forecast?.prevailingCategory).toBe('MVFR');
+    expect(forecast?.flightCategory).toBe('LIFR');
+  });
+
+  it('should use the worse category while a BECMG change is in progress', () => {
+    expect(getForecastAt(taf, at('2026-02-18T15:00:00Z'))?.flightCategory).toBe('MVFR');
+  });
+
+  it('should apply completed BECMG changes', () => {
+    const forecast = getForecastAt(taf, at('2026-02-18T17:00:00Z'));
+    expect(forecast?.flightCategory).toBe('VFR');
+    expect(forecast?.weather).toEqual([]);
+    expect(forecast?.wind?.speed).toBe(10);
+  });
+
+  it('should return null outside the valid period', () => {
+    expect(getForecastAt(taf, at('2026-02-17T17:00:00Z'))).toBeNull();
+    expect(getForecastAt(taf, at('2026-02-19T00:00:00Z'))).toBeNull();
+  });
+});
+
+describe('mergeConditions', () => {
+  it('should only replace elements reported by the change group', () => {
+    const base = decodeConditions(['20008KT', 'P6SM', 'BKN040']);
+    const change = decodeConditions(['3SM', '-RA']);
+    const merged = mergeConditions(base, change);
+
+    expect(merged.wind?.speed).toBe(8);
+    expect(merged.visibility).toBe(3);
+    expect(merged.weather).toEqual(['-RA']);
+    expect(merged.clouds).toEqual([{ cover: 'BKN', base: 4000 }]);
+  });
+});
+
+describe('forecastToConditions', () => {
+  it('should map forecast wind and thunderstorms to airport conditions', () => {
+    const taf = parseTaf(RAW_TAF, REFERENCE) as TafData;
+    const forecast = getForecastAt(taf, at('2026-02-18T01:00:00Z'))!;
+    const conditions = forecastToConditions(forecast, mockConfig);
+
+    expect(conditions).toEqual({
+      flightCategory: 'MVFR',
+      windSpeed: 10,
+      windGustSpeed: 18,
+      windGust: true,
+      lightning: true,
+      thunderstorm: true,
+      vicinityThunderstorm: false,
+      distantLightning: false,
+      weather: []
+    });
+  });
+
+  it('should follow ALWAYS_BLINK_FOR_GUSTS like current conditions', () => {
+    const taf = parseTaf(RAW_TAF, REFERENCE) as TafData;
+    const forecast = getForecastAt(taf, at('2026-02-18T01:00:00Z'))!;
+    const light = { ...forecast, wind: { ...forecast.wind!, gust: 12 } };
+
+    expect(forecastToConditions(light, mockConfig).windGust).toBe(false);
+    expect(forecastToConditions(light, { ...mockConfig, alwaysBlinkForGusts: true }).windGust).toBe(true);
+  });
+});
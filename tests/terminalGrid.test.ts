@@ -0,0 +1,71 @@
+/**
+ * Unit tests for the terminal simulator grid
+ */
+
+import { colorSwatch, createGridLayout, getGridCellWidth, renderGrid } from '../src/utils/terminalGrid';
+import { AirportMapping } from '../src/types';
+
+/**
+ * Line with the ANSI color codes removed
+ */
+function plain(line: string): string {
+  return line.replace(/\x1b\[[0-9;]*m/g, '');
+}
+
+describe('createGridLayout', () => {
+  it('should fill rows in LED order when no airport has a position', () => {
+    const airports: AirportMapping[] = [
+      { code: 'KC', led: 2 },
+      { code: 'KA', led: 0 },
+      { code: 'KB', led: 1 }
+    ];
+    expect(createGridLayout(airports, 2)).toEqual([
+      { led: 0, code: 'KA', x: 0, y: 0 },
+      { led: 1, code: 'KB', x: 1, y: 0 },
+      { led: 2, code: 'KC', x: 0, y: 1 }
+    ]);
+  });
+
+  it('should keep x/y positions and put the rest below them', () => {
+    const airports: AirportMapping[] = [
+      { code: 'KA', led: 0, x: 3, y: 1 },
+      { code: 'KB', led: 1 }
+    ];
+    expect(createGridLayout(airports, 4)).toEqual([
+      { led: 0, code: 'KA', x: 3, y: 1 },
+      { led: 1, code: 'KB', x: 0, y: 3 }
+    ]);
+  });
+});
+
+describe('colorSwatch', () => {
+  it('should use the exact 24-bit color', () => {
+    expect(colorSwatch({ r: 12, g: 200, b: 7 })).toBe('\x1b[38;2;12;200;7m██\x1b[0m');
+  });
+
+  it('should mark LEDs that are off', () => {
+    expect(plain(colorSwatch({ r: 0, g: 0, b: 0 }))).toBe('··');
+  });
+});
+
+describe('renderGrid', () => {
+  const airports: AirportMapping[] = [
+    { code: 'KCLT', led: 0, x: 0, y: 0 },
+    { code: 'KRDU', led: 1, x: 2, y: 0 },
+    { code: 'KILM', led: 2, x: 1, y: 2 }
+  ];
+  const width = getGridCellWidth(airports);
+  const lines = renderGrid(createGridLayout(airports, 4), () => ({ r: 255, g: 0, b: 0 }), width);
+
+  it('should size cells for the longest code', () => {
+    expect(width).toBe(8);
+  });
+
+  it('should place each airport at its column and row', () => {
+    expect(lines.map(plain)).toEqual([
+      '██ KCLT         ██ KRDU',
+      '',
+      '        ██ KILM'
+    ]);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Unit tests for the terminal LED simulator, drawing to a fake terminal
+ */
+
+import { TerminalLedService, TerminalOutput } from '../src/services/terminalLedService';
+import { Config } from '../src/types';
+import { mockConfig } from './mockConfig';
+
+/**
+ * Terminal stand-in that records what is written
+ */
+function fakeTerminal(isTTY: boolean, rows = 24): TerminalOutput & { text: () => string } {
+  const writes: string[] = [];
+  return {
+    isTTY,
+    rows,
+    columns: 80,
+    write: ((chunk: string) => {
+      writes.push(chunk);
+      return true;
+    }) as TerminalOutput['write'],
+    text: () => writes.join('')
+  };
+}
+
+describe('TerminalLedService', () => {
+  let config: Config;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    config = {
+      ...mockConfig,
+      ledCount: 3,
+      ledStrips: [{ pin: 18, count: 3, order: 'GRB', brightness: 1 }],
+      ledBrightness: 1,
+      mockGpioFormat: 'terminal',
+      airports: [
+        { code: 'KCLT', led: 0, x: 0, y: 0 },
+        { code: 'KRDU', led: 1, x: 1, y: 0 }
+      ]
+    };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should draw the colors scaled by brightness', () => {
+    const terminal = fakeTerminal(false);
+    const linear = { ...config.colorCalibration, gamma: 1 };
+    const leds = new TerminalLedService({ ...config, colorCalibration: linear }, terminal);
+
+    leds.setBrightness(0.5);
+    leds.setPixel(0, { r: 200, g: 100, b: 0 });
+    leds.show();
+
+    expect(terminal.text()).toContain('\x1b[38;2;100;50;0m██');
+    expect(terminal.text()).toContain('1/3 LEDs lit');
+  });
+
+  it('should draw the calibrated values the strip receives', () => {
+    const terminal = fakeTerminal(false);
+    const calibrated: Config = {
+      ...config,
+      ledStrips: [{ ...config.ledStrips[0], brightness: 0.5 }],
+      colorCalibration: { ...config.colorCalibration, gamma: 2, channelScale: { r: 1, g: 0.5, b: 1 } }
+    };
+    const leds = new TerminalLedService(calibrated, terminal);
+
+    // 255 * (204/255)^2 = 163.2 -> 163, halved by the strip brightness
+    leds.setPixel(0, { r: 204, g: 204, b: 0 });
+    leds.show();
+
+    expect(terminal.text()).toContain('\x1b[38;2;82;41;0m██');
+  });
+
+  it('should show lit LEDs that no airport uses', () => {
+    const terminal = fakeTerminal(false);
+    const leds = new TerminalLedService(config, terminal);
+
+    leds.setPixel(2, { r: 0, g: 0, b: 255 });
+    leds.show();
+
+    expect(terminal.text()).toContain('Other LEDs: \x1b[38;2;0;0;255m██\x1b[0m 2');
+  });
+
+  it('should pin the map to the top of a terminal and redraw it in place', () => {
+    const terminal = fakeTerminal(true, 30);
+    const leds = new TerminalLedService(config, terminal);
+
+    leds.show();
+    leds.setPixel(1, { r: 255, g: 0, b: 0 });
+    leds.show();
+
+    const text = terminal.text();
+    // Status, one grid row and the other-LEDs line, then a blank row before the log area
+    expect(text.match(/\x1b\[5;30r/g)).toHaveLength(1);
+    expect(text.match(/\x1b7\x1b\[H/g)).toHaveLength(2);
+    expect(text.endsWith('\x1b8')).toBe(true);
+
+    leds.cleanup();
+    expect(terminal.text()).toContain('\x1b[r');
+  });
+
+  it('should print frames in turn when output is not a terminal', () => {
+    const terminal = fakeTerminal(false);
+    const leds = new TerminalLedService(config, terminal);
+
+    leds.show();
+    leds.show();
+
+    expect(terminal.text()).not.toContain('\x1b[H');
+    expect(terminal.text().match(/LEDs lit/g)).toHaveLength(2);
+  });
+});
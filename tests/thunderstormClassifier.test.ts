@@ -0,0 +1,139 @@
+/**
+ * Unit tests for thunderstorm and lightning classification
+ */
+
+import {
+  classifyRemarkPhrase,
+  classifyThunderstorm,
+  classifyWeatherGroups,
+  hasThunderstormActivity
+} from '../src/utils/thunderstormClassifier';
+import { decodeRemarks } from '../src/utils/metarDecoder';
+
+const NONE = { onStation: false, vicinity: false, distantLightning: false };
+const ON_STATION = { onStation: true, vicinity: false, distantLightning: false };
+const VICINITY = { onStation: false, vicinity: true, distantLightning: false };
+const DISTANT = { onStation: false, vicinity: false, distantLightning: true };
+
+describe('classifyThunderstorm', () => {
+  describe('thunderstorms at the station', () => {
+    it.each([
+      ['KMCO 171853Z 24015G28KT 2SM +TSRA BKN015CB OVC040 24/22 A2998 RMK AO2 FRQ LTGICCG OHD TS OHD MOV E'],
+      ['KATL 171752Z 27012KT 3SM -TSRA BR FEW020 BKN035CB OVC080 26/23 A2996 RMK AO2 TSB38 SLP142'],
+      ['KDFW 171853Z 32018G35KT 1 1/2SM TSGR BKN030CB 22/19 A2990 RMK AO2 PK WND 31040/1840 GR 1'],
+      ['KOKC 171852Z 20009KT 10SM TS SCT050CB 29/18 A2987 RMK AO2 LTG VC TSB45 SLP105'],
+      ['EGLL 171750Z 23012KT 4000 TSRA SCT012 FEW025CB 18/16 Q1008']
+    ])('%s', raw => {
+      expect(classifyThunderstorm(raw).onStation).toBe(true);
+    });
+
+    it('should report only on-station activity for a plain TS group', () => {
+      expect(classifyThunderstorm('KJAX 171856Z 18008KT 10SM TS FEW040CB 31/23 A3001')).toEqual(ON_STATION);
+    });
+  });
+
+  describe('thunderstorms in the vicinity', () => {
+    it('should classify VCTS as vicinity', () => {
+      expect(
+        classifyThunderstorm('KTPA 171853Z 26008KT 10SM VCTS FEW035CB SCT050 31/24 A2999 RMK AO2 SLP154')
+      ).toEqual(VICINITY);
+    });
+
+    it('should classify lightning remarks in the vicinity', () => {
+      expect(
+        classifyThunderstorm('KPHX 180256Z 11012KT 10SM FEW100 SCT200 35/09 A2980 RMK AO2 OCNL LTGCG VC SE')
+      ).toEqual(VICINITY);
+    });
+
+    it('should classify thunderstorm location remarks in the vicinity', () => {
+      expect(
+        classifyThunderstorm('KDEN 172253Z 35010KT 10SM SCT080CB 27/07 A3012 RMK AO2 TS VC NE MOV E')
+      ).toEqual(VICINITY);
+    });
+  });
+
+  describe('distant lightning', () => {
+    it('should classify LTG DSNT as distant only', () => {
+      expect(
+        classifyThunderstorm('KCLT 172352Z 22006KT 10SM FEW060 29/20 A3003 RMK AO2 LTG DSNT W SLP165 T02890200')
+      ).toEqual(DISTANT);
+    });
+
+    it('should classify lightning type and frequency phrases', () => {
+      expect(
+        classifyThunderstorm('KMIA 180053Z 09009KT 10SM SCT025 BKN250 28/24 A3004 RMK AO2 OCNL LTGICCG DSNT NE-S')
+      ).toEqual(DISTANT);
+    });
+
+    it('should classify distant thunderstorm remarks as distant', () => {
+      expect(
+        classifyThunderstorm('KABQ 172352Z 27012KT 10SM FEW090 SCT150 30/03 A3011 RMK AO2 TS DSNT W CB DSNT W')
+      ).toEqual(DISTANT);
+    });
+
+    it('should combine a vicinity storm with distant lightning', () => {
+      expect(
+        classifyThunderstorm('KIAH 172053Z 19010KT 10SM VCTS SCT040CB 32/23 A2993 RMK AO2 LTG DSNT ALQDS')
+      ).toEqual({ onStation: false, vicinity: true, distantLightning: true });
+    });
+  });
+
+  describe('no thunderstorm activity', () => {
+    it.each([
+      // TSNO: the lightning sensor is not available
+      ['KHKY 171856Z AUTO 00000KT 10SM CLR 22/08 A3015 RMK AO2 SLP210 TSNO'],
+      // Thunderstorm ended before the observation
+      ['KGSO 172054Z 24007KT 10SM SCT060 BKN250 27/19 A3004 RMK AO2 TSE32 SLP168'],
+      // Recent thunderstorm (international format)
+      ['LFPG 171800Z 25010KT 9999 FEW040 21/14 Q1012 RETS NOSIG'],
+      // Station identifiers and names that contain "TS" or "LTG"
+      ['KTSP 171856Z 18006KT 10SM CLR 25/10 A3002'],
+      ['KSTS 171853Z 31012KT 10SM FEW010 17/11 A2995 RMK AO2 SLP141'],
+      // Clouds with CB/TCU but no thunder
+      ['KBNA 171853Z 20010KT 10SM FEW045TCU SCT250 30/19 A2998 RMK AO2 TCU DSNT E']
+    ])('%s', raw => {
+      expect(classifyThunderstorm(raw)).toEqual(NONE);
+    });
+
+    it('should handle missing input', () => {
+      expect(classifyThunderstorm(undefined)).toEqual(NONE);
+      expect(classifyThunderstorm('')).toEqual(NONE);
+    });
+  });
+});
+
+describe('classifyWeatherGroups', () => {
+  it('should classify TAF weather groups', () => {
+    expect(classifyWeatherGroups(['-TSRA', 'BR'])).toEqual(ON_STATION);
+    expect(classifyWeatherGroups(['VCTS'])).toEqual(VICINITY);
+    expect(classifyWeatherGroups(['-SHRA', 'VCSH'])).toEqual(NONE);
+  });
+});
+
+describe('classifyRemarkPhrase', () => {
+  it('should use the closest location in the phrase', () => {
+    expect(classifyRemarkPhrase('FRQ LTGICCGCA OHD')).toBe('onStation');
+    expect(classifyRemarkPhrase('LTG AP')).toBe('onStation');
+    expect(classifyRemarkPhrase('LTG VC AND DSNT N')).toBe('vicinity');
+    expect(classifyRemarkPhrase('LTG DSNT SW')).toBe('distant');
+  });
+
+  it('should treat phrases without a location as vicinity', () => {
+    expect(classifyRemarkPhrase('CONS LTGICCG')).toBe('vicinity');
+  });
+});
+
+describe('decodeRemarks thunderstorm phrases', () => {
+  it('should collect thunderstorm locations with movement', () => {
+    const remarks = decodeRemarks('AO2 TS OHD MOV NE SLP120'.split(' '));
+    expect(remarks.thunderstorm).toEqual(['TS OHD MOV NE']);
+    expect(remarks.seaLevelPressure).toBe(1012);
+  });
+});
+
+describe('hasThunderstormActivity', () => {
+  it('should be true for any class of activity', () => {
+    expect(hasThunderstormActivity(NONE)).toBe(false);
+    expect(hasThunderstormActivity(DISTANT)).toBe(true);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Unit tests for the time-lapse replay and reading the history log
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MetarLogEntry, MetarStateManager } from '../src/shared/metarState';
+import { createTimelapseFrames, createTimelapseSnapshot } from '../src/utils/timelapse';
+import { Config, FlightCategory } from '../src/types';
+import { mockConfig } from './mockConfig';
+
+function entry(timestamp: string, airport: string, flightCategory: FlightCategory, lightning = false): MetarLogEntry {
+  return { timestamp, airport, flightCategory, windSpeed: 5, windGustSpeed: 0, lightning };
+}
+
+const entries = [
+  entry('2024-05-01T11:55:00Z', 'KCLT', 'VFR'),
+  entry('2024-05-01T11:55:00Z', 'KRDU', 'VFR'),
+  entry('2024-05-01T12:20:00Z', 'KCLT', 'IFR'),
+  entry('2024-05-01T12:50:00Z', 'KRDU', 'LIFR')
+];
+
+const positions = new Map([
+  ['KCLT', { lat: 35.21, lon: -80.94 }],
+  ['KRDU', { lat: 35.88, lon: -78.79 }],
+  ['KGSO', { lat: 36.10, lon: -79.94 }]
+]);
+
+describe('createTimelapseFrames', () => {
+  const frames = createTimelapseFrames(
+    entries,
+    new Date('2024-05-01T12:00:00Z'),
+    new Date('2024-05-01T13:00:00Z'),
+    30
+  );
+
+  it('should step through the range', () => {
+    expect(frames.map(frame => frame.time.toISOString())).toEqual([
+      '2024-05-01T12:00:00.000Z',
+      '2024-05-01T12:30:00.000Z',
+      '2024-05-01T13:00:00.000Z'
+    ]);
+  });
+
+  it('should seed the first frame with entries from before the range', () => {
+    expect(frames[0].entries.get('KCLT')?.flightCategory).toBe('VFR');
+  });
+
+  it('should keep each airport at its newest entry', () => {
+    const categories = frames.map(frame => [...frame.entries.values()].map(e => e.flightCategory));
+    expect(categories).toEqual([['VFR', 'VFR'], ['IFR', 'VFR'], ['IFR', 'LIFR']]);
+  });
+});
+
+describe('createTimelapseSnapshot', () => {
+  const frames = createTimelapseFrames(
+    [...entries, entry('2024-05-01T12:50:00Z', 'KXYZ', 'VFR')],
+    new Date('2024-05-01T13:00:00Z'),
+    new Date('2024-05-01T13:00:00Z'),
+    10
+  );
+
+  it('should color airports through the color mapper', () => {
+    const snapshot = createTimelapseSnapshot(frames[0], 0, positions, mockConfig);
+    const colors = new Map(snapshot.points.map(point => [point.code, point.color]));
+    expect(colors.get('KCLT')).toEqual(mockConfig.colors.ifr);
+    expect(colors.get('KRDU')).toEqual(mockConfig.colors.lifr);
+  });
+
+  it('should draw airports without entries as off, keeping the layout', () => {
+    const snapshot = createTimelapseSnapshot(frames[0], 0, positions, mockConfig);
+    expect(snapshot.points.map(point => point.code)).toEqual(['KCLT', 'KRDU', 'KGSO']);
+    expect(snapshot.points[2].color).toEqual(mockConfig.colors.clear);
+  });
+
+  it('should blink for gusts only past the wind blink threshold', () => {
+    const gusty = createTimelapseFrames(
+      [{ ...entry('2024-05-01T12:50:00Z', 'KCLT', 'VFR'), windGustSpeed: 10 }],
+      new Date('2024-05-01T13:00:00Z'),
+      new Date('2024-05-01T13:00:00Z'),
+      10
+    );
+    const colorOnWindCycle = (config: Config) =>
+      createTimelapseSnapshot(gusty[0], 1, positions, config).points[0].color;
+
+    expect(colorOnWindCycle(mockConfig)).toEqual(mockConfig.colors.vfr);
+    expect(colorOnWindCycle({ ...mockConfig, alwaysBlinkForGusts: true })).not.toEqual(mockConfig.colors.vfr);
+  });
+
+  it('should count logged airports without a position', () => {
+    expect(createTimelapseSnapshot(frames[0], 0, positions, mockConfig).unplaced).toBe(1);
+  });
+
+  it('should show the frame time', () => {
+    expect(createTimelapseSnapshot(frames[0], 0, positions, mockConfig).subtitle).toBe(
+      'Flight category - 2024-05-01 13:00Z'
+    );
+  });
+});
+
+describe('MetarStateManager.readLog', () => {
+  let dir: string;
+  let logPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'metar-log-'));
+    logPath = path.join(dir, 'history.log');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should read the entries in the time range', async () => {
+    fs.writeFileSync(logPath, entries.map(e => JSON.stringify(e)).join('\n') + '\n');
+    const manager = new MetarStateManager(path.join(dir, 'state.json'), logPath);
+
+    const read = await manager.readLog(new Date('2024-05-01T12:00:00Z'), new Date('2024-05-01T12:30:00Z'));
+    expect(read).toEqual([entries[2]]);
+  });
+
+  it('should skip unreadable lines', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    fs.writeFileSync(logPath, `${JSON.stringify(entries[0])}\nnot json\n{"timestamp":"2024-05-01T1`);
+    const manager = new MetarStateManager(path.join(dir, 'state.json'), logPath);
+
+    expect(await manager.readLog()).toEqual([entries[0]]);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Skipped 2'));
+    warn.mockRestore();
+  });
+
+  it('should return nothing when the log does not exist', async () => {
+    const manager = new MetarStateManager(path.join(dir, 'state.json'), logPath);
+    expect(await manager.readLog()).toEqual([]);
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Unit tests for the METAR update scheduler
+ */
+
+import {
+  UpdateScheduler,
+  getIssuanceTime,
+  isInIssuanceWindow,
+  isSpeci
+} from '../src/services/updateScheduler';
+import { AirportConditions, Config, FlightCategory, MetarData } from '../src/types';
+import { mockConfig } from './mockConfig';
+
+const WINDOW = mockConfig.issuanceWindow;
+
+function at(time: string): Date {
+  return new Date(`2026-02-17T${time}Z`);
+}
+
+function metar(icaoId: string, obsTime: Date, type: 'METAR' | 'SPECI' = 'METAR'): MetarData {
+  return {
+    icaoId,
+    rawOb: `${type === 'SPECI' ? 'SPECI ' : ''}${icaoId} 171652Z 20008KT 10SM CLR 22/10 A3012`,
+    receiptTime: '',
+    reportTime: '',
+    obsTime: obsTime.getTime() / 1000,
+    lat: 35.21,
+    lon: -80.94,
+    elev: 0,
+    name: icaoId,
+    metarType: type
+  };
+}
+
+function conditions(flightCategory: FlightCategory, extra: Partial<AirportConditions> = {}): AirportConditions {
+  return {
+    flightCategory,
+    windSpeed: 5,
+    windGustSpeed: 0,
+    windGust: false,
+    lightning: false,
+    ...extra
+  };
+}
+
+function minutes(ms: number): number {
+  return ms / 60000;
+}
+
+describe('isSpeci', () => {
+  it('should use the report type', () => {
+    expect(isSpeci(metar('KCLT', at('16:52:00'), 'SPECI'))).toBe(true);
+    expect(isSpeci(metar('KCLT', at('16:52:00')))).toBe(false);
+  });
+
+  it('should fall back to the raw report', () => {
+    const raw: MetarData = { ...metar('KCLT', at('16:52:00')), metarType: undefined };
+    expect(isSpeci({ ...raw, rawOb: 'SPECI KCLT 171712Z 20008KT 2SM BR OVC004 12/11 A2992' })).toBe(true);
+    expect(isSpeci(raw)).toBe(false);
+  });
+});
+
+describe('getIssuanceTime', () => {
+  it('should return the minute after the window closes', () => {
+    expect(getIssuanceTime(at('17:00:00'), WINDOW)).toEqual(at('17:57:00'));
+    expect(getIssuanceTime(at('17:56:30'), WINDOW)).toEqual(at('17:57:00'));
+  });
+
+  it('should move to the next hour once the window has closed', () => {
+    expect(getIssuanceTime(at('17:57:00'), WINDOW)).toEqual(at('18:57:00'));
+  });
+});
+
+describe('isInIssuanceWindow', () => {
+  it('should include both ends of the window', () => {
+    expect(isInIssuanceWindow(at('17:51:00'), WINDOW)).toBe(true);
+    expect(isInIssuanceWindow(at('17:56:59'), WINDOW)).toBe(true);
+    expect(isInIssuanceWindow(at('17:57:00'), WINDOW)).toBe(false);
+    expect(isInIssuanceWindow(at('17:30:00'), WINDOW)).toBe(false);
+  });
+});
+
+describe('UpdateScheduler', () => {
+  const metars = new Map([['KCLT', metar('KCLT', at('16:52:00'))]]);
+
+  it('should use the fixed interval when adaptive polling is off', () => {
+    const config: Config = { ...mockConfig, adaptivePolling: false };
+    const scheduler = new UpdateScheduler(config);
+    const plan = scheduler.planNext(new Map([['KCLT', conditions('IFR')]]), metars, at('17:54:00'));
+
+    expect(plan.reason).toBe('fixed');
+    expect(plan.aligned).toBe(false);
+    expect(plan.nextUpdate).toEqual(at('17:59:00'));
+  });
+
+  it('should poll faster when an airport is marginal', () => {
+    const scheduler = new UpdateScheduler(mockConfig);
+    const plan = scheduler.planNext(
+      new Map([['KCLT', conditions('VFR')], ['KDEN', conditions('MVFR')]]),
+      metars,
+      at('17:00:00')
+    );
+
+    expect(plan.reason).toBe('marginal');
+    expect(minutes(plan.delayMs)).toBe(2);
+  });
+
+  it('should rank thunderstorms above marginal conditions', () => {
+    const scheduler = new UpdateScheduler(mockConfig);
+    const plan = scheduler.planNext(
+      new Map([['KCLT', conditions('VFR', { lightning: true })], ['KDEN', conditions('IFR')]]),
+      metars,
+      at('17:00:00')
+    );
+
+    expect(plan.reason).toBe('thunderstorm');
+    expect(minutes(plan.delayMs)).toBe(2);
+  });
+
+  it('should back off while everything is VFR and steady', () => {
+    const scheduler = new UpdateScheduler(mockConfig);
+    const steady = new Map([['KCLT', conditions('VFR', { trend: 'steady' })]]);
+    const delays = [1, 2, 3, 4].map(() => minutes(scheduler.planNext(steady, metars, at('17:00:00')).delayMs));
+
+    expect(delays).toEqual([5, 10, 15, 15]);
+
+    // Any change resets the backoff
+    const changing = new Map([['KCLT', conditions('VFR', { previousCategory: 'MVFR', trend: 'improving' })]]);
+    const plan = scheduler.planNext(changing, metars, at('17:00:00'));
+    expect(plan.reason).toBe('normal');
+    expect(minutes(plan.delayMs)).toBe(5);
+    expect(minutes(scheduler.planNext(steady, metars, at('17:00:00')).delayMs)).toBe(5);
+  });
+
+  it('should ignore airports without a category', () => {
+    const scheduler = new UpdateScheduler(mockConfig);
+    const plan = scheduler.planNext(
+      new Map([['KCLT', conditions('VFR')], ['KDEN', conditions(null)]]),
+      metars,
+      at('17:00:00')
+    );
+    expect(plan.reason).toBe('steady');
+  });
+
+  it('should fetch right after the issuance window instead of sleeping through it', () => {
+    const scheduler = new UpdateScheduler({ ...mockConfig, metarUpdateInterval: 15, pollIntervalMax: 30 });
+    const plan = scheduler.planNext(new Map([['KCLT', conditions('VFR')]]), metars, at('17:48:00'));
+
+    expect(plan.aligned).toBe(true);
+    expect(plan.nextUpdate).toEqual(at('17:57:00'));
+    expect(minutes(plan.delayMs)).toBe(9);
+  });
+
+  it('should wait for the window to close at the normal interval', () => {
+    const scheduler = new UpdateScheduler(mockConfig);
+    const plan = scheduler.planNext(new Map([['KCLT', conditions('VFR')]]), metars, at('17:48:00'));
+
+    // 17:53 falls inside the window
+    expect(plan.aligned).toBe(true);
+    expect(plan.nextUpdate).toEqual(at('17:57:00'));
+  });
+
+  it('should keep fast polling inside the window', () => {
+    const scheduler = new UpdateScheduler(mockConfig);
+    const plan = scheduler.planNext(new Map([['KCLT', conditions('IFR')]]), metars, at('17:50:00'));
+
+    expect(plan.aligned).toBe(false);
+    expect(plan.nextUpdate).toEqual(at('17:52:00'));
+  });
+
+  it('should poll faster after a new SPECI', () => {
+    const scheduler = new UpdateScheduler(mockConfig);
+    const vfr = new Map([['KCLT', conditions('VFR')]]);
+
+    // Reports seen at startup do not count
+    const first = scheduler.planNext(vfr, new Map([['KCLT', metar('KCLT', at('16:40:00'), 'SPECI')]]), at('17:00:00'));
+    expect(first.speci).toEqual([]);
+
+    const plan = scheduler.planNext(vfr, new Map([['KCLT', metar('KCLT', at('17:04:00'), 'SPECI')]]), at('17:05:00'));
+    expect(plan.speci).toEqual(['KCLT']);
+    expect(plan.reason).toBe('speci');
+    expect(minutes(plan.delayMs)).toBe(2);
+
+    // The same SPECI again is not new
+    const again = scheduler.planNext(vfr, new Map([['KCLT', metar('KCLT', at('17:04:00'), 'SPECI')]]), at('17:07:00'));
+    expect(again.speci).toEqual([]);
+  });
+
+  it('should hold the normal interval while a SPECI is the newest report', () => {
+    const scheduler = new UpdateScheduler(mockConfig);
+    const steady = new Map([['KCLT', conditions('VFR', { trend: 'steady' })]]);
+    const speci = new Map([['KCLT', metar('KCLT', at('17:04:00'), 'SPECI')]]);
+    const routine = new Map([['KCLT', metar('KCLT', at('17:52:00'))]]);
+
+    scheduler.planNext(steady, metars, at('17:00:00'));
+    expect(scheduler.planNext(steady, speci, at('17:05:00')).reason).toBe('speci');
+
+    const delays = [1, 2, 3].map(() => minutes(scheduler.planNext(steady, speci, at('17:10:00')).delayMs));
+    expect(delays).toEqual([5, 5, 5]);
+
+    // The backoff starts over once a routine report replaces the SPECI
+    const after = [1, 2].map(() => minutes(scheduler.planNext(steady, routine, at('18:00:00')).delayMs));
+    expect(after).toEqual([5, 10]);
+  });
+
+  it('should check for SPECIs within POLL_INTERVAL_MAX plus the issuance window', () => {
+    const steady = new Map([['KCLT', conditions('VFR', { trend: 'steady' })]]);
+    // Backed off updates that would land in the window wait for it to close
+    const worst = mockConfig.pollIntervalMax + WINDOW.end + 1 - WINDOW.start;
+    let longest = 0;
+
+    // Worst case: a SPECI issued just after a fetch waits one full interval
+    for (let minute = 0; minute < 60; minute++) {
+      const scheduler = new UpdateScheduler(mockConfig);
+      let now = new Date(at('17:00:00').getTime() + minute * 60000);
+      for (let update = 0; update < 10; update++) {
+        const plan = scheduler.planNext(steady, metars, now);
+        longest = Math.max(longest, minutes(plan.delayMs));
+        now = plan.nextUpdate;
+      }
+    }
+
+    expect(longest).toBe(worst);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Unit tests for present-weather phenomena decoding
+ */
+
+import {
+  getPriorityWeather,
+  parseWeatherPhenomena,
+  parseWeatherToken
+} from '../src/utils/weatherPhenomena';
+import { detectWeather } from '../src/services/metarService';
+import { MetarData } from '../src/types';
+
+describe('parseWeatherToken', () => {
+  it('should decode freezing rain and drizzle', () => {
+    expect(parseWeatherToken('-FZRA')).toEqual([
+      { phenomenon: 'freezing', intensity: 'light', token: '-FZRA' }
+    ]);
+    expect(parseWeatherToken('FZDZ')[0].phenomenon).toBe('freezing');
+    expect(parseWeatherToken('FZUP')[0].phenomenon).toBe('freezing');
+  });
+
+  it('should treat freezing fog as fog', () => {
+    expect(parseWeatherToken('FZFG')).toEqual([
+      { phenomenon: 'fog', intensity: 'moderate', token: 'FZFG' }
+    ]);
+  });
+
+  it('should decode snow with intensity and descriptors', () => {
+    expect(parseWeatherToken('+SHSN')).toEqual([
+      { phenomenon: 'snow', intensity: 'heavy', token: '+SHSN' }
+    ]);
+    expect(parseWeatherToken('BLSN')[0].phenomenon).toBe('snow');
+    expect(parseWeatherToken('-PL')[0].phenomenon).toBe('snow');
+  });
+
+  it('should decode every phenomenon in a combined group', () => {
+    expect(parseWeatherToken('-FZRASNPL').map(c => c.phenomenon)).toEqual(['freezing', 'snow']);
+    expect(parseWeatherToken('+TSRAGR').map(c => c.phenomenon)).toEqual(['hail']);
+  });
+
+  it('should decode obscurations without intensity', () => {
+    expect(parseWeatherToken('BR')[0]).toEqual({ phenomenon: 'fog', intensity: 'moderate', token: 'BR' });
+    expect(parseWeatherToken('HZ')[0].phenomenon).toBe('haze');
+    expect(parseWeatherToken('FU')[0].phenomenon).toBe('haze');
+  });
+
+  it('should ignore vicinity weather and plain rain', () => {
+    expect(parseWeatherToken('VCFG')).toEqual([]);
+    expect(parseWeatherToken('VCSH')).toEqual([]);
+    expect(parseWeatherToken('-RA')).toEqual([]);
+    expect(parseWeatherToken('TS')).toEqual([]);
+  });
+});
+
+describe('parseWeatherPhenomena', () => {
+  it('should keep the most intense occurrence of each phenomenon', () => {
+    const weather = parseWeatherPhenomena(['-SN', 'BR', '+SN']);
+    expect(weather).toEqual([
+      { phenomenon: 'snow', intensity: 'heavy', token: '+SN' },
+      { phenomenon: 'fog', intensity: 'moderate', token: 'BR' }
+    ]);
+  });
+});
+
+describe('getPriorityWeather', () => {
+  const weather = parseWeatherPhenomena(['-SN', 'FZFG', '-FZDZ']);
+
+  it('should pick the highest priority phenomenon', () => {
+    expect(getPriorityWeather(weather, ['freezing', 'snow', 'fog'])?.phenomenon).toBe('freezing');
+    expect(getPriorityWeather(weather, ['fog', 'freezing'])?.phenomenon).toBe('fog');
+  });
+
+  it('should ignore phenomena missing from the priority list', () => {
+    expect(getPriorityWeather(weather, ['haze', 'hail'])).toBeNull();
+    expect(getPriorityWeather(undefined, ['snow'])).toBeNull();
+  });
+});
+
+describe('detectWeather', () => {
+  const metar: MetarData = {
+    icaoId: 'KBOS',
+    rawOb: 'KBOS 171654Z 04012KT 1/2SM -FZRA FZFG OVC004 M01/M02 A2990',
+    receiptTime: '',
+    reportTime: '',
+    obsTime: 1771347240,
+    lat: 42.36,
+    lon: -71.01,
+    elev: 6,
+    name: 'KBOS'
+  };
+
+  it('should decode the raw observation when wxString is missing', () => {
+    expect(detectWeather(metar).map(w => w.phenomenon)).toEqual(['freezing', 'fog']);
+  });
+
+  it('should prefer wxString when present', () => {
+    expect(detectWeather({ ...metar, wxString: '+SN' })).toEqual([
+      { phenomenon: 'snow', intensity: 'heavy', token: '+SN' }
+    ]);
+  });
+});